@@ -125,6 +125,23 @@ module.exports = {
     }
   },
   
+  MarkdownRenderChild: class {
+    constructor(containerEl) {
+      this.containerEl = containerEl;
+    }
+    register(cb) {}
+    onload() {}
+    onunload() {}
+  },
+  
+  Component: class {
+    load() {}
+    unload() {}
+    addChild(child) { return child; }
+    removeChild(child) { return child; }
+    register(cb) {}
+  },
+  
   TFile: class {
     constructor(path, basename) {
       this.path = path;
@@ -166,6 +183,26 @@ module.exports = {
   // Utilities
   Notice: jest.fn(),
   
+  Events: class {
+    constructor() {
+      this.handlers = [];
+    }
+    on(name, callback, ctx) {
+      const ref = { name, callback, ctx };
+      this.handlers.push(ref);
+      return ref;
+    }
+    off(name, callback) {
+      this.handlers = this.handlers.filter(ref => ref.name !== name || ref.callback !== callback);
+    }
+    offref(ref) {
+      this.handlers = this.handlers.filter(handler => handler !== ref);
+    }
+    trigger(name, ...data) {
+      this.handlers.filter(ref => ref.name === name).forEach(ref => ref.callback.apply(ref.ctx, data));
+    }
+  },
+  
   // Plugin API
   Plugin: class {
     constructor(app, manifest) {
@@ -178,6 +215,9 @@ module.exports = {
     addCommand(command) { return { id: command.id }; }
     addSettingTab(tab) {}
     registerView(type, viewCreator) {}
+    registerMarkdownCodeBlockProcessor(language, handler) {}
+    registerMarkdownPostProcessor(postProcessor) {}
+    registerEditorExtension(extension) {}
     registerEvents() {}
     loadData() { return Promise.resolve({}); }
     saveData(data) { return Promise.resolve(); }
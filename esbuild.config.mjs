@@ -24,6 +24,8 @@ esbuild.build({
   external: [
     "obsidian",
     "electron",
+    "@codemirror/state",
+    "@codemirror/view",
     ...builtins,
   ],
   format: "cjs",
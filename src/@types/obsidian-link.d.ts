@@ -3,6 +3,15 @@ import { WebScraperService } from '../services/web-scraper';
 import { SearchService } from '../services/search';
 import { SearchResult } from 'services/search';
 import { MultiModalService } from '../services/multi-modal';
+import {
+    ObsidianLinkApi as PluginApi,
+    ApiJob as PluginApiJob,
+    ApiMethod as PluginApiMethod,
+    ApiRequestOptions as PluginApiRequestOptions,
+    ApiSearchOptions as PluginApiSearchOptions,
+    ApiSearchResult as PluginApiSearchResult,
+    ApiSearchPassage as PluginApiSearchPassage
+} from '../api';
 
 declare module 'obsidian' {
     interface Workspace {
@@ -28,4 +37,24 @@ declare module 'obsidian-link' {
         onOpen(): void;
         onClose(): void;
     }
+
+    /**
+     * The public API, at app.plugins.plugins['obsidian-link'].api. Check `version` before relying
+     * on a method; its major version only changes when something changes incompatibly.
+     *
+     * - summarize(text, level) with level 'brief', 'standard' or 'detailed'
+     * - search(query, { limit, rerank, signal })
+     * - extractConcepts(file)
+     * - formatCitation(metadata, style) with style such as 'apa', 'mla' or 'bibtex'
+     * - analyzeImage(file, type) with type 'describe', 'ocr', 'identify_objects' or 'extract_information'
+     * - generate(prompt)
+     * - on('job-started' | 'job-finished', (job) => ...) to follow calls as they run
+     */
+    export type ObsidianLinkApi = PluginApi;
+    export type ApiJob = PluginApiJob;
+    export type ApiMethod = PluginApiMethod;
+    export type ApiRequestOptions = PluginApiRequestOptions;
+    export type ApiSearchOptions = PluginApiSearchOptions;
+    export type ApiSearchResult = PluginApiSearchResult;
+    export type ApiSearchPassage = PluginApiSearchPassage;
 }
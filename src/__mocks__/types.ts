@@ -8,6 +8,8 @@ export interface ObsidianLinkSettings {
   geminiApiKey: string;
   openaiApiKey: string;
   anthropicApiKey: string;
+  localBaseUrl: string;
+  localApiKey: string;
 }
 
 export function getApiKeyForVendor(settings: ObsidianLinkSettings, vendor: AIVendor): string {
@@ -18,6 +20,8 @@ export function getApiKeyForVendor(settings: ObsidianLinkSettings, vendor: AIVen
       return settings.openaiApiKey;
     case AIVendor.ANTHROPIC:
       return settings.anthropicApiKey;
+    case AIVendor.LOCAL:
+      return settings.localApiKey;
     default:
       return '';
   }
@@ -1,7 +1,8 @@
 export enum AIVendor {
   GOOGLE = 'google',
   OPENAI = 'openai',
-  ANTHROPIC = 'anthropic'
+  ANTHROPIC = 'anthropic',
+  LOCAL = 'local'
 }
 
 export class AIProvider {
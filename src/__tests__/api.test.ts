@@ -0,0 +1,48 @@
+import { ObsidianLinkApi, ApiJob, API_VERSION } from '../api';
+import { App } from 'obsidian';
+
+jest.mock('obsidian');
+
+describe('ObsidianLinkApi', () => {
+  let api: ObsidianLinkApi;
+  let summarizer: { summarize: jest.Mock };
+  let started: ApiJob[];
+  let finished: ApiJob[];
+
+  beforeEach(() => {
+    summarizer = { summarize: jest.fn().mockResolvedValue('A summary') };
+    api = new ObsidianLinkApi({} as App, {
+      settings: {} as any,
+      summarizer: summarizer as any,
+      searchService: null,
+      conceptDetection: null,
+      citation: null,
+      multiModal: null
+    });
+
+    started = [];
+    finished = [];
+    api.on('job-started', job => started.push(job));
+    api.on('job-finished', job => finished.push(job));
+  });
+
+  it('should report its version', () => {
+    expect(api.version).toBe(API_VERSION);
+  });
+
+  it('should report a job when it starts and when it succeeds', async () => {
+    await expect(api.summarize('Some text', 'brief')).resolves.toBe('A summary');
+
+    expect(summarizer.summarize).toHaveBeenCalledWith('Some text', 'brief', undefined);
+    expect(started).toEqual([expect.objectContaining({ id: 1, method: 'summarize', status: 'running' })]);
+    expect(finished).toEqual([expect.objectContaining({ id: 1, method: 'summarize', status: 'succeeded' })]);
+  });
+
+  it('should report a failed job and reject with its error', async () => {
+    await expect(api.summarize('Some text', 'endless' as any)).rejects.toThrow('Unknown summary level "endless"');
+    await expect(api.search('compost')).rejects.toThrow('Search service is not available');
+
+    expect(finished.map(job => job.status)).toEqual(['failed', 'failed']);
+    expect(finished[1].error).toContain('Search service is not available');
+  });
+});
@@ -58,7 +58,21 @@ describe('ObsidianLinkPlugin', () => {
       temperature: 0.7,
       geminiApiKey: 'mock-api-key',
       openaiApiKey: '',
-      anthropicApiKey: ''
+      anthropicApiKey: '',
+      localBaseUrl: 'http://localhost:11434/v1',
+      localApiKey: '',
+      monthlyBudgetUsd: 0,
+      maxRequestInputTokens: 0,
+      cacheEnabled: false,
+      cacheTtlHours: 0,
+      cacheMaxSizeMb: 0,
+      cacheBypassFeatures: [],
+      featureModels: {},
+      fallbackEnabled: true,
+      fallbackModels: [],
+      embeddingVendor: AIVendor.GOOGLE,
+      embeddingModel: '',
+      promptTemplateFolder: ''
     };
     
     plugin.summarizer = new SummarizerService(plugin.settings) as jest.Mocked<SummarizerService>;
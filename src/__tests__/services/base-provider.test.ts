@@ -0,0 +1,38 @@
+import { ProviderErrorKind, classifyProviderError } from '../../utils/ai-providers/base-provider';
+
+jest.mock('obsidian');
+
+describe('classifyProviderError', () => {
+  const geminiError = (message: string, errorDetails?: object[]) =>
+    Object.assign(new Error(`[GoogleGenerativeAI Error]: Error fetching from https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:generateContent: ${message}`), { errorDetails });
+
+  it('should treat Gemini\'s per-minute limits as rate limits, though they mention the quota', () => {
+    expect(classifyProviderError(geminiError('[429 Too Many Requests] Resource has been exhausted (e.g. check quota).')))
+      .toBe(ProviderErrorKind.RATE_LIMITED);
+    expect(classifyProviderError(geminiError(
+      '[429 Too Many Requests] You exceeded your current quota, please check your plan and billing details. For more information on this error, head to: https://ai.google.dev/gemini-api/docs/rate-limits.',
+      [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '37s' }]
+    ))).toBe(ProviderErrorKind.RATE_LIMITED);
+  });
+
+  it('should treat an error with a delay to wait out as a rate limit', () => {
+    const error = Object.assign(new Error('Quota exceeded for requests per minute'), { headers: { 'retry-after': '20' } });
+
+    expect(classifyProviderError(error)).toBe(ProviderErrorKind.RATE_LIMITED);
+  });
+
+  it('should treat OpenAI\'s insufficient quota as exhausted, though it is sent as a 429', () => {
+    const error = Object.assign(new Error('429 You exceeded your current quota, please check your plan and billing details.'), {
+      status: 429,
+      code: 'insufficient_quota'
+    });
+
+    expect(classifyProviderError(error)).toBe(ProviderErrorKind.QUOTA_EXHAUSTED);
+  });
+
+  it('should treat other quota and billing errors as exhausted', () => {
+    const error = Object.assign(new Error('Your credit balance is too low to access the API. Please go to Plans & Billing.'), { status: 400 });
+
+    expect(classifyProviderError(error)).toBe(ProviderErrorKind.QUOTA_EXHAUSTED);
+  });
+});
@@ -0,0 +1,102 @@
+import { Notice } from 'obsidian';
+import { FallbackProvider } from '../../utils/ai-providers/fallback-provider';
+import {
+  AIProvider,
+  AIProviderSettings,
+  AIVendor,
+  ProviderError,
+  ProviderErrorKind,
+  RequestOptions,
+  showErrorNotice
+} from '../../utils/ai-providers/base-provider';
+
+jest.mock('obsidian');
+
+describe('FallbackProvider', () => {
+  // Models fail with the given kind of error, showing a notice the way the real providers do
+  let failures: Map<string, ProviderErrorKind>;
+  let calls: string[];
+
+  const model = (name: string): AIProviderSettings => ({
+    apiKey: 'key',
+    model: name,
+    maxTokens: 1024,
+    temperature: 0.7,
+    vendor: AIVendor.OPENAI
+  });
+
+  const createProvider = (settings: AIProviderSettings) => ({
+    generateContent: async (prompt: string, options: RequestOptions = {}) => {
+      calls.push(settings.model);
+      const kind = failures.get(settings.model);
+      if (kind) {
+        showErrorNotice(`${settings.model} failed`, 10000, options);
+        throw new ProviderError(`${settings.model} failed`, kind);
+      }
+      return `${settings.model} answered`;
+    }
+  } as unknown as AIProvider);
+
+  const noticeMessages = () => (Notice as unknown as jest.Mock).mock.calls.map(call => call[0]);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (Notice as unknown as jest.Mock).mockClear();
+    failures = new Map();
+    calls = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should fall back when a model is not found and skip it for an hour', async () => {
+    const provider = new FallbackProvider([model('missing-a'), model('backup-a')], createProvider);
+    failures.set('missing-a', ProviderErrorKind.MODEL_NOT_FOUND);
+
+    await expect(provider.generateContent('Hello')).resolves.toBe('backup-a answered');
+    await provider.generateContent('Hello');
+    expect(calls).toEqual(['missing-a', 'backup-a', 'backup-a']);
+
+    jest.advanceTimersByTime(60 * 60 * 1000);
+    await provider.generateContent('Hello');
+    expect(calls.slice(3)).toEqual(['missing-a', 'backup-a']);
+  });
+
+  it('should skip a model returning server errors for only a minute', async () => {
+    const provider = new FallbackProvider([model('flaky-b'), model('backup-b')], createProvider);
+    failures.set('flaky-b', ProviderErrorKind.SERVER_ERROR);
+
+    await provider.generateContent('Hello');
+    jest.advanceTimersByTime(30 * 1000);
+    await provider.generateContent('Hello');
+    jest.advanceTimersByTime(31 * 1000);
+    await provider.generateContent('Hello');
+
+    expect(calls).toEqual(['flaky-b', 'backup-b', 'backup-b', 'flaky-b', 'backup-b']);
+  });
+
+  it('should not fall back from failures that are not the model\'s fault', async () => {
+    const provider = new FallbackProvider([model('locked-c'), model('backup-c')], createProvider);
+    failures.set('locked-c', ProviderErrorKind.AUTHENTICATION);
+
+    await expect(provider.generateContent('Hello')).rejects.toThrow('locked-c failed');
+    expect(calls).toEqual(['locked-c']);
+    expect(noticeMessages()).toEqual(['locked-c failed']);
+  });
+
+  it('should only show the error notices of a failure it doesn\'t recover from', async () => {
+    const provider = new FallbackProvider([model('missing-d'), model('last-d')], createProvider);
+    failures.set('missing-d', ProviderErrorKind.QUOTA_EXHAUSTED);
+
+    await provider.generateContent('Hello');
+    expect(noticeMessages()).toEqual(['missing-d is unavailable, so last-d answered instead']);
+
+    failures.set('last-d', ProviderErrorKind.SERVER_ERROR);
+    await expect(provider.generateContent('Hello')).rejects.toThrow('last-d failed');
+    expect(noticeMessages()).toEqual(['missing-d is unavailable, so last-d answered instead', 'last-d failed']);
+  });
+});
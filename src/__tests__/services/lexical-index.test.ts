@@ -0,0 +1,97 @@
+import { LexicalIndex, LexicalDocument, fuseRankings, tokenize } from '../../services/lexical-index';
+
+describe('LexicalIndex', () => {
+  let index: LexicalIndex;
+
+  const note = (fields: Partial<LexicalDocument>): LexicalDocument => ({
+    title: '',
+    aliases: '',
+    headings: '',
+    tags: '',
+    body: '',
+    ...fields
+  });
+
+  beforeEach(() => {
+    index = LexicalIndex.getInstance();
+    index.clear();
+  });
+
+  afterEach(() => {
+    index.clear();
+  });
+
+  it('should tokenize text into lowercase terms of letters and digits', () => {
+    expect(tokenize('Café-Notes: BM25 ranking, a #project/alpha')).toEqual(['café', 'notes', 'bm25', 'ranking', 'project', 'alpha']);
+  });
+
+  it('should rank notes mentioning a rare term above notes mentioning a common one', () => {
+    index.setDocument('gardening.md', 1, note({ title: 'Gardening', body: 'Notes about tomatoes and compost' }));
+    index.setDocument('cooking.md', 1, note({ title: 'Cooking', body: 'Notes about pasta' }));
+    index.setDocument('travel.md', 1, note({ title: 'Travel', body: 'Notes about trains' }));
+
+    const hits = index.search('notes about compost', 10);
+
+    expect(hits[0].path).toBe('gardening.md');
+    expect(hits[0].score).toBeGreaterThan(hits[1].score * 2);
+  });
+
+  it('should boost matches in the title, aliases, headings and tags over the body', () => {
+    index.setDocument('body.md', 1, note({ title: 'One', body: 'zettelkasten method' }));
+    index.setDocument('title.md', 1, note({ title: 'Zettelkasten', body: 'a method' }));
+    index.setDocument('alias.md', 1, note({ title: 'Two', aliases: 'zettelkasten', body: 'a method' }));
+    index.setDocument('tag.md', 1, note({ title: 'Three', tags: 'zettelkasten', body: 'a method' }));
+    index.setDocument('other.md', 1, note({ title: 'Four', body: 'unrelated' }));
+
+    const paths = index.search('zettelkasten', 10).map(hit => hit.path);
+
+    expect(paths).toHaveLength(4);
+    expect(paths[paths.length - 1]).toBe('body.md');
+  });
+
+  it('should replace, move and forget notes', () => {
+    index.setDocument('draft.md', 1, note({ body: 'first version' }));
+    index.setDocument('draft.md', 2, note({ body: 'second version' }));
+    expect(index.search('first', 10)).toEqual([]);
+    expect(index.isStale('draft.md', 1)).toBe(true);
+    expect(index.isStale('draft.md', 2)).toBe(false);
+
+    index.renameDocument('draft.md', 'final.md');
+    expect(index.search('second', 10).map(hit => hit.path)).toEqual(['final.md']);
+    expect(index.isStale('final.md', 2)).toBe(false);
+
+    index.deleteDocument('final.md');
+    expect(index.search('second', 10)).toEqual([]);
+    expect(index.isEmpty()).toBe(true);
+  });
+
+  it('should leave terms found in most notes out of the query terms', () => {
+    for (let i = 0; i < 10; i++) {
+      index.setDocument(`note-${i}.md`, 1, note({ body: i === 0 ? 'the rare term' : 'the usual words' }));
+    }
+
+    expect(index.getQueryTerms('the rare missing')).toEqual(['missing', 'rare']);
+  });
+
+  it('should find notes like a note by the key terms they share', () => {
+    index.setDocument('compost.md', 1, note({ title: 'Compost', body: 'worms turn kitchen scraps into compost, and worms love the garden' }));
+    index.setDocument('garden.md', 1, note({ title: 'Garden', body: 'the garden needs compost and worms' }));
+    index.setDocument('pasta.md', 1, note({ title: 'Pasta', body: 'kitchen notes for the pasta' }));
+
+    expect(index.getKeyTerms('compost.md', 2)).toEqual(['compost', 'worms']);
+    expect(index.getKeyTerms('compost.md', 10)).not.toContain('turn');
+    expect(index.findSimilar('compost.md', 10).map(hit => hit.path)).toEqual(['garden.md', 'pasta.md']);
+  });
+});
+
+describe('fuseRankings', () => {
+  it('should favour items ranked well in every ranking', () => {
+    const fused = fuseRankings([['a', 'b', 'c'], ['b', 'c', 'd']]);
+
+    expect(fused.map(result => result.item)).toEqual(['b', 'c', 'a', 'd']);
+  });
+
+  it('should score an item ranked first everywhere as 1', () => {
+    expect(fuseRankings([['a', 'b'], ['a']])[0]).toEqual({ item: 'a', score: 1 });
+  });
+});
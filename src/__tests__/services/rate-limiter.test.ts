@@ -0,0 +1,160 @@
+import { RateLimiter, RequestPriority } from '../../services/rate-limiter';
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  // Start a request that stays in flight until the returned finish function is called
+  const startRequest = (
+    started: string[],
+    name: string,
+    options: { model?: string; inputTokens?: number; priority?: RequestPriority; signal?: AbortSignal } = {}
+  ) => {
+    let finish: () => void = () => {};
+    const done = limiter.withRateLimit({ vendor: 'test', model: options.model ?? 'model', ...options }, () => {
+      started.push(name);
+      return new Promise<void>(resolve => finish = resolve);
+    });
+    return { done, finish: () => finish() };
+  };
+
+  // Let queued promise callbacks run
+  const flush = async () => {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    limiter = RateLimiter.getInstance();
+    limiter.clear();
+    limiter.configure('test', { requestsPerWindow: 0, inputTokensPerWindow: 0, maxConcurrent: 0, windowMs: 60000 });
+  });
+
+  afterEach(() => {
+    limiter.clear();
+    jest.useRealTimers();
+  });
+
+  it('should reject requests for an unconfigured vendor', async () => {
+    await expect(limiter.withRateLimit({ vendor: 'unknown', model: 'model' }, async () => 'result'))
+      .rejects.toThrow('No rate limit configuration found for provider: unknown');
+  });
+
+  it('should limit requests over a sliding window rather than resetting at its boundary', async () => {
+    limiter.configure('test', { requestsPerWindow: 2, inputTokensPerWindow: 0, maxConcurrent: 0, windowMs: 60000 });
+    const started: string[] = [];
+
+    startRequest(started, 'first').finish();
+    await flush();
+    jest.advanceTimersByTime(30000);
+    startRequest(started, 'second').finish();
+    startRequest(started, 'third').finish();
+    await flush();
+    expect(started).toEqual(['first', 'second']);
+
+    // The first request leaves the window 60s after it started, not when a fixed window resets
+    jest.advanceTimersByTime(29999);
+    await flush();
+    expect(started).toEqual(['first', 'second']);
+
+    jest.advanceTimersByTime(1);
+    await flush();
+    expect(started).toEqual(['first', 'second', 'third']);
+  });
+
+  it('should hold requests until enough input tokens leave the window', async () => {
+    limiter.configure('test', { requestsPerWindow: 0, inputTokensPerWindow: 1000, maxConcurrent: 0, windowMs: 60000 });
+    const started: string[] = [];
+
+    startRequest(started, 'large', { inputTokens: 800 }).finish();
+    startRequest(started, 'small', { inputTokens: 300 }).finish();
+    await flush();
+    expect(started).toEqual(['large']);
+
+    jest.advanceTimersByTime(60000);
+    await flush();
+    expect(started).toEqual(['large', 'small']);
+  });
+
+  it('should let a request larger than the whole token budget run once the window is empty', async () => {
+    limiter.configure('test', { requestsPerWindow: 0, inputTokensPerWindow: 1000, maxConcurrent: 0, windowMs: 60000 });
+    const started: string[] = [];
+
+    const huge = startRequest(started, 'huge', { inputTokens: 5000 });
+    await flush();
+    expect(started).toEqual(['huge']);
+    huge.finish();
+    await huge.done;
+  });
+
+  it('should limit the number of requests in flight', async () => {
+    limiter.configure('test', { requestsPerWindow: 0, inputTokensPerWindow: 0, maxConcurrent: 1, windowMs: 60000 });
+    const started: string[] = [];
+
+    const first = startRequest(started, 'first');
+    const second = startRequest(started, 'second');
+    await flush();
+    expect(started).toEqual(['first']);
+
+    first.finish();
+    await first.done;
+    await flush();
+    expect(started).toEqual(['first', 'second']);
+    second.finish();
+    await second.done;
+  });
+
+  it('should start queued requests in priority order', async () => {
+    limiter.configure('test', { requestsPerWindow: 0, inputTokensPerWindow: 0, maxConcurrent: 1, windowMs: 60000 });
+    const started: string[] = [];
+
+    const blocker = startRequest(started, 'blocker');
+    const requests = [
+      startRequest(started, 'background', { priority: RequestPriority.BACKGROUND }),
+      startRequest(started, 'normal'),
+      startRequest(started, 'interactive', { priority: RequestPriority.INTERACTIVE })
+    ];
+    await flush();
+
+    blocker.finish();
+    for (const request of [blocker, requests[2], requests[1], requests[0]]) {
+      await flush();
+      request.finish();
+      await request.done;
+    }
+
+    expect(started).toEqual(['blocker', 'interactive', 'normal', 'background']);
+  });
+
+  it('should track limits separately for each model', async () => {
+    limiter.configure('test', { requestsPerWindow: 0, inputTokensPerWindow: 0, maxConcurrent: 1, windowMs: 60000 });
+    const started: string[] = [];
+
+    startRequest(started, 'first', { model: 'a' });
+    startRequest(started, 'second', { model: 'b' });
+    await flush();
+
+    expect(started).toEqual(['first', 'second']);
+  });
+
+  it('should remove an aborted request from the queue', async () => {
+    limiter.configure('test', { requestsPerWindow: 0, inputTokensPerWindow: 0, maxConcurrent: 1, windowMs: 60000 });
+    const started: string[] = [];
+    const controller = new AbortController();
+
+    const blocker = startRequest(started, 'blocker');
+    const aborted = startRequest(started, 'aborted', { signal: controller.signal });
+    const next = startRequest(started, 'next');
+
+    controller.abort();
+    await expect(aborted.done).rejects.toBeDefined();
+
+    blocker.finish();
+    await blocker.done;
+    await flush();
+    expect(started).toEqual(['blocker', 'next']);
+    next.finish();
+    await next.done;
+  });
+});
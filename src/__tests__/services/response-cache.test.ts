@@ -0,0 +1,104 @@
+import { webcrypto } from 'crypto';
+import { TextEncoder } from 'util';
+import { ResponseCache, ResponseCacheOptions } from '../../services/response-cache';
+import { AIFeature, AIProviderSettings, AIVendor } from '../../utils/ai-providers/base-provider';
+
+jest.mock('obsidian');
+
+describe('ResponseCache', () => {
+  let cache: ResponseCache;
+
+  const settings: AIProviderSettings = {
+    apiKey: 'key',
+    model: 'gpt-4o',
+    maxTokens: 1024,
+    temperature: 0.7,
+    vendor: AIVendor.OPENAI,
+    feature: AIFeature.SUMMARIZE
+  };
+
+  const options = (fields: Partial<ResponseCacheOptions> = {}): ResponseCacheOptions => ({
+    enabled: true,
+    ttlMs: 0,
+    maxBytes: 0,
+    bypassFeatures: [],
+    ...fields
+  });
+
+  beforeAll(() => {
+    // Electron provides Web Crypto to Obsidian, but jsdom doesn't
+    Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
+    Object.defineProperty(global, 'TextEncoder', { value: TextEncoder, configurable: true });
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    cache = ResponseCache.getInstance();
+    cache.configure(options());
+    await cache.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should answer an identical request from the cache', async () => {
+    const generate = jest.fn().mockResolvedValue('A summary');
+
+    await cache.getOrCreate(settings, 'Summarize this', [], generate);
+    await expect(cache.getOrCreate(settings, 'Summarize this', [], generate)).resolves.toBe('A summary');
+    await cache.getOrCreate({ ...settings, temperature: 0.2 }, 'Summarize this', [], generate);
+
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should call the AI for features that bypass the cache', async () => {
+    cache.configure(options({ bypassFeatures: [AIFeature.SUMMARIZE] }));
+    const generate = jest.fn().mockResolvedValue('A summary');
+
+    await cache.getOrCreate(settings, 'Summarize this', [], generate);
+    await cache.getOrCreate(settings, 'Summarize this', [], generate);
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(cache.getStats().entries).toBe(0);
+  });
+
+  it('should discard entries older than the time to live', async () => {
+    cache.configure(options({ ttlMs: 1000 }));
+    const key = await cache.getKey(settings, 'Summarize this');
+    cache.set(key, 'A summary');
+
+    jest.advanceTimersByTime(500);
+    expect(cache.get(key)).toBe('A summary');
+
+    jest.advanceTimersByTime(1000);
+    expect(cache.get(key)).toBeNull();
+  });
+
+  it('should evict the least recently used entries above the size limit', async () => {
+    cache.configure(options({ maxBytes: 20 }));
+    const [first, second, third] = await Promise.all(['one', 'two', 'three'].map(prompt => cache.getKey(settings, prompt)));
+
+    cache.set(first, 'x'.repeat(8));
+    cache.set(second, 'y'.repeat(8));
+    cache.get(first);
+    cache.set(third, 'z'.repeat(8));
+
+    expect(cache.get(first)).not.toBeNull();
+    expect(cache.get(second)).toBeNull();
+    expect(cache.get(third)).not.toBeNull();
+  });
+
+  it('should only cache a structured result once it has been validated', async () => {
+    const schema = { type: 'object' as const, properties: { title: { type: 'string' as const } } };
+    const generate = jest.fn()
+      .mockRejectedValueOnce(new Error('Invalid response'))
+      .mockResolvedValue({ title: 'Notes' });
+
+    await expect(cache.getOrCreateStructured(settings, 'Title this', schema, [], generate)).rejects.toThrow('Invalid response');
+    await expect(cache.getOrCreateStructured(settings, 'Title this', schema, [], generate)).resolves.toEqual({ title: 'Notes' });
+    await expect(cache.getOrCreateStructured(settings, 'Title this', schema, [], generate)).resolves.toEqual({ title: 'Notes' });
+
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+});
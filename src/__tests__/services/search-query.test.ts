@@ -0,0 +1,81 @@
+import { FilterableNote, SearchFilterType, matchSearchFilters, parseSearchQuery } from '../../services/search-query';
+
+describe('parseSearchQuery', () => {
+  const now = new Date(2025, 5, 15, 12).getTime();
+  const day = 24 * 60 * 60 * 1000;
+
+  const note = (fields: Partial<FilterableNote>): FilterableNote => ({
+    path: 'Projects/Alpha/Plan.md',
+    tags: [],
+    ctime: now - 30 * day,
+    mtime: now - day,
+    ...fields
+  });
+
+  it('should separate operators from the text to rank by', () => {
+    const parsed = parseSearchQuery('budget tag:#project folder:Projects/ path:plan status:active review', now, new Set(['status']));
+
+    expect(parsed.text).toBe('budget review');
+    expect(parsed.filters.map(filter => [filter.type, filter.value])).toEqual([
+      [SearchFilterType.TAG, 'project'],
+      [SearchFilterType.FOLDER, 'projects'],
+      [SearchFilterType.PATH, 'plan'],
+      [SearchFilterType.PROPERTY, 'active']
+    ]);
+    expect(parsed.filters[3].property).toBe('status');
+  });
+
+  it('should keep quoted phrases in the text and require them', () => {
+    const parsed = parseSearchQuery('"quarterly budget" -draft -"old notes"', now);
+
+    expect(parsed.text).toBe('quarterly budget');
+    expect(parsed.filters).toEqual([
+      { type: SearchFilterType.TEXT, value: 'quarterly budget', negated: false, label: '"quarterly budget"' },
+      { type: SearchFilterType.TEXT, value: 'draft', negated: true, label: '-draft' },
+      { type: SearchFilterType.TEXT, value: 'old notes', negated: true, label: '-"old notes"' }
+    ]);
+  });
+
+  it('should treat invalid operators as text', () => {
+    const parsed = parseSearchQuery('modified:soon tag:# meeting at 10:30', now);
+
+    expect(parsed.text).toBe('modified:soon tag:# meeting at 10:30');
+    expect(parsed.filters).toEqual([]);
+  });
+
+  it('should only treat names of frontmatter properties as property filters', () => {
+    const parsed = parseSearchQuery('see https://example.com TODO:fix status:active', now, new Set(['status']));
+
+    expect(parsed.text).toBe('see https://example.com TODO:fix');
+    expect(parsed.filters.map(filter => [filter.type, filter.property, filter.value])).toEqual([
+      [SearchFilterType.PROPERTY, 'status', 'active']
+    ]);
+  });
+
+  it('should turn ages and dates into time ranges', () => {
+    const [recent, old, after, on] = parseSearchQuery('modified:<7d created:>1y created:>2025-01-01 modified:2025-06-14', now).filters;
+
+    expect([recent.after, recent.before]).toEqual([now - 7 * day, undefined]);
+    expect([old.after, old.before]).toEqual([undefined, now - 365 * day]);
+    expect(after.after).toBe(new Date(2025, 0, 2).getTime());
+    expect(on).toMatchObject({ after: new Date(2025, 5, 14).getTime(), before: new Date(2025, 5, 15).getTime() });
+  });
+
+  it('should describe how a note met each filter', () => {
+    const { filters } = parseSearchQuery('tag:project status:active modified:<7d -archived', now, new Set(['status']));
+
+    expect(matchSearchFilters(filters, note({
+      tags: ['project/alpha'],
+      frontmatter: { Status: ['active', 'review'] },
+      content: 'Current plan'
+    }))).toEqual(['#project/alpha', 'Status: active', 'modified 2025-06-14', '-archived']);
+  });
+
+  it('should reject notes that fail any filter or match an exclusion', () => {
+    const { filters } = parseSearchQuery('folder:projects -tag:#draft', now);
+
+    expect(matchSearchFilters(filters, note({ tags: ['draft'] }))).toBeNull();
+    expect(matchSearchFilters(filters, note({ path: 'Inbox/Plan.md' }))).toBeNull();
+    expect(matchSearchFilters(filters, note({ tags: ['drafting'] }))).toEqual(['folder:projects', '-tag:#draft']);
+  });
+});
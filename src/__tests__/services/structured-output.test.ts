@@ -0,0 +1,97 @@
+import {
+  StructuredOutputError,
+  generateWithRepair,
+  parseJsonResponse,
+  validateAgainstSchema
+} from '../../utils/ai-providers/structured-output';
+import { JsonSchema } from '../../utils/ai-providers/base-provider';
+
+describe('validateAgainstSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      style: { type: 'string', enum: ['apa', 'mla'] },
+      score: { type: 'number', minimum: 0, maximum: 1 },
+      tags: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['title']
+  };
+
+  it('should accept a value matching the schema', () => {
+    expect(validateAgainstSchema({ title: 'Notes', style: 'apa', score: 0.5, tags: ['a'] }, schema)).toEqual([]);
+  });
+
+  it('should list every problem with its path', () => {
+    expect(validateAgainstSchema({ style: 'chicago', score: 2, tags: ['a', 3] }, schema)).toEqual([
+      '$.title is required',
+      '$.style should be one of apa, mla',
+      '$.score should be at most 1',
+      '$.tags[1] should be a string'
+    ]);
+  });
+
+  it('should tell integers from numbers', () => {
+    expect(validateAgainstSchema(1.5, { type: 'integer' })).toEqual(['$ should be an integer']);
+    expect(validateAgainstSchema(1.5, { type: 'number' })).toEqual([]);
+  });
+});
+
+describe('parseJsonResponse', () => {
+  it('should parse JSON inside a code fence', () => {
+    expect(parseJsonResponse('Here you go:\n```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+  });
+
+  it('should fall back to the outermost object or array in prose', () => {
+    expect(parseJsonResponse('The result is {"a": [1, 2]} as requested.')).toEqual({ a: [1, 2] });
+    expect(parseJsonResponse('Tags: ["x", "y"].')).toEqual(['x', 'y']);
+  });
+
+  it('should throw when there is no JSON', () => {
+    expect(() => parseJsonResponse('No JSON here')).toThrow(SyntaxError);
+  });
+});
+
+describe('generateWithRepair', () => {
+  const schema: JsonSchema = { type: 'object', properties: { title: { type: 'string' } }, required: ['title'] };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return a valid first response without repairing it', async () => {
+    const request = jest.fn().mockResolvedValue('{"title": "Notes"}');
+
+    await expect(generateWithRepair('Summarize', schema, {}, request)).resolves.toEqual({ title: 'Notes' });
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request.mock.calls[0][0]).toContain('JSON Schema');
+  });
+
+  it('should send the problems back until the response is valid', async () => {
+    const request = jest.fn()
+      .mockResolvedValueOnce('not json')
+      .mockResolvedValueOnce('{"title": "Notes"}');
+
+    await expect(generateWithRepair('Summarize', schema, {}, request)).resolves.toEqual({ title: 'Notes' });
+    expect(request.mock.calls[1][0]).toContain('Your previous response was not valid');
+    expect(request.mock.calls[1][0]).toContain('not json');
+  });
+
+  it('should give up after the repair attempts', async () => {
+    const request = jest.fn().mockResolvedValue('{}');
+
+    await expect(generateWithRepair('Summarize', schema, { maxRepairAttempts: 1 }, request)).rejects.toThrow(StructuredOutputError);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should wrap schemas that are not objects and unwrap the result', async () => {
+    const request = jest.fn().mockResolvedValue('{"result": ["a", "b"]}');
+
+    await expect(generateWithRepair('List tags', { type: 'array', items: { type: 'string' } }, {}, request)).resolves.toEqual(['a', 'b']);
+    expect(request.mock.calls[0][1]).toMatchObject({ type: 'object', required: ['result'] });
+  });
+});
@@ -1,6 +1,6 @@
 import { SummarizerService } from '../../services/summarizer';
 import { SummaryLevel } from '../../views/summary-view';
-import { AIVendor } from '../../utils/ai-providers';
+import { AIVendor, AIProviderFactory } from '../../utils/ai-providers';
 import { ObsidianLinkSettings } from '../../types';
 
 // Mock the AI provider
@@ -27,9 +27,15 @@ jest.mock('../../utils/ai-providers', () => {
     }
   });
 
+  const mockGenerateContentStream = jest.fn().mockImplementation(async function* () {
+    yield 'This is a ';
+    yield 'streamed summary.';
+  });
+
   const mockProvider = {
     generateText: mockGenerateText,
-    generateContent: mockGenerateContent
+    generateContent: mockGenerateContent,
+    generateContentStream: mockGenerateContentStream
   };
 
   return {
@@ -59,10 +65,30 @@ describe('SummarizerService', () => {
       temperature: 0.7,
       geminiApiKey: 'mock-api-key',
       openaiApiKey: '',
-      anthropicApiKey: ''
+      anthropicApiKey: '',
+      localBaseUrl: 'http://localhost:11434/v1',
+      localApiKey: '',
+      monthlyBudgetUsd: 0,
+      maxRequestInputTokens: 0,
+      cacheEnabled: false,
+      cacheTtlHours: 0,
+      cacheMaxSizeMb: 0,
+      cacheBypassFeatures: [],
+      featureModels: {},
+      fallbackEnabled: true,
+      fallbackModels: [],
+      embeddingVendor: AIVendor.GOOGLE,
+      embeddingModel: '',
+      promptTemplateFolder: ''
     };
 
-    summarizer = new SummarizerService(mockSettings);
+    summarizer = new SummarizerService(AIProviderFactory.createProvider({
+      apiKey: mockSettings.geminiApiKey,
+      model: mockSettings.model,
+      maxTokens: mockSettings.maxTokens,
+      temperature: mockSettings.temperature,
+      vendor: mockSettings.vendor
+    }));
   });
 
   describe('summarize', () => {
@@ -98,6 +124,18 @@ describe('SummarizerService', () => {
     });
   });
 
+  describe('summarizeStream', () => {
+    it('should report the accumulated text as chunks arrive', async () => {
+      const updates: string[] = [];
+      const content = 'This is some test content to summarize.';
+      
+      const result = await summarizer.summarizeStream(content, SummaryLevel.STANDARD, partial => updates.push(partial));
+      
+      expect(updates).toEqual(['This is a ', 'This is a streamed summary.']);
+      expect(result).toBe('This is a streamed summary.');
+    });
+  });
+
   describe('removeTitles', () => {
     // Mock the removeTitles method for testing
     beforeEach(() => {
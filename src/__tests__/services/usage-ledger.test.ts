@@ -0,0 +1,45 @@
+import { UsageLedger, BudgetExceededError } from '../../services/usage-ledger';
+import { AIFeature, AIVendor } from '../../utils/ai-providers';
+
+jest.mock('obsidian');
+
+describe('UsageLedger', () => {
+  let ledger: UsageLedger;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    ledger = UsageLedger.getInstance();
+    ledger.load();
+    // gpt-4o costs $10 per million output tokens, so 100,000 output tokens cost up to $1
+    ledger.setBudget(2.5, 0);
+  });
+
+  afterEach(() => {
+    ledger.setBudget(0, 0);
+    jest.restoreAllMocks();
+  });
+
+  it('should hold the cost of requests in progress against the monthly budget', () => {
+    const first = ledger.checkBudget(AIVendor.OPENAI, 'gpt-4o', 0, 100_000);
+    const second = ledger.checkBudget(AIVendor.OPENAI, 'gpt-4o', 0, 100_000);
+
+    expect(() => ledger.checkBudget(AIVendor.OPENAI, 'gpt-4o', 0, 100_000)).toThrow(BudgetExceededError);
+
+    first.release();
+    second.release();
+  });
+
+  it('should free the held cost once a request is released, counting only what it spent', () => {
+    const first = ledger.checkBudget(AIVendor.OPENAI, 'gpt-4o', 0, 100_000);
+    const second = ledger.checkBudget(AIVendor.OPENAI, 'gpt-4o', 0, 100_000);
+    ledger.record(AIVendor.OPENAI, 'gpt-4o', AIFeature.SUMMARIZE, 0, 10_000);
+    first.release();
+    first.release();
+
+    const third = ledger.checkBudget(AIVendor.OPENAI, 'gpt-4o', 0, 100_000);
+    expect(() => ledger.checkBudget(AIVendor.OPENAI, 'gpt-4o', 0, 100_000)).toThrow(BudgetExceededError);
+
+    second.release();
+    third.release();
+  });
+});
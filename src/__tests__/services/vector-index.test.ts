@@ -0,0 +1,38 @@
+import { chunkNote } from '../../services/vector-index';
+
+jest.mock('obsidian');
+
+describe('chunkNote', () => {
+  it('should split a note at its headings, leaving out the frontmatter', () => {
+    const content = '---\ntags: [plan]\n---\nIntro text\n\n# Goals\nShip it\n\n## Risks ##\nDelays';
+
+    const chunks = chunkNote(content);
+
+    expect(chunks.map(chunk => [chunk.heading, chunk.text])).toEqual([
+      [undefined, 'Intro text'],
+      ['Goals', '# Goals\nShip it'],
+      ['Risks', '## Risks ##\nDelays']
+    ]);
+    chunks.forEach(chunk => expect(content.slice(chunk.start, chunk.end).trim()).toBe(chunk.text));
+  });
+
+  it('should not start a section at a heading inside a code block', () => {
+    const chunks = chunkNote('# Setup\n```bash\n# install\nnpm install\n```');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].heading).toBe('Setup');
+  });
+
+  it('should merge paragraphs up to the chunk size and cut paragraphs longer than it', () => {
+    const paragraph = 'word '.repeat(100).trim();
+    const long = 'x'.repeat(4000);
+
+    const chunks = chunkNote([paragraph, paragraph, paragraph, paragraph, long].join('\n\n'));
+
+    expect(chunks.map(chunk => chunk.text.length)).toEqual([paragraph.length * 2 + 2, paragraph.length * 2 + 2, 1500, 1500, 1000]);
+  });
+
+  it('should return no chunks for an empty note', () => {
+    expect(chunkNote('---\ntitle: Empty\n---\n\n')).toEqual([]);
+  });
+});
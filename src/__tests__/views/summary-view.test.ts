@@ -40,12 +40,26 @@ describe('SummaryView', () => {
       temperature: 0.7,
       geminiApiKey: 'mock-api-key',
       openaiApiKey: '',
-      anthropicApiKey: ''
+      anthropicApiKey: '',
+      localBaseUrl: 'http://localhost:11434/v1',
+      localApiKey: '',
+      monthlyBudgetUsd: 0,
+      maxRequestInputTokens: 0,
+      cacheEnabled: false,
+      cacheTtlHours: 0,
+      cacheMaxSizeMb: 0,
+      cacheBypassFeatures: [],
+      featureModels: {},
+      fallbackEnabled: true,
+      fallbackModels: [],
+      embeddingVendor: AIVendor.GOOGLE,
+      embeddingModel: '',
+      promptTemplateFolder: ''
     };
     
     // Create mock summarizer service
     mockSummarizerService = new SummarizerService(mockSettings) as jest.Mocked<SummarizerService>;
-    mockSummarizerService.summarize = jest.fn().mockResolvedValue('This is a test summary.');
+    mockSummarizerService.summarizeStream = jest.fn().mockResolvedValue('This is a test summary.');
     
     // Create the summary view
     // @ts-ignore - Ignoring constructor argument count for testing
@@ -231,13 +245,18 @@ describe('SummaryView', () => {
       
       await summaryView.generateSummary(content, mockFile);
       
-      expect(mockSummarizerService.summarize).toHaveBeenCalledWith(content, SummaryLevel.DETAILED);
+      expect(mockSummarizerService.summarizeStream).toHaveBeenCalledWith(
+        content,
+        SummaryLevel.DETAILED,
+        expect.any(Function),
+        expect.any(AbortSignal)
+      );
     });
 
     it('should update the UI with the summary', async () => {
       const content = 'Test content';
       const summary = 'Test summary';
-      mockSummarizerService.summarize.mockResolvedValue(summary);
+      mockSummarizerService.summarizeStream.mockResolvedValue(summary);
       
       await summaryView.generateSummary(content, mockFile);
       
@@ -248,7 +267,7 @@ describe('SummaryView', () => {
 
     it('should handle errors during summary generation', async () => {
       const error = new Error('Test error');
-      mockSummarizerService.summarize.mockRejectedValue(error);
+      mockSummarizerService.summarizeStream.mockRejectedValue(error);
       
       // Mock the DOM elements needed for error display
       (summaryView as any).summaryContentEl = {
@@ -264,6 +283,31 @@ describe('SummaryView', () => {
         cls: 'summary-error'
       });
     });
+
+    it('should not keep a partial summary when generation is cancelled', async () => {
+      mockSummarizerService.summarizeStream.mockImplementation(
+        async (_content: string, _level: SummaryLevel, onUpdate?: (partial: string) => void) => {
+          onUpdate?.('Partial');
+          summaryView.cancelGeneration();
+          throw Object.assign(new Error('Request was aborted.'), { name: 'AbortError' });
+        }
+      );
+      
+      // Mock the DOM elements needed to render the partial summary
+      (summaryView as any).summaryContentEl = {
+        empty: jest.fn(),
+        createEl: jest.fn().mockReturnValue({ createEl: jest.fn() }),
+        appendChild: jest.fn()
+      };
+      
+      await summaryView.generateSummary('Test content', mockFile);
+      
+      expect((summaryView as any).currentSummary).toBe('');
+      expect((summaryView as any).summaryContentEl.createEl).toHaveBeenCalledWith('p', {
+        text: 'Summary generation cancelled.',
+        cls: 'summary-cancelled'
+      });
+    });
   });
 
   describe('saveToNote', () => {
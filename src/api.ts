@@ -0,0 +1,266 @@
+import { App, EventRef, Events, TFile } from 'obsidian';
+import { ObsidianLinkSettings, vendorRequiresApiKey } from './types';
+import { AIFeature, AIProviderFactory, isAbortError, resolveProviderSettings, resolveFallbackChain } from './utils/ai-providers';
+import { SummaryLevel } from './views/summary-view';
+import { SummarizerService } from './services/summarizer';
+import { SearchService } from './services/search';
+import { ConceptDetectionService, Concept } from './services/concept-detection';
+import { CitationService, CitationMetadata, CitationStyle, Citation } from './services/citation';
+import { MultiModalService, ImageAnalysisType, ImageAnalysisResult } from './services/multi-modal';
+
+/**
+ * Version of the public API, following semantic versioning: the major version changes only when
+ * a method or result changes incompatibly, and the minor version when something is added
+ */
+export const API_VERSION = '1.0.0';
+
+/**
+ * The API methods, as reported in job events
+ */
+export type ApiMethod = 'summarize' | 'search' | 'extractConcepts' | 'formatCitation' | 'analyzeImage' | 'generate';
+
+/**
+ * One call of an API method, reported when it starts and again when it finishes
+ */
+export interface ApiJob {
+    id: number; // Unique for the session
+    method: ApiMethod;
+    startedAt: number;
+    finishedAt?: number;
+    status: 'running' | 'succeeded' | 'failed' | 'cancelled';
+    error?: string; // The error message of a failed job
+}
+
+/**
+ * Options every API method takes
+ */
+export interface ApiRequestOptions {
+    signal?: AbortSignal; // Cancels the job; it then rejects with the abort error
+}
+
+/**
+ * Options of a search through the API
+ */
+export interface ApiSearchOptions extends ApiRequestOptions {
+    limit?: number; // The most notes to return, at most 20
+    rerank?: boolean; // Whether the AI ranks the results, defaults to true; false ranks on keywords alone and makes no AI request
+}
+
+/**
+ * A passage of a note that matched a search
+ */
+export interface ApiSearchPassage {
+    headingPath: string[]; // The headings the passage sits under, outermost first
+    startLine: number; // Zero-based lines the passage spans, inclusive
+    endLine: number;
+    blockId?: string;
+    text: string;
+    score: number; // Relevance among the note's passages, from 0 to 1
+}
+
+/**
+ * A note that matched a search
+ */
+export interface ApiSearchResult {
+    file: TFile;
+    path: string;
+    title: string;
+    score: number; // From 0 to 1
+    excerpt: string;
+    passages: ApiSearchPassage[]; // Best first
+    matchedFilters: string[]; // How the note met each of the query's operators, e.g. "#project/alpha"
+}
+
+/**
+ * What the API reads its services from. They are replaced when settings change, so they are looked up on each call.
+ */
+export interface ObsidianLinkApiHost {
+    settings: ObsidianLinkSettings;
+    summarizer: SummarizerService | null;
+    searchService: SearchService | null;
+    conceptDetection: ConceptDetectionService | null;
+    citation: CitationService | null;
+    multiModal: MultiModalService | null;
+}
+
+// Search and query text mark highlighted terms this way
+const HIGHLIGHT_MARKERS = /\[\[\/?highlight\]\]/g;
+
+/**
+ * The plugin's features for other plugins and scripts, such as Templater or Dataview, available as
+ * `app.plugins.plugins['obsidian-link'].api`. Every call is reported as a job, with a
+ * `job-started` event when it starts and a `job-finished` event when it succeeds, fails or is cancelled.
+ */
+export class ObsidianLinkApi extends Events {
+    readonly version: string = API_VERSION;
+    private app: App;
+    private host: ObsidianLinkApiHost;
+    private nextJobId = 1;
+
+    constructor(app: App, host: ObsidianLinkApiHost) {
+        super();
+        this.app = app;
+        this.host = host;
+    }
+
+    on(name: 'job-started', callback: (job: ApiJob) => unknown, ctx?: unknown): EventRef;
+    on(name: 'job-finished', callback: (job: ApiJob) => unknown, ctx?: unknown): EventRef;
+    on(name: string, callback: (...data: any[]) => unknown, ctx?: unknown): EventRef {
+        return super.on(name, callback, ctx);
+    }
+
+    /**
+     * Summarize text
+     * @param text The text to summarize
+     * @param level How long the summary should be: 'brief', 'standard' or 'detailed'
+     * @param options Request options
+     * @returns The summary
+     */
+    summarize(text: string, level: SummaryLevel | `${SummaryLevel}` = SummaryLevel.STANDARD, options: ApiRequestOptions = {}): Promise<string> {
+        return this.runJob('summarize', async () => {
+            const summarizer = this.requireService(this.host.summarizer, 'Summarizer');
+            return summarizer.summarize(text, this.parseEnum(SummaryLevel, level, 'summary level'), options.signal);
+        });
+    }
+
+    /**
+     * Search the vault. The query can use operators such as `tag:#project` or `modified:<7d`.
+     * @param query The search query
+     * @param options Search options
+     * @returns The matching notes, best first
+     */
+    search(query: string, options: ApiSearchOptions = {}): Promise<ApiSearchResult[]> {
+        return this.runJob('search', async () => {
+            const searchService = this.requireService(this.host.searchService, 'Search');
+            const results = await searchService.search(query, options.signal, options.rerank ?? true);
+
+            return results.slice(0, options.limit ?? results.length).map(result => ({
+                file: result.file,
+                path: result.path,
+                title: result.title,
+                score: result.score,
+                excerpt: result.excerpt.replace(HIGHLIGHT_MARKERS, ''),
+                passages: result.passages.map(passage => ({
+                    headingPath: passage.headingPath,
+                    startLine: passage.startLine,
+                    endLine: passage.endLine,
+                    blockId: passage.blockId,
+                    text: passage.excerpt.replace(HIGHLIGHT_MARKERS, ''),
+                    score: passage.score
+                })),
+                matchedFilters: result.matchedFilters ?? []
+            }));
+        });
+    }
+
+    /**
+     * Extract the key concepts of a note
+     * @param file The note, or its path
+     * @param options Request options
+     * @returns The concepts, without related notes
+     */
+    extractConcepts(file: TFile | string, options: ApiRequestOptions = {}): Promise<Concept[]> {
+        return this.runJob('extractConcepts', async () => {
+            const conceptDetection = this.requireService(this.host.conceptDetection, 'Concept detection');
+            return conceptDetection.extractConcepts(this.resolveFile(file), options.signal);
+        });
+    }
+
+    /**
+     * Format a citation in a citation style, filling in what the metadata lacks where possible
+     * @param metadata What is known about the source
+     * @param style The citation style, e.g. 'apa', 'mla' or 'bibtex'
+     * @param options Request options
+     * @returns The formatted citation and in-text citation
+     */
+    formatCitation(metadata: CitationMetadata, style: CitationStyle | `${CitationStyle}` = CitationStyle.APA, options: ApiRequestOptions = {}): Promise<Citation> {
+        return this.runJob('formatCitation', async () => {
+            const citation = this.requireService(this.host.citation, 'Citation');
+            return citation.formatCitation(metadata, this.parseEnum(CitationStyle, style, 'citation style'), options.signal);
+        });
+    }
+
+    /**
+     * Analyze an image in the vault
+     * @param file The image, or its path
+     * @param type The analysis: 'describe', 'ocr', 'identify_objects' or 'extract_information'
+     * @param options Request options
+     * @returns The analysis
+     */
+    analyzeImage(file: TFile | string, type: ImageAnalysisType | `${ImageAnalysisType}` = ImageAnalysisType.DESCRIBE, options: ApiRequestOptions = {}): Promise<ImageAnalysisResult> {
+        return this.runJob('analyzeImage', async () => {
+            const multiModal = this.requireService(this.host.multiModal, 'Image analysis');
+            return multiModal.analyzeImage(this.resolveFile(file), this.parseEnum(ImageAnalysisType, type, 'image analysis type'), options.signal);
+        });
+    }
+
+    /**
+     * Generate text from a prompt with the model configured for other requests, so scripts get the
+     * same vendor, fallbacks, rate limits, budget and usage tracking as the plugin's own features
+     * @param prompt The prompt
+     * @param options Request options
+     * @returns The generated text
+     */
+    generate(prompt: string, options: ApiRequestOptions = {}): Promise<string> {
+        return this.runJob('generate', async () => {
+            const providerSettings = resolveProviderSettings(this.host.settings, AIFeature.OTHER);
+            if (!providerSettings.apiKey && vendorRequiresApiKey(providerSettings.vendor)) {
+                throw new Error(`No API key set for ${providerSettings.vendor}. Please check your settings.`);
+            }
+
+            const provider = AIProviderFactory.createProviderWithFallback(resolveFallbackChain(this.host.settings, providerSettings));
+            return provider.generateContent(prompt, { signal: options.signal });
+        });
+    }
+
+    /**
+     * Run an API call as a job, reporting when it starts and finishes
+     */
+    private async runJob<T>(method: ApiMethod, run: () => Promise<T>): Promise<T> {
+        const job: ApiJob = { id: this.nextJobId++, method, startedAt: Date.now(), status: 'running' };
+        this.trigger('job-started', { ...job });
+
+        try {
+            const result = await run();
+            job.status = 'succeeded';
+            return result;
+        } catch (error) {
+            job.status = isAbortError(error) ? 'cancelled' : 'failed';
+            job.error = error instanceof Error ? error.message : String(error);
+            throw error;
+        } finally {
+            job.finishedAt = Date.now();
+            this.trigger('job-finished', { ...job });
+        }
+    }
+
+    private requireService<T>(service: T | null, name: string): T {
+        if (!service) {
+            throw new Error(`${name} service is not available. Please check your API key and settings.`);
+        }
+        return service;
+    }
+
+    private resolveFile(file: TFile | string): TFile {
+        if (file instanceof TFile) {
+            return file;
+        }
+
+        const resolved = this.app.vault.getAbstractFileByPath(file);
+        if (!(resolved instanceof TFile)) {
+            throw new Error(`File not found: ${file}`);
+        }
+        return resolved;
+    }
+
+    /**
+     * Check that a value passed by a script is one of an enum's values
+     */
+    private parseEnum<E extends string>(values: Record<string, E>, value: string, name: string): E {
+        const match = Object.values(values).find(candidate => candidate === value);
+        if (!match) {
+            throw new Error(`Unknown ${name} "${value}". Expected one of: ${Object.values(values).join(', ')}`);
+        }
+        return match;
+    }
+}
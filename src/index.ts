@@ -7,4 +7,4 @@ export * from './services/summarizer';
 export * from './services/search';
 
 // Export utilities
-export * from './utils/gemini-api';
+export * from './utils/ai-providers';
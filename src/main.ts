@@ -1,6 +1,7 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, WorkspaceLeaf, ViewState, addIcon, getAllTags, getLinkpath, normalizePath } from 'obsidian';
+import { App, Editor, ItemView, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, WorkspaceLeaf, ViewState, addIcon, getAllTags, getLinkpath, normalizePath } from 'obsidian';
 import { 
 	ObsidianLinkSettings, 
+	FeatureModelSettings,
 	SummaryLevel,
 	isValidApiKey, 
 	loadApiKeyFromEnvironment, 
@@ -8,20 +9,47 @@ import {
 	MODEL_CATEGORIES,
 	getModelById,
 	getModelCategoriesForVendor,
-	getApiKeyForVendor
+	getApiKeyForVendor,
+	vendorRequiresApiKey,
+	setLocalModels
 } from './types';
-import { AIVendor } from './utils/ai-providers/base-provider';
-import { AIProviderFactory } from './services/ai-provider-factory';
-import { GoogleAIProvider } from './providers/google-ai-provider';
+import { AIFeature, AIVendor } from './utils/ai-providers/base-provider';
+import {
+	AIProviderFactory,
+	LocalProvider,
+	DEFAULT_LOCAL_BASE_URL,
+	isAbortError,
+	resolveProviderSettings,
+	resolveFallbackChain
+} from './utils/ai-providers';
 import { SummarizerService } from './services/summarizer';
 import { SearchService } from './services/search';
+import { HighlighterService, searchHighlightExtension } from './services/highlighter';
 import { WebScraperService } from './services/web-scraper';
 import { ConceptDetectionService } from './services/concept-detection';
 import { MultiModalService } from './services/multi-modal';
 import { CitationService } from './services/citation';
+import { NoteChatService } from './services/note-chat';
+import { ConversationStore } from './services/conversation-store';
+import { SearchStore } from './services/search-store';
+import { RelatedNotesService } from './services/related-notes';
+import { VectorIndex } from './services/vector-index';
+import { IndexUpdater } from './services/index-updater';
+import { LoadingModal } from './modals/loading-modal';
+import { UsageLedger } from './services/usage-ledger';
+import { ResponseCache } from './services/response-cache';
+import { PromptTemplateRegistry, PromptTemplateId, DEFAULT_PROMPT_TEMPLATES } from './services/prompt-templates';
+import { PromptTemplateModal } from './modals/prompt-template-modal';
 
 // Import SummaryView and its type
 import { SummaryView, SUMMARY_VIEW_TYPE } from './views/summary-view';
+import { NoteChatView, NOTE_CHAT_VIEW_TYPE } from './views/note-chat-view';
+import { VaultAnswerView, VAULT_ANSWER_VIEW_TYPE } from './views/vault-answer-view';
+import { SearchView, SEARCH_VIEW_TYPE, SEARCH_CODE_BLOCK_LANGUAGE } from './views/search-view';
+import { SearchCodeBlock } from './views/search-code-block';
+import { UsageReportView, USAGE_REPORT_VIEW_TYPE, formatCost, formatTokens } from './views/usage-report-view';
+import { RelatedNotesView, RELATED_NOTES_VIEW_TYPE } from './views/related-notes-view';
+import { ObsidianLinkApi } from './api';
 
 // Type declarations are now handled by the TypeScript configuration
 
@@ -35,7 +63,35 @@ const DEFAULT_SETTINGS: ObsidianLinkSettings = {
 	// Vendor-specific API keys
 	geminiApiKey: '',
 	openaiApiKey: '',
-	anthropicApiKey: ''
+	anthropicApiKey: '',
+	
+	// Local OpenAI-compatible server
+	localBaseUrl: DEFAULT_LOCAL_BASE_URL,
+	localApiKey: '',
+	
+	// Budget caps (0 means no limit)
+	monthlyBudgetUsd: 0,
+	maxRequestInputTokens: 0,
+	
+	// Response cache
+	cacheEnabled: true,
+	cacheTtlHours: 24 * 7,
+	cacheMaxSizeMb: 50,
+	cacheBypassFeatures: [],
+	
+	// Per-feature vendor/model overrides (anything unset inherits the defaults above)
+	featureModels: {},
+	
+	// Models to fall back to when the selected one is unavailable
+	fallbackEnabled: true,
+	fallbackModels: [],
+	
+	// Embeddings for semantic search (an empty model uses the vendor's default)
+	embeddingVendor: AIVendor.GOOGLE,
+	embeddingModel: '',
+	
+	// Prompt template overrides
+	promptTemplateFolder: 'Obsidian Link/Prompts'
 }
 
 export default class ObsidianLinkPlugin extends Plugin {
@@ -44,11 +100,20 @@ export default class ObsidianLinkPlugin extends Plugin {
 	
 	// Plugin methods (loadSettings, saveSettings, loadData, saveData) are inherited from the base Plugin class
 	searchService: SearchService | null = null;
+	highlighter: HighlighterService | null = null;
 	webScraper: WebScraperService | null = null;
 	conceptDetection: ConceptDetectionService | null = null;
 	multiModal: MultiModalService | null = null;
 	citation: CitationService | null = null;
+	noteChat: NoteChatService | null = null;
+
+	// For other plugins and scripts, as app.plugins.plugins['obsidian-link'].api
+	api: ObsidianLinkApi;
 	statusBarItemEl: HTMLElement | null = null;
+	indexStatusBarItemEl: HTMLElement | null = null;
+	indexUpdater: IndexUpdater | null = null;
+	private usageSaveTimer: number | null = null;
+	private searchIndexRebuildTimer: number | null = null;
 
 
 
@@ -76,10 +141,10 @@ export default class ObsidianLinkPlugin extends Plugin {
 		return formattedParagraphs.join('\n\n');
 	}
 	
-	// Register the summary view type
+	// Register the plugin's view types
 	registerView(
 		type: string,
-		callback: (leaf: WorkspaceLeaf) => SummaryView
+		callback: (leaf: WorkspaceLeaf) => ItemView
 	) {
 		super.registerView(type, callback);
 	}
@@ -132,6 +197,13 @@ export default class ObsidianLinkPlugin extends Plugin {
 		try {
 			// Load settings first
 			await this.loadSettings();
+			await ResponseCache.getInstance().load(this.app.vault.adapter, this.getDataFolder());
+			await ConversationStore.getInstance().load(this.app.vault.adapter, this.getDataFolder());
+			await SearchStore.getInstance().load(this.app.vault.adapter, this.getDataFolder());
+			await VectorIndex.getInstance().load(this.app.vault.adapter, this.getDataFolder());
+
+			// The API looks services up on each call, so it can exist before they do
+			this.api = new ObsidianLinkApi(this.app, this);
 
 			// Initialize services
 			const initialized = await this.initializeServices();
@@ -140,6 +212,46 @@ export default class ObsidianLinkPlugin extends Plugin {
 				new Notice('Failed to initialize AI services. Please check your API key and settings.');
 			}
 
+			// The usage report works without any AI service, so register it unconditionally
+			this.registerView(
+				USAGE_REPORT_VIEW_TYPE,
+				(leaf) => new UsageReportView(leaf)
+			);
+
+			this.addCommand({
+				id: 'open-usage-report',
+				name: 'Open AI Usage Report',
+				callback: () => this.openUsageReport()
+			});
+
+			// Related notes come from the indexes and the metadata cache, so they need no AI service either
+			const relatedNotes = new RelatedNotesService(this.app, () => this.searchService);
+			this.registerView(
+				RELATED_NOTES_VIEW_TYPE,
+				(leaf) => new RelatedNotesView(leaf, relatedNotes, query => this.openSearchView(query))
+			);
+
+			this.addCommand({
+				id: 'open-related-notes',
+				name: 'Open Related Notes',
+				callback: () => this.openRelatedNotes()
+			});
+
+			this.addCommand({
+				id: 'clear-ai-cache',
+				name: 'Clear AI Cache',
+				callback: async () => {
+					const count = await ResponseCache.getInstance().clear();
+					new Notice(`AI cache cleared (${count} ${count === 1 ? 'response' : 'responses'})`);
+				}
+			});
+
+			this.addCommand({
+				id: 'update-search-index',
+				name: 'Update Search Index',
+				callback: () => this.updateSearchIndex()
+			});
+
 			// Register summary view only if summarizer is available
 			if (this.summarizer) {
 				this.registerView(
@@ -196,6 +308,93 @@ export default class ObsidianLinkPlugin extends Plugin {
 			// This was causing yellow bars to appear when opening files in new tabs
 			// Highlighting is now only applied when explicitly requested from search results
 
+			// Register note chat view only if the chat service is available
+			if (this.noteChat) {
+				this.registerView(
+					NOTE_CHAT_VIEW_TYPE,
+					(leaf) => new NoteChatView(leaf, this.noteChat!)
+				);
+
+				this.addCommand({
+					id: 'chat-with-current-note',
+					name: 'Chat With Current Note',
+					callback: () => this.openNoteChat()
+				});
+
+				this.registerEvent(
+					this.app.workspace.on('file-menu', (menu, file: TFile) => {
+						if (file.extension === 'md') {
+							menu.addItem((item) => {
+								item
+									.setTitle('Chat With Note')
+									.setIcon('message-square')
+									.onClick(() => this.openNoteChat(file));
+							});
+						}
+					})
+				);
+			} else {
+				console.warn('Note chat service not available. Chat view will not be registered.');
+			}
+
+			// Register vault answer view only if the search service is available
+			if (this.searchService && this.highlighter) {
+				this.registerView(
+					VAULT_ANSWER_VIEW_TYPE,
+					(leaf) => new VaultAnswerView(leaf, this.searchService!, this.highlighter!)
+				);
+
+				this.addCommand({
+					id: 'ask-vault',
+					name: 'Ask Your Vault',
+					callback: () => this.openVaultAnswer()
+				});
+
+				this.registerView(
+					SEARCH_VIEW_TYPE,
+					(leaf) => new SearchView(leaf, this.searchService!)
+				);
+
+				this.addCommand({
+					id: 'open-search-view',
+					name: 'Open Search View',
+					callback: () => this.openSearchView()
+				});
+			} else {
+				console.warn('Search service not available. Vault answer and search views will not be registered.');
+			}
+
+			// Embedded searches look the service up on each render, as it is replaced when settings change
+			this.registerMarkdownCodeBlockProcessor(SEARCH_CODE_BLOCK_LANGUAGE, (source, el, ctx) => {
+				ctx.addChild(new SearchCodeBlock(el, this.app, () => this.searchService, source, ctx.sourcePath));
+			});
+
+			// Search highlights are shown in the editor and in reading view; like embedded searches, they look the service up when used
+			this.registerEditorExtension(searchHighlightExtension(path => this.highlighter?.clearHighlightsForFile(path)));
+			this.registerMarkdownPostProcessor((el, ctx) => this.highlighter?.highlightRenderedSection(el, ctx));
+
+			this.addCommand({
+				id: 'next-search-match',
+				name: 'Go to Next Search Match',
+				callback: () => this.goToSearchMatch(1)
+			});
+
+			this.addCommand({
+				id: 'previous-search-match',
+				name: 'Go to Previous Search Match',
+				callback: () => this.goToSearchMatch(-1)
+			});
+
+			this.addCommand({
+				id: 'clear-search-highlights',
+				name: 'Clear Search Highlights',
+				callback: () => this.highlighter?.clearAllHighlights()
+			});
+
+			// Conversations are stored by note path, so keep them with their notes
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => ConversationStore.getInstance().rename(oldPath, file.path)));
+			this.registerEvent(this.app.vault.on('delete', file => ConversationStore.getInstance().delete(file.path)));
+
 			// Add command for summarizing current document
 			this.addCommand({
 				id: 'summarize-current-document',
@@ -269,9 +468,11 @@ export default class ObsidianLinkPlugin extends Plugin {
 						return;
 					}
 					
+					const searchService = this.searchService;
 					try {
-						new Notice('Searching...');
-						const results = await this.searchService.search(selection);
+						const results = await LoadingModal.run(this.app, 'Searching...', signal =>
+							searchService.search(selection, signal)
+						);
 						
 						if (results.length === 0) {
 							new Notice('No relevant results found');
@@ -280,12 +481,16 @@ export default class ObsidianLinkPlugin extends Plugin {
 						
 						try {
 							const { SearchResultsModal } = await import('./views/search-results-modal');
-							new SearchResultsModal(this.app, results, this.searchService).open();
+							new SearchResultsModal(this.app, results, this.searchService, selection).open();
 						} catch (error) {
 							console.error('Failed to load search results modal:', error);
 							new Notice('Search results feature not available');
 						}
 					} catch (error: unknown) {
+						if (isAbortError(error)) {
+							new Notice('Search cancelled');
+							return;
+						}
 						console.error('Error performing search:', error);
 						new Notice('Failed to perform search. Please try again.');
 					}
@@ -307,9 +512,11 @@ export default class ObsidianLinkPlugin extends Plugin {
 						return;
 					}
 					
+					const conceptDetection = this.conceptDetection;
 					try {
-						new Notice('Detecting concepts...');
-						const concepts = await this.conceptDetection.extractConcepts(currentFile);
+						const concepts = await LoadingModal.run(this.app, 'Detecting concepts...', signal =>
+							conceptDetection.extractConcepts(currentFile, signal)
+						);
 						
 						if (concepts.length === 0) {
 							new Notice('No significant concepts detected');
@@ -324,6 +531,10 @@ export default class ObsidianLinkPlugin extends Plugin {
 							new Notice('Concept display feature not available');
 						}
 					} catch (error: unknown) {
+						if (isAbortError(error)) {
+							new Notice('Concept detection cancelled');
+							return;
+						}
 						console.error('Error detecting concepts:', error);
 						new Notice('Failed to detect concepts. Please try again.');
 					}
@@ -381,9 +592,11 @@ export default class ObsidianLinkPlugin extends Plugin {
 						return;
 					}
 					
+					const citation = this.citation;
 					try {
-						new Notice('Scanning for citations...');
-						const citations = await this.citation.scanTextForCitations(selection);
+						const citations = await LoadingModal.run(this.app, 'Scanning for citations...', signal =>
+							citation.scanTextForCitations(selection, undefined, signal)
+						);
 						
 						// Convert Citation[] to CitationCandidate[]
 						const citationCandidates = citations.map((citation, index) => ({
@@ -407,6 +620,10 @@ export default class ObsidianLinkPlugin extends Plugin {
 							new Notice('Citation scanning feature not available');
 						}
 					} catch (error: unknown) {
+						if (isAbortError(error)) {
+							new Notice('Citation scan cancelled');
+							return;
+						}
 						console.error('Error scanning for citations:', error);
 						new Notice('Failed to scan for citations. Please try again.');
 					}
@@ -419,10 +636,54 @@ export default class ObsidianLinkPlugin extends Plugin {
 			// Add status bar item
 			this.statusBarItemEl = this.addStatusBarItem();
 			
-			// Set initial status
-			const vendor = this.settings.vendor;
-			const model = this.settings.model;
-			this.statusBarItemEl.setText(`${vendor} - ${model}`);
+			// Show the running usage total and open the full report on click
+			this.statusBarItemEl.addClass('mod-clickable');
+			this.statusBarItemEl.addEventListener('click', () => this.openUsageReport());
+			this.updateStatusBar();
+
+			// Refresh the total and persist the ledger whenever a request is recorded
+			this.register(UsageLedger.getInstance().onChange(() => {
+				this.updateStatusBar();
+				this.scheduleUsageSave();
+			}));
+
+			// Keep the plugin's indexes fresh as notes change, showing progress while a batch is processed
+			this.indexStatusBarItemEl = this.addStatusBarItem();
+			this.indexUpdater = new IndexUpdater(
+				this.app,
+				() => this.searchService?.getIncrementalIndexes() ?? [],
+				(done, total) => this.updateIndexStatusBar(done, total)
+			);
+
+			// Prompt overrides are vault files, which can only be read once the vault is indexed
+			this.app.workspace.onLayoutReady(() => {
+				PromptTemplateRegistry.getInstance().loadOverrides(this.app.vault, this.settings.promptTemplateFolder);
+
+				// The vault reports every file as created while it loads, so only listen once it has
+				const indexUpdater = this.indexUpdater!;
+				this.registerEvent(this.app.vault.on('create', file => indexUpdater.onFileChanged(file)));
+				this.registerEvent(this.app.vault.on('modify', file => indexUpdater.onFileChanged(file)));
+				this.registerEvent(this.app.metadataCache.on('changed', file => indexUpdater.onFileChanged(file)));
+				this.registerEvent(this.app.vault.on('rename', (file, oldPath) => indexUpdater.onFileRenamed(file, oldPath)));
+				this.registerEvent(this.app.vault.on('delete', file => indexUpdater.onFileDeleted(file.path)));
+				// Queries take "name:value" for a property filter only where some note has the property
+				this.registerEvent(this.app.metadataCache.on('changed', file => this.searchService?.updateNoteProperties(file)));
+				this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.searchService?.renameNoteProperties(oldPath, file.path)));
+				this.registerEvent(this.app.vault.on('delete', file => this.searchService?.deleteNoteProperties(file.path)));
+				indexUpdater.queueStaleFiles();
+			});
+
+			// Pick up edits to override files without a restart
+			const reloadPromptTemplates = (path: string, oldPath?: string) => {
+				const registry = PromptTemplateRegistry.getInstance();
+				if (registry.isOverridePath(path) || (oldPath && registry.isOverridePath(oldPath))) {
+					registry.reload();
+				}
+			};
+			this.registerEvent(this.app.vault.on('create', file => reloadPromptTemplates(file.path)));
+			this.registerEvent(this.app.vault.on('modify', file => reloadPromptTemplates(file.path)));
+			this.registerEvent(this.app.vault.on('delete', file => reloadPromptTemplates(file.path)));
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => reloadPromptTemplates(file.path, oldPath)));
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 			console.error('Error initializing Obsidian Link plugin:', error);
@@ -432,6 +693,230 @@ export default class ObsidianLinkPlugin extends Plugin {
 
 	onunload() {
 		console.log('Unloading Gemini Link plugin');
+
+		// Flush usage recorded since the last save
+		if (this.usageSaveTimer !== null) {
+			window.clearTimeout(this.usageSaveTimer);
+			this.usageSaveTimer = null;
+			this.saveData(this.settings);
+		}
+		if (this.searchIndexRebuildTimer !== null) {
+			window.clearTimeout(this.searchIndexRebuildTimer);
+		}
+		this.indexUpdater?.stop();
+		ResponseCache.getInstance().flush();
+		ConversationStore.getInstance().flush();
+		SearchStore.getInstance().flush();
+		VectorIndex.getInstance().flush();
+	}
+
+	/**
+	 * The folder Obsidian installed the plugin into, where it keeps its data
+	 */
+	getDataFolder(): string {
+		return this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+	}
+
+	/**
+	 * Show the active vendor and model with the running usage total
+	 */
+	updateStatusBar() {
+		if (!this.statusBarItemEl) return;
+
+		const totals = UsageLedger.getInstance().getTotals();
+		const tokens = formatTokens(totals.promptTokens + totals.completionTokens);
+		this.statusBarItemEl.setText(`${this.settings.vendor} - ${this.settings.model} | ${tokens} tokens, ${formatCost(totals.costUsd)}`);
+		this.statusBarItemEl.setAttribute('aria-label', 'AI usage since the ledger was last reset. Click for the full report.');
+	}
+
+	/**
+	 * Show how far the background index update has got, hiding the item when it's idle
+	 * @param done Notes processed so far
+	 * @param total Notes queued in this run, 0 when idle
+	 */
+	updateIndexStatusBar(done: number, total: number) {
+		if (!this.indexStatusBarItemEl) return;
+
+		this.indexStatusBarItemEl.setText(total > 0 ? `Indexing ${done}/${total} notes` : '');
+		this.indexStatusBarItemEl.setAttribute('aria-label', 'Updating the search index with changed notes');
+	}
+
+	/**
+	 * Save the usage ledger shortly after the last recorded request,
+	 * so a burst of requests results in a single write
+	 */
+	private scheduleUsageSave() {
+		if (this.usageSaveTimer !== null) {
+			window.clearTimeout(this.usageSaveTimer);
+		}
+
+		this.usageSaveTimer = window.setTimeout(async () => {
+			this.usageSaveTimer = null;
+			await this.saveData(this.settings);
+		}, 2000);
+	}
+
+	/**
+	 * Bring the search index up to date, embedding new and changed notes with progress shown
+	 */
+	async updateSearchIndex() {
+		const searchService = this.searchService;
+		if (!searchService || !searchService.canUseVectorIndex()) {
+			new Notice('Search index unavailable. Please set an embedding model and its API key in settings.');
+			return;
+		}
+
+		// The first run embeds the whole vault, so show how far it has got
+		const progress = new Notice('Updating search index...', 0);
+		try {
+			await LoadingModal.run(this.app, 'Updating search index...', signal =>
+				searchService.updateIndex(signal, (done, total) => progress.setMessage(`Updating search index: ${done} of ${total} notes`))
+			);
+			const { notes, chunks } = VectorIndex.getInstance().getStats();
+			new Notice(`Search index up to date (${notes} notes, ${chunks} passages)`);
+		} catch (error) {
+			if (isAbortError(error)) {
+				new Notice('Search index update cancelled. Notes indexed so far are kept.');
+				return;
+			}
+			console.error('Error updating search index:', error);
+			new Notice(`Failed to update search index: ${error.message}`);
+		} finally {
+			progress.hide();
+		}
+	}
+
+	/**
+	 * Rebuild a search index made with another embedding model shortly after the last settings change,
+	 * so typing a model name doesn't start a rebuild on every key. Vaults without an index are left alone.
+	 */
+	scheduleSearchIndexRebuild() {
+		if (this.searchIndexRebuildTimer !== null) {
+			window.clearTimeout(this.searchIndexRebuildTimer);
+		}
+
+		this.searchIndexRebuildTimer = window.setTimeout(() => {
+			this.searchIndexRebuildTimer = null;
+			if (!VectorIndex.getInstance().isEmpty()) {
+				this.updateSearchIndex();
+			}
+		}, 2000);
+	}
+
+	/**
+	 * Open the usage report in the right sidebar, or focus it if already open
+	 */
+	async openUsageReport() {
+		const { workspace } = this.app;
+		const existing = workspace.getLeavesOfType(USAGE_REPORT_VIEW_TYPE);
+
+		if (existing.length) {
+			workspace.revealLeaf(existing[0]);
+			return;
+		}
+
+		const leaf = workspace.getRightLeaf(false);
+		if (!leaf) {
+			new Notice('Failed to open usage report');
+			return;
+		}
+
+		await leaf.setViewState({ type: USAGE_REPORT_VIEW_TYPE, active: true } as ViewState);
+		workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Open the note chat in the right sidebar, or focus it if already open
+	 * @param file The note to chat about, defaults to the active note
+	 */
+	async openNoteChat(file?: TFile) {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(NOTE_CHAT_VIEW_TYPE)[0] ?? null;
+
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) {
+				new Notice('Failed to open note chat');
+				return;
+			}
+			await leaf.setViewState({ type: NOTE_CHAT_VIEW_TYPE, active: true } as ViewState);
+		}
+
+		workspace.revealLeaf(leaf);
+		if (file && leaf.view instanceof NoteChatView) {
+			leaf.view.setFile(file);
+		}
+	}
+
+	/**
+	 * Open the vault answer view in the right sidebar, or focus it if already open
+	 */
+	async openVaultAnswer() {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VAULT_ANSWER_VIEW_TYPE)[0] ?? null;
+
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) {
+				new Notice('Failed to open vault answers');
+				return;
+			}
+			await leaf.setViewState({ type: VAULT_ANSWER_VIEW_TYPE, active: true } as ViewState);
+		}
+
+		workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Select the next or previous search match highlighted in the active note
+	 * @param direction 1 for the next match, -1 for the previous one
+	 */
+	goToSearchMatch(direction: 1 | -1) {
+		if (!this.highlighter?.goToMatch(direction)) {
+			new Notice('No search highlights in this note');
+		}
+	}
+
+	/**
+	 * Open the related notes view in the right sidebar, or focus it if already open
+	 */
+	async openRelatedNotes() {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(RELATED_NOTES_VIEW_TYPE)[0] ?? null;
+
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) {
+				new Notice('Failed to open related notes');
+				return;
+			}
+			await leaf.setViewState({ type: RELATED_NOTES_VIEW_TYPE, active: true } as ViewState);
+		}
+
+		workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Open the search view in the left sidebar, or focus it if already open
+	 * @param query A query to search for once it is open, without re-ranking the results
+	 */
+	async openSearchView(query?: string) {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(SEARCH_VIEW_TYPE)[0] ?? null;
+
+		if (!leaf) {
+			leaf = workspace.getLeftLeaf(false);
+			if (!leaf) {
+				new Notice('Failed to open search view');
+				return;
+			}
+			await leaf.setViewState({ type: SEARCH_VIEW_TYPE, active: true } as ViewState);
+		}
+
+		workspace.revealLeaf(leaf);
+		if (query && leaf.view instanceof SearchView) {
+			await leaf.view.search(query, false);
+		}
 	}
 
 
@@ -439,6 +924,9 @@ export default class ObsidianLinkPlugin extends Plugin {
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
 		
+		// The ledger updates this object in place, so every settings save also persists usage
+		this.settings.usageLedger = UsageLedger.getInstance().load(this.settings.usageLedger);
+		
 		// Try to load API keys from environment if not set in settings
 		// For Google Gemini
 		if (!this.settings.geminiApiKey) {
@@ -481,6 +969,28 @@ export default class ObsidianLinkPlugin extends Plugin {
 				console.warn('Invalid Anthropic API key format found in environment');
 			}
 		}
+		
+		// Discover the models served locally so the settings UI can offer them
+		const usesLocal = this.settings.vendor === AIVendor.LOCAL
+			|| Object.values(this.settings.featureModels).some(override => override?.vendor === AIVendor.LOCAL);
+		if (usesLocal) {
+			await this.refreshLocalModels();
+		}
+	}
+
+	/**
+	 * Query the local server for its models and update the local model category
+	 * @returns The number of models found, or -1 if the server could not be reached
+	 */
+	async refreshLocalModels(): Promise<number> {
+		try {
+			const models = await LocalProvider.listModels(this.settings.localBaseUrl, this.settings.localApiKey);
+			setLocalModels(models);
+			return models.length;
+		} catch (error) {
+			console.warn(`Could not list models from local server at ${this.settings.localBaseUrl}:`, error);
+			return -1;
+		}
 	}
 
 	async saveSettings() {
@@ -500,33 +1010,45 @@ export default class ObsidianLinkPlugin extends Plugin {
 
 		await this.saveData(this.settings);
 		this.initializeServices();
+		this.updateStatusBar();
 	}
 
 	async initializeServices() {
+		// Budget caps and the response cache apply to every provider, so configure them before any service exists
+		UsageLedger.getInstance().setBudget(this.settings.monthlyBudgetUsd, this.settings.maxRequestInputTokens);
+		ResponseCache.getInstance().configure({
+			enabled: this.settings.cacheEnabled,
+			ttlMs: this.settings.cacheTtlHours * 60 * 60 * 1000,
+			maxBytes: this.settings.cacheMaxSizeMb * 1024 * 1024,
+			bypassFeatures: this.settings.cacheBypassFeatures
+		});
+
 		try {
-			// Get the appropriate API key for the selected vendor
-			const apiKey = getApiKeyForVendor(this.settings, this.settings.vendor);
-			
-			if (!apiKey) {
-				console.log(`No API key available for ${this.settings.vendor}. AI services not initialized.`);
-				new Notice(`Please set your ${this.settings.vendor} API key in the plugin settings.`);
-				return false;
+			// Keyword search works offline, so search is available before any API key is set
+			this.searchService = new SearchService(this.settings, this.app);
+			this.highlighter = new HighlighterService(this.app, this.searchService);
+
+			// Every vendor a feature is routed to needs an API key, not just the default one
+			for (const feature of Object.values(AIFeature)) {
+				const { vendor, apiKey } = resolveProviderSettings(this.settings, feature);
+				if (!apiKey && vendorRequiresApiKey(vendor)) {
+					console.log(`No API key available for ${vendor}. AI services not initialized.`);
+					new Notice(`Please set your ${vendor} API key in the plugin settings.`);
+					return false;
+				}
 			}
 
-			// Get AI provider from factory with rate limiting
-			const aiProvider = AIProviderFactory.getInstance().getProvider(
-				this.settings.vendor.toLowerCase(),
-				apiKey,
-				this.settings.model
-			);
+			// Get AI provider from factory; every vendor is rate limited and retried
+			const summarizerSettings = resolveProviderSettings(this.settings, AIFeature.SUMMARIZE);
+			const aiProvider = AIProviderFactory.createProviderWithFallback(resolveFallbackChain(this.settings, summarizerSettings));
 
 			// Initialize services with rate-limited AI provider
 			this.summarizer = new SummarizerService(aiProvider);
 			this.multiModal = new MultiModalService(this.app, this.settings);
 			this.citation = new CitationService(this.settings);
-			this.searchService = new SearchService(this.settings, this.app);
 			this.webScraper = new WebScraperService(this.settings);
 			this.conceptDetection = new ConceptDetectionService(this.app, this.settings);
+			this.noteChat = new NoteChatService(this.app, this.settings);
 			
 			console.log(`AI services initialized successfully with ${this.settings.vendor} provider`);
 			return true;
@@ -540,14 +1062,34 @@ export default class ObsidianLinkPlugin extends Plugin {
 			this.multiModal = null;
 			this.citation = null;
 			this.searchService = null;
+			this.highlighter = null;
 			this.webScraper = null;
 			this.conceptDetection = null;
+			this.noteChat = null;
 			
 			return false;
 		}
 	}
 }
 
+const FEATURE_NAMES: Record<AIFeature, string> = {
+	[AIFeature.SUMMARIZE]: 'Summaries',
+	[AIFeature.SEARCH]: 'Search',
+	[AIFeature.CONCEPTS]: 'Concept detection',
+	[AIFeature.CITATION]: 'Citations',
+	[AIFeature.SCRAPE]: 'Web scraping',
+	[AIFeature.IMAGE]: 'Image analysis',
+	[AIFeature.CHAT]: 'Note chat',
+	[AIFeature.OTHER]: 'Other requests'
+};
+
+const VENDOR_NAMES: Record<AIVendor, string> = {
+	[AIVendor.GOOGLE]: 'Google Gemini',
+	[AIVendor.OPENAI]: 'OpenAI',
+	[AIVendor.ANTHROPIC]: 'Anthropic Claude',
+	[AIVendor.LOCAL]: 'Local (Ollama / llama.cpp / LM Studio)'
+};
+
 interface SearchResult {
     file: TFile;
     preview: string;
@@ -588,6 +1130,7 @@ class ObsidianLinkSettingTab extends PluginSettingTab {
 				dropdown.addOption('google', 'Google Gemini');
 				dropdown.addOption('openai', 'OpenAI');
 				dropdown.addOption('anthropic', 'Anthropic Claude');
+				dropdown.addOption('local', 'Local (Ollama / llama.cpp / LM Studio)');
 				
 				// Set current value
 				dropdown.setValue(this.plugin.settings.vendor);
@@ -597,6 +1140,11 @@ class ObsidianLinkSettingTab extends PluginSettingTab {
 					// Update settings
 					this.plugin.settings.vendor = value as AIVendor;
 					
+					// Local models are only known once the server has been queried
+					if (this.plugin.settings.vendor === AIVendor.LOCAL) {
+						await this.plugin.refreshLocalModels();
+					}
+					
 					// Update the model dropdown with models for this vendor
 					this.display(); // Refresh the entire settings panel
 					
@@ -836,6 +1384,49 @@ class ObsidianLinkSettingTab extends PluginSettingTab {
 		// Initialize validation status for Anthropic
 		updateApiKeyValidationStatus(anthropicKeyContainer, isValidApiKey(this.plugin.settings.anthropicApiKey, AIVendor.ANTHROPIC), !!this.plugin.settings.anthropicApiKey);
 
+		// Add local server settings
+		const localContainer = apiKeysContainer.createDiv();
+		localContainer.addClass('api-key-container');
+		localContainer.style.marginBottom = '16px';
+		
+		new Setting(localContainer)
+			.setName('Local Server URL')
+			.setDesc('Base URL of an OpenAI-compatible server (Ollama, llama.cpp, LM Studio). Vault content never leaves this machine.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_LOCAL_BASE_URL)
+				.setValue(this.plugin.settings.localBaseUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.localBaseUrl = value.trim() || DEFAULT_LOCAL_BASE_URL;
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => 
+				button
+					.setIcon('refresh-cw')
+					.setTooltip('Refresh local models')
+					.onClick(async () => {
+						const count = await this.plugin.refreshLocalModels();
+						if (count < 0) {
+							new Notice(`Could not reach the local server at ${this.plugin.settings.localBaseUrl}`);
+						} else {
+							new Notice(`Found ${count} local model${count === 1 ? '' : 's'}`);
+						}
+						this.display();
+					}));
+		
+		new Setting(localContainer)
+			.setName('Local Server API Key')
+			.setDesc('Optional. Only needed if your local server is configured to require one.')
+			.addText(text => {
+				text.setPlaceholder('Not required')
+					.setValue(this.plugin.settings.localApiKey)
+					.onChange(async (value) => {
+						this.plugin.settings.localApiKey = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = 'password';
+				return text;
+			});
+
 		// Create a container for model selection
 		const modelContainer = containerEl.createDiv();
 		modelContainer.addClass('ai-model-container');
@@ -845,79 +1436,94 @@ class ObsidianLinkSettingTab extends PluginSettingTab {
 		modelHeading.style.marginBottom = '8px';
 		
 		// Get model categories for the current vendor
-		const vendorCategories = getModelCategoriesForVendor(this.plugin.settings.vendor);
+		const vendorCategories = getModelCategoriesForVendor(this.plugin.settings.vendor)
+			.filter(category => category.models.length > 0);
 		
-		// Add model dropdown with available models for the selected vendor
-		const modelSetting = new Setting(modelContainer)
-			.setName('Model')
-			.setDesc(`Select the ${this.plugin.settings.vendor} model to use for AI features`)
-			.addDropdown(dropdown => {
-				// Add model options grouped by category
-				for (const category of vendorCategories) {
-					// Add category as a group header (non-selectable)
-					dropdown.addOption(`--${category.name}--`, `--- ${category.name} ---`);
+		// A local server that has not been reached yet has no model list, so let the user type the name
+		if (this.plugin.settings.vendor === AIVendor.LOCAL && vendorCategories.length === 0) {
+			new Setting(modelContainer)
+				.setName('Model')
+				.setDesc('No models found on the local server. Enter the model name manually or refresh the model list above.')
+				.addText(text => text
+					.setPlaceholder(AIProviderFactory.getDefaultModelForVendor(AIVendor.LOCAL))
+					.setValue(this.plugin.settings.model)
+					.onChange(async (value) => {
+						this.plugin.settings.model = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		} else {
+			// Add model dropdown with available models for the selected vendor
+			const modelSetting = new Setting(modelContainer)
+				.setName('Model')
+				.setDesc(`Select the ${this.plugin.settings.vendor} model to use for AI features`)
+				.addDropdown(dropdown => {
+					// Add model options grouped by category
+					for (const category of vendorCategories) {
+						// Add category as a group header (non-selectable)
+						dropdown.addOption(`--${category.name}--`, `--- ${category.name} ---`);
 					
-					// Add models in this category
-					for (const model of category.models) {
-						dropdown.addOption(model.id, model.name);
+						// Add models in this category
+						for (const model of category.models) {
+							dropdown.addOption(model.id, model.name);
+						}
 					}
-				}
-				
-				// Set the current value if it's available for this vendor, otherwise use the first model
-				const currentModel = this.plugin.settings.model;
-				const modelExists = vendorCategories.some(category => 
-					category.models.some(model => model.id === currentModel));
 				
-				if (modelExists) {
-					dropdown.setValue(currentModel);
-				} else if (vendorCategories.length > 0 && vendorCategories[0].models.length > 0) {
-					// Use the first model of the first category as default
-					const defaultModel = vendorCategories[0].models[0].id;
-					dropdown.setValue(defaultModel);
-					// Update settings with the new default model
-					this.plugin.settings.model = defaultModel;
-					this.plugin.saveSettings();
-				}
+					// Set the current value if it's available for this vendor, otherwise use the first model
+					const currentModel = this.plugin.settings.model;
+					const modelExists = vendorCategories.some(category => 
+						category.models.some(model => model.id === currentModel));
 				
-				// Handle changes
-				dropdown.onChange(async (value: string) => {
-					// Skip category headers
-					if (value.startsWith('--')) {
-						// Reset to previous value
-						dropdown.setValue(this.plugin.settings.model);
-						return;
+					if (modelExists) {
+						dropdown.setValue(currentModel);
+					} else if (vendorCategories.length > 0 && vendorCategories[0].models.length > 0) {
+						// Use the first model of the first category as default
+						const defaultModel = vendorCategories[0].models[0].id;
+						dropdown.setValue(defaultModel);
+						// Update settings with the new default model
+						this.plugin.settings.model = defaultModel;
+						this.plugin.saveSettings();
 					}
+				
+					// Handle changes
+					dropdown.onChange(async (value: string) => {
+						// Skip category headers
+						if (value.startsWith('--')) {
+							// Reset to previous value
+							dropdown.setValue(this.plugin.settings.model);
+							return;
+						}
 					
-					// Update model description
-					const model = getModelById(value);
-					if (model && modelDescEl) {
-						modelDescEl.empty();
-						modelDescEl.textContent = model.description;
-					}
+						// Update model description
+						const model = getModelById(value);
+						if (model && modelDescEl) {
+							modelDescEl.empty();
+							modelDescEl.textContent = model.description;
+						}
 					
-					// Update settings
-					this.plugin.settings.model = value;
-					await this.plugin.saveSettings();
+						// Update settings
+						this.plugin.settings.model = value;
+						await this.plugin.saveSettings();
 					
-					// Reinitialize services with the new model
-					this.plugin.initializeServices();
-				});
+						// Reinitialize services with the new model
+						this.plugin.initializeServices();
+					});
 				
-				return dropdown;
-			});
+					return dropdown;
+				});
 		
-		// Add model description element
-		const modelDescEl = modelContainer.createDiv();
-		modelDescEl.addClass('ai-model-description');
-		modelDescEl.style.marginTop = '8px';
-		modelDescEl.style.marginBottom = '16px';
-		modelDescEl.style.fontSize = '12px';
-		modelDescEl.style.color = 'var(--text-muted)';
+			// Add model description element
+			const modelDescEl = modelContainer.createDiv();
+			modelDescEl.addClass('ai-model-description');
+			modelDescEl.style.marginTop = '8px';
+			modelDescEl.style.marginBottom = '16px';
+			modelDescEl.style.fontSize = '12px';
+			modelDescEl.style.color = 'var(--text-muted)';
 		
-		// Set initial model description
-		const initialModel = getModelById(this.plugin.settings.model);
-		if (initialModel) {
-			modelDescEl.textContent = initialModel.description;
+			// Set initial model description
+			const initialModel = getModelById(this.plugin.settings.model);
+			if (initialModel) {
+				modelDescEl.textContent = initialModel.description;
+			}
 		}
 
 		new Setting(containerEl)
@@ -943,5 +1549,386 @@ class ObsidianLinkSettingTab extends PluginSettingTab {
 					this.plugin.settings.temperature = value;
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName('Automatic Fallback')
+			.setDesc('When a model is not found, out of quota or keeps failing, answer with the next available model instead. Preview models fall back to their stable version automatically.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.fallbackEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.fallbackEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Fallback Models')
+			.setDesc('Comma-separated model IDs to try in order, from any vendor with an API key (e.g., gemini-2.0-flash, gpt-4o-mini)')
+			.addText(text => text
+				.setPlaceholder('gemini-2.0-flash, gpt-4o-mini')
+				.setValue(this.plugin.settings.fallbackModels.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.fallbackModels = value.split(',')
+						.map(model => model.trim())
+						.filter(model => model.length > 0);
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Per-Feature Models' });
+		containerEl.createEl('p', {
+			text: 'Route individual features to a different vendor or model, e.g. a cheap fast model for concept detection and a stronger one for summaries. Anything left empty uses the settings above.',
+			cls: 'setting-item-description'
+		});
+
+		for (const feature of Object.values(AIFeature)) {
+			// Other requests are not tied to a service, so there is nothing to route
+			if (feature !== AIFeature.OTHER) {
+				this.displayFeatureModelSettings(containerEl, feature);
+			}
+		}
+
+		containerEl.createEl('h3', { text: 'Embeddings' });
+		containerEl.createEl('p', {
+			text: 'The model that turns notes into vectors for semantic search. Changing it embeds the indexed notes again, since vectors from different models can\'t be compared.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Embedding Vendor')
+			.setDesc('Anthropic does not offer embeddings. The API key for the vendor must be set above.')
+			.addDropdown(dropdown => {
+				for (const vendor of Object.values(AIVendor)) {
+					if (AIProviderFactory.getEmbeddingModelsForVendor(vendor).length > 0) {
+						dropdown.addOption(vendor, VENDOR_NAMES[vendor]);
+					}
+				}
+
+				dropdown.setValue(this.plugin.settings.embeddingVendor);
+				dropdown.onChange(async (value) => {
+					// A model belongs to the vendor it was chosen for
+					this.plugin.settings.embeddingVendor = value as AIVendor;
+					this.plugin.settings.embeddingModel = '';
+					await this.plugin.saveSettings();
+					this.plugin.scheduleSearchIndexRebuild();
+					this.display();
+				});
+				return dropdown;
+			});
+
+		const embeddingVendor = this.plugin.settings.embeddingVendor;
+		const defaultEmbeddingModel = AIProviderFactory.getDefaultEmbeddingModelForVendor(embeddingVendor);
+		if (embeddingVendor === AIVendor.LOCAL) {
+			// Any embedding model pulled on the server works, so it is typed rather than picked
+			new Setting(containerEl)
+				.setName('Embedding Model')
+				.setDesc(`The embedding model on your local server, e.g. ${AIProviderFactory.getEmbeddingModelsForVendor(AIVendor.LOCAL).join(', ')}`)
+				.addText(text => text
+					.setPlaceholder(defaultEmbeddingModel)
+					.setValue(this.plugin.settings.embeddingModel)
+					.onChange(async (value) => {
+						this.plugin.settings.embeddingModel = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.scheduleSearchIndexRebuild();
+					}));
+		} else {
+			new Setting(containerEl)
+				.setName('Embedding Model')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', `Default (${defaultEmbeddingModel})`);
+					for (const model of AIProviderFactory.getEmbeddingModelsForVendor(embeddingVendor)) {
+						dropdown.addOption(model, model);
+					}
+
+					dropdown.setValue(this.plugin.settings.embeddingModel);
+					dropdown.onChange(async (value) => {
+						this.plugin.settings.embeddingModel = value;
+						await this.plugin.saveSettings();
+						this.plugin.scheduleSearchIndexRebuild();
+					});
+					return dropdown;
+				});
+		}
+
+		const indexStats = VectorIndex.getInstance().getStats();
+		new Setting(containerEl)
+			.setName('Search Index')
+			.setDesc(`${indexStats.notes} notes and ${indexStats.chunks} passages embedded. Build it, and bring it up to date after a sync, with the "Update Search Index" command. Notes edited in Obsidian are updated as they change.`)
+			.addButton(button => button
+				.setButtonText('Rebuild')
+				.setTooltip('Discard every vector, so all notes are embedded again')
+				.onClick(async () => {
+					VectorIndex.getInstance().clear();
+					this.display();
+					await this.plugin.updateSearchIndex();
+					this.display();
+				}));
+
+		containerEl.createEl('h3', { text: 'Budget' });
+
+		new Setting(containerEl)
+			.setName('Monthly Budget (USD)')
+			.setDesc('Refuse AI requests that could take this month\'s estimated spend over this amount. Leave at 0 for no limit.')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(this.plugin.settings.monthlyBudgetUsd ? String(this.plugin.settings.monthlyBudgetUsd) : '')
+				.onChange(async (value) => {
+					const budget = parseFloat(value);
+					this.plugin.settings.monthlyBudgetUsd = isNaN(budget) || budget < 0 ? 0 : budget;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Max Input Tokens per Request')
+			.setDesc('Refuse AI requests whose estimated input is larger than this. Leave at 0 for no limit.')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(this.plugin.settings.maxRequestInputTokens ? String(this.plugin.settings.maxRequestInputTokens) : '')
+				.onChange(async (value) => {
+					const tokens = parseInt(value, 10);
+					this.plugin.settings.maxRequestInputTokens = isNaN(tokens) || tokens < 0 ? 0 : tokens;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Response Cache' });
+
+		new Setting(containerEl)
+			.setName('Cache AI Responses')
+			.setDesc('Reuse the response to an identical request instead of paying for it again, e.g. when re-summarizing an unchanged note')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.cacheEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.cacheEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Cache Lifetime (hours)')
+			.setDesc('Cached responses older than this are discarded. Set to 0 to keep them until the cache is full.')
+			.addText(text => text
+				.setPlaceholder('168')
+				.setValue(String(this.plugin.settings.cacheTtlHours))
+				.onChange(async (value) => {
+					const hours = parseFloat(value);
+					this.plugin.settings.cacheTtlHours = isNaN(hours) || hours < 0 ? 0 : hours;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Maximum Cache Size (MB)')
+			.setDesc('The least recently used responses are removed once the cache grows past this size')
+			.addText(text => text
+				.setPlaceholder('50')
+				.setValue(String(this.plugin.settings.cacheMaxSizeMb))
+				.onChange(async (value) => {
+					const size = parseFloat(value);
+					this.plugin.settings.cacheMaxSizeMb = isNaN(size) || size <= 0 ? DEFAULT_SETTINGS.cacheMaxSizeMb : size;
+					await this.plugin.saveSettings();
+				}));
+
+		// Features whose results should always be fresh can skip the cache
+		for (const feature of Object.values(AIFeature)) {
+			new Setting(containerEl)
+				.setName(`Cache ${FEATURE_NAMES[feature]}`)
+				.addToggle(toggle => toggle
+					.setValue(!this.plugin.settings.cacheBypassFeatures.includes(feature))
+					.onChange(async (value) => {
+						const bypass = this.plugin.settings.cacheBypassFeatures.filter(f => f !== feature);
+						this.plugin.settings.cacheBypassFeatures = value ? bypass : [...bypass, feature];
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		const stats = ResponseCache.getInstance().getStats();
+		new Setting(containerEl)
+			.setName('Clear Cache')
+			.setDesc(`${stats.entries} cached ${stats.entries === 1 ? 'response' : 'responses'} (${(stats.bytes / (1024 * 1024)).toFixed(1)} MB)`)
+			.addButton(button => button
+				.setButtonText('Clear')
+				.onClick(async () => {
+					const count = await ResponseCache.getInstance().clear();
+					new Notice(`AI cache cleared (${count} ${count === 1 ? 'response' : 'responses'})`);
+					this.display();
+				}));
+
+		containerEl.createEl('h3', { text: 'Prompt Templates' });
+
+		new Setting(containerEl)
+			.setName('Template Folder')
+			.setDesc('Markdown files in this folder named after a template (e.g., summarize-chunk.md) replace the built-in prompt. Variables are written as {{content}}. Leave empty to always use the built-in prompts. Press Reload after changing the folder.')
+			.addText(text => text
+				.setPlaceholder('Obsidian Link/Prompts')
+				.setValue(this.plugin.settings.promptTemplateFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.promptTemplateFolder = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('Reload')
+				.setTooltip('Re-read the templates from the folder')
+				.onClick(async () => {
+					await PromptTemplateRegistry.getInstance().loadOverrides(this.app.vault, this.plugin.settings.promptTemplateFolder);
+					this.display();
+				}));
+
+		const registry = PromptTemplateRegistry.getInstance();
+		for (const id of Object.values(PromptTemplateId)) {
+			const definition = DEFAULT_PROMPT_TEMPLATES[id];
+			const problems = registry.getProblems(id);
+
+			let status = 'Built-in';
+			if (problems.length > 0) {
+				status = `Override ignored: ${problems.join('; ')}`;
+			} else if (registry.isOverridden(id)) {
+				status = 'Customized';
+			}
+
+			const setting = new Setting(containerEl)
+				.setName(definition.name)
+				.setDesc(`${definition.description}. ${status}`)
+				.addButton(button => button
+					.setButtonText('Preview')
+					.onClick(() => new PromptTemplateModal(this.app, id).open()))
+				.addButton(button => button
+					.setButtonText(registry.isOverridden(id) || problems.length > 0 ? 'Edit' : 'Customize')
+					.onClick(async () => {
+						try {
+							const file = await registry.createOverride(id);
+							await this.app.workspace.getLeaf(true).openFile(file);
+						} catch (error) {
+							new Notice(`Failed to create template: ${error.message}`);
+						}
+					}));
+
+			if (registry.isOverridden(id) || problems.length > 0) {
+				setting.addButton(button => button
+					.setButtonText('Reset to Default')
+					.setWarning()
+					.onClick(async () => {
+						if (!confirm(`Delete ${registry.getOverridePath(id)} and use the built-in prompt?`)) {
+							return;
+						}
+						await registry.resetOverride(id);
+						this.display();
+					}));
+			}
+		}
+	}
+
+	/**
+	 * Show the vendor, model, temperature and max tokens overrides for one feature
+	 * @param containerEl The element to add the settings to
+	 * @param feature The feature being configured
+	 */
+	private displayFeatureModelSettings(containerEl: HTMLElement, feature: AIFeature): void {
+		const settings = this.plugin.settings;
+		const override = settings.featureModels[feature] ?? {};
+		const resolved = resolveProviderSettings(settings, feature);
+		const inheritedModel = resolved.vendor === settings.vendor
+			? settings.model
+			: AIProviderFactory.getDefaultModelForVendor(resolved.vendor);
+
+		// Unset values inherit the defaults, and a feature with nothing set has no override at all
+		const updateOverride = async (changes: FeatureModelSettings) => {
+			const updated: FeatureModelSettings = { ...settings.featureModels[feature], ...changes };
+			for (const key of Object.keys(updated) as Array<keyof FeatureModelSettings>) {
+				if (updated[key] === undefined) {
+					delete updated[key];
+				}
+			}
+
+			if (Object.keys(updated).length > 0) {
+				settings.featureModels[feature] = updated;
+			} else {
+				delete settings.featureModels[feature];
+			}
+			await this.plugin.saveSettings();
+		};
+
+		const detailsEl = containerEl.createEl('details', { cls: 'feature-model-settings' });
+		detailsEl.createEl('summary', {
+			text: `${FEATURE_NAMES[feature]}: ${VENDOR_NAMES[resolved.vendor]}, ${resolved.model}${Object.keys(override).length === 0 ? ' (default)' : ''}`
+		});
+
+		new Setting(detailsEl)
+			.setName('Vendor')
+			.setDesc('The API key for the vendor must be set above')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', `Default (${VENDOR_NAMES[settings.vendor]})`);
+				for (const vendor of Object.values(AIVendor)) {
+					dropdown.addOption(vendor, VENDOR_NAMES[vendor]);
+				}
+
+				dropdown.setValue(override.vendor ?? '');
+				dropdown.onChange(async (value) => {
+					// A model override belongs to the vendor it was chosen for
+					await updateOverride({ vendor: value ? value as AIVendor : undefined, model: undefined });
+					if (value === AIVendor.LOCAL) {
+						await this.plugin.refreshLocalModels();
+					}
+					this.display();
+				});
+				return dropdown;
+			});
+
+		const categories = getModelCategoriesForVendor(resolved.vendor)
+			.filter(category => category.models.length > 0);
+
+		if (categories.length === 0) {
+			new Setting(detailsEl)
+				.setName('Model')
+				.setDesc('No models found on the local server. Enter the model name manually.')
+				.addText(text => text
+					.setPlaceholder(inheritedModel)
+					.setValue(override.model ?? '')
+					.onChange(async (value) => {
+						await updateOverride({ model: value.trim() || undefined });
+					}));
+		} else {
+			new Setting(detailsEl)
+				.setName('Model')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', `Default (${getModelById(inheritedModel)?.name ?? inheritedModel})`);
+					for (const category of categories) {
+						dropdown.addOption(`--${category.name}--`, `--- ${category.name} ---`);
+						for (const model of category.models) {
+							dropdown.addOption(model.id, model.name);
+						}
+					}
+
+					dropdown.setValue(override.model ?? '');
+					dropdown.onChange(async (value: string) => {
+						// Skip category headers
+						if (value.startsWith('--')) {
+							dropdown.setValue(override.model ?? '');
+							return;
+						}
+
+						await updateOverride({ model: value || undefined });
+						this.display();
+					});
+					return dropdown;
+				});
+		}
+
+		new Setting(detailsEl)
+			.setName('Temperature')
+			.setDesc('Leave empty to use the default')
+			.addText(text => text
+				.setPlaceholder(String(settings.temperature))
+				.setValue(override.temperature !== undefined ? String(override.temperature) : '')
+				.onChange(async (value) => {
+					const temperature = parseFloat(value);
+					await updateOverride({ temperature: isNaN(temperature) || temperature < 0 ? undefined : temperature });
+				}));
+
+		new Setting(detailsEl)
+			.setName('Max Tokens')
+			.setDesc('Leave empty to use the default')
+			.addText(text => text
+				.setPlaceholder(String(settings.maxTokens))
+				.setValue(override.maxTokens !== undefined ? String(override.maxTokens) : '')
+				.onChange(async (value) => {
+					const maxTokens = parseInt(value, 10);
+					await updateOverride({ maxTokens: isNaN(maxTokens) || maxTokens <= 0 ? undefined : maxTokens });
+				}));
 	}
 }
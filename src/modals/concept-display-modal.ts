@@ -1,5 +1,7 @@
 import { App, ButtonComponent, Modal, Notice, Setting, TFile } from 'obsidian';
 import { Concept, ConceptDetectionService } from '../services/concept-detection';
+import { LoadingModal } from './loading-modal';
+import { isAbortError } from '../utils/ai-providers';
 
 export class ConceptDisplayModal extends Modal {
     private concepts: Concept[];
@@ -53,13 +55,18 @@ export class ConceptDisplayModal extends Modal {
                     }
                 }).addEventListener('click', async () => {
                     try {
-                        new Notice(`Finding notes related to "${concept.name}"...`);
-                        const enrichedConcept = await this.conceptService.findRelatedNotes(concept);
+                        const enrichedConcept = await LoadingModal.run(this.app, `Finding notes related to "${concept.name}"...`, signal =>
+                            this.conceptService.findRelatedNotes(concept, signal)
+                        );
                         
                         // Close this modal and open the related notes modal
                         this.close();
                         new RelatedNotesModal(this.app, enrichedConcept).open();
                     } catch (error) {
+                        if (isAbortError(error)) {
+                            new Notice('Search for related notes cancelled');
+                            return;
+                        }
                         console.error('Error finding related notes:', error);
                         new Notice(`Failed to find related notes: ${error.message}`);
                     }
@@ -80,24 +87,28 @@ export class ConceptDisplayModal extends Modal {
                 }
                 
                 try {
-                    new Notice('Generating concept links...');
-                    
                     // Get selected concepts
                     const selectedConceptsArray = this.concepts
                         .filter(c => this.selectedConcepts.has(c.name));
                     
-                    // Generate links for the selected concepts
-                    // First save the selected concepts to the file
+                    // Generate links for the file before touching it, so a cancelled
+                    // or failed run leaves the note unchanged
+                    await LoadingModal.run(this.app, 'Generating concept links...', signal =>
+                        this.conceptService.generateConceptLinks(this.file, signal)
+                    );
+                    
+                    // Then save the selected concepts to the file
                     const currentContent = await this.app.vault.read(this.file);
                     const updatedContent = this.addConceptsToContent(currentContent, selectedConceptsArray);
                     await this.app.vault.modify(this.file, updatedContent);
                     
-                    // Now generate links for the file
-                    await this.conceptService.generateConceptLinks(this.file);
-                    
                     new Notice('Concept links generated successfully');
                     this.close();
                 } catch (error) {
+                    if (isAbortError(error)) {
+                        new Notice('Concept link generation cancelled');
+                        return;
+                    }
                     console.error('Error generating concept links:', error);
                     new Notice(`Failed to generate concept links: ${error.message}`);
                 }
@@ -114,26 +125,29 @@ export class ConceptDisplayModal extends Modal {
                 }
                 
                 try {
-                    new Notice('Enhancing knowledge graph...');
-                    
                     // Get selected concepts
                     const selectedConceptsArray = this.concepts
                         .filter(c => this.selectedConcepts.has(c.name));
                     
-                    // Enhance the knowledge graph with the selected concepts
-                    // First save the selected concepts to the file
+                    // Enhance the knowledge graph for the file before touching it
+                    // Note: This method needs to be implemented in ConceptDetectionService
+                    // For now, we'll just generate concept links as a fallback
+                    await LoadingModal.run(this.app, 'Enhancing knowledge graph...', signal =>
+                        this.conceptService.generateConceptLinks(this.file, signal)
+                    );
+                    
+                    // Then save the selected concepts to the file
                     const currentContent = await this.app.vault.read(this.file);
                     const updatedContent = this.addConceptsToContent(currentContent, selectedConceptsArray);
                     await this.app.vault.modify(this.file, updatedContent);
                     
-                    // Now enhance the knowledge graph for the file
-                    // Note: This method needs to be implemented in ConceptDetectionService
-                    // For now, we'll just generate concept links as a fallback
-                    await this.conceptService.generateConceptLinks(this.file);
-                    
                     new Notice('Knowledge graph enhanced successfully');
                     this.close();
                 } catch (error) {
+                    if (isAbortError(error)) {
+                        new Notice('Knowledge graph enhancement cancelled');
+                        return;
+                    }
                     console.error('Error enhancing knowledge graph:', error);
                     new Notice(`Failed to enhance knowledge graph: ${error.message}`);
                 }
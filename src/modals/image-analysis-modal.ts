@@ -1,6 +1,7 @@
 import { App, ButtonComponent, FileSystemAdapter, Modal, Notice, Setting, TFile, TFolder, MarkdownView, Editor, Events } from 'obsidian';
 import { LoadingModal } from './loading-modal'; // Import the new LoadingModal
 import { MultiModalService, ImageAnalysisResult, ImageAnalysisType } from '../services/multi-modal';
+import { isAbortError } from '../utils/ai-providers';
 
 export class ImageAnalysisModal extends Modal {
     // Add events emitter for communication between components
@@ -246,18 +247,18 @@ export class ImageAnalysisModal extends Modal {
             return null;
         }
 
-        const loadingModal = new LoadingModal(this.app, `Analyzing image for ${analysisType}...`);
-        loadingModal.open();
-
         try {
-            const result = await this.multiModalService.analyzeImage(file, analysisType);
-            return result;
+            return await LoadingModal.run(this.app, `Analyzing image for ${analysisType}...`, signal =>
+                this.multiModalService.analyzeImage(file, analysisType, signal)
+            );
         } catch (error: any) {
+            if (isAbortError(error)) {
+                new Notice('Image analysis cancelled');
+                return null;
+            }
             console.error(`Error during image analysis (${analysisType}):`, error);
             new Notice(`Failed to analyze image for ${analysisType}: ${error.message}`);
             return null;
-        } finally {
-            loadingModal.close();
         }
     }
 
@@ -2,10 +2,40 @@ import { App, Modal } from 'obsidian';
 
 export class LoadingModal extends Modal {
     private message: string;
+    private onCancel?: () => void;
 
-    constructor(app: App, message: string = 'Analyzing image, please wait...') {
+    /**
+     * @param app The Obsidian app
+     * @param message The message to show while loading
+     * @param onCancel Called when the user cancels, either with the Cancel button or by closing the modal.
+     *                 The Cancel button is only shown when this is provided.
+     */
+    constructor(app: App, message: string = 'Analyzing image, please wait...', onCancel?: () => void) {
         super(app);
         this.message = message;
+        this.onCancel = onCancel;
+    }
+
+    /**
+     * Runs a cancellable job while the loading modal is shown.
+     * Cancelling or closing the modal aborts the signal passed to the job.
+     * @param app The Obsidian app
+     * @param message The message to show while loading
+     * @param job The job to run
+     * @returns The job's result
+     */
+    static async run<T>(app: App, message: string, job: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        const controller = new AbortController();
+        const modal = new LoadingModal(app, message, () => controller.abort());
+        modal.open();
+
+        try {
+            return await job(controller.signal);
+        } finally {
+            // The job is finished, so closing the modal must not count as a cancellation
+            modal.onCancel = undefined;
+            modal.close();
+        }
     }
 
     onOpen() {
@@ -22,12 +52,23 @@ export class LoadingModal extends Modal {
         // Loading text
         const loadingText = container.createEl('p', { text: this.message });
         loadingText.addClass('obsidian-link-loading-text');
+
+        // Cancel button
+        if (this.onCancel) {
+            const cancelButton = container.createEl('button', { text: 'Cancel' });
+            cancelButton.addEventListener('click', () => this.close());
+        }
     }
 
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
         contentEl.removeClass('obsidian-link-loading-modal-content');
+
+        // Closing the modal before the job finishes cancels it
+        const onCancel = this.onCancel;
+        this.onCancel = undefined;
+        onCancel?.();
     }
 
     // Method to update the message if needed while the modal is open
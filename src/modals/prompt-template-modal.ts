@@ -0,0 +1,57 @@
+import { App, Modal } from 'obsidian';
+import { DEFAULT_PROMPT_TEMPLATES, PromptTemplateId, PromptTemplateRegistry } from '../services/prompt-templates';
+
+/**
+ * Shows the prompt template currently in effect, the variables it can use and any problems with its override
+ */
+export class PromptTemplateModal extends Modal {
+    private id: PromptTemplateId;
+
+    constructor(app: App, id: PromptTemplateId) {
+        super(app);
+        this.id = id;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const registry = PromptTemplateRegistry.getInstance();
+        const definition = DEFAULT_PROMPT_TEMPLATES[this.id];
+
+        contentEl.empty();
+        contentEl.addClass('obsidian-link-prompt-template-modal');
+
+        contentEl.createEl('h2', { text: definition.name });
+        contentEl.createEl('p', {
+            text: registry.isOverridden(this.id)
+                ? `Using your override from ${registry.getOverridePath(this.id)}`
+                : 'Using the built-in prompt',
+            cls: 'prompt-template-source'
+        });
+
+        const problems = registry.getProblems(this.id);
+        if (problems.length > 0) {
+            const problemsEl = contentEl.createDiv('prompt-template-problems');
+            problemsEl.createEl('p', { text: `Your override at ${registry.getOverridePath(this.id)} is not used because:` });
+            const list = problemsEl.createEl('ul');
+            problems.forEach(problem => list.createEl('li', { text: problem }));
+        }
+
+        const variablesEl = contentEl.createEl('p', { cls: 'prompt-template-variables' });
+        variablesEl.setText(`Variables: ${definition.variables
+            .map(variable => definition.requiredVariables.includes(variable) ? `{{${variable}}} (required)` : `{{${variable}}}`)
+            .join(', ')}`);
+
+        contentEl.createEl('pre', {
+            text: registry.getTemplate(this.id),
+            cls: 'prompt-template-text'
+        });
+
+        const buttonContainer = contentEl.createDiv('prompt-template-buttons');
+        const closeButton = buttonContainer.createEl('button', { text: 'Close' });
+        closeButton.addEventListener('click', () => this.close());
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,67 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { SearchStore } from '../services/search-store';
+
+/**
+ * Asks for the name to save a search under, so it can be re-run and embedded in notes
+ */
+export class SaveSearchModal extends Modal {
+    private name: string;
+
+    constructor(
+        app: App,
+        private query: string
+    ) {
+        super(app);
+        this.name = query;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Save Search' });
+        contentEl.createEl('p', { text: this.query, cls: 'saved-search-query' });
+
+        new Setting(contentEl)
+            .setName('Name')
+            .setDesc('Embed it in a note with a link-search code block containing "saved: <name>"')
+            .addText(text => {
+                text
+                    .setPlaceholder('Search name')
+                    .setValue(this.name)
+                    .onChange(value => {
+                        this.name = value;
+                    });
+                text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+                    if (event.key === 'Enter') {
+                        event.preventDefault();
+                        this.save();
+                    }
+                });
+            });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => this.save()));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    private save() {
+        const name = this.name.trim();
+        if (!name) {
+            new Notice('Please enter a name for the search');
+            return;
+        }
+
+        const store = SearchStore.getInstance();
+        const replaced = store.getSavedSearch(name) !== undefined;
+        store.saveSearch(name, this.query);
+        new Notice(replaced ? `Updated saved search "${name}"` : `Saved search "${name}"`);
+        this.close();
+    }
+}
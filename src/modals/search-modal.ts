@@ -1,6 +1,8 @@
 import { App, Modal, Notice, Setting } from 'obsidian';
 import { SearchService } from '../services/search';
 import { SearchResultsModal } from '../views/search-results-modal';
+import { LoadingModal } from './loading-modal';
+import { isAbortError } from '../utils/ai-providers';
 
 export class SearchModal extends Modal {
     private query: string = '';
@@ -46,12 +48,18 @@ export class SearchModal extends Modal {
 
     private async performSearch() {
         try {
-            const results = await this.searchService.search(this.query);
+            const results = await LoadingModal.run(this.app, 'Searching...', signal =>
+                this.searchService.search(this.query, signal)
+            );
             this.close();
             
             // Open search results in a new modal
-            new SearchResultsModal(this.app, results, this.searchService).open();
+            new SearchResultsModal(this.app, results, this.searchService, this.query).open();
         } catch (error) {
+            if (isAbortError(error)) {
+                new Notice('Search cancelled');
+                return;
+            }
             console.error('Error performing search:', error);
             new Notice('Failed to perform search. Please try again.');
         }
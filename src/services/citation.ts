@@ -1,5 +1,6 @@
-import { ObsidianLinkSettings, getApiKeyForVendor } from '../types';
-import { AIProvider, AIProviderFactory } from '../utils/ai-providers';
+import { ObsidianLinkSettings } from '../types';
+import { AIProvider, AIProviderFactory, AIFeature, JsonSchema, resolveProviderSettings, resolveFallbackChain } from '../utils/ai-providers';
+import { PromptTemplateRegistry, PromptTemplateId } from './prompt-templates';
 
 /**
  * Citation styles supported by the citation generator
@@ -47,6 +48,33 @@ export interface Citation {
     style: CitationStyle;
 }
 
+const METADATA_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string' },
+        authors: { type: 'array', items: { type: 'string' } },
+        date: { type: 'string' },
+        publisher: { type: 'string' },
+        journal: { type: 'string' },
+        volume: { type: 'string' },
+        issue: { type: 'string' },
+        pages: { type: 'string' },
+        doi: { type: 'string' },
+        url: { type: 'string' },
+        contentType: { type: 'string' },
+        language: { type: 'string' }
+    }
+};
+
+const FORMATTED_CITATION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        formattedCitation: { type: 'string', description: 'The full bibliography citation' },
+        inTextCitation: { type: 'string', description: 'The in-text citation format' }
+    },
+    required: ['formattedCitation', 'inTextCitation']
+};
+
 /**
  * Service for generating citations from URLs, DOIs, and other identifiers
  */
@@ -57,33 +85,32 @@ export class CitationService {
     constructor(settings: ObsidianLinkSettings) {
         this.settings = settings;
         
-        // Get the appropriate API key for the selected vendor
-        const apiKey = getApiKeyForVendor(settings, settings.vendor);
-        
-        // Create the AI provider using the factory
-        this.aiProvider = AIProviderFactory.createProvider({
-            apiKey,
-            model: settings.model,
-            maxTokens: settings.maxTokens,
-            temperature: 0.1,  // Lower temperature for more deterministic results
-            vendor: settings.vendor
-        });
+        // Create the AI provider using the factory, with any model override and fallbacks for this feature
+        // Citations default to a low temperature for more deterministic results
+        const providerSettings = resolveProviderSettings(settings, AIFeature.CITATION, { temperature: 0.1 });
+        this.aiProvider = AIProviderFactory.createProviderWithFallback(resolveFallbackChain(settings, providerSettings));
     }
     
     /**
      * Generates a citation from a URL
      * @param url The URL to generate a citation for
      * @param style The citation style to use
+     * @param signal Cancels the requests when triggered
      * @returns A formatted citation
      */
-    async generateCitationFromUrl(url: string, style: CitationStyle = CitationStyle.APA): Promise<Citation> {
+    async generateCitationFromUrl(url: string, style: CitationStyle = CitationStyle.APA, signal?: AbortSignal): Promise<Citation> {
         try {
             // Fetch metadata from the URL
-            const metadata = await this.fetchMetadata(url);
+            const metadata = await this.fetchMetadata(url, signal);
             
             // Generate the citation using the metadata
-            return this.formatCitation(metadata, style);
+            return await this.formatCitation(metadata, style, signal);
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error generating citation from URL:', error);
             throw new Error(`Failed to generate citation: ${error.message}`);
         }
@@ -93,19 +120,25 @@ export class CitationService {
      * Generates a citation from a DOI
      * @param doi The DOI to generate a citation for
      * @param style The citation style to use
+     * @param signal Cancels the requests when triggered
      * @returns A formatted citation
      */
-    async generateCitationFromDOI(doi: string, style: CitationStyle = CitationStyle.APA): Promise<Citation> {
+    async generateCitationFromDOI(doi: string, style: CitationStyle = CitationStyle.APA, signal?: AbortSignal): Promise<Citation> {
         try {
             // Normalize DOI format
             doi = doi.replace(/^https?:\/\/doi.org\//i, '').trim();
             
             // Fetch metadata from the DOI
-            const metadata = await this.fetchDOIMetadata(doi);
+            const metadata = await this.fetchDOIMetadata(doi, signal);
             
             // Generate the citation using the metadata
-            return this.formatCitation(metadata, style);
+            return await this.formatCitation(metadata, style, signal);
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error generating citation from DOI:', error);
             throw new Error(`Failed to generate citation: ${error.message}`);
         }
@@ -115,13 +148,19 @@ export class CitationService {
      * Generates a citation from manually entered metadata
      * @param metadata The citation metadata
      * @param style The citation style to use
+     * @param signal Cancels the request when triggered
      * @returns A formatted citation
      */
-    async generateCitationFromMetadata(metadata: CitationMetadata, style: CitationStyle = CitationStyle.APA): Promise<Citation> {
+    async generateCitationFromMetadata(metadata: CitationMetadata, style: CitationStyle = CitationStyle.APA, signal?: AbortSignal): Promise<Citation> {
         try {
             // Format the citation directly from the provided metadata
-            return this.formatCitation(metadata, style);
+            return await this.formatCitation(metadata, style, signal);
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error generating citation from metadata:', error);
             throw new Error(`Failed to generate citation: ${error.message}`);
         }
@@ -130,9 +169,10 @@ export class CitationService {
     /**
      * Fetches metadata from a URL
      * @param url The URL to fetch metadata from
+     * @param signal Cancels the request when triggered
      * @returns The extracted metadata
      */
-    private async fetchMetadata(url: string): Promise<CitationMetadata> {
+    private async fetchMetadata(url: string, signal?: AbortSignal): Promise<CitationMetadata> {
         try {
             // In a real implementation, we would:
             // 1. Fetch the HTML from the URL
@@ -140,50 +180,21 @@ export class CitationService {
             // 3. Possibly use a library like metascraper or custom DOM parsing
             
             // For now, we'll use the AI to extract likely metadata from the URL pattern
-            const prompt = `
-                Extract likely citation metadata from this URL: ${url}
-                
-                Respond with a valid JSON object containing these potential fields (leave blank if unknown):
-                {
-                  "title": "",
-                  "authors": [],
-                  "date": "",
-                  "publisher": "",
-                  "journal": "",
-                  "volume": "",
-                  "issue": "",
-                  "pages": "",
-                  "doi": "",
-                  "url": "${url}",
-                  "accessDate": "${new Date().toISOString().split('T')[0]}",
-                  "contentType": "",
-                  "language": ""
-                }
-                
-                Make educated guesses based on the URL structure, but do not invent specific titles or content details.
-            `;
+            const prompt = PromptTemplateRegistry.getInstance().render(PromptTemplateId.CITATION_URL_METADATA, { url });
             
-            const response = await this.aiProvider.generateContent(prompt);
+            const metadata = await this.aiProvider.generateStructured<CitationMetadata>(prompt, METADATA_SCHEMA, { signal });
             
-            // Extract JSON from the response
-            const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/) || 
-                              response.match(/\{\s*"title"/);
+            // Ensure URL and access date are included
+            metadata.url = url;
+            metadata.accessDate = new Date().toISOString().split('T')[0];
             
-            if (jsonMatch) {
-                const jsonContent = jsonMatch[1] || jsonMatch[0];
-                const metadata = JSON.parse(jsonContent.replace(/```json|```/g, '').trim());
-                
-                // Ensure URL is included
-                metadata.url = url;
-                
-                // Ensure access date is included
-                metadata.accessDate = metadata.accessDate || new Date().toISOString().split('T')[0];
-                
-                return metadata;
-            } else {
-                throw new Error('Failed to extract metadata from URL');
-            }
+            return metadata;
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error fetching metadata:', error);
             
             // Return basic metadata with just the URL
@@ -197,60 +208,32 @@ export class CitationService {
     /**
      * Fetches metadata from a DOI
      * @param doi The DOI to fetch metadata for
+     * @param signal Cancels the request when triggered
      * @returns The metadata from the DOI
      */
-    private async fetchDOIMetadata(doi: string): Promise<CitationMetadata> {
+    private async fetchDOIMetadata(doi: string, signal?: AbortSignal): Promise<CitationMetadata> {
         try {
             // In a real implementation, we would:
             // 1. Query the DOI API (e.g., https://api.crossref.org/works/{doi})
             // 2. Parse the response to extract metadata
             
             // For now, we'll use the AI to generate likely metadata based on the DOI
-            const prompt = `
-                Extract likely citation metadata from this DOI: ${doi}
-                
-                Respond with a valid JSON object containing these potential fields (leave blank if unknown):
-                {
-                  "title": "",
-                  "authors": [],
-                  "date": "",
-                  "publisher": "",
-                  "journal": "",
-                  "volume": "",
-                  "issue": "",
-                  "pages": "",
-                  "doi": "${doi}",
-                  "url": "https://doi.org/${doi}",
-                  "accessDate": "${new Date().toISOString().split('T')[0]}",
-                  "contentType": "",
-                  "language": ""
-                }
-                
-                Make educated guesses based on the DOI format, but do not invent specific titles or content details.
-            `;
+            const prompt = PromptTemplateRegistry.getInstance().render(PromptTemplateId.CITATION_DOI_METADATA, { doi });
             
-            const response = await this.aiProvider.generateContent(prompt);
+            const metadata = await this.aiProvider.generateStructured<CitationMetadata>(prompt, METADATA_SCHEMA, { signal });
             
-            // Extract JSON from the response
-            const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/) || 
-                              response.match(/\{\s*"title"/);
+            // Ensure DOI, URL and access date are included
+            metadata.doi = doi;
+            metadata.url = metadata.url || `https://doi.org/${doi}`;
+            metadata.accessDate = new Date().toISOString().split('T')[0];
             
-            if (jsonMatch) {
-                const jsonContent = jsonMatch[1] || jsonMatch[0];
-                const metadata = JSON.parse(jsonContent.replace(/```json|```/g, '').trim());
-                
-                // Ensure DOI and URL are included
-                metadata.doi = doi;
-                metadata.url = metadata.url || `https://doi.org/${doi}`;
-                
-                // Ensure access date is included
-                metadata.accessDate = metadata.accessDate || new Date().toISOString().split('T')[0];
-                
-                return metadata;
-            } else {
-                throw new Error('Failed to extract metadata from DOI');
-            }
+            return metadata;
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error fetching DOI metadata:', error);
             
             // Return basic metadata with just the DOI
@@ -266,43 +249,36 @@ export class CitationService {
      * Formats a citation based on metadata and the requested style
      * @param metadata The citation metadata
      * @param style The citation style to use
+     * @param signal Cancels the request when triggered
      * @returns A formatted citation
      */
-    public async formatCitation(metadata: CitationMetadata, style: CitationStyle): Promise<Citation> {
+    public async formatCitation(metadata: CitationMetadata, style: CitationStyle, signal?: AbortSignal): Promise<Citation> {
         try {
             // Create a prompt to generate the citation
-            const prompt = `
-                Generate a citation in ${style.toUpperCase()} style using this metadata:
-                ${JSON.stringify(metadata, null, 2)}
-                
-                Return a JSON object with these properties:
-                {
-                  "formattedCitation": "", // The full bibliography citation
-                  "inTextCitation": "",    // The in-text citation format
-                  "metadata": {},          // The complete normalized metadata
-                  "style": "${style}"      // The citation style used
-                }
-                
-                Follow these rules for ${style.toUpperCase()} style:
-                - Use proper formatting including italics (represented with markdown *italics*)
-                - Include all required elements for the citation style
-                - Format dates according to the style guidelines
-                - For in-text citation, provide the standard format for this style
-            `;
+            const prompt = PromptTemplateRegistry.getInstance().render(PromptTemplateId.CITATION_FORMAT, {
+                style: style.toUpperCase(),
+                metadata: JSON.stringify(metadata, null, 2)
+            });
             
-            const response = await this.aiProvider.generateContent(prompt);
-            
-            // Extract JSON from the response
-            const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/) || 
-                              response.match(/\{\s*"formattedCitation"/);
+            const result = await this.aiProvider.generateStructured<Pick<Citation, 'formattedCitation' | 'inTextCitation'>>(
+                prompt,
+                FORMATTED_CITATION_SCHEMA,
+                { signal }
+            );
             
-            if (jsonMatch) {
-                const jsonContent = jsonMatch[1] || jsonMatch[0];
-                return JSON.parse(jsonContent.replace(/```json|```/g, '').trim());
-            } else {
-                throw new Error('Failed to generate formatted citation');
-            }
+            // The metadata and style are ours, so there's no need to have the model echo them back
+            return {
+                formattedCitation: result.formattedCitation,
+                inTextCitation: result.inTextCitation,
+                metadata: metadata,
+                style: style
+            };
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error formatting citation:', error);
             
             // Return a basic citation
@@ -319,9 +295,10 @@ export class CitationService {
      * Scans text for potential citations and suggests formatted citations
      * @param text The text to scan for citations
      * @param style The citation style to use
+     * @param signal Cancels the outstanding requests when triggered
      * @returns An array of potential citations
      */
-    async scanTextForCitations(text: string, style: CitationStyle = CitationStyle.APA): Promise<Citation[]> {
+    async scanTextForCitations(text: string, style: CitationStyle = CitationStyle.APA, signal?: AbortSignal): Promise<Citation[]> {
         try {
             // Look for URLs and DOIs in the text
             const urlRegex = /(https?:\/\/[^\s]+)/g;
@@ -335,7 +312,7 @@ export class CitationService {
             const uniqueDois = [...new Set(dois)];
             
             // Process DOIs first (they're more reliable)
-            const doiPromises = uniqueDois.map(doi => this.generateCitationFromDOI(doi, style));
+            const doiPromises = uniqueDois.map(doi => this.generateCitationFromDOI(doi, style, signal));
             
             // Filter URLs to exclude those that contain the DOIs
             const filteredUrls = uniqueUrls.filter(url => 
@@ -343,13 +320,18 @@ export class CitationService {
             );
             
             // Process remaining URLs
-            const urlPromises = filteredUrls.map(url => this.generateCitationFromUrl(url, style));
+            const urlPromises = filteredUrls.map(url => this.generateCitationFromUrl(url, style, signal));
             
             // Combine results
             const citations = await Promise.all([...doiPromises, ...urlPromises]);
             
             return citations;
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error scanning for citations:', error);
             throw new Error(`Failed to scan for citations: ${error.message}`);
         }
@@ -1,6 +1,8 @@
 import { App, TFile, TFolder, Vault, getAllTags, MetadataCache } from 'obsidian';
-import { ObsidianLinkSettings, getApiKeyForVendor } from '../types';
-import { AIProvider, AIProviderFactory } from '../utils/ai-providers';
+import { ObsidianLinkSettings } from '../types';
+import { AIProvider, AIProviderFactory, AIFeature, JsonSchema, StructuredOutputError, resolveProviderSettings, resolveFallbackChain } from '../utils/ai-providers';
+import { PromptTemplateRegistry, PromptTemplateId } from './prompt-templates';
+import { RequestPriority } from './rate-limiter';
 
 export interface RelatedNote {
     file: TFile;
@@ -31,6 +33,41 @@ export interface DetectedConcept {
     confidence?: number;
 }
 
+interface ExtractedConcept {
+    name: string;
+    description: string;
+    confidence: number;
+}
+
+interface RelevanceResult {
+    isRelevant: boolean;
+    relevance?: number;
+    explanation?: string;
+}
+
+const CONCEPTS_SCHEMA: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            name: { type: 'string', description: 'A descriptive name (2-4 words)' },
+            description: { type: 'string', description: 'A brief description (1-2 sentences)' },
+            confidence: { type: 'number', minimum: 0, maximum: 1 }
+        },
+        required: ['name', 'description', 'confidence']
+    }
+};
+
+const RELEVANCE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        isRelevant: { type: 'boolean' },
+        relevance: { type: 'number', minimum: 0, maximum: 1, description: 'Only when isRelevant is true' },
+        explanation: { type: 'string', description: 'Only when isRelevant is true' }
+    },
+    required: ['isRelevant']
+};
+
 export class ConceptDetectionService {
     private aiProvider: AIProvider;
     private settings: ObsidianLinkSettings;
@@ -44,25 +81,18 @@ export class ConceptDetectionService {
         this.vault = app.vault;
         this.metadataCache = app.metadataCache;
         
-        // Get the appropriate API key for the selected vendor
-        const apiKey = getApiKeyForVendor(settings, settings.vendor);
-        
-        // Create the AI provider using the factory
-        this.aiProvider = AIProviderFactory.createProvider({
-            apiKey,
-            model: settings.model,
-            maxTokens: settings.maxTokens,
-            temperature: settings.temperature,
-            vendor: settings.vendor
-        });
+        // Create the AI provider using the factory, with any model override and fallbacks for this feature
+        const providerSettings = resolveProviderSettings(settings, AIFeature.CONCEPTS);
+        this.aiProvider = AIProviderFactory.createProviderWithFallback(resolveFallbackChain(settings, providerSettings));
     }
 
     /**
      * Extracts key concepts from a note
      * @param file The file to analyze
+     * @param signal Cancels the request when triggered
      * @returns A list of key concepts found in the note
      */
-    async extractConcepts(file: TFile): Promise<Concept[]> {
+    async extractConcepts(file: TFile, signal?: AbortSignal): Promise<Concept[]> {
         try {
             // Read file content
             const content = await this.vault.cachedRead(file);
@@ -71,69 +101,29 @@ export class ConceptDetectionService {
             const fileCache = this.metadataCache.getFileCache(file);
             const tags = fileCache ? getAllTags(fileCache) || [] : [];
             
-            const prompt = `
-                Analyze the following note and identify the key concepts present in it.
-                For each concept, provide:
-                1. A descriptive name (2-4 words)
-                2. A brief description (1-2 sentences)
-                3. A confidence score (0-1) indicating how clearly this concept is represented
-                
-                Format the output as a valid JSON array of objects with these properties:
-                - name: string
-                - description: string
-                - confidence: number (0-1)
-                
-                The note also has these tags: ${tags.join(', ')}
-                
-                NOTE CONTENT:
-                ${content}
-            `;
-            
-            const response = await this.aiProvider.generateContent(prompt);
-            
-            // Parse the response to extract JSON
-            const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/) || 
-                             response.match(/\[\s*\{\s*"name"/);
-            
-            let conceptsData: any[] = [];
+            const prompt = PromptTemplateRegistry.getInstance().render(PromptTemplateId.CONCEPTS_EXTRACT, {
+                content,
+                tags: tags.join(', ')
+            });
             
-            if (jsonMatch) {
-                // Extract the JSON content
-                const jsonContent = jsonMatch[1] || jsonMatch[0];
-                
-                try {
-                    // Parse the JSON
-                    conceptsData = JSON.parse(jsonContent.replace(/```json|```/g, '').trim());
-                } catch (e) {
-                    console.error("Failed to parse JSON from AI response:", e);
-                    // Attempt to fix common JSON formatting issues
-                    const cleanedJson = jsonContent
-                        .replace(/```json|```/g, '')
-                        .replace(/,(\s*[\]}])/g, '$1')  // Remove trailing commas
-                        .trim();
-                    
-                    try {
-                        conceptsData = JSON.parse(cleanedJson);
-                    } catch (e2) {
-                        console.error("Failed to parse cleaned JSON:", e2);
-                        throw new Error("Unable to parse concepts from AI response");
-                    }
-                }
-            } else {
-                throw new Error("AI response did not contain properly formatted JSON");
-            }
+            const conceptsData = await this.aiProvider.generateStructured<ExtractedConcept[]>(prompt, CONCEPTS_SCHEMA, { signal });
             
             // Initialize empty relatedNotes array for each concept
             const concepts: Concept[] = conceptsData.map(concept => ({
                 name: concept.name,
-                description: concept.definition || 'No description available',
-                confidence: concept.confidence || 0.5,
+                description: concept.description,
+                confidence: concept.confidence,
                 relatedNotes: [] as RelatedNote[]
             }));
             
             return concepts;
             
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error extracting concepts:', error);
             throw new Error(`Failed to extract concepts: ${error.message}`);
         }
@@ -142,9 +132,10 @@ export class ConceptDetectionService {
     /**
      * Finds related notes for a concept
      * @param concept The concept to find related notes for
+     * @param signal Stops scanning the vault when triggered
      * @returns The concept with populated relatedNotes
      */
-    async findRelatedNotes(concept: Concept): Promise<Concept> {
+    async findRelatedNotes(concept: Concept, signal?: AbortSignal): Promise<Concept> {
         // Clone the concept to avoid modifying the original
         const enrichedConcept: Concept = { 
             ...concept, 
@@ -158,6 +149,9 @@ export class ConceptDetectionService {
             // Process files in batches to avoid overwhelming the system
             const batchSize = 10;
             for (let i = 0; i < markdownFiles.length; i += batchSize) {
+                // Check between batches so a cancelled scan stops fanning out new requests
+                signal?.throwIfAborted();
+                
                 const batch = markdownFiles.slice(i, i + batchSize);
                 
                 // Process each file in the batch
@@ -177,45 +171,36 @@ export class ConceptDetectionService {
                     }
                     
                     // Use AI to determine relevance
-                    const prompt = `
-                        Determine if the following note is related to the concept "${concept.name}": ${concept.description}
-                        
-                        If it is related, provide:
-                        1. A relevance score between 0 and 1 (where 1 is highly relevant)
-                        2. A brief explanation of why it's relevant
-                        
-                        Format your response as a JSON object with these properties:
-                        - isRelevant: boolean
-                        - relevance: number (0-1, only if isRelevant is true)
-                        - explanation: string (only if isRelevant is true)
-                        
-                        NOTE CONTENT:
-                        ${content.substring(0, 5000)}  // Limit content length
-                    `;
-                    
-                    const response = await this.aiProvider.generateContent(prompt);
-                    
-                    // Parse the response
-                    const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/) || 
-                                     response.match(/\{\s*"isRelevant"/);
+                    const prompt = PromptTemplateRegistry.getInstance().render(PromptTemplateId.CONCEPTS_RELEVANCE, {
+                        concept: concept.name,
+                        description: concept.description,
+                        content: content.substring(0, 5000)  // Limit content length
+                    });
                     
-                    if (jsonMatch) {
-                        const jsonContent = jsonMatch[1] || jsonMatch[0];
-                        try {
-                            const result = JSON.parse(jsonContent.replace(/```json|```/g, '').trim());
-                            
-                            if (result.isRelevant && result.relevance > 0.5) {  // Only include if relevance is above threshold
-                                return {
-                                    file,
-                                    title: file.basename,
-                                    path: file.path,
-                                    relevance: result.relevance,
-                                    explanation: result.explanation
-                                };
-                            }
-                        } catch (e) {
-                            console.error("Failed to parse JSON from AI response for relevance:", e);
+                    let result: RelevanceResult;
+                    try {
+                        // Scanning the vault can take many requests, so let interactive ones go first
+                        result = await this.aiProvider.generateStructured<RelevanceResult>(prompt, RELEVANCE_SCHEMA, {
+                            signal,
+                            priority: RequestPriority.BACKGROUND
+                        });
+                    } catch (e) {
+                        // One unreadable answer shouldn't abandon the whole scan
+                        if (!(e instanceof StructuredOutputError)) {
+                            throw e;
                         }
+                        console.error("Failed to parse relevance from AI response:", e);
+                        return null;
+                    }
+                    
+                    if (result.isRelevant && result.relevance !== undefined && result.relevance > 0.5) {  // Only include if relevance is above threshold
+                        return {
+                            file,
+                            title: file.basename,
+                            path: file.path,
+                            relevance: result.relevance,
+                            explanation: result.explanation || ''
+                        };
                     }
                     
                     return null;
@@ -238,6 +223,11 @@ export class ConceptDetectionService {
             return enrichedConcept;
             
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error finding related notes:', error);
             throw new Error(`Failed to find related notes: ${error.message}`);
         }
@@ -246,15 +236,16 @@ export class ConceptDetectionService {
     /**
      * Generates concept links between notes
      * @param file The file to generate links for
+     * @param signal Cancels the remaining requests when triggered
      * @returns An array of concept links
      */
-    async generateConceptLinks(file: TFile): Promise<ConceptLink[]> {
+    async generateConceptLinks(file: TFile, signal?: AbortSignal): Promise<ConceptLink[]> {
         try {
             // First extract concepts from the file
-            const concepts = await this.extractConcepts(file);
+            const concepts = await this.extractConcepts(file, signal);
             
             // Find related notes for each concept
-            const conceptPromises = concepts.map(concept => this.findRelatedNotes(concept));
+            const conceptPromises = concepts.map(concept => this.findRelatedNotes(concept, signal));
             const enrichedConcepts = await Promise.all(conceptPromises);
             
             // Generate links between the file and related notes
@@ -277,6 +268,11 @@ export class ConceptDetectionService {
             return links;
             
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error generating concept links:', error);
             throw new Error(`Failed to generate concept links: ${error.message}`);
         }
@@ -0,0 +1,175 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { ChatRole } from '../utils/ai-providers/base-provider';
+
+/**
+ * One message of a conversation about a note
+ */
+export interface ConversationTurn {
+    role: ChatRole;
+    content: string;
+    model?: string; // The model that wrote an assistant message
+    createdAt: number;
+}
+
+/**
+ * A conversation about a single note
+ */
+export interface NoteConversation {
+    notePath: string;
+    includeLinkedNotes: boolean; // Whether the note's outgoing links are sent as context
+    turns: ConversationTurn[];
+    updatedAt: number;
+}
+
+interface ConversationFile {
+    version: number;
+    conversations: NoteConversation[];
+}
+
+const CONVERSATION_FILE_VERSION = 1;
+
+/**
+ * Persistent store of note conversations, keyed by the path of the note they are about.
+ * Kept in the plugin's data folder rather than the settings, since conversations can grow long.
+ */
+export class ConversationStore {
+    private static instance: ConversationStore;
+    private conversations: Map<string, NoteConversation> = new Map();
+    private adapter: DataAdapter | null = null;
+    private filePath = '';
+    private saveTimer: number | null = null;
+
+    private constructor() {}
+
+    public static getInstance(): ConversationStore {
+        if (!ConversationStore.instance) {
+            ConversationStore.instance = new ConversationStore();
+        }
+        return ConversationStore.instance;
+    }
+
+    /**
+     * Load the conversations from disk
+     * @param adapter The vault's data adapter
+     * @param folder The plugin's data folder
+     */
+    async load(adapter: DataAdapter, folder: string): Promise<void> {
+        try {
+            this.adapter = adapter;
+            this.filePath = normalizePath(`${folder}/chats/conversations.json`);
+
+            if (!(await adapter.exists(this.filePath))) {
+                return;
+            }
+
+            const file: ConversationFile = JSON.parse(await adapter.read(this.filePath));
+            if (file.version !== CONVERSATION_FILE_VERSION || !Array.isArray(file.conversations)) {
+                return;
+            }
+
+            this.conversations = new Map(file.conversations.map(conversation => [conversation.notePath, conversation]));
+        } catch (error) {
+            // Losing old conversations is not worth failing over; the file is rewritten on the next save
+            console.warn('Could not load note conversations:', error);
+        }
+    }
+
+    /**
+     * Get the conversation about a note, starting an empty one if there is none
+     * @param notePath The path of the note
+     * @returns The note's conversation
+     */
+    get(notePath: string): NoteConversation {
+        return this.conversations.get(notePath) ?? {
+            notePath,
+            includeLinkedNotes: false,
+            turns: [],
+            updatedAt: Date.now()
+        };
+    }
+
+    /**
+     * Store a conversation, replacing any earlier version of it
+     * @param conversation The conversation to store
+     */
+    set(conversation: NoteConversation): void {
+        conversation.updatedAt = Date.now();
+        this.conversations.set(conversation.notePath, conversation);
+        this.scheduleSave();
+    }
+
+    /**
+     * Forget the conversation about a note
+     * @param notePath The path of the note
+     */
+    delete(notePath: string): void {
+        if (this.conversations.delete(notePath)) {
+            this.scheduleSave();
+        }
+    }
+
+    /**
+     * Keep a conversation with its note when the note is renamed or moved
+     * @param oldPath The note's previous path
+     * @param newPath The note's new path
+     */
+    rename(oldPath: string, newPath: string): void {
+        const conversation = this.conversations.get(oldPath);
+        if (!conversation) {
+            return;
+        }
+
+        // Updated in place, so an open chat view keeps saving to the right note
+        conversation.notePath = newPath;
+        this.conversations.delete(oldPath);
+        this.conversations.set(newPath, conversation);
+        this.scheduleSave();
+    }
+
+    /**
+     * Write pending changes now, used when the plugin unloads
+     */
+    async flush(): Promise<void> {
+        if (this.saveTimer !== null) {
+            window.clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+            await this.save();
+        }
+    }
+
+    /**
+     * Save shortly after the last change, so a burst of changes results in a single write
+     */
+    private scheduleSave(): void {
+        if (this.saveTimer !== null) {
+            window.clearTimeout(this.saveTimer);
+        }
+
+        this.saveTimer = window.setTimeout(() => {
+            this.saveTimer = null;
+            this.save();
+        }, 2000);
+    }
+
+    private async save(): Promise<void> {
+        if (!this.adapter || !this.filePath) {
+            return;
+        }
+
+        try {
+            const folder = this.filePath.substring(0, this.filePath.lastIndexOf('/'));
+            if (!(await this.adapter.exists(folder))) {
+                await this.adapter.mkdir(folder);
+            }
+
+            // Empty conversations are not worth keeping
+            const file: ConversationFile = {
+                version: CONVERSATION_FILE_VERSION,
+                conversations: Array.from(this.conversations.values()).filter(conversation => conversation.turns.length > 0)
+            };
+            await this.adapter.write(this.filePath, JSON.stringify(file));
+        } catch (error) {
+            console.error('Failed to save note conversations:', error);
+        }
+    }
+}
@@ -1,304 +1,330 @@
-import { App, MarkdownView, TFile, EditorRange, Notice } from 'obsidian';
+import { App, MarkdownView, MarkdownPostProcessorContext, TFile, Notice, editorInfoField } from 'obsidian';
+import { Extension, Prec, Range, StateEffect, StateField } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, keymap } from '@codemirror/view';
 import { SearchService } from './search';
 
 /**
- * Service to handle highlighting text in opened notes
+ * What to highlight in a note: the query terms, and the section a result was drawn from
+ */
+interface HighlightInfo {
+    terms: string[];
+    relevantSection?: string;
+}
+
+// Replaces an editor's search highlights, or clears them when null
+const setSearchHighlights = StateEffect.define<HighlightInfo | null>();
+
+const termMark = Decoration.mark({ class: 'gemini-search-highlight' });
+const sectionMark = Decoration.mark({ class: 'gemini-search-section-highlight' });
+
+// Sections shorter than this are too likely to match in the wrong place
+const MIN_SECTION_LENGTH = 10;
+
+/**
+ * The search highlights of an editor. They are decorations of the document rather than elements
+ * laid over it, so they move with the text as it is edited and scrolled.
+ */
+const searchHighlightField = StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update(highlights, transaction) {
+        highlights = highlights.map(transaction.changes);
+        for (const effect of transaction.effects) {
+            if (effect.is(setSearchHighlights)) {
+                highlights = effect.value ? buildDecorations(transaction.state.doc.toString(), effect.value) : Decoration.none;
+            }
+        }
+        return highlights;
+    },
+    provide: field => EditorView.decorations.from(field)
+});
+
+/**
+ * The editor extension that shows search highlights. Escape dismisses them, and is left to
+ * Obsidian when there are none.
+ * @param onDismiss Called with the path of the note whose highlights were dismissed, so they are cleared in every view of it
+ * @returns The extension, to register with the plugin
+ */
+export function searchHighlightExtension(onDismiss: (path: string) => void): Extension {
+    return [
+        searchHighlightField,
+        Prec.high(keymap.of([{
+            key: 'Escape',
+            run: view => {
+                if (view.state.field(searchHighlightField).size === 0) {
+                    return false;
+                }
+                view.dispatch({ effects: setSearchHighlights.of(null) });
+
+                const path = view.state.field(editorInfoField, false)?.file?.path;
+                if (path) {
+                    onDismiss(path);
+                }
+                return true;
+            }
+        }]))
+    ];
+}
+
+/**
+ * Find the occurrences of the query terms in a text, longest term first where they overlap
+ * @param text The text to search
+ * @param terms The query terms; terms shorter than 3 characters are skipped
+ * @returns The matches' offsets, in order
+ */
+function findTermMatches(text: string, terms: string[]): Array<{ from: number; to: number }> {
+    const patterns = terms
+        .filter(term => term.length >= 3)
+        .sort((a, b) => b.length - a.length)
+        .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (patterns.length === 0) {
+        return [];
+    }
+
+    return Array.from(text.matchAll(new RegExp(patterns.join('|'), 'gi')), match => ({
+        from: match.index!,
+        to: match.index! + match[0].length
+    }));
+}
+
+/**
+ * Find where the relevant section is in a note
+ * @returns The section's offsets, or null if it isn't in the note as written
+ */
+function findSection(text: string, info: HighlightInfo): { from: number; to: number } | null {
+    const section = info.relevantSection?.trim();
+    if (!section || section.length < MIN_SECTION_LENGTH) {
+        return null;
+    }
+
+    const from = text.indexOf(section);
+    return from === -1 ? null : { from, to: from + section.length };
+}
+
+function buildDecorations(text: string, info: HighlightInfo): DecorationSet {
+    const ranges: Range<Decoration>[] = findTermMatches(text, info.terms).map(match => termMark.range(match.from, match.to));
+
+    const section = findSection(text, info);
+    if (section) {
+        ranges.push(sectionMark.range(section.from, section.to));
+    }
+
+    return Decoration.set(ranges, true);
+}
+
+/**
+ * Service to highlight search terms and relevant sections in opened notes, in the editor
+ * and in reading view, and to move between the highlighted matches
  */
 export class HighlighterService {
     private app: App;
     private searchService: SearchService;
-    private activeHighlights: Map<string, HTMLElement[]> = new Map();
-    
+    private activeHighlights: Map<string, HighlightInfo> = new Map(); // Note path to what is highlighted in it
+
     constructor(app: App, searchService: SearchService) {
         this.app = app;
         this.searchService = searchService;
     }
-    
+
     /**
-     * Apply highlighting to a file when it's opened
+     * Highlight what the last search found in a note, in every view it is open in, and scroll to the relevant section
      * @param file The file to highlight
      */
     public async highlightFile(file: TFile): Promise<void> {
-        // Wait a moment for the editor to fully load
-        // Use a longer timeout to ensure the editor is fully loaded
-        setTimeout(() => this.applyHighlighting(file), 500);
-        
-        // Also register a one-time event listener for layout changes
-        // This helps catch cases where the editor might not be ready at the first timeout
-        const layoutChangeHandler = this.app.workspace.on('layout-change', () => {
-            setTimeout(() => {
-                this.applyHighlighting(file);
-                // Remove this handler after it fires once
-                this.app.workspace.offref(layoutChangeHandler);
-            }, 300);
-        });
+        const highlightInfo = this.searchService.getHighlightInfo(file.path);
+        if (!highlightInfo) {
+            return;
+        }
+
+        this.activeHighlights.set(file.path, highlightInfo);
+        for (const view of this.getViews(file.path)) {
+            this.applyHighlighting(view, highlightInfo);
+        }
     }
-    
+
     /**
-     * Apply highlighting to the active view if it matches the file
-     * @param file The file to highlight
+     * Highlight the terms in a section of a note rendered in reading view, used as a markdown post-processor.
+     * The relevant section is highlighted by the blocks its lines overlap, since rendering leaves out the markdown it is matched on.
+     * @param el The rendered section
+     * @param ctx The post-processor context
      */
-    private async applyHighlighting(file: TFile): Promise<void> {
-        // Find the leaf that contains this file
-        let targetView: MarkdownView | null = null;
-        
-        // Check all leaves to find the one with our file
-        this.app.workspace.iterateAllLeaves(leaf => {
-            if (leaf.view instanceof MarkdownView && leaf.view.file?.path === file.path) {
-                targetView = leaf.view;
-            }
-        });
-        
-        if (!targetView) {
-            // If we can't find the view, try the active view as a fallback
-            const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-            if (!activeView || activeView.file?.path !== file.path) {
-                return;
-            }
-            targetView = activeView;
-        }
-        
-        // Get highlight info for this file
-        const highlightInfo = this.searchService.getHighlightInfo(file.path);
+    public highlightRenderedSection(el: HTMLElement, ctx: MarkdownPostProcessorContext): void {
+        const highlightInfo = this.activeHighlights.get(ctx.sourcePath);
         if (!highlightInfo) {
             return;
         }
-        
-        // Clear any existing highlights for this file
-        this.clearHighlightsForFile(file.path);
-        
-        // Get the editor from the view
-        const editor = targetView.editor;
-        const content = editor.getValue();
-        
-        // Create a container for the highlights
-        const highlightElements: HTMLElement[] = [];
-        
-        // Add CSS for highlights if not already added
-        this.ensureHighlightCSS();
-        
-        // Highlight terms
-        if (highlightInfo.terms && highlightInfo.terms.length > 0) {
-            for (const term of highlightInfo.terms) {
-                if (term.length < 3) continue; // Skip very short terms
-                
-                // Find all occurrences of the term
-                const regex = new RegExp(this.escapeRegExp(term), 'gi');
-                let match;
-                
-                while ((match = regex.exec(content)) !== null) {
-                    const start = match.index;
-                    const end = start + match[0].length;
-                    
-                    // Get the position in the editor
-                    const startPos = editor.offsetToPos(start);
-                    const endPos = editor.offsetToPos(end);
-                    
-                    // Create a temporary mark in the editor
-                    const marker = document.createElement('div');
-                    marker.addClass('gemini-search-highlight');
-                    
-                    // Add the marker to the DOM near the editor
-                    const editorElement = targetView.contentEl.querySelector('.cm-editor');
-                    if (editorElement) {
-                        editorElement.appendChild(marker);
-                        
-                        // Get the coordinates of the text in the editor
-                        const editorRect = editorElement.getBoundingClientRect();
-                        
-                        // Get the coordinates of the text
-                        const from = { line: startPos.line, ch: startPos.ch };
-                        const to = { line: endPos.line, ch: endPos.ch };
-                        
-                        // Use the editor's coordinate system to position the highlight
-                        const posFrom = editor.posToOffset(from);
-                        const posTo = editor.posToOffset(to);
-                        
-                        // Create a text marker in the editor
-                        const textRange = {
-                            from: from,
-                            to: to
-                        };
-                        
-                        // Set the marker position using CSS
-                        marker.style.position = 'absolute';
-                        marker.style.backgroundColor = 'rgba(255, 255, 0, 0.3)';
-                        marker.style.borderRadius = '3px';
-                        marker.style.padding = '0 2px';
-                        marker.style.zIndex = '10';
-                        
-                        // Position the marker using line and character information
-                        // Since we can't directly access CodeMirror coordinates, we'll use a different approach
-                        const lineElement = editorElement.querySelector(`.cm-line:nth-child(${startPos.line + 1})`);
-                        
-                        if (lineElement) {
-                            // Approximate positioning based on line elements
-                            const lineRect = lineElement.getBoundingClientRect();
-                            const editorRect = editorElement.getBoundingClientRect();
-                            
-                            marker.style.top = `${lineRect.top - editorRect.top}px`;
-                            marker.style.left = `${lineRect.left - editorRect.left}px`;
-                            marker.style.height = `${lineRect.height}px`;
-                            marker.style.width = 'auto';
-                            marker.style.pointerEvents = 'none'; // Allow clicking through the highlight
-                        }
-                        
-                        highlightElements.push(marker);
-                    }
-                }
+
+        const sectionInfo = ctx.getSectionInfo(el);
+        const section = sectionInfo && findSection(sectionInfo.text, highlightInfo);
+        if (sectionInfo && section) {
+            const sectionStart = sectionInfo.text.substring(0, section.from).split('\n').length - 1;
+            const sectionEnd = sectionStart + sectionInfo.text.substring(section.from, section.to).split('\n').length - 1;
+            if (sectionInfo.lineStart <= sectionEnd && sectionInfo.lineEnd >= sectionStart) {
+                el.addClass('gemini-search-section-highlight');
             }
         }
-        
-        // Highlight relevant section if provided
-        if (highlightInfo.relevantSection) {
-            const section = highlightInfo.relevantSection.trim();
-            if (section.length > 10) {
-                const index = content.indexOf(section);
-                if (index !== -1) {
-                    // Create a notice to inform the user
-                    new Notice(`Relevant section found in ${file.basename}`);
-                    
-                    // Scroll to the section
-                    const start = index;
-                    const end = start + section.length;
-                    const startPos = editor.offsetToPos(start);
-                    const endPos = editor.offsetToPos(end);
-                    
-                    // Create a highlight for the section
-                    const sectionMarker = document.createElement('div');
-                    sectionMarker.addClass('gemini-search-section-highlight');
-                    
-                    // Add the marker to the DOM
-                    const editorElement = targetView.contentEl.querySelector('.cm-editor');
-                    if (editorElement) {
-                        editorElement.appendChild(sectionMarker);
-                        
-                        // Position the marker using line elements
-                        const lineElement = editorElement.querySelector(`.cm-line:nth-child(${startPos.line + 1})`);
-                        if (lineElement) {
-                            // Approximate positioning based on line elements
-                            const lineRect = lineElement.getBoundingClientRect();
-                            const editorRect = editorElement.getBoundingClientRect();
-                            
-                            sectionMarker.style.position = 'absolute';
-                            sectionMarker.style.top = `${lineRect.top - editorRect.top}px`;
-                            sectionMarker.style.left = `${lineRect.left - editorRect.left}px`;
-                            sectionMarker.style.height = `${lineRect.height}px`;
-                            sectionMarker.style.width = 'auto';
-                            sectionMarker.style.backgroundColor = 'rgba(0, 255, 0, 0.2)';
-                            sectionMarker.style.borderRadius = '3px';
-                            sectionMarker.style.padding = '0 2px';
-                            sectionMarker.style.zIndex = '10';
-                            sectionMarker.style.pointerEvents = 'none';
-                            
-                            highlightElements.push(sectionMarker);
-                        }
-                    }
-                    
-                    // Scroll to the section
-                    editor.setCursor(startPos);
-                    editor.scrollIntoView({
-                        from: startPos,
-                        to: endPos
-                    }, true);
-                }
-            }
+
+        // Collect the text nodes first, as wrapping matches changes the tree being walked
+        const textNodes: Text[] = [];
+        const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+        while (walker.nextNode()) {
+            textNodes.push(walker.currentNode as Text);
         }
-        
-        // Store the highlights for later cleanup
-        if (highlightElements.length > 0) {
-            this.activeHighlights.set(file.path, highlightElements);
+
+        for (const node of textNodes) {
+            const matches = findTermMatches(node.data, highlightInfo.terms);
+            // Wrap from the end, so the offsets of earlier matches stay valid
+            for (const match of matches.reverse()) {
+                const matchNode = node.splitText(match.from);
+                matchNode.splitText(match.to - match.from);
+                const mark = createEl('mark', { cls: 'gemini-search-highlight' });
+                matchNode.replaceWith(mark);
+                mark.appendChild(matchNode);
+            }
         }
     }
-    
+
     /**
-     * Ensure the CSS for highlights is added to the document
+     * Select the next or previous highlighted match in the active note, wrapping around at either end.
+     * Matches are the query terms, or the relevant section when there are none.
+     * @param direction 1 for the next match, -1 for the previous one
+     * @returns False if the active note has no highlights
      */
-    private ensureHighlightCSS(): void {
-        // Check if our styles are already added
-        if (!document.getElementById('gemini-search-highlight-styles')) {
-            const styleEl = document.createElement('style');
-            styleEl.id = 'gemini-search-highlight-styles';
-            styleEl.textContent = `
-                .gemini-search-highlight {
-                    background-color: rgba(255, 255, 0, 0.3);
-                    border-radius: 3px;
-                    padding: 0 2px;
-                }
-                .gemini-search-section-highlight {
-                    background-color: rgba(0, 255, 0, 0.2);
-                    border-radius: 3px;
-                    padding: 0 2px;
-                }
-            `;
-            document.head.appendChild(styleEl);
+    public goToMatch(direction: 1 | -1): boolean {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (!view?.file || !this.activeHighlights.has(view.file.path)) {
+            return false;
         }
+
+        if (view.getMode() === 'preview') {
+            return this.goToRenderedMatch(view, direction);
+        }
+
+        const editorView = this.getEditorView(view);
+        if (!editorView) {
+            return false;
+        }
+
+        const terms: Array<{ from: number; to: number }> = [];
+        const sections: Array<{ from: number; to: number }> = [];
+        editorView.state.field(searchHighlightField).between(0, editorView.state.doc.length, (from, to, decoration) => {
+            (decoration === termMark ? terms : sections).push({ from, to });
+        });
+        const matches = terms.length > 0 ? terms : sections;
+        if (matches.length === 0) {
+            return false;
+        }
+
+        const selection = editorView.state.selection.main;
+        const match = direction === 1
+            ? matches.find(candidate => candidate.from > selection.from) ?? matches[0]
+            : [...matches].reverse().find(candidate => candidate.from < selection.from) ?? matches[matches.length - 1];
+
+        editorView.dispatch({
+            selection: { anchor: match.from, head: match.to },
+            effects: EditorView.scrollIntoView(match.from, { y: 'center' })
+        });
+        return true;
     }
-    
-    /**
-     * Create a highlight marker element
-     * @param text Text to display in the marker
-     * @returns HTML element for the marker
-     */
-    private createHighlightMarker(text: string): HTMLElement {
-        const marker = document.createElement('div');
-        marker.addClass('gemini-search-highlight');
-        marker.style.position = 'absolute';
-        marker.style.backgroundColor = 'rgba(255, 255, 0, 0.3)';
-        marker.style.borderRadius = '3px';
-        marker.style.padding = '0 2px';
-        marker.style.zIndex = '10';
-        marker.style.pointerEvents = 'none';
-        return marker;
-    }
-    
+
     /**
-     * Create a highlight marker for a relevant section
-     * @param text Text to display in the marker
-     * @returns HTML element for the marker
+     * Check whether a note has highlights
+     * @param path The note's path
+     * @returns True if the note's search highlights haven't been cleared
      */
-    private createSectionHighlightMarker(text: string): HTMLElement {
-        const marker = document.createElement('div');
-        marker.addClass('gemini-search-section-highlight');
-        marker.style.position = 'absolute';
-        marker.style.backgroundColor = 'rgba(0, 255, 0, 0.2)';
-        marker.style.borderRadius = '3px';
-        marker.style.padding = '0 2px';
-        marker.style.zIndex = '10';
-        marker.style.pointerEvents = 'none';
-        return marker;
+    public hasHighlights(path: string): boolean {
+        return this.activeHighlights.has(path);
     }
-    
+
     /**
      * Clear all highlights for a specific file
      * @param path File path
      */
     public clearHighlightsForFile(path: string): void {
-        const highlights = this.activeHighlights.get(path);
-        if (highlights) {
-            for (const highlight of highlights) {
-                highlight.remove();
-            }
-            this.activeHighlights.delete(path);
+        if (!this.activeHighlights.delete(path)) {
+            return;
+        }
+
+        for (const view of this.getViews(path)) {
+            this.getEditorView(view)?.dispatch({ effects: setSearchHighlights.of(null) });
+            // Reading view is rendered again, now without highlights
+            view.previewMode.rerender(true);
         }
     }
-    
+
     /**
      * Clear all active highlights
      */
     public clearAllHighlights(): void {
-        for (const [path, highlights] of this.activeHighlights.entries()) {
-            for (const highlight of highlights) {
-                highlight.remove();
+        for (const path of Array.from(this.activeHighlights.keys())) {
+            this.clearHighlightsForFile(path);
+        }
+    }
+
+    /**
+     * Highlight a note in a view; the editor gets decorations, and reading view is rendered again for the post-processor
+     */
+    private applyHighlighting(view: MarkdownView, highlightInfo: HighlightInfo): void {
+        const editorView = this.getEditorView(view);
+        if (editorView) {
+            const section = findSection(editorView.state.doc.toString(), highlightInfo);
+            editorView.dispatch({
+                effects: [
+                    setSearchHighlights.of(highlightInfo),
+                    ...(section ? [EditorView.scrollIntoView(section.from, { y: 'start' })] : [])
+                ],
+                selection: section ? { anchor: section.from } : undefined
+            });
+
+            if (section && view.file) {
+                new Notice(`Relevant section found in ${view.file.basename}`);
             }
         }
-        this.activeHighlights.clear();
+
+        view.previewMode.rerender(true);
+    }
+
+    /**
+     * Move between the highlights of reading view. Only the part of the note that has been rendered can be navigated,
+     * as reading view renders long notes as they are scrolled.
+     */
+    private goToRenderedMatch(view: MarkdownView, direction: 1 | -1): boolean {
+        const containerEl = view.previewMode.containerEl;
+        let matches = Array.from(containerEl.querySelectorAll<HTMLElement>('mark.gemini-search-highlight'));
+        if (matches.length === 0) {
+            matches = Array.from(containerEl.querySelectorAll<HTMLElement>('.gemini-search-section-highlight'));
+        }
+        if (matches.length === 0) {
+            return false;
+        }
+
+        const current = matches.findIndex(match => match.hasClass('is-current'));
+        const next = current === -1
+            ? (direction === 1 ? 0 : matches.length - 1)
+            : (current + direction + matches.length) % matches.length;
+
+        matches[current]?.removeClass('is-current');
+        matches[next].addClass('is-current');
+        matches[next].scrollIntoView({ block: 'center' });
+        return true;
     }
-    
+
+    /**
+     * Find the views a note is open in
+     */
+    private getViews(path: string): MarkdownView[] {
+        const views: MarkdownView[] = [];
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (leaf.view instanceof MarkdownView && leaf.view.file?.path === path) {
+                views.push(leaf.view);
+            }
+        });
+        return views;
+    }
+
     /**
-     * Escape special characters in a string for use in a regular expression
+     * Get the CodeMirror view behind a note's editor, which Obsidian doesn't expose in its API
      */
-    private escapeRegExp(string: string): string {
-        return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    private getEditorView(view: MarkdownView): EditorView | null {
+        return (view.editor as unknown as { cm?: EditorView }).cm ?? null;
     }
 }
@@ -0,0 +1,219 @@
+import { App, TAbstractFile, TFile } from 'obsidian';
+import { isAbortError } from '../utils/ai-providers';
+
+// Wait for a pause in editing, so a note being typed in is processed once
+const UPDATE_DELAY_MS = 2000;
+
+// Notes processed per round, so progress is reported as the queue drains
+const UPDATE_BATCH_NOTES = 10;
+
+/**
+ * An index of notes that can be kept up to date one note at a time
+ */
+export interface IncrementalIndex {
+    name: string;
+
+    /**
+     * Whether the index is in use, so it's worth keeping up to date
+     */
+    isEnabled(): boolean;
+
+    /**
+     * Whether a note is missing from the index or changed since it was processed
+     */
+    isStale(file: TFile): boolean;
+
+    /**
+     * Process notes, replacing their entries in the index
+     */
+    updateFiles(files: TFile[], signal: AbortSignal): Promise<void>;
+
+    /**
+     * Move a note's entries to its new path, keeping what was computed for it
+     */
+    renameFile(oldPath: string, newPath: string): void;
+
+    /**
+     * Forget a note
+     */
+    deleteFile(path: string): void;
+}
+
+/**
+ * Keeps the plugin's indexes fresh as notes change. Changed notes are queued, and once
+ * editing pauses they are processed in the background, a batch at a time.
+ * Renames and deletes are cheap, so they are applied to the indexes straight away.
+ */
+export class IndexUpdater {
+    private app: App;
+    private getIndexes: () => IncrementalIndex[];
+    private onProgress: (done: number, total: number) => void;
+    private queue: Set<string> = new Set();
+    private done = 0;
+    private timer: number | null = null;
+    private controller: AbortController | null = null;
+
+    /**
+     * @param app The Obsidian app
+     * @param getIndexes Returns the indexes to maintain; they are looked up each round, as services are replaced when settings change
+     * @param onProgress Called with the number of notes processed and queued in this run, and with 0 of 0 once the queue is empty
+     */
+    constructor(app: App, getIndexes: () => IncrementalIndex[], onProgress: (done: number, total: number) => void) {
+        this.app = app;
+        this.getIndexes = getIndexes;
+        this.onProgress = onProgress;
+    }
+
+    /**
+     * Queue every note that changed while the plugin wasn't running
+     */
+    queueStaleFiles(): void {
+        const indexes = this.getEnabledIndexes();
+        if (indexes.length === 0) {
+            return;
+        }
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (indexes.some(index => index.isStale(file))) {
+                this.queue.add(file.path);
+            }
+        }
+        this.schedule();
+    }
+
+    /**
+     * Queue a note that was created or changed
+     * @param file The changed file; anything but a note is ignored
+     */
+    onFileChanged(file: TAbstractFile): void {
+        if (!this.isNote(file) || this.getEnabledIndexes().length === 0) {
+            return;
+        }
+
+        this.queue.add(file.path);
+        this.schedule();
+    }
+
+    /**
+     * Move a renamed note's entries, so it isn't processed again
+     * @param file The file at its new path
+     * @param oldPath The path it had before
+     */
+    onFileRenamed(file: TAbstractFile, oldPath: string): void {
+        const wasQueued = this.queue.delete(oldPath);
+
+        // A note renamed to another extension is no longer a note
+        if (!this.isNote(file)) {
+            this.onFileDeleted(oldPath);
+            return;
+        }
+
+        for (const index of this.getIndexes()) {
+            index.renameFile(oldPath, file.path);
+        }
+
+        if (wasQueued) {
+            this.queue.add(file.path);
+        } else {
+            // Also covers a file renamed into a note, which has no entries to move
+            this.onFileChanged(file);
+        }
+    }
+
+    /**
+     * Forget a deleted note
+     * @param path The note's path
+     */
+    onFileDeleted(path: string): void {
+        this.queue.delete(path);
+        for (const index of this.getIndexes()) {
+            index.deleteFile(path);
+        }
+    }
+
+    /**
+     * Cancel the update in progress and drop the queue, used when the plugin unloads
+     */
+    stop(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.controller?.abort();
+        this.queue.clear();
+    }
+
+    /**
+     * Process the queue shortly after the last change
+     */
+    private schedule(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+        }
+
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            this.process();
+        }, UPDATE_DELAY_MS);
+    }
+
+    /**
+     * Process queued notes until the queue is empty. Notes queued meanwhile are picked up by the same run.
+     */
+    private async process(): Promise<void> {
+        if (this.controller) {
+            return;
+        }
+
+        const controller = new AbortController();
+        this.controller = controller;
+
+        try {
+            while (this.queue.size > 0 && !controller.signal.aborted) {
+                const paths = Array.from(this.queue).slice(0, UPDATE_BATCH_NOTES);
+                this.onProgress(this.done, this.done + this.queue.size);
+
+                const files = paths
+                    .map(path => this.app.vault.getAbstractFileByPath(path))
+                    .filter((file): file is TFile => file instanceof TFile);
+
+                for (const index of this.getEnabledIndexes()) {
+                    // A note may be queued by several events, or already processed by a search or an index update
+                    const stale = files.filter(file => index.isStale(file));
+                    if (stale.length === 0) {
+                        continue;
+                    }
+
+                    try {
+                        await index.updateFiles(stale, controller.signal);
+                    } catch (error) {
+                        if (controller.signal.aborted || isAbortError(error)) {
+                            throw error;
+                        }
+                        // The notes stay stale, so they are picked up again on their next change or index update
+                        console.error(`Failed to update the ${index.name} index:`, error);
+                    }
+                }
+
+                paths.forEach(path => this.queue.delete(path));
+                this.done += paths.length;
+            }
+        } catch (error) {
+            if (!isAbortError(error)) {
+                console.error('Error updating indexes:', error);
+            }
+        } finally {
+            this.controller = null;
+            this.done = 0;
+            this.onProgress(0, 0);
+        }
+    }
+
+    private getEnabledIndexes(): IncrementalIndex[] {
+        return this.getIndexes().filter(index => index.isEnabled());
+    }
+
+    private isNote(file: TAbstractFile): file is TFile {
+        return file instanceof TFile && file.extension === 'md';
+    }
+}
@@ -0,0 +1,391 @@
+/**
+ * The parts of a note that are indexed separately, so a match in the title can count for more than one in the body
+ */
+export enum LexicalField {
+    TITLE = 'title',
+    ALIASES = 'aliases',
+    HEADINGS = 'headings',
+    TAGS = 'tags',
+    BODY = 'body'
+}
+
+/**
+ * A note's text, split into fields
+ */
+export type LexicalDocument = Record<LexicalField, string>;
+
+/**
+ * A note matching a query, with its BM25 score
+ */
+export interface LexicalHit {
+    path: string;
+    score: number;
+}
+
+type FieldCounts = Partial<Record<LexicalField, number>>;
+
+interface IndexedDocument {
+    mtime: number; // Modification time of the note when it was indexed
+    lengths: FieldCounts; // Number of terms in each field
+    terms: string[]; // The distinct terms of the note, to find its postings again
+}
+
+// How much a term counts in each field, relative to the body
+const FIELD_BOOSTS: Record<LexicalField, number> = {
+    [LexicalField.TITLE]: 3,
+    [LexicalField.ALIASES]: 3,
+    [LexicalField.HEADINGS]: 2,
+    [LexicalField.TAGS]: 2,
+    [LexicalField.BODY]: 1
+};
+
+// BM25 term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Below this many notes, too few notes share a term to tell whether it is common
+const MIN_NOTES_FOR_COMMON_TERMS = 10;
+
+// Key terms a note is compared to others by
+const MAX_SIMILARITY_TERMS = 25;
+
+// Rank constant of reciprocal rank fusion; higher values flatten the difference between top ranks
+const RRF_K = 60;
+
+/**
+ * Split text into lowercase terms of letters and digits
+ * @param text The text to split
+ * @returns The terms, in order, including repeats
+ */
+export function tokenize(text: string): string[] {
+    const terms: string[] = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    return terms.filter(term => term.length > 1);
+}
+
+/**
+ * Combine several rankings of the same items with reciprocal rank fusion, which needs only
+ * each item's rank, so rankings whose scores aren't comparable (e.g. BM25 and cosine) can be merged
+ * @param rankings Each ranking's items, best first
+ * @returns Every item with its fused score, scaled so an item ranked first everywhere scores 1, best first
+ */
+export function fuseRankings(rankings: string[][]): Array<{ item: string; score: number }> {
+    const scores: Map<string, number> = new Map();
+    for (const ranking of rankings) {
+        ranking.forEach((item, rank) => scores.set(item, (scores.get(item) ?? 0) + 1 / (RRF_K + rank + 1)));
+    }
+
+    const maxScore = rankings.length / (RRF_K + 1);
+    return Array.from(scores, ([item, score]) => ({ item, score: score / maxScore }))
+        .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * In-memory inverted index of the vault's notes, scored with BM25F: a term's frequency in each
+ * field is length-normalized and boosted before saturation, so a term repeated across fields
+ * isn't counted as several independent matches. Common words need no stopword list, as BM25
+ * gives terms found in most notes almost no weight.
+ */
+export class LexicalIndex {
+    private static instance: LexicalIndex;
+    private documents: Map<string, IndexedDocument> = new Map();
+    private postings: Map<string, Map<string, FieldCounts>> = new Map(); // Term to the notes containing it
+    private totalLengths: Record<LexicalField, number> = LexicalIndex.emptyCounts();
+    private fieldDocuments: Record<LexicalField, number> = LexicalIndex.emptyCounts(); // Notes with each field, e.g. with aliases
+
+    private constructor() {}
+
+    public static getInstance(): LexicalIndex {
+        if (!LexicalIndex.instance) {
+            LexicalIndex.instance = new LexicalIndex();
+        }
+        return LexicalIndex.instance;
+    }
+
+    /**
+     * Check whether a note has to be indexed, because it is new or changed since it was indexed
+     * @param path The note's path
+     * @param mtime The note's modification time
+     * @returns True if the note is missing or out of date
+     */
+    isStale(path: string, mtime: number): boolean {
+        return this.documents.get(path)?.mtime !== mtime;
+    }
+
+    /**
+     * Index a note, replacing what was indexed for it before
+     * @param path The note's path
+     * @param mtime The note's modification time when it was read
+     * @param document The note's text by field
+     */
+    setDocument(path: string, mtime: number, document: LexicalDocument): void {
+        this.deleteDocument(path);
+
+        const lengths: FieldCounts = {};
+        const counts: Map<string, FieldCounts> = new Map();
+        for (const field of Object.values(LexicalField)) {
+            const terms = tokenize(document[field]);
+            lengths[field] = terms.length;
+            this.totalLengths[field] += terms.length;
+            this.fieldDocuments[field] += terms.length > 0 ? 1 : 0;
+
+            for (const term of terms) {
+                const termCounts = counts.get(term) ?? {};
+                termCounts[field] = (termCounts[field] ?? 0) + 1;
+                counts.set(term, termCounts);
+            }
+        }
+
+        for (const [term, termCounts] of counts) {
+            let postings = this.postings.get(term);
+            if (!postings) {
+                postings = new Map();
+                this.postings.set(term, postings);
+            }
+            postings.set(path, termCounts);
+        }
+
+        this.documents.set(path, { mtime, lengths, terms: Array.from(counts.keys()) });
+    }
+
+    /**
+     * Move a note's entries to its new path, e.g. when it is renamed
+     * @param oldPath The note's previous path
+     * @param newPath The note's new path
+     */
+    renameDocument(oldPath: string, newPath: string): void {
+        const document = this.documents.get(oldPath);
+        if (!document) {
+            return;
+        }
+
+        for (const term of document.terms) {
+            const postings = this.postings.get(term);
+            const counts = postings?.get(oldPath);
+            if (postings && counts) {
+                postings.delete(oldPath);
+                postings.set(newPath, counts);
+            }
+        }
+
+        this.documents.delete(oldPath);
+        this.documents.set(newPath, document);
+    }
+
+    /**
+     * Forget a note, e.g. when it is deleted
+     * @param path The note's path
+     */
+    deleteDocument(path: string): void {
+        const document = this.documents.get(path);
+        if (!document) {
+            return;
+        }
+
+        for (const term of document.terms) {
+            const postings = this.postings.get(term);
+            postings?.delete(path);
+            if (postings?.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+        for (const field of Object.values(LexicalField)) {
+            const length = document.lengths[field] ?? 0;
+            this.totalLengths[field] -= length;
+            this.fieldDocuments[field] -= length > 0 ? 1 : 0;
+        }
+
+        this.documents.delete(path);
+    }
+
+    /**
+     * Forget every note that is not in the vault any more
+     * @param paths The paths of the vault's notes
+     */
+    retainOnly(paths: Set<string>): void {
+        for (const path of Array.from(this.documents.keys())) {
+            if (!paths.has(path)) {
+                this.deleteDocument(path);
+            }
+        }
+    }
+
+    /**
+     * Find the notes that best match a query's terms
+     * @param query The query text
+     * @param limit The most notes to return
+     * @param accept Limits the search to the notes it returns true for
+     * @returns The matching notes, best first
+     */
+    search(query: string, limit: number, accept?: (path: string) => boolean): LexicalHit[] {
+        const count = this.documents.size;
+        const scores: Map<string, number> = new Map();
+
+        for (const term of new Set(tokenize(query))) {
+            const postings = this.postings.get(term);
+            if (!postings) {
+                continue;
+            }
+
+            const idf = Math.log(1 + (count - postings.size + 0.5) / (postings.size + 0.5));
+            for (const [path, counts] of postings) {
+                if (accept && !accept(path)) {
+                    continue;
+                }
+                const lengths = this.documents.get(path)!.lengths;
+
+                let frequency = 0;
+                for (const field of Object.values(LexicalField)) {
+                    const fieldCount = counts[field];
+                    if (fieldCount) {
+                        // Averaged over the notes that have the field, so a field most notes lack isn't treated as long wherever it appears
+                        const averageLength = this.totalLengths[field] / this.fieldDocuments[field];
+                        const normalization = 1 - B + B * (lengths[field] ?? 0) / averageLength;
+                        frequency += FIELD_BOOSTS[field] * fieldCount / normalization;
+                    }
+                }
+
+                scores.set(path, (scores.get(path) ?? 0) + idf * frequency / (K1 + frequency));
+            }
+        }
+
+        return Array.from(scores, ([path, score]) => ({ path, score }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    /**
+     * Score passages of a note against a query with BM25, weighting terms by how rare they are
+     * across the vault and normalizing lengths against the passages given
+     * @param query The query text
+     * @param passages The passages' text
+     * @returns Each passage's score, in order; 0 if it contains none of the query's terms
+     */
+    scorePassages(query: string, passages: string[]): number[] {
+        const count = this.documents.size;
+        const terms = Array.from(new Set(tokenize(query)));
+        const passageTerms = passages.map(tokenize);
+        const averageLength = passageTerms.reduce((total, passage) => total + passage.length, 0) / Math.max(passageTerms.length, 1);
+
+        return passageTerms.map(passage => {
+            const counts: Map<string, number> = new Map();
+            passage.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+
+            let score = 0;
+            for (const term of terms) {
+                const termCount = counts.get(term);
+                if (!termCount) {
+                    continue;
+                }
+
+                const documentFrequency = this.postings.get(term)?.size ?? 0;
+                const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+                const frequency = termCount / (1 - B + B * passage.length / averageLength);
+                score += idf * frequency / (K1 + frequency);
+            }
+            return score;
+        });
+    }
+
+    /**
+     * Get the terms of a query worth highlighting and looking for, leaving out terms found in at
+     * least half of the notes, which BM25 would otherwise give no weight at all
+     * @param query The query text
+     * @returns The query's distinct terms, rarest first
+     */
+    getQueryTerms(query: string): string[] {
+        const count = this.documents.size;
+        const frequency = (term: string) => this.postings.get(term)?.size ?? 0;
+
+        return Array.from(new Set(tokenize(query)))
+            .filter(term => count < MIN_NOTES_FOR_COMMON_TERMS || frequency(term) * 2 < count)
+            .sort((a, b) => frequency(a) - frequency(b));
+    }
+
+    /**
+     * Get the terms that best characterize a note, weighting how often the note uses a term,
+     * boosted by field, against how many notes use it
+     * @param path The note's path
+     * @param limit The most terms to return
+     * @returns The note's terms found in at least one other note, most characteristic first
+     */
+    getKeyTerms(path: string, limit: number): string[] {
+        const document = this.documents.get(path);
+        if (!document) {
+            return [];
+        }
+
+        const count = this.documents.size;
+        return document.terms
+            .map(term => {
+                const postings = this.postings.get(term)!;
+                const counts = postings.get(path)!;
+                const frequency = Object.values(LexicalField).reduce((total, field) => total + FIELD_BOOSTS[field] * (counts[field] ?? 0), 0);
+                const idf = Math.log(1 + (count - postings.size + 0.5) / (postings.size + 0.5));
+                // A term no other note uses can't relate the note to anything, and one most notes use tells nothing about it
+                const shared = postings.size > 1 && (count < MIN_NOTES_FOR_COMMON_TERMS || postings.size * 2 < count);
+                return { term, score: shared ? idf * Math.log(1 + frequency) : 0 };
+            })
+            .filter(term => term.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit)
+            .map(term => term.term);
+    }
+
+    /**
+     * Find the notes most like a note, by searching for its key terms
+     * @param path The note's path
+     * @param limit The most notes to return
+     * @returns The similar notes, best first, without the note itself
+     */
+    findSimilar(path: string, limit: number): LexicalHit[] {
+        const terms = this.getKeyTerms(path, MAX_SIMILARITY_TERMS);
+        return terms.length > 0 ? this.search(terms.join(' '), limit, other => other !== path) : [];
+    }
+
+    /**
+     * Check whether a note contains a term in any field
+     * @param path The note's path
+     * @param term The term, as returned by tokenize
+     * @returns True if the note contains the term
+     */
+    hasTerm(path: string, term: string): boolean {
+        return this.postings.get(term)?.has(path) ?? false;
+    }
+
+    /**
+     * Count the notes containing a term
+     * @param term The term, as returned by tokenize
+     * @returns The number of notes
+     */
+    countNotesWithTerm(term: string): number {
+        return this.postings.get(term)?.size ?? 0;
+    }
+
+    /**
+     * Check whether any note has been indexed
+     * @returns True if the index holds no notes
+     */
+    isEmpty(): boolean {
+        return this.documents.size === 0;
+    }
+
+    /**
+     * Remove every note
+     */
+    clear(): void {
+        this.documents.clear();
+        this.postings.clear();
+        this.totalLengths = LexicalIndex.emptyCounts();
+        this.fieldDocuments = LexicalIndex.emptyCounts();
+    }
+
+    private static emptyCounts(): Record<LexicalField, number> {
+        return {
+            [LexicalField.TITLE]: 0,
+            [LexicalField.ALIASES]: 0,
+            [LexicalField.HEADINGS]: 0,
+            [LexicalField.TAGS]: 0,
+            [LexicalField.BODY]: 0
+        };
+    }
+}
@@ -1,6 +1,7 @@
 import { App, TFile, Notice } from 'obsidian';
-import { ObsidianLinkSettings, getApiKeyForVendor } from '../types';
-import { AIProvider, AIProviderFactory, AIVendor } from '../utils/ai-providers';
+import { ObsidianLinkSettings } from '../types';
+import { AIProvider, AIProviderFactory, AIVendor, AIFeature, JsonSchema, parseStructuredOutput, resolveProviderSettings, resolveFallbackChain } from '../utils/ai-providers';
+import { PromptTemplateRegistry, PromptTemplateId } from './prompt-templates';
 
 /**
  * Supported image analysis operations
@@ -31,6 +32,20 @@ export interface ImageAnalysisResult {
     }>;
 }
 
+type DetectedObject = NonNullable<ImageAnalysisResult['objects']>[number];
+
+const OBJECTS_SCHEMA: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            name: { type: 'string' },
+            confidence: { type: 'number', minimum: 0, maximum: 1 }
+        },
+        required: ['name', 'confidence']
+    }
+};
+
 /**
  * Service for handling multi-modal content: images, audio, and documents
  */
@@ -43,56 +58,61 @@ export class MultiModalService {
         this.app = app;
         this.settings = settings;
         
-        // Get the appropriate API key for the selected vendor
-        const apiKey = getApiKeyForVendor(settings, settings.vendor);
+        const providerSettings = resolveProviderSettings(settings, AIFeature.IMAGE);
         
-        // Ensure we're using a model that supports multi-modal capabilities
-        let modelForMultiModal = this.settings.model;
+        // Ensure we're using a model that supports multi-modal capabilities,
+        // unless one was picked specifically for image analysis
+        let modelForMultiModal = providerSettings.model;
         
-        // Force specific models that support multi-modal based on vendor
-        switch (settings.vendor) {
-            case AIVendor.GOOGLE:
-                // Force a Gemini model that supports multi-modal
-                if (!modelForMultiModal.includes('gemini-1.5') && !modelForMultiModal.includes('gemini-2')) {
-                    modelForMultiModal = 'gemini-1.5-pro';
-                    new Notice('Switched to Gemini 1.5 Pro for multi-modal support');
-                }
-                break;
+        if (!settings.featureModels[AIFeature.IMAGE]?.model) {
+            // Force specific models that support multi-modal based on vendor
+            switch (providerSettings.vendor) {
+                case AIVendor.GOOGLE:
+                    // Force a Gemini model that supports multi-modal
+                    if (!modelForMultiModal.includes('gemini-1.5') && !modelForMultiModal.includes('gemini-2')) {
+                        modelForMultiModal = 'gemini-1.5-pro';
+                        new Notice('Switched to Gemini 1.5 Pro for multi-modal support');
+                    }
+                    break;
+                
+                case AIVendor.OPENAI:
+                    // Force a GPT model that supports multi-modal
+                    if (!modelForMultiModal.includes('gpt-4o')) {
+                        modelForMultiModal = 'gpt-4o';
+                        new Notice('Switched to GPT-4o for multi-modal support');
+                    }
+                    break;
                 
-            case AIVendor.OPENAI:
-                // Force a GPT model that supports multi-modal
-                if (!modelForMultiModal.includes('gpt-4o')) {
-                    modelForMultiModal = 'gpt-4o';
-                    new Notice('Switched to GPT-4o for multi-modal support');
-                }
-                break;
+                case AIVendor.ANTHROPIC:
+                    // Force a Claude model that supports multi-modal
+                    if (!modelForMultiModal.includes('claude-3')) {
+                        modelForMultiModal = 'claude-3-opus-20240229';
+                        new Notice('Switched to Claude 3 Opus for multi-modal support');
+                    }
+                    break;
                 
-            case AIVendor.ANTHROPIC:
-                // Force a Claude model that supports multi-modal
-                if (!modelForMultiModal.includes('claude-3')) {
-                    modelForMultiModal = 'claude-3-opus-20240229';
-                    new Notice('Switched to Claude 3 Opus for multi-modal support');
-                }
-                break;
+                case AIVendor.LOCAL:
+                    // Local servers only offer the models the user has pulled, so trust their choice
+                    // (a vision-capable model such as llava is required for image analysis)
+                    break;
+            }
         }
         
         // Create the AI provider using the factory with our multi-modal compatible model
-        this.aiProvider = AIProviderFactory.createProvider({
-            apiKey,
-            model: modelForMultiModal,
-            maxTokens: settings.maxTokens,
-            temperature: settings.temperature,
-            vendor: settings.vendor
-        });
+        this.aiProvider = AIProviderFactory.createProviderWithFallback(resolveFallbackChain(settings, {
+            ...providerSettings,
+            model: modelForMultiModal
+        }));
     }
 
     /**
      * Analyzes an image from a file
      * @param file The image file to analyze
      * @param analysisType The type of analysis to perform
+     * @param signal Cancels the request when triggered
      * @returns The analysis result
      */
-    async analyzeImage(file: TFile, analysisType: ImageAnalysisType): Promise<ImageAnalysisResult> {
+    async analyzeImage(file: TFile, analysisType: ImageAnalysisType, signal?: AbortSignal): Promise<ImageAnalysisResult> {
         try {
             // Validate file is an image
             if (!file.path.match(/\.(jpg|jpeg|png|gif|webp|bmp)$/i)) {
@@ -105,71 +125,125 @@ export class MultiModalService {
             // Convert to base64
             const base64 = this.arrayBufferToBase64(arrayBuffer);
             
-            // Create prompt based on analysis type
-            let prompt = '';
+            const prompt = this.buildImagePrompt(file.name, analysisType);
             
-            switch (analysisType) {
-                case ImageAnalysisType.DESCRIBE:
-                    prompt = `Describe this image in detail. Include information about the content, setting, and any notable elements. Format your response as markdown paragraphs.`;
-                    break;
-                    
-                case ImageAnalysisType.OCR:
-                    prompt = `Extract all visible text from this image. Preserve the layout as much as possible using markdown formatting. If there are multiple columns, process them left-to-right, top-to-bottom.`;
-                    break;
-                    
-                case ImageAnalysisType.IDENTIFY_OBJECTS:
-                    prompt = `Identify all notable objects in this image. For each object, provide:
-                    1. The name of the object
-                    2. A confidence score from 0-1
-                    
-                    Format your response as a JSON array of objects with "name" and "confidence" properties.`;
-                    break;
-                    
-                case ImageAnalysisType.EXTRACT_INFORMATION:
-                    prompt = `Extract key information from this image. If it's a diagram, explain what it represents. If it's a document, summarize the key points. If it's a photo, describe the important elements and their significance.`;
-                    break;
+            // Object lists come back as validated JSON rather than free text
+            if (analysisType === ImageAnalysisType.IDENTIFY_OBJECTS) {
+                const objects = await this.aiProvider.generateStructured<DetectedObject[]>(prompt, OBJECTS_SCHEMA, {
+                    parts: [{ type: 'image', data: base64 }],
+                    signal
+                });
+                return {
+                    type: analysisType,
+                    text: JSON.stringify(objects, null, 2),
+                    objects
+                };
             }
             
-            // Add metadata about the image to the prompt
-            prompt = `Image filename: ${file.name}\n\n${prompt}`;
-            
             // Call the multi-modal content generation API with both text prompt and image data
             const responseText = await this.aiProvider.generateMultiModalContent(prompt, [
                 { type: 'image', data: base64 }
-            ]);
+            ], { signal });
             
-            // Parse the response based on analysis type
-            let result: ImageAnalysisResult = {
-                type: analysisType,
-                text: responseText
-            };
+            return this.parseAnalysisResponse(responseText, analysisType);
             
-            // For IDENTIFY_OBJECTS, try to parse the JSON
-            if (analysisType === ImageAnalysisType.IDENTIFY_OBJECTS) {
-                try {
-                    // Extract JSON from the response if it's in a code block
-                    const jsonMatch = responseText.match(/```json\n([\s\S]*?)\n```/) || 
-                                      responseText.match(/\[\s*\{\s*"name"/);
-                    
-                    if (jsonMatch) {
-                        const jsonContent = jsonMatch[1] || jsonMatch[0];
-                        const objects = JSON.parse(jsonContent.replace(/```json|```/g, '').trim());
-                        result.objects = objects;
-                    }
-                } catch (e) {
-                    console.error('Failed to parse objects JSON:', e);
-                    // Fall back to just text
-                }
+        } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
+            console.error('Error analyzing image:', error);
+            throw new Error(`Failed to analyze image: ${error.message}`);
+        }
+    }
+
+    /**
+     * Analyzes base64-encoded image data, streaming the response as it is generated.
+     * Unlike analyzeImage, the image does not need to live in the vault.
+     * @param fileName The image's file name, passed to the model as context
+     * @param base64 The base64-encoded image data
+     * @param analysisType The type of analysis to perform
+     * @param onUpdate Called with the full text received so far each time a chunk arrives
+     * @param signal Aborts the in-flight request when triggered
+     * @returns The analysis result
+     */
+    async analyzeImageDataStream(
+        fileName: string,
+        base64: string,
+        analysisType: ImageAnalysisType,
+        onUpdate?: (partial: string) => void,
+        signal?: AbortSignal
+    ): Promise<ImageAnalysisResult> {
+        try {
+            if (!fileName.match(/\.(jpg|jpeg|png|gif|webp|bmp)$/i)) {
+                throw new Error('File is not a supported image format');
             }
             
-            return result;
+            const prompt = this.buildImagePrompt(fileName, analysisType);
             
+            let responseText = '';
+            for await (const text of this.aiProvider.generateMultiModalContentStream(prompt, [
+                { type: 'image', data: base64 }
+            ], { signal })) {
+                responseText += text;
+                onUpdate?.(responseText);
+            }
+            
+            return this.parseAnalysisResponse(responseText, analysisType);
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error analyzing image:', error);
             throw new Error(`Failed to analyze image: ${error.message}`);
         }
     }
 
+    /**
+     * Builds the prompt for an image analysis
+     * @param fileName The image's file name
+     * @param analysisType The type of analysis to perform
+     * @returns The prompt to send with the image
+     */
+    private buildImagePrompt(fileName: string, analysisType: ImageAnalysisType): string {
+        const templates: Record<ImageAnalysisType, PromptTemplateId> = {
+            [ImageAnalysisType.DESCRIBE]: PromptTemplateId.IMAGE_DESCRIBE,
+            [ImageAnalysisType.OCR]: PromptTemplateId.IMAGE_OCR,
+            [ImageAnalysisType.IDENTIFY_OBJECTS]: PromptTemplateId.IMAGE_IDENTIFY_OBJECTS,
+            [ImageAnalysisType.EXTRACT_INFORMATION]: PromptTemplateId.IMAGE_EXTRACT_INFORMATION
+        };
+        
+        return PromptTemplateRegistry.getInstance().render(templates[analysisType], { fileName });
+    }
+
+    /**
+     * Converts the model's response into an analysis result
+     * @param responseText The raw response text
+     * @param analysisType The type of analysis that was performed
+     * @returns The analysis result
+     */
+    private parseAnalysisResponse(responseText: string, analysisType: ImageAnalysisType): ImageAnalysisResult {
+        let result: ImageAnalysisResult = {
+            type: analysisType,
+            text: responseText
+        };
+        
+        // For IDENTIFY_OBJECTS, try to parse the JSON
+        if (analysisType === ImageAnalysisType.IDENTIFY_OBJECTS) {
+            try {
+                result.objects = parseStructuredOutput<DetectedObject[]>(responseText, OBJECTS_SCHEMA);
+            } catch (e) {
+                console.error('Failed to parse objects JSON:', e);
+                // Fall back to just text
+            }
+        }
+        
+        return result;
+    }
+
     /**
      * Transcribes audio from a file
      * @param file The audio file to transcribe
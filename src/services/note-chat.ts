@@ -0,0 +1,109 @@
+import { App, TFile } from 'obsidian';
+import { ObsidianLinkSettings } from '../types';
+import { AIProvider, AIProviderFactory, AIFeature, ChatRequest, ServedModel, resolveProviderSettings, resolveFallbackChain } from '../utils/ai-providers';
+import { PromptTemplateRegistry, PromptTemplateId } from './prompt-templates';
+import { NoteConversation } from './conversation-store';
+import { RequestPriority } from './rate-limiter';
+
+// Linked notes are context, not the subject, so only part of each is sent
+const MAX_LINKED_NOTES = 10;
+const MAX_LINKED_NOTE_CHARS = 4000;
+
+/**
+ * Service for holding conversations grounded in a note and, optionally, the notes it links to
+ */
+export class NoteChatService {
+    private aiProvider: AIProvider;
+    private app: App;
+
+    constructor(app: App, settings: ObsidianLinkSettings) {
+        this.app = app;
+
+        const providerSettings = resolveProviderSettings(settings, AIFeature.CHAT);
+        this.aiProvider = AIProviderFactory.createProviderWithFallback(resolveFallbackChain(settings, providerSettings));
+    }
+
+    /**
+     * Stream the assistant's reply to the last user message of a conversation
+     * @param file The note the conversation is about
+     * @param conversation The conversation so far, ending with the user's message
+     * @param onUpdate Called with the full reply received so far, and the model writing it, as each chunk arrives
+     * @param signal Aborts the in-flight request when triggered
+     * @returns The completed reply
+     */
+    public async replyStream(
+        file: TFile,
+        conversation: NoteConversation,
+        onUpdate?: (partial: string, served?: ServedModel) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        try {
+            const request: ChatRequest = {
+                system: await this.buildSystemPrompt(file, conversation.includeLinkedNotes),
+                messages: conversation.turns.map(turn => ({
+                    role: turn.role,
+                    parts: [{ type: 'text', data: turn.content }]
+                }))
+            };
+
+            let reply = '';
+            let served: ServedModel | undefined;
+            const onServed = (model: ServedModel) => served = model;
+            for await (const text of this.aiProvider.generateChatStream(request, { signal, onServed, priority: RequestPriority.INTERACTIVE })) {
+                reply += text;
+                onUpdate?.(reply, served);
+            }
+
+            return reply;
+        } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+
+            console.error('Error chatting about note:', error);
+            throw new Error(`Failed to answer: ${error.message}`);
+        }
+    }
+
+    /**
+     * Get the notes a note links to, in the order they are first linked
+     * @param file The note
+     * @returns The linked markdown notes
+     */
+    public getLinkedNotes(file: TFile): TFile[] {
+        const links = this.app.metadataCache.resolvedLinks[file.path] ?? {};
+
+        return Object.keys(links)
+            .filter(path => path !== file.path)
+            .map(path => this.app.vault.getAbstractFileByPath(path))
+            .filter((linked): linked is TFile => linked instanceof TFile && linked.extension === 'md');
+    }
+
+    /**
+     * Build the system instruction from the note, re-read on every message so edits are picked up
+     */
+    private async buildSystemPrompt(file: TFile, includeLinkedNotes: boolean): Promise<string> {
+        const content = await this.app.vault.cachedRead(file);
+
+        let linkedNotes = '';
+        if (includeLinkedNotes) {
+            const sections = await Promise.all(
+                this.getLinkedNotes(file).slice(0, MAX_LINKED_NOTES).map(async linked => {
+                    const linkedContent = await this.app.vault.cachedRead(linked);
+                    const excerpt = linkedContent.length > MAX_LINKED_NOTE_CHARS
+                        ? `${linkedContent.slice(0, MAX_LINKED_NOTE_CHARS)}\n[...]`
+                        : linkedContent;
+                    return `Linked note: [[${linked.basename}]]\n${excerpt}`;
+                })
+            );
+            linkedNotes = sections.join('\n\n');
+        }
+
+        return PromptTemplateRegistry.getInstance().render(PromptTemplateId.NOTE_CHAT, {
+            title: file.basename,
+            content,
+            linkedNotes
+        });
+    }
+}
@@ -0,0 +1,485 @@
+import { Notice, TFile, Vault, normalizePath } from 'obsidian';
+import { AIFeature } from '../utils/ai-providers/base-provider';
+
+/**
+ * Identifiers of every prompt the plugin sends. An override for a template lives
+ * in the configured folder as a markdown file named after its identifier.
+ */
+export enum PromptTemplateId {
+    SUMMARIZE_CHUNK = 'summarize-chunk',
+    SUMMARIZE_COMBINE = 'summarize-combine',
+    SEARCH_RANK = 'search-rank',
+    SEARCH_EXPLAIN = 'search-explain',
+    SEARCH_ANSWER = 'search-answer',
+    CONCEPTS_EXTRACT = 'concepts-extract',
+    CONCEPTS_RELEVANCE = 'concepts-relevance',
+    CITATION_URL_METADATA = 'citation-url-metadata',
+    CITATION_DOI_METADATA = 'citation-doi-metadata',
+    CITATION_FORMAT = 'citation-format',
+    IMAGE_DESCRIBE = 'image-describe',
+    IMAGE_OCR = 'image-ocr',
+    IMAGE_IDENTIFY_OBJECTS = 'image-identify-objects',
+    IMAGE_EXTRACT_INFORMATION = 'image-extract-information',
+    SCRAPE = 'scrape',
+    NOTE_CHAT = 'note-chat'
+}
+
+/**
+ * A built-in prompt and the variables it can use
+ */
+export interface PromptTemplateDefinition {
+    name: string;
+    description: string;
+    feature: AIFeature;
+    variables: string[]; // Every variable the plugin fills in for this prompt
+    requiredVariables: string[]; // Variables an override must keep for the prompt to work
+    template: string;
+}
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplateDefinition> = {
+    [PromptTemplateId.SUMMARIZE_CHUNK]: {
+        name: 'Summarize note',
+        description: 'Summarizes a note, or one section of a long note',
+        feature: AIFeature.SUMMARIZE,
+        variables: ['content', 'level', 'levelInstructions', 'formatInstructions', 'context'],
+        requiredVariables: ['content'],
+        template: `Please provide an informative summary of the following text.
+{{levelInstructions}}
+{{formatInstructions}}
+{{context}}
+
+EXTREMELY IMPORTANT INSTRUCTIONS:
+- DO NOT include any title or heading
+- DO NOT repeat the document title
+- Start directly with the content
+- Use proper markdown formatting
+- Use bullet points as specified
+- Keep bullet points concise but informative
+
+Text to summarize:
+{{content}}`
+    },
+    [PromptTemplateId.SUMMARIZE_COMBINE]: {
+        name: 'Combine section summaries',
+        description: 'Merges the summaries of a long note\'s sections into one summary',
+        feature: AIFeature.SUMMARIZE,
+        variables: ['content', 'level'],
+        requiredVariables: ['content'],
+        template: `Below are summaries of different sections of a document.
+Create a cohesive {{level}} summary that combines these sections.
+Maintain the same level of detail and formatting as specified for the {{level}} summary level.
+Eliminate any redundancy while preserving all unique and important information.
+
+Section summaries:
+{{content}}`
+    },
+    [PromptTemplateId.SEARCH_RANK]: {
+        name: 'Rank search results',
+        description: 'Scores keyword matches by how well they answer the query',
+        feature: AIFeature.SEARCH,
+        variables: ['query', 'content'],
+        requiredVariables: ['query', 'content'],
+        template: `You are a semantic search engine for Obsidian notes. Your task is to find documents that are semantically related to the user's query, even if they don't contain the exact keywords.
+
+USER QUERY: "{{query}}"
+
+CANDIDATE DOCUMENTS:
+{{content}}
+
+INSTRUCTIONS:
+1. Analyze each document for DIRECT semantic relevance to the query. The document must contain information that would help answer or address the query.
+2. Be STRICT about relevance - only consider a document relevant if it contains information that is genuinely useful for the query topic.
+3. For example, if the query asks about "left shift" and a document discusses "shifting left" or "bit shifting operations", it should be considered highly relevant.
+4. However, if a document only mentions the query terms in passing or in an unrelated context, it should receive a low score or be excluded.
+5. For each relevant document, identify the SPECIFIC SECTION or SENTENCE that is most relevant to the query. Quote this exact text in your response.
+6. For each document, provide a DETAILED explanation (2-3 sentences) of why this document is relevant to the query and what specific information it contains that addresses the query.
+7. Use the following scoring guidelines:
+   - 0.9-1.0: Directly addresses the query topic in detail
+   - 0.7-0.8: Contains significant relevant information about the query topic
+   - 0.6-0.7: Has some relevant information but isn't comprehensive
+   - Below 0.6: Only tangentially related or mentions terms without context
+
+Only include documents with scores of 0.6 or higher. Sort them by relevance score (highest first).`
+    },
+    [PromptTemplateId.SEARCH_EXPLAIN]: {
+        name: 'Explain search result',
+        description: 'Explains how a note relates to the search query',
+        feature: AIFeature.SEARCH,
+        variables: ['query', 'title', 'relevantSection', 'content'],
+        requiredVariables: ['query', 'content'],
+        template: `Explain how the following Obsidian note relates to the search query "{{query}}".
+Point to the specific passages that address the query and describe what they contribute.
+Keep the explanation to one or two short paragraphs of markdown. Do not include a title.
+
+NOTE TITLE: {{title}}
+MOST RELEVANT SECTION: {{relevantSection}}
+
+NOTE CONTENT:
+{{content}}`
+    },
+    [PromptTemplateId.SEARCH_ANSWER]: {
+        name: 'Answer from vault',
+        description: 'Answers a question from passages of the most relevant notes, citing each one',
+        feature: AIFeature.SEARCH,
+        variables: ['question', 'sources'],
+        requiredVariables: ['question', 'sources'],
+        template: `Answer the question using only the passages from the user's Obsidian notes below.
+Cite the passage that supports each statement right after it, using its link exactly as given, e.g. [[Note#Heading]].
+If the passages don't answer the question, say so instead of guessing.
+Use markdown and keep the answer concise. Do not include a title or a list of sources at the end.
+
+QUESTION: {{question}}
+
+PASSAGES:
+{{sources}}`
+    },
+    [PromptTemplateId.CONCEPTS_EXTRACT]: {
+        name: 'Extract concepts',
+        description: 'Finds the key concepts in a note',
+        feature: AIFeature.CONCEPTS,
+        variables: ['content', 'tags'],
+        requiredVariables: ['content'],
+        template: `Analyze the following note and identify the key concepts present in it.
+For each concept, provide:
+1. A descriptive name (2-4 words)
+2. A brief description (1-2 sentences)
+3. A confidence score (0-1) indicating how clearly this concept is represented
+
+The note also has these tags: {{tags}}
+
+NOTE CONTENT:
+{{content}}`
+    },
+    [PromptTemplateId.CONCEPTS_RELEVANCE]: {
+        name: 'Check concept relevance',
+        description: 'Decides whether another note is related to a concept',
+        feature: AIFeature.CONCEPTS,
+        variables: ['concept', 'description', 'content'],
+        requiredVariables: ['concept', 'content'],
+        template: `Determine if the following note is related to the concept "{{concept}}": {{description}}
+
+If it is related, provide:
+1. A relevance score between 0 and 1 (where 1 is highly relevant)
+2. A brief explanation of why it's relevant
+
+NOTE CONTENT:
+{{content}}`
+    },
+    [PromptTemplateId.CITATION_URL_METADATA]: {
+        name: 'Citation metadata from URL',
+        description: 'Guesses citation metadata from a URL',
+        feature: AIFeature.CITATION,
+        variables: ['url'],
+        requiredVariables: ['url'],
+        template: `Extract likely citation metadata from this URL: {{url}}
+
+Leave out any field you cannot determine.
+Make educated guesses based on the URL structure, but do not invent specific titles or content details.`
+    },
+    [PromptTemplateId.CITATION_DOI_METADATA]: {
+        name: 'Citation metadata from DOI',
+        description: 'Guesses citation metadata from a DOI',
+        feature: AIFeature.CITATION,
+        variables: ['doi'],
+        requiredVariables: ['doi'],
+        template: `Extract likely citation metadata from this DOI: {{doi}}
+
+Leave out any field you cannot determine.
+Make educated guesses based on the DOI format, but do not invent specific titles or content details.`
+    },
+    [PromptTemplateId.CITATION_FORMAT]: {
+        name: 'Format citation',
+        description: 'Formats citation metadata in a citation style',
+        feature: AIFeature.CITATION,
+        variables: ['style', 'metadata'],
+        requiredVariables: ['style', 'metadata'],
+        template: `Generate a citation in {{style}} style using this metadata:
+{{metadata}}
+
+Follow these rules for {{style}} style:
+- Use proper formatting including italics (represented with markdown *italics*)
+- Include all required elements for the citation style
+- Format dates according to the style guidelines
+- For in-text citation, provide the standard format for this style`
+    },
+    [PromptTemplateId.IMAGE_DESCRIBE]: {
+        name: 'Describe image',
+        description: 'Describes an image in detail',
+        feature: AIFeature.IMAGE,
+        variables: ['fileName'],
+        requiredVariables: [],
+        template: `Image filename: {{fileName}}
+
+Describe this image in detail. Include information about the content, setting, and any notable elements. Format your response as markdown paragraphs.`
+    },
+    [PromptTemplateId.IMAGE_OCR]: {
+        name: 'Extract text from image',
+        description: 'Transcribes the text visible in an image',
+        feature: AIFeature.IMAGE,
+        variables: ['fileName'],
+        requiredVariables: [],
+        template: `Image filename: {{fileName}}
+
+Extract all visible text from this image. Preserve the layout as much as possible using markdown formatting. If there are multiple columns, process them left-to-right, top-to-bottom.`
+    },
+    [PromptTemplateId.IMAGE_IDENTIFY_OBJECTS]: {
+        name: 'Identify objects in image',
+        description: 'Lists the objects in an image with confidence scores',
+        feature: AIFeature.IMAGE,
+        variables: ['fileName'],
+        requiredVariables: [],
+        template: `Image filename: {{fileName}}
+
+Identify all notable objects in this image. For each object, provide:
+1. The name of the object
+2. A confidence score from 0-1
+
+Format your response as a JSON array of objects with "name" and "confidence" properties.`
+    },
+    [PromptTemplateId.IMAGE_EXTRACT_INFORMATION]: {
+        name: 'Extract information from image',
+        description: 'Explains diagrams, summarizes documents and describes photos',
+        feature: AIFeature.IMAGE,
+        variables: ['fileName'],
+        requiredVariables: [],
+        template: `Image filename: {{fileName}}
+
+Extract key information from this image. If it's a diagram, explain what it represents. If it's a document, summarize the key points. If it's a photo, describe the important elements and their significance.`
+    },
+    [PromptTemplateId.SCRAPE]: {
+        name: 'Scrape web page',
+        description: 'Converts a web page\'s HTML into markdown',
+        feature: AIFeature.SCRAPE,
+        variables: ['url', 'content'],
+        requiredVariables: ['content'],
+        template: `I have the HTML content from the website {{url}}.
+Please extract the most meaningful and important content from this HTML and format it as Markdown.
+Focus on the main article content, headings, lists, and any important information.
+Ignore navigation menus, footers, ads, and other non-essential elements.
+Preserve the structure of the content with proper Markdown formatting.
+Include images by referencing their URLs.
+
+HTML content:
+{{content}}`
+    },
+    [PromptTemplateId.NOTE_CHAT]: {
+        name: 'Chat with note',
+        description: 'Instructions for conversations about a note, sent with every message',
+        feature: AIFeature.CHAT,
+        variables: ['title', 'content', 'linkedNotes'],
+        requiredVariables: ['content'],
+        template: `You are a helpful assistant answering questions about a note in the user's Obsidian vault.
+Base your answers on the note and any linked notes below. If they don't contain the answer, say so before drawing on general knowledge.
+Use proper markdown formatting, and refer to other notes as [[wikilinks]] when you rely on them.
+
+Note: {{title}}
+{{content}}
+
+{{linkedNotes}}`
+    }
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * Fill in a template's {{variables}}. Values are inserted in a single pass, so
+ * braces inside note content are never expanded. Unknown variables become empty.
+ * @param template The template text
+ * @param variables The values to insert
+ * @returns The rendered prompt
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+    return template.replace(VARIABLE_PATTERN, (_match, name: string) => variables[name] ?? '');
+}
+
+/**
+ * Registry of the prompts sent for each feature, with overrides read from the vault
+ */
+export class PromptTemplateRegistry {
+    private static instance: PromptTemplateRegistry;
+    private overrides: Map<PromptTemplateId, string> = new Map();
+    private problems: Map<PromptTemplateId, string[]> = new Map();
+    private vault: Vault | null = null;
+    private folder = '';
+
+    private constructor() {}
+
+    public static getInstance(): PromptTemplateRegistry {
+        if (!PromptTemplateRegistry.instance) {
+            PromptTemplateRegistry.instance = new PromptTemplateRegistry();
+        }
+        return PromptTemplateRegistry.instance;
+    }
+
+    /**
+     * Render a prompt, using the vault override if there is a valid one
+     * @param id The template to render
+     * @param variables The values to insert
+     * @returns The prompt to send
+     */
+    render(id: PromptTemplateId, variables: Record<string, string>): string {
+        return renderTemplate(this.getTemplate(id), variables).trim();
+    }
+
+    /**
+     * Get the template text currently in effect
+     * @param id The template
+     * @returns The override if there is a valid one, otherwise the built-in template
+     */
+    getTemplate(id: PromptTemplateId): string {
+        return this.overrides.get(id) ?? DEFAULT_PROMPT_TEMPLATES[id].template;
+    }
+
+    /**
+     * Whether a valid override is in effect for a template
+     */
+    isOverridden(id: PromptTemplateId): boolean {
+        return this.overrides.has(id);
+    }
+
+    /**
+     * Problems that stopped an override file from being used
+     * @returns The problems, empty if the override is valid or there is none
+     */
+    getProblems(id: PromptTemplateId): string[] {
+        return this.problems.get(id) ?? [];
+    }
+
+    /**
+     * Check a template against the variables its prompt needs
+     * @param id The template the text is meant for
+     * @param template The template text
+     * @returns A list of problems, empty if the template is usable
+     */
+    validate(id: PromptTemplateId, template: string): string[] {
+        const definition = DEFAULT_PROMPT_TEMPLATES[id];
+        const used = new Set(Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1]));
+        const problems: string[] = [];
+
+        for (const variable of definition.requiredVariables) {
+            if (!used.has(variable)) {
+                problems.push(`Missing required variable {{${variable}}}`);
+            }
+        }
+        for (const variable of used) {
+            if (!definition.variables.includes(variable)) {
+                problems.push(`Unknown variable {{${variable}}}`);
+            }
+        }
+
+        return problems;
+    }
+
+    /**
+     * Path of the override file for a template
+     */
+    getOverridePath(id: PromptTemplateId): string {
+        return normalizePath(`${this.folder}/${id}.md`);
+    }
+
+    /**
+     * Whether a vault path is inside the override folder
+     */
+    isOverridePath(path: string): boolean {
+        return this.folder !== '' && path.startsWith(`${normalizePath(this.folder)}/`);
+    }
+
+    /**
+     * Read every override from the configured folder
+     * @param vault The vault to read from
+     * @param folder The folder holding override files, or an empty string to use only the built-in prompts
+     */
+    async loadOverrides(vault: Vault, folder: string): Promise<void> {
+        this.vault = vault;
+        this.folder = folder.trim();
+
+        const overrides: Map<PromptTemplateId, string> = new Map();
+        const problems: Map<PromptTemplateId, string[]> = new Map();
+
+        if (this.folder) {
+            for (const id of Object.values(PromptTemplateId)) {
+                const file = vault.getAbstractFileByPath(this.getOverridePath(id));
+                if (!(file instanceof TFile)) {
+                    continue;
+                }
+
+                try {
+                    const template = this.stripFrontmatter(await vault.cachedRead(file));
+                    const templateProblems = this.validate(id, template);
+                    if (templateProblems.length > 0) {
+                        problems.set(id, templateProblems);
+                    } else {
+                        overrides.set(id, template);
+                    }
+                } catch (error) {
+                    console.error(`Failed to read prompt template ${file.path}:`, error);
+                    problems.set(id, [`Could not be read: ${error.message}`]);
+                }
+            }
+        }
+
+        this.overrides = overrides;
+        this.problems = problems;
+
+        if (problems.size > 0) {
+            // The built-in prompt is used instead, but the user should know their edit isn't in effect
+            new Notice(`${problems.size} prompt ${problems.size === 1 ? 'template has' : 'templates have'} problems and will use the default. See the Prompt Templates settings.`);
+        }
+    }
+
+    /**
+     * Re-read the overrides after the folder's contents change
+     */
+    async reload(): Promise<void> {
+        if (this.vault) {
+            await this.loadOverrides(this.vault, this.folder);
+        }
+    }
+
+    /**
+     * Write the built-in template to the override folder so it can be edited
+     * @returns The override file
+     */
+    async createOverride(id: PromptTemplateId): Promise<TFile> {
+        if (!this.vault || !this.folder) {
+            throw new Error('Set a prompt template folder first');
+        }
+
+        const path = this.getOverridePath(id);
+        const existing = this.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            return existing;
+        }
+
+        const folder = normalizePath(this.folder);
+        if (!this.vault.getAbstractFileByPath(folder)) {
+            await this.vault.createFolder(folder);
+        }
+
+        const file = await this.vault.create(path, DEFAULT_PROMPT_TEMPLATES[id].template);
+        await this.reload();
+        return file;
+    }
+
+    /**
+     * Delete a template's override file so the built-in prompt is used again
+     */
+    async resetOverride(id: PromptTemplateId): Promise<void> {
+        if (!this.vault) {
+            return;
+        }
+
+        const file = this.vault.getAbstractFileByPath(this.getOverridePath(id));
+        if (file instanceof TFile) {
+            await this.vault.delete(file);
+        }
+        await this.reload();
+    }
+
+    /**
+     * Remove YAML frontmatter, so override notes can carry their own properties
+     */
+    private stripFrontmatter(text: string): string {
+        return text.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '').trim();
+    }
+}
@@ -1,15 +1,50 @@
-type RateLimitConfig = {
-    maxRequests: number;
-    timeWindow: number; // in milliseconds
-    provider: string;
+/**
+ * How urgently a request should be sent. Queued requests start in priority order,
+ * so a summary the user is waiting for jumps ahead of a background scan.
+ */
+export enum RequestPriority {
+    INTERACTIVE = 0,
+    NORMAL = 1,
+    BACKGROUND = 2
+}
+
+/**
+ * Limits for one vendor (or one model of a vendor). 0 disables a limit.
+ */
+export interface RateLimitConfig {
+    requestsPerWindow: number;
+    inputTokensPerWindow: number;
+    maxConcurrent: number;
+    windowMs: number;
+}
+
+/**
+ * A request waiting for, or holding, a slot
+ */
+export interface RateLimitRequest {
+    vendor: string;
+    model: string;
+    inputTokens?: number; // Estimated input tokens, counted against inputTokensPerWindow
+    priority?: RequestPriority; // Defaults to NORMAL
+    signal?: AbortSignal; // Aborting removes the request from the queue
+}
+
+type Waiter = {
+    priority: RequestPriority;
+    inputTokens: number;
+    start: () => void;
 };
 
 type RateLimitState = {
-    count: number;
-    lastReset: number;
-    queue: Array<() => void>;
+    starts: Array<{ time: number; tokens: number }>; // Requests started within the window, oldest first
+    inFlight: number;
+    queue: Waiter[]; // Ordered by priority, then arrival
+    timer: number | null;
 };
 
+/**
+ * Sliding-window rate limiter tracking requests, input tokens and concurrency per vendor and model
+ */
 export class RateLimiter {
     private static instance: RateLimiter;
     private limits: Map<string, RateLimitState> = new Map();
@@ -24,63 +59,168 @@ export class RateLimiter {
         return RateLimiter.instance;
     }
 
-    public configure(provider: string, maxRequests: number, timeWindow: number): void {
-        this.configs.set(provider, { maxRequests, timeWindow, provider });
-        if (!this.limits.has(provider)) {
-            this.limits.set(provider, { count: 0, lastReset: Date.now(), queue: [] });
-        }
+    /**
+     * Set the limits for a vendor, or for a single model when one is given
+     * @param vendor The vendor the limits apply to
+     * @param config The limits
+     * @param model Limit only this model, overriding the vendor's limits
+     */
+    public configure(vendor: string, config: RateLimitConfig, model?: string): void {
+        this.configs.set(model ? `${vendor}:${model}` : vendor, config);
     }
 
-    public async withRateLimit<T>(provider: string, fn: () => Promise<T>): Promise<T> {
-        const config = this.configs.get(provider);
-        if (!config) {
-            throw new Error(`No rate limit configuration found for provider: ${provider}`);
-        }
-
-        const limit = this.limits.get(provider)!;
-        this.cleanupOldRequests(limit, config);
-
-        if (limit.count >= config.maxRequests) {
-            // If we're at the limit, wait for the next available slot
-            await new Promise<void>((resolve) => {
-                limit.queue.push(resolve);
-            });
+    /**
+     * Run a request once the limits allow it
+     * @param request Who the request is for, its size and priority
+     * @param fn The request to make
+     * @returns The result of the request
+     */
+    public async withRateLimit<T>(request: RateLimitRequest, fn: () => Promise<T>): Promise<T> {
+        const key = `${request.vendor}:${request.model}`;
+        if (!this.getConfig(request)) {
+            throw new Error(`No rate limit configuration found for provider: ${request.vendor}`);
         }
 
-        limit.count++;
+        await this.acquire(key, request);
 
         try {
             return await fn();
         } finally {
-            // Process the next request in the queue if available
-            this.processQueue(provider);
+            this.release(key, request);
         }
     }
 
-    private cleanupOldRequests(limit: RateLimitState, config: RateLimitConfig): void {
+    /**
+     * Wait in the queue until the request can start
+     */
+    private acquire(key: string, request: RateLimitRequest): Promise<void> {
+        request.signal?.throwIfAborted();
+
+        const state = this.getState(key);
+        return new Promise<void>((resolve, reject) => {
+            const onAbort = () => {
+                state.queue = state.queue.filter(queued => queued !== waiter);
+                reject(request.signal?.reason);
+                // The aborted request may have been blocking smaller ones behind it
+                this.processQueue(key, request);
+            };
+
+            const waiter: Waiter = {
+                priority: request.priority ?? RequestPriority.NORMAL,
+                inputTokens: request.inputTokens ?? 0,
+                start: () => {
+                    request.signal?.removeEventListener('abort', onAbort);
+                    resolve();
+                }
+            };
+
+            // Insert behind every request of the same or higher priority
+            const index = state.queue.findIndex(queued => queued.priority > waiter.priority);
+            state.queue.splice(index === -1 ? state.queue.length : index, 0, waiter);
+            request.signal?.addEventListener('abort', onAbort, { once: true });
+
+            this.processQueue(key, request);
+        });
+    }
+
+    private release(key: string, request: RateLimitRequest): void {
+        const state = this.getState(key);
+        state.inFlight--;
+        this.processQueue(key, request);
+    }
+
+    /**
+     * Start queued requests in order while the limits allow, then wake up when the window next frees up
+     */
+    private processQueue(key: string, request: RateLimitRequest): void {
+        const state = this.getState(key);
+        const config = this.getConfig(request);
+        if (!config) return;
+
         const now = Date.now();
-        if (now - limit.lastReset >= config.timeWindow) {
-            limit.count = 0;
-            limit.lastReset = now;
+        this.pruneWindow(state, config, now);
+
+        // The head of the queue goes first, so a large request isn't starved by smaller ones behind it
+        while (state.queue.length > 0 && this.waitTime(state, config, state.queue[0], now) === 0) {
+            const next = state.queue.shift()!;
+            state.starts.push({ time: now, tokens: next.inputTokens });
+            state.inFlight++;
+            next.start();
+        }
+
+        if (state.timer !== null) {
+            window.clearTimeout(state.timer);
+            state.timer = null;
+        }
+
+        // Requests blocked on concurrency are woken by release; ones blocked on the window need a timer
+        if (state.queue.length > 0) {
+            const wait = this.waitTime(state, config, state.queue[0], now);
+            if (wait > 0 && wait !== Infinity) {
+                state.timer = window.setTimeout(() => {
+                    state.timer = null;
+                    this.processQueue(key, request);
+                }, wait);
+            }
         }
     }
 
-    private processQueue(provider: string): void {
-        const limit = this.limits.get(provider);
-        const config = this.configs.get(provider);
-        
-        if (!limit || !config) return;
+    /**
+     * How long until a request may start: 0 if it can start now, Infinity if it must wait for a request to finish
+     */
+    private waitTime(state: RateLimitState, config: RateLimitConfig, waiter: Waiter, now: number): number {
+        if (config.maxConcurrent > 0 && state.inFlight >= config.maxConcurrent) {
+            return Infinity;
+        }
+
+        let wait = 0;
+
+        if (config.requestsPerWindow > 0 && state.starts.length >= config.requestsPerWindow) {
+            // Wait until enough of the oldest requests leave the window
+            const start = state.starts[state.starts.length - config.requestsPerWindow];
+            wait = Math.max(wait, start.time + config.windowMs - now);
+        }
 
-        this.cleanupOldRequests(limit, config);
+        if (config.inputTokensPerWindow > 0) {
+            let tokens = state.starts.reduce((total, start) => total + start.tokens, 0);
+            // A request larger than the whole budget runs on its own once the window is empty
+            const needed = Math.min(waiter.inputTokens, config.inputTokensPerWindow);
+            for (const start of state.starts) {
+                if (tokens + needed <= config.inputTokensPerWindow) break;
+                tokens -= start.tokens;
+                wait = Math.max(wait, start.time + config.windowMs - now);
+            }
+        }
 
-        if (limit.queue.length > 0 && limit.count < config.maxRequests) {
-            const next = limit.queue.shift();
-            if (next) next();
+        return Math.max(0, wait);
+    }
+
+    private pruneWindow(state: RateLimitState, config: RateLimitConfig, now: number): void {
+        while (state.starts.length > 0 && now - state.starts[0].time >= config.windowMs) {
+            state.starts.shift();
         }
     }
 
+    private getState(key: string): RateLimitState {
+        let state = this.limits.get(key);
+        if (!state) {
+            state = { starts: [], inFlight: 0, queue: [], timer: null };
+            this.limits.set(key, state);
+        }
+        return state;
+    }
+
+    private getConfig(request: RateLimitRequest): RateLimitConfig | undefined {
+        return this.configs.get(`${request.vendor}:${request.model}`) ?? this.configs.get(request.vendor);
+    }
+
     // Clear all rate limiting state (useful for tests)
     public clear(): void {
+        this.limits.forEach(state => {
+            if (state.timer !== null) {
+                window.clearTimeout(state.timer);
+            }
+        });
         this.limits.clear();
     }
 }
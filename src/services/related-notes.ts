@@ -0,0 +1,268 @@
+import { App, CachedMetadata, MarkdownView, TFile, getAllTags, parseFrontMatterAliases } from 'obsidian';
+import { VectorIndex } from './vector-index';
+import { LexicalIndex, fuseRankings, tokenize } from './lexical-index';
+import { SearchService } from './search';
+
+/**
+ * A note related to the active one
+ */
+export interface RelatedNoteMatch {
+    file: TFile;
+    score: number; // From 0 to 1
+    sharedConcepts: string[]; // Tags and key terms both notes have, e.g. "#project" or "budget"
+    linked: boolean; // Whether the active note already links to it
+}
+
+/**
+ * Another note's title or alias written in the active note without a link to it
+ */
+export interface UnlinkedMention {
+    file: TFile; // The note mentioned
+    text: string; // The mention as written
+    line: number; // Zero-based line of the first mention
+}
+
+/**
+ * A tag or key term of the active note that other notes share
+ */
+export interface SharedConcept {
+    label: string; // As shown, e.g. "#project" or "budget"
+    query: string; // A search query for the notes sharing it
+    notes: number; // How many other notes share it
+}
+
+/**
+ * What relates the active note to the rest of the vault
+ */
+export interface RelatedNotesReport {
+    related: RelatedNoteMatch[];
+    mentions: UnlinkedMention[];
+    concepts: SharedConcept[];
+}
+
+const MAX_RELATED_NOTES = 10;
+const MAX_UNLINKED_MENTIONS = 20;
+const MAX_KEY_TERMS = 12;
+const MAX_SHARED_CONCEPTS_PER_NOTE = 5;
+
+// Shorter titles and aliases are too likely to be ordinary words
+const MIN_MENTION_LENGTH = 3;
+
+// Text that can't hold an unlinked mention: frontmatter, code, links and embeds
+const UNLINKABLE_TEXT = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)|^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[^\n]*$|`[^`\n]*`|!?\[\[[^\]\n]*\]\]|!?\[[^\]\n]*\]\([^)\n]*\)|https?:\/\/\S+/gm;
+
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+/**
+ * Finds what relates a note to the rest of the vault from what is already indexed: the vectors
+ * of the search index, the keyword index and Obsidian's metadata cache. It never calls the AI,
+ * so it is cheap enough to run whenever the active note changes.
+ */
+export class RelatedNotesService {
+    private app: App;
+    private getSearchService: () => SearchService | null;
+
+    /**
+     * @param app The Obsidian app
+     * @param getSearchService Returns the search service, which is replaced when settings change
+     */
+    constructor(app: App, getSearchService: () => SearchService | null) {
+        this.app = app;
+        this.getSearchService = getSearchService;
+    }
+
+    /**
+     * Find the notes related to a note, the notes it mentions without linking, and the concepts it shares
+     * @param file The note
+     * @returns What relates the note to others; empty where the indexes don't cover the note yet
+     */
+    async getReport(file: TFile): Promise<RelatedNotesReport> {
+        // The keyword index is kept in memory and built by the first search, so build it here if no search has run yet
+        await this.getSearchService()?.updateLexicalIndex();
+
+        const content = await this.app.vault.cachedRead(file);
+        const cache = this.app.metadataCache.getFileCache(file);
+        const linkedPaths = new Set(Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {}));
+
+        const tags = cache ? this.getTags(cache) : [];
+        const keyTerms = LexicalIndex.getInstance().getKeyTerms(file.path, MAX_KEY_TERMS);
+
+        return {
+            related: this.findRelatedNotes(file, tags, keyTerms, linkedPaths),
+            mentions: this.findUnlinkedMentions(file, content, linkedPaths),
+            concepts: this.getSharedConcepts(file, tags, keyTerms)
+        };
+    }
+
+    /**
+     * Link a mention by replacing its first unlinked occurrence in the note
+     * @param file The note the mention is in
+     * @param mention The mention to link
+     * @returns False if the mention isn't in the note any more
+     */
+    async linkMention(file: TFile, mention: UnlinkedMention): Promise<boolean> {
+        let linked = false;
+        await this.app.vault.process(file, content => {
+            const offset = findMention(content, mention.text, findUnlinkableText(content));
+            if (offset === -1) {
+                return content;
+            }
+
+            linked = true;
+            // Keep the text as written when it isn't the note's name
+            const alias = mention.text === mention.file.basename ? undefined : mention.text;
+            const link = this.app.fileManager.generateMarkdownLink(mention.file, file.path, undefined, alias);
+            return content.substring(0, offset) + link + content.substring(offset + mention.text.length);
+        });
+        return linked;
+    }
+
+    /**
+     * Insert a link to another note at the cursor where the note is open, or at its end otherwise
+     * @param file The note to insert the link into
+     * @param target The note to link to
+     */
+    async insertLink(file: TFile, target: TFile): Promise<void> {
+        const link = this.app.fileManager.generateMarkdownLink(target, file.path);
+
+        const view = this.app.workspace.getLeavesOfType('markdown')
+            .map(leaf => leaf.view)
+            .find((view): view is MarkdownView => view instanceof MarkdownView && view.file?.path === file.path);
+        if (view && view.getMode() === 'source') {
+            view.editor.replaceRange(link, view.editor.getCursor());
+            return;
+        }
+
+        await this.app.vault.process(file, content => `${content.replace(/\s*$/, '')}\n\n${link}\n`);
+    }
+
+    /**
+     * Rank notes by their vectors and by their key terms, fusing the two where both are available
+     */
+    private findRelatedNotes(file: TFile, tags: string[], keyTerms: string[], linkedPaths: Set<string>): RelatedNoteMatch[] {
+        const rankings = [
+            VectorIndex.getInstance().findSimilarNotes(file.path, MAX_RELATED_NOTES * 2).map(hit => hit.path),
+            LexicalIndex.getInstance().findSimilar(file.path, MAX_RELATED_NOTES * 2).map(hit => hit.path)
+        ].filter(ranking => ranking.length > 0);
+
+        return fuseRankings(rankings)
+            .map(({ item, score }) => ({ file: this.app.vault.getAbstractFileByPath(item), score }))
+            .filter((match): match is { file: TFile; score: number } => match.file instanceof TFile)
+            .slice(0, MAX_RELATED_NOTES)
+            .map(({ file: other, score }) => {
+                const otherCache = this.app.metadataCache.getFileCache(other);
+                const otherTags = new Set(otherCache ? this.getTags(otherCache) : []);
+                const sharedConcepts = [
+                    ...tags.filter(tag => otherTags.has(tag)),
+                    ...keyTerms.filter(term => LexicalIndex.getInstance().hasTerm(other.path, term))
+                ].slice(0, MAX_SHARED_CONCEPTS_PER_NOTE);
+
+                return { file: other, score, sharedConcepts, linked: linkedPaths.has(other.path) };
+            });
+    }
+
+    /**
+     * Find the titles and aliases of other notes written in a note without a link to them.
+     * Longer names are matched first, so "Project Alpha" is found rather than "Project" within it.
+     */
+    private findUnlinkedMentions(file: TFile, content: string, linkedPaths: Set<string>): UnlinkedMention[] {
+        // Only names whose first word is in the note can be mentioned in it, which rules out most notes cheaply
+        const words = new Set(tokenize(content));
+        const candidates: Array<{ file: TFile; name: string }> = [];
+        for (const other of this.app.vault.getMarkdownFiles()) {
+            if (other.path === file.path || linkedPaths.has(other.path)) {
+                continue;
+            }
+
+            const aliases = parseFrontMatterAliases(this.app.metadataCache.getFileCache(other)?.frontmatter) ?? [];
+            for (const name of [other.basename, ...aliases]) {
+                const firstWord = tokenize(name)[0];
+                if (name.length >= MIN_MENTION_LENGTH && firstWord && words.has(firstWord)) {
+                    candidates.push({ file: other, name });
+                }
+            }
+        }
+        candidates.sort((a, b) => b.name.length - a.name.length);
+
+        const mentions: Array<UnlinkedMention & { offset: number }> = [];
+        const skipped = findUnlinkableText(content);
+        for (const candidate of candidates) {
+            if (mentions.some(mention => mention.file === candidate.file)) {
+                continue;
+            }
+
+            const offset = findMention(content, candidate.name, skipped);
+            if (offset === -1) {
+                continue;
+            }
+
+            skipped.push({ from: offset, to: offset + candidate.name.length });
+            mentions.push({
+                file: candidate.file,
+                text: content.substring(offset, offset + candidate.name.length),
+                line: content.substring(0, offset).split('\n').length - 1,
+                offset
+            });
+        }
+
+        return mentions
+            .sort((a, b) => a.offset - b.offset)
+            .slice(0, MAX_UNLINKED_MENTIONS)
+            .map(({ offset, ...mention }) => mention);
+    }
+
+    /**
+     * List the note's tags and key terms that other notes share, most widely shared first
+     */
+    private getSharedConcepts(file: TFile, tags: string[], keyTerms: string[]): SharedConcept[] {
+        const tagCounts: Map<string, number> = new Map();
+        for (const other of this.app.vault.getMarkdownFiles()) {
+            const otherCache = other.path !== file.path ? this.app.metadataCache.getFileCache(other) : null;
+            for (const tag of otherCache ? this.getTags(otherCache) : []) {
+                tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+            }
+        }
+
+        const concepts: SharedConcept[] = [
+            ...tags.map(tag => ({ label: tag, query: `tag:${tag}`, notes: tagCounts.get(tag) ?? 0 })),
+            ...keyTerms.map(term => ({ label: term, query: term, notes: LexicalIndex.getInstance().countNotesWithTerm(term) - 1 }))
+        ];
+        return concepts.filter(concept => concept.notes > 0);
+    }
+
+    /**
+     * Get a note's distinct tags, lowercased with their leading '#'
+     */
+    private getTags(cache: CachedMetadata): string[] {
+        return Array.from(new Set((getAllTags(cache) ?? []).map(tag => tag.toLowerCase())));
+    }
+}
+
+/**
+ * Find the parts of a note that can't hold an unlinked mention
+ * @param content The note's content
+ * @returns The parts' offsets
+ */
+function findUnlinkableText(content: string): Array<{ from: number; to: number }> {
+    return Array.from(content.matchAll(UNLINKABLE_TEXT), match => ({ from: match.index!, to: match.index! + match[0].length }));
+}
+
+/**
+ * Find the first occurrence of a name in a note that is a whole word or phrase, outside of the parts to skip
+ * @param content The note's content
+ * @param name The name to find, matched ignoring case
+ * @param skipped Parts of the note to skip, such as links or names already matched
+ * @returns The occurrence's offset, or -1 if there is none
+ */
+function findMention(content: string, name: string, skipped: Array<{ from: number; to: number }>): number {
+    const lowerContent = content.toLowerCase();
+    const lowerName = name.toLowerCase();
+    for (let offset = lowerContent.indexOf(lowerName); offset !== -1; offset = lowerContent.indexOf(lowerName, offset + 1)) {
+        const end = offset + name.length;
+        const isWhole = !WORD_CHARACTER.test(content.charAt(offset - 1)) && !WORD_CHARACTER.test(content.charAt(end));
+        if (isWhole && !skipped.some(range => offset < range.to && end > range.from)) {
+            return offset;
+        }
+    }
+    return -1;
+}
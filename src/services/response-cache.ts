@@ -0,0 +1,332 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { AIFeature, AIProviderSettings, ContentPart, JsonSchema } from '../utils/ai-providers/base-provider';
+
+/**
+ * Options controlling which responses are cached and for how long
+ */
+export interface ResponseCacheOptions {
+    enabled: boolean;
+    ttlMs: number; // Entries older than this are discarded
+    maxBytes: number; // Least recently used entries are evicted above this size
+    bypassFeatures: AIFeature[]; // Features that always call the AI
+}
+
+interface CacheEntry {
+    value: string;
+    createdAt: number;
+}
+
+interface CacheFile {
+    version: number;
+    entries: Array<[string, CacheEntry]>; // Least recently used first
+}
+
+const CACHE_FILE_VERSION = 1;
+
+/**
+ * Hash text with SHA-256
+ * @param text The text to hash
+ * @returns The hex-encoded digest
+ */
+export async function hashText(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * Persistent cache of AI responses, keyed by the request that produced them.
+ * Providers consult it before calling out, so an unchanged note isn't paid for twice.
+ */
+export class ResponseCache {
+    private static instance: ResponseCache;
+    private entries: Map<string, CacheEntry> = new Map();
+    private totalBytes = 0;
+    private options: ResponseCacheOptions = {
+        enabled: false,
+        ttlMs: 0,
+        maxBytes: 0,
+        bypassFeatures: []
+    };
+    private adapter: DataAdapter | null = null;
+    private filePath = '';
+    private saveTimer: number | null = null;
+
+    private constructor() {}
+
+    public static getInstance(): ResponseCache {
+        if (!ResponseCache.instance) {
+            ResponseCache.instance = new ResponseCache();
+        }
+        return ResponseCache.instance;
+    }
+
+    /**
+     * Update the cache options, evicting anything the new limits no longer allow
+     * @param options The cache options
+     */
+    configure(options: ResponseCacheOptions): void {
+        this.options = options;
+        this.prune();
+    }
+
+    /**
+     * Load the cache from disk
+     * @param adapter The vault's data adapter
+     * @param folder The plugin's data folder
+     */
+    async load(adapter: DataAdapter, folder: string): Promise<void> {
+        try {
+            this.adapter = adapter;
+            this.filePath = normalizePath(`${folder}/cache/responses.json`);
+
+            if (!(await adapter.exists(this.filePath))) {
+                return;
+            }
+
+            const file: CacheFile = JSON.parse(await adapter.read(this.filePath));
+            if (file.version !== CACHE_FILE_VERSION || !Array.isArray(file.entries)) {
+                return;
+            }
+
+            this.entries = new Map(file.entries);
+            this.totalBytes = 0;
+            this.entries.forEach(entry => this.totalBytes += entry.value.length);
+            this.prune();
+        } catch (error) {
+            // A corrupt cache is not worth failing over; it will be rewritten on the next save
+            console.warn('Could not load the AI response cache:', error);
+        }
+    }
+
+    /**
+     * Build the cache key for a request
+     * @param settings The settings the provider was created with
+     * @param prompt The text prompt
+     * @param parts Additional content parts (e.g., images as base64)
+     * @returns The key, or null if responses for this request should not be cached
+     */
+    async getKey(settings: AIProviderSettings, prompt: string, parts: ContentPart[] = []): Promise<string | null> {
+        if (!this.options.enabled || this.options.bypassFeatures.includes(settings.feature ?? AIFeature.OTHER)) {
+            return null;
+        }
+
+        const partHashes = await Promise.all(parts.map(async part => `${part.type}:${await hashText(part.data)}`));
+
+        return hashText(JSON.stringify({
+            vendor: settings.vendor,
+            model: settings.model,
+            temperature: settings.temperature,
+            maxTokens: settings.maxTokens, // A lower limit may have truncated the cached response
+            prompt: await hashText(prompt),
+            parts: partHashes
+        }));
+    }
+
+    /**
+     * Look up a cached response
+     * @param key The cache key, or null for uncached requests
+     * @returns The cached response, or null on a miss
+     */
+    get(key: string | null): string | null {
+        if (key === null) {
+            return null;
+        }
+
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return null;
+        }
+
+        if (this.isExpired(entry)) {
+            this.delete(key);
+            this.scheduleSave();
+            return null;
+        }
+
+        // Move the entry to the back so eviction removes the least recently used first
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    /**
+     * Store a response
+     * @param key The cache key, or null for uncached requests
+     * @param value The response to store
+     */
+    set(key: string | null, value: string): void {
+        if (key === null || !value) {
+            return;
+        }
+
+        this.delete(key);
+        this.entries.set(key, { value, createdAt: Date.now() });
+        this.totalBytes += value.length;
+        this.prune();
+        this.scheduleSave();
+    }
+
+    /**
+     * Return a cached response, or generate and cache it
+     * @param settings The settings the provider was created with
+     * @param prompt The text prompt
+     * @param parts Additional content parts (e.g., images as base64)
+     * @param generate Makes the actual request on a cache miss
+     * @returns The response
+     */
+    async getOrCreate(settings: AIProviderSettings, prompt: string, parts: ContentPart[], generate: () => Promise<string>): Promise<string> {
+        const key = await this.getKey(settings, prompt, parts);
+        const cached = this.get(key);
+        if (cached !== null) {
+            return cached;
+        }
+
+        const value = await generate();
+        this.set(key, value);
+        return value;
+    }
+
+    /**
+     * Return a cached structured response, or generate and cache it. Only the final, validated
+     * value is stored, so an invalid answer is never replayed and a failed request is asked again.
+     * @param settings The settings the provider was created with
+     * @param prompt The text prompt
+     * @param schema The schema the response matches
+     * @param parts Additional content parts (e.g., images as base64)
+     * @param generate Makes the actual request, with any repair attempts, on a cache miss
+     * @returns The parsed and validated response
+     */
+    async getOrCreateStructured<T>(settings: AIProviderSettings, prompt: string, schema: JsonSchema, parts: ContentPart[], generate: () => Promise<T>): Promise<T> {
+        const key = await this.getKey(settings, `${prompt}\n${JSON.stringify(schema)}`, parts);
+        const cached = this.get(key);
+        if (cached !== null) {
+            return JSON.parse(cached) as T;
+        }
+
+        const value = await generate();
+        this.set(key, JSON.stringify(value));
+        return value;
+    }
+
+    /**
+     * Return a cached response as a single chunk, or pass a stream through and cache
+     * the full text once it completes. Cancelled or failed streams are not cached.
+     * @param settings The settings the provider was created with
+     * @param prompt The text prompt
+     * @param parts Additional content parts (e.g., images as base64)
+     * @param open Opens the actual stream on a cache miss
+     * @returns An async iterable of text deltas
+     */
+    async *getOrCreateStream(settings: AIProviderSettings, prompt: string, parts: ContentPart[], open: () => AsyncIterable<string>): AsyncIterable<string> {
+        const key = await this.getKey(settings, prompt, parts);
+        const cached = this.get(key);
+        if (cached !== null) {
+            yield cached;
+            return;
+        }
+
+        let value = '';
+        for await (const chunk of open()) {
+            value += chunk;
+            yield chunk;
+        }
+        this.set(key, value);
+    }
+
+    /**
+     * Remove every cached response
+     * @returns The number of entries removed
+     */
+    async clear(): Promise<number> {
+        const count = this.entries.size;
+        this.entries.clear();
+        this.totalBytes = 0;
+        await this.save();
+        return count;
+    }
+
+    /**
+     * Write any pending changes to disk
+     */
+    async flush(): Promise<void> {
+        if (this.saveTimer !== null) {
+            window.clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+            await this.save();
+        }
+    }
+
+    /**
+     * Number of cached responses and their approximate size in bytes
+     */
+    getStats(): { entries: number; bytes: number } {
+        return { entries: this.entries.size, bytes: this.totalBytes };
+    }
+
+    private isExpired(entry: CacheEntry): boolean {
+        return this.options.ttlMs > 0 && Date.now() - entry.createdAt > this.options.ttlMs;
+    }
+
+    private delete(key: string): void {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.totalBytes -= entry.value.length;
+            this.entries.delete(key);
+        }
+    }
+
+    /**
+     * Drop expired entries, then evict the least recently used until the cache fits
+     */
+    private prune(): void {
+        for (const [key, entry] of this.entries) {
+            if (this.isExpired(entry)) {
+                this.delete(key);
+            }
+        }
+
+        if (this.options.maxBytes > 0) {
+            for (const key of this.entries.keys()) {
+                if (this.totalBytes <= this.options.maxBytes) break;
+                this.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Save shortly after the last change, so a batch of requests results in a single write
+     */
+    private scheduleSave(): void {
+        if (this.saveTimer !== null) {
+            window.clearTimeout(this.saveTimer);
+        }
+
+        this.saveTimer = window.setTimeout(() => {
+            this.saveTimer = null;
+            this.save();
+        }, 2000);
+    }
+
+    private async save(): Promise<void> {
+        if (!this.adapter || !this.filePath) {
+            return;
+        }
+
+        try {
+            const folder = this.filePath.substring(0, this.filePath.lastIndexOf('/'));
+            if (!(await this.adapter.exists(folder))) {
+                await this.adapter.mkdir(folder);
+            }
+
+            const file: CacheFile = {
+                version: CACHE_FILE_VERSION,
+                entries: Array.from(this.entries.entries())
+            };
+            await this.adapter.write(this.filePath, JSON.stringify(file));
+        } catch (error) {
+            console.error('Failed to save the AI response cache:', error);
+        }
+    }
+}
@@ -0,0 +1,245 @@
+/**
+ * The operators a search query can narrow its notes with
+ */
+export enum SearchFilterType {
+    TAG = 'tag',
+    PATH = 'path',
+    FOLDER = 'folder',
+    PROPERTY = 'property', // Any other "name:value" whose name is a frontmatter property in the vault
+    CREATED = 'created',
+    MODIFIED = 'modified',
+    TEXT = 'text' // A quoted phrase, or an excluded term
+}
+
+/**
+ * One operator of a query, which a note has to satisfy to be searched
+ */
+export interface SearchFilter {
+    type: SearchFilterType;
+    value: string; // Lowercased, without any leading '#' for tags or surrounding slashes for folders
+    property?: string; // The frontmatter property, for PROPERTY filters
+    after?: number; // Time range of CREATED and MODIFIED filters; after is inclusive, before exclusive
+    before?: number;
+    negated: boolean; // Written with a leading '-', so notes must not match
+    label: string; // The operator as written in the query
+}
+
+/**
+ * A query split into the text to rank notes by and the filters to narrow them with
+ */
+export interface ParsedSearchQuery {
+    text: string; // Free text and quoted phrases, without operators or exclusions
+    filters: SearchFilter[];
+}
+
+/**
+ * What filters are checked against, taken from a note and its metadata
+ */
+export interface FilterableNote {
+    path: string;
+    tags: string[]; // Without the leading '#'
+    frontmatter?: Record<string, unknown>;
+    ctime: number;
+    mtime: number;
+    content?: string; // Only needed by TEXT filters
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Units of relative dates such as "7d"; months and years are approximate
+const DURATION_UNITS: Record<string, number> = {
+    h: HOUR_MS,
+    d: DAY_MS,
+    w: 7 * DAY_MS,
+    m: 30 * DAY_MS,
+    y: 365 * DAY_MS
+};
+
+// An optional '-', an optional "name:" and a quoted or bare value
+const QUERY_TOKEN = /(-)?(?:([a-zA-Z][\w-]*):)?(?:"([^"]*)"|(\S+))/g;
+
+/**
+ * Parse a search query such as `tag:#project folder:Work modified:<7d "exact phrase" -draft budget`.
+ * Dates are `created:` or `modified:` followed by an optional comparison and either a date
+ * (`>2025-01-01`) or an age (`<7d`, with h, d, w, m or y). Any other `name:value` matches the
+ * frontmatter property `name` if some note has it, and is text otherwise, so prose such as a URL
+ * or "TODO:fix" isn't taken for a filter. A leading '-' excludes notes matching a term or operator.
+ * @param query The query as typed
+ * @param now The time relative dates count back from
+ * @param properties The frontmatter properties notes have, lowercased
+ * @returns The text to rank by and the filters to apply
+ */
+export function parseSearchQuery(query: string, now: number = Date.now(), properties: ReadonlySet<string> = new Set()): ParsedSearchQuery {
+    const text: string[] = [];
+    const filters: SearchFilter[] = [];
+
+    for (const match of query.matchAll(QUERY_TOKEN)) {
+        const [label, minus, name, quoted, bare] = match;
+        const negated = !!minus;
+        const value = quoted ?? bare;
+
+        if (name) {
+            const filter = parseOperator(name.toLowerCase(), value, negated, label, now, properties);
+            if (filter) {
+                filters.push(filter);
+                continue;
+            }
+        } else if (quoted !== undefined) {
+            // A phrase has to appear as written, and still counts towards the ranking
+            if (quoted.trim()) {
+                filters.push({ type: SearchFilterType.TEXT, value: quoted.trim().toLowerCase(), negated, label });
+                if (!negated) {
+                    text.push(quoted.trim());
+                }
+            }
+            continue;
+        } else if (negated) {
+            filters.push({ type: SearchFilterType.TEXT, value: value.toLowerCase(), negated, label });
+            continue;
+        }
+
+        // Anything that isn't a valid operator is searched for as text
+        text.push(label);
+    }
+
+    return { text: text.join(' '), filters };
+}
+
+/**
+ * Check a note against a query's filters
+ * @param filters The filters, from parseSearchQuery
+ * @param note The note and its metadata
+ * @returns A description of how the note met each filter, e.g. "#project/alpha" for `tag:#project`, or null if it failed any
+ */
+export function matchSearchFilters(filters: SearchFilter[], note: FilterableNote): string[] | null {
+    const matched: string[] = [];
+
+    for (const filter of filters) {
+        const match = matchFilter(filter, note);
+        if (filter.negated ? match !== null : match === null) {
+            return null;
+        }
+        matched.push(filter.negated ? filter.label : match!);
+    }
+
+    return matched;
+}
+
+/**
+ * Build the filter for a "name:value" operator
+ * @returns The filter, or null if the value isn't valid for the operator or the name isn't an operator or property
+ */
+function parseOperator(name: string, value: string, negated: boolean, label: string, now: number, properties: ReadonlySet<string>): SearchFilter | null {
+    if (!value) {
+        return null;
+    }
+
+    switch (name) {
+        case SearchFilterType.TAG: {
+            const tag = value.replace(/^#/, '').toLowerCase();
+            return tag ? { type: SearchFilterType.TAG, value: tag, negated, label } : null;
+        }
+        case SearchFilterType.PATH:
+            return { type: SearchFilterType.PATH, value: value.toLowerCase(), negated, label };
+        case SearchFilterType.FOLDER: {
+            const folder = value.replace(/^\/+|\/+$/g, '').toLowerCase();
+            return folder ? { type: SearchFilterType.FOLDER, value: folder, negated, label } : null;
+        }
+        case SearchFilterType.CREATED:
+        case SearchFilterType.MODIFIED: {
+            const range = parseDateRange(value, now);
+            const type = name === SearchFilterType.CREATED ? SearchFilterType.CREATED : SearchFilterType.MODIFIED;
+            return range ? { type, value: value.toLowerCase(), ...range, negated, label } : null;
+        }
+        default:
+            return properties.has(name)
+                ? { type: SearchFilterType.PROPERTY, property: name, value: value.toLowerCase(), negated, label }
+                : null;
+    }
+}
+
+/**
+ * Turn a comparison with a date or an age into a time range. A date covers its whole day,
+ * and comparing ages reads as "modified:<7d" meaning less than 7 days ago.
+ * @returns The range, or null if the value is neither a date nor an age
+ */
+function parseDateRange(value: string, now: number): { after?: number; before?: number } | null {
+    const match = value.match(/^(>=|<=|>|<|=)?(.+)$/);
+    if (!match) {
+        return null;
+    }
+    const operator = match[1] ?? '=';
+
+    const age = match[2].match(/^(\d+)([hdwmy])$/i);
+    if (age) {
+        const cutoff = now - parseInt(age[1]) * DURATION_UNITS[age[2].toLowerCase()];
+        // Older than the age means before the cutoff; an age on its own means within it
+        return operator.startsWith('>') ? { before: cutoff } : { after: cutoff };
+    }
+
+    const date = match[2].match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!date) {
+        return null;
+    }
+    const start = new Date(parseInt(date[1]), parseInt(date[2]) - 1, parseInt(date[3])).getTime();
+    const end = new Date(parseInt(date[1]), parseInt(date[2]) - 1, parseInt(date[3]) + 1).getTime();
+    if (isNaN(start)) {
+        return null;
+    }
+
+    switch (operator) {
+        case '>': return { after: end };
+        case '>=': return { after: start };
+        case '<': return { before: start };
+        case '<=': return { before: end };
+        default: return { after: start, before: end };
+    }
+}
+
+/**
+ * Check a note against one filter, ignoring negation
+ * @returns How the note matched, or null if it didn't
+ */
+function matchFilter(filter: SearchFilter, note: FilterableNote): string | null {
+    switch (filter.type) {
+        case SearchFilterType.TAG: {
+            // A tag also matches its nested tags, as in Obsidian's own search
+            const tag = note.tags.find(tag => {
+                const lowerTag = tag.toLowerCase();
+                return lowerTag === filter.value || lowerTag.startsWith(`${filter.value}/`);
+            });
+            return tag ? `#${tag}` : null;
+        }
+        case SearchFilterType.PATH:
+            return note.path.toLowerCase().includes(filter.value) ? filter.label : null;
+        case SearchFilterType.FOLDER:
+            return note.path.toLowerCase().startsWith(`${filter.value}/`) ? filter.label : null;
+        case SearchFilterType.PROPERTY: {
+            const key = Object.keys(note.frontmatter ?? {}).find(key => key.toLowerCase() === filter.property);
+            const value = key ? note.frontmatter![key] : undefined;
+            const values = Array.isArray(value) ? value : [value];
+            const found = values.find(item => item !== undefined && item !== null && String(item).toLowerCase() === filter.value);
+            return found !== undefined ? `${key}: ${found}` : null;
+        }
+        case SearchFilterType.CREATED:
+        case SearchFilterType.MODIFIED: {
+            const time = filter.type === SearchFilterType.CREATED ? note.ctime : note.mtime;
+            const inRange = (filter.after === undefined || time >= filter.after) && (filter.before === undefined || time < filter.before);
+            return inRange ? `${filter.type} ${formatDate(time)}` : null;
+        }
+        case SearchFilterType.TEXT:
+            return note.content?.toLowerCase().includes(filter.value) ? filter.label : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Format a time as a local YYYY-MM-DD date
+ */
+function formatDate(time: number): string {
+    const date = new Date(time);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,223 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+
+/**
+ * A query that was searched for
+ */
+export interface SearchHistoryEntry {
+    query: string;
+    searchedAt: number;
+}
+
+/**
+ * A query pinned under a name, so it can be re-run or embedded in a note
+ */
+export interface SavedSearch {
+    name: string;
+    query: string;
+    createdAt: number;
+}
+
+interface SearchFile {
+    version: number;
+    history: SearchHistoryEntry[];
+    saved: SavedSearch[];
+}
+
+const SEARCH_FILE_VERSION = 1;
+
+// Older searches are dropped once the history is this long
+const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * Persistent store of recent and saved searches, kept in the plugin's data folder
+ */
+export class SearchStore {
+    private static instance: SearchStore;
+    private history: SearchHistoryEntry[] = []; // Most recent first
+    private saved: SavedSearch[] = []; // In the order they were saved
+    private listeners: Set<() => void> = new Set();
+    private adapter: DataAdapter | null = null;
+    private filePath = '';
+    private saveTimer: number | null = null;
+
+    private constructor() {}
+
+    public static getInstance(): SearchStore {
+        if (!SearchStore.instance) {
+            SearchStore.instance = new SearchStore();
+        }
+        return SearchStore.instance;
+    }
+
+    /**
+     * Load the searches from disk
+     * @param adapter The vault's data adapter
+     * @param folder The plugin's data folder
+     */
+    async load(adapter: DataAdapter, folder: string): Promise<void> {
+        try {
+            this.adapter = adapter;
+            this.filePath = normalizePath(`${folder}/search/searches.json`);
+
+            if (!(await adapter.exists(this.filePath))) {
+                return;
+            }
+
+            const file: SearchFile = JSON.parse(await adapter.read(this.filePath));
+            if (file.version !== SEARCH_FILE_VERSION || !Array.isArray(file.history) || !Array.isArray(file.saved)) {
+                return;
+            }
+
+            this.history = file.history;
+            this.saved = file.saved;
+            this.notify();
+        } catch (error) {
+            // Losing the history is not worth failing over; the file is rewritten on the next save
+            console.warn('Could not load searches:', error);
+        }
+    }
+
+    /**
+     * Get the recent searches
+     * @returns The searches, most recent first
+     */
+    getHistory(): SearchHistoryEntry[] {
+        return this.history;
+    }
+
+    /**
+     * Remember a search, moving it to the top if it was searched for before
+     * @param query The query that was searched for
+     */
+    addToHistory(query: string): void {
+        query = query.trim();
+        if (!query) {
+            return;
+        }
+
+        this.history = [
+            { query, searchedAt: Date.now() },
+            ...this.history.filter(entry => entry.query !== query)
+        ].slice(0, MAX_HISTORY_ENTRIES);
+        this.changed();
+    }
+
+    /**
+     * Forget the recent searches; saved searches are kept
+     */
+    clearHistory(): void {
+        this.history = [];
+        this.changed();
+    }
+
+    /**
+     * Get the saved searches
+     * @returns The searches, in the order they were saved
+     */
+    getSavedSearches(): SavedSearch[] {
+        return this.saved;
+    }
+
+    /**
+     * Find a saved search by name, ignoring case
+     * @param name The search's name
+     * @returns The search, or undefined if there is none by that name
+     */
+    getSavedSearch(name: string): SavedSearch | undefined {
+        const lowerName = name.trim().toLowerCase();
+        return this.saved.find(search => search.name.toLowerCase() === lowerName);
+    }
+
+    /**
+     * Save a search, replacing any saved search of the same name
+     * @param name The name to save it under
+     * @param query The query to save
+     */
+    saveSearch(name: string, query: string): void {
+        const existing = this.getSavedSearch(name);
+        if (existing) {
+            existing.query = query.trim();
+        } else {
+            this.saved.push({ name: name.trim(), query: query.trim(), createdAt: Date.now() });
+        }
+        this.changed();
+    }
+
+    /**
+     * Delete a saved search
+     * @param name The search's name
+     */
+    deleteSavedSearch(name: string): void {
+        const search = this.getSavedSearch(name);
+        if (search) {
+            this.saved = this.saved.filter(saved => saved !== search);
+            this.changed();
+        }
+    }
+
+    /**
+     * Listen for changes to the history or the saved searches
+     * @param listener Called after every change
+     * @returns A function that stops listening
+     */
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Write pending changes now, used when the plugin unloads
+     */
+    async flush(): Promise<void> {
+        if (this.saveTimer !== null) {
+            window.clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+            await this.save();
+        }
+    }
+
+    private changed(): void {
+        this.notify();
+        this.scheduleSave();
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+
+    /**
+     * Save shortly after the last change, so a burst of changes results in a single write
+     */
+    private scheduleSave(): void {
+        if (this.saveTimer !== null) {
+            window.clearTimeout(this.saveTimer);
+        }
+
+        this.saveTimer = window.setTimeout(() => {
+            this.saveTimer = null;
+            this.save();
+        }, 2000);
+    }
+
+    private async save(): Promise<void> {
+        if (!this.adapter || !this.filePath) {
+            return;
+        }
+
+        try {
+            const folder = this.filePath.substring(0, this.filePath.lastIndexOf('/'));
+            if (!(await this.adapter.exists(folder))) {
+                await this.adapter.mkdir(folder);
+            }
+
+            const file: SearchFile = {
+                version: SEARCH_FILE_VERSION,
+                history: this.history,
+                saved: this.saved
+            };
+            await this.adapter.write(this.filePath, JSON.stringify(file));
+        } catch (error) {
+            console.error('Failed to save searches:', error);
+        }
+    }
+}
@@ -1,6 +1,24 @@
-import { App, TFile } from 'obsidian';
-import { ObsidianLinkSettings, getApiKeyForVendor } from '../types';
-import { AIProvider, AIProviderFactory } from '../utils/ai-providers';
+import { App, CachedMetadata, TFile, getAllTags, parseFrontMatterAliases } from 'obsidian';
+import { ObsidianLinkSettings, vendorRequiresApiKey } from '../types';
+import { AIProvider, AIProviderFactory, AIProviderSettings, AIFeature, JsonSchema, getEmbeddingModelKey, resolveProviderSettings, resolveFallbackChain, resolveEmbeddingSettings } from '../utils/ai-providers';
+import { PromptTemplateRegistry, PromptTemplateId } from './prompt-templates';
+import { RequestPriority } from './rate-limiter';
+import { VectorIndex, VectorHit, NoteChunk, chunkNote } from './vector-index';
+import { LexicalIndex, LexicalDocument, fuseRankings } from './lexical-index';
+import { IncrementalIndex } from './index-updater';
+import { ParsedSearchQuery, SearchFilterType, parseSearchQuery, matchSearchFilters } from './search-query';
+
+/**
+ * A passage of a note that matched a search, one of the chunks the note is indexed by
+ */
+export interface SearchPassage {
+    headingPath: string[]; // The headings the passage sits under, outermost first
+    startLine: number; // Zero-based lines the passage spans, inclusive
+    endLine: number;
+    blockId?: string; // The first block id in the passage, to link to it as #^id
+    excerpt: string; // The passage's text with highlight markers
+    score: number; // Relevance among the note's passages, from 0 to 1
+}
 
 export interface SearchResult {
     title: string;
@@ -11,29 +29,246 @@ export interface SearchResult {
     explanation?: string; // Explanation of why this result is relevant
     file: TFile; // The actual file reference
     preview: string; // Preview text to show in search results
+    passages: SearchPassage[]; // The note's best passages, best first
+    matchedFilters?: string[]; // How the note met each of the query's filters, e.g. "#project/alpha"
+}
+
+/**
+ * A passage of a note that an answer can cite
+ */
+export interface AnswerSource {
+    file: TFile;
+    heading?: string; // The heading the passage sits under, if any
+    link: string; // Link text the answer cites the passage with, e.g. "Note#Heading"
+    passage: string;
+    section: string; // The paragraph the passage starts with, highlighted when the source is opened
+    score: number;
+}
+
+// Only the best notes are sent as passages, to keep the answer prompt small
+const MAX_ANSWER_SOURCES = 8;
+const MAX_PASSAGE_CHARS = 1200;
+
+// Chunks retrieved from the vector index and notes from the keyword index per query,
+// and how many notes of their fused ranking the model re-ranks
+const MAX_VECTOR_HITS = 60;
+const MAX_LEXICAL_HITS = 40;
+const MAX_RERANKED_NOTES = 20;
+const MAX_CHUNK_EXCERPT_CHARS = 600;
+
+// Passages shown per note; the model sees only the best one, to keep the ranking prompt small
+const MAX_PASSAGES_PER_NOTE = 3;
+
+// Notes embedded per request while updating the index
+const INDEX_BATCH_NOTES = 20;
+
+interface SearchRanking {
+    index: number;
+    score: number;
+    reason: string;
+    explanation?: string;
+    relevantSection?: string;
 }
 
+const RANKINGS_SCHEMA: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            index: { type: 'integer', minimum: 1, description: 'The original document number (1-based)' },
+            score: { type: 'number', minimum: 0, maximum: 1, description: 'Semantic relevance score between 0 and 1' },
+            reason: { type: 'string', description: 'Brief explanation of why this document is semantically relevant to the query' },
+            explanation: { type: 'string', description: 'Detailed explanation (2-3 sentences) of the document\'s relevance and what specific information it contains that addresses the query' },
+            relevantSection: { type: 'string', description: 'The exact text from the document that is most relevant to the query' }
+        },
+        required: ['index', 'score', 'reason']
+    }
+};
+
 export class SearchService {
-    private aiProvider: AIProvider;
+    private aiProvider: AIProvider | null = null; // Null without an API key, leaving keyword search only
+    private embedder: AIProvider | null = null;
+    private embeddingSettings: AIProviderSettings;
     private settings: ObsidianLinkSettings;
     private app: App;
     private highlightStorage: Map<string, { terms: string[], relevantSection?: string }> = new Map();
+    // The frontmatter properties of each note, lowercased, and how many notes have each; read from the vault on the first query
+    private propertiesByPath: Map<string, string[]> | null = null;
+    private propertyCounts: Map<string, number> = new Map();
 
     constructor(settings: ObsidianLinkSettings, app: App) {
         this.settings = settings;
         this.app = app;
         
-        // Get the appropriate API key for the selected vendor
-        const apiKey = getApiKeyForVendor(settings, settings.vendor);
+        // Create the AI provider using the factory, with any model override and fallbacks for this feature
+        const providerSettings = resolveProviderSettings(settings, AIFeature.SEARCH);
+        if (this.hasApiKey(providerSettings)) {
+            this.aiProvider = AIProviderFactory.createProviderWithFallback(resolveFallbackChain(settings, providerSettings));
+        }
+        
+        // Embeddings come from their own model, without fallbacks since vectors from different models can't be mixed
+        this.embeddingSettings = resolveEmbeddingSettings(settings);
+        if (this.embeddingSettings.model && this.hasApiKey(this.embeddingSettings)) {
+            this.embedder = AIProviderFactory.createProvider(this.embeddingSettings);
+        }
+    }
+    
+    /**
+     * Check whether notes can be embedded, i.e. an embedding model is set and its vendor has an API key
+     * @returns True if the vector index can be used
+     */
+    public canUseVectorIndex(): boolean {
+        return this.embedder !== null;
+    }
+    
+    /**
+     * Check whether results can be ranked and explained by a model, i.e. the search vendor has an API key
+     * @returns True if the AI features of search are available
+     */
+    public canUseAI(): boolean {
+        return this.aiProvider !== null;
+    }
+    
+    /**
+     * Bring the keyword index up to date with the vault. It is kept in memory, so the first
+     * search of a session reads every note; later searches only read notes that changed.
+     * @param signal Cancels indexing when triggered
+     */
+    public async updateLexicalIndex(signal?: AbortSignal): Promise<void> {
+        const index = LexicalIndex.getInstance();
+        const files = this.app.vault.getMarkdownFiles();
+        index.retainOnly(new Set(files.map(file => file.path)));
+        
+        for (const file of files) {
+            if (index.isStale(file.path, file.stat.mtime)) {
+                signal?.throwIfAborted();
+                await this.indexFilesLexically([file]);
+            }
+        }
+    }
+    
+    /**
+     * Add notes to the keyword index, replacing their entries
+     * @param files The notes to index
+     */
+    public async indexFilesLexically(files: TFile[]): Promise<void> {
+        const index = LexicalIndex.getInstance();
+        for (const file of files) {
+            const mtime = file.stat.mtime;
+            index.setDocument(file.path, mtime, this.getLexicalDocument(file, await this.app.vault.cachedRead(file)));
+        }
+    }
+    
+    /**
+     * Bring the vector index up to date with the vault, embedding only notes that are new or
+     * changed since they were indexed. Cancelling keeps the notes embedded so far.
+     * @param signal Cancels indexing when triggered
+     * @param onProgress Called with the number of notes embedded so far and the number to embed
+     */
+    public async updateIndex(signal?: AbortSignal, onProgress?: (done: number, total: number) => void): Promise<void> {
+        const index = VectorIndex.getInstance();
+        index.useModel(getEmbeddingModelKey(this.embeddingSettings));
+        
+        const files = this.app.vault.getMarkdownFiles();
+        index.retainOnly(new Set(files.map(file => file.path)));
         
-        // Create the AI provider using the factory
-        this.aiProvider = AIProviderFactory.createProvider({
-            apiKey,
-            model: settings.model,
-            maxTokens: settings.maxTokens,
-            temperature: settings.temperature,
-            vendor: settings.vendor
-        });
+        const stale = files.filter(file => index.isStale(file.path, file.stat.mtime));
+        for (let start = 0; start < stale.length; start += INDEX_BATCH_NOTES) {
+            await this.indexFiles(stale.slice(start, start + INDEX_BATCH_NOTES), signal);
+            onProgress?.(Math.min(start + INDEX_BATCH_NOTES, stale.length), stale.length);
+        }
+    }
+    
+    /**
+     * Chunk and embed notes, replacing their entries in the vector index
+     * @param files The notes to index
+     * @param signal Cancels the embedding requests when triggered
+     * @param priority Where the embedding requests queue behind others
+     */
+    public async indexFiles(files: TFile[], signal?: AbortSignal, priority: RequestPriority = RequestPriority.NORMAL): Promise<void> {
+        const embedder = this.requireEmbedder();
+        const index = VectorIndex.getInstance();
+        index.useModel(getEmbeddingModelKey(this.embeddingSettings));
+        
+        const notes = await Promise.all(files.map(async file => ({
+            file,
+            mtime: file.stat.mtime,
+            chunks: chunkNote(await this.app.vault.cachedRead(file))
+        })));
+        
+        // The title and heading give a chunk the context its text may leave out
+        const texts = notes.flatMap(({ file, chunks }) =>
+            chunks.map(chunk => [file.basename, chunk.heading, chunk.text].filter(Boolean).join('\n'))
+        );
+        const embedding = texts.length > 0 ? await embedder.embed(texts, { signal, priority }) : null;
+        
+        let offset = 0;
+        for (const { file, mtime, chunks } of notes) {
+            index.setNote(file.path, mtime, chunks, embedding?.vectors.slice(offset, offset + chunks.length) ?? []);
+            offset += chunks.length;
+        }
+    }
+
+    /**
+     * Get the keyword and vector indexes as indexes kept up to date while notes change.
+     * Each is only maintained once built: the keyword index lives in memory until the first search,
+     * and the vector index until "Update Search Index" builds it, as editing a note shouldn't start embedding the vault.
+     * @returns The search indexes, processing notes in the background
+     */
+    public getIncrementalIndexes(): IncrementalIndex[] {
+        const lexicalIndex = LexicalIndex.getInstance();
+        const vectorIndex = VectorIndex.getInstance();
+        return [
+            {
+                name: 'keyword',
+                isEnabled: () => !lexicalIndex.isEmpty(),
+                isStale: file => lexicalIndex.isStale(file.path, file.stat.mtime),
+                updateFiles: files => this.indexFilesLexically(files),
+                renameFile: (oldPath, newPath) => lexicalIndex.renameDocument(oldPath, newPath),
+                deleteFile: path => lexicalIndex.deleteDocument(path)
+            },
+            {
+                name: 'search',
+                isEnabled: () => this.canUseVectorIndex() && !vectorIndex.isEmpty(),
+                isStale: file => vectorIndex.isStale(file.path, file.stat.mtime),
+                updateFiles: (files, signal) => this.indexFiles(files, signal, RequestPriority.BACKGROUND),
+                renameFile: (oldPath, newPath) => vectorIndex.renameNote(oldPath, newPath),
+                deleteFile: path => vectorIndex.deleteNote(path)
+            }
+        ];
+    }
+
+    /**
+     * Keep the property names queries are parsed with in step with a note's frontmatter
+     * @param file The note whose metadata changed
+     */
+    public updateNoteProperties(file: TFile): void {
+        if (this.propertiesByPath) {
+            this.setNoteProperties(file.path, this.readNoteProperties(file));
+        }
+    }
+    
+    /**
+     * Move a renamed note's property names to its new path
+     * @param oldPath The note's previous path
+     * @param newPath The note's new path
+     */
+    public renameNoteProperties(oldPath: string, newPath: string): void {
+        const properties = this.propertiesByPath?.get(oldPath);
+        if (properties) {
+            this.setNoteProperties(oldPath, []);
+            this.setNoteProperties(newPath, properties);
+        }
+    }
+    
+    /**
+     * Forget a deleted note's property names
+     * @param path The deleted note's path
+     */
+    public deleteNoteProperties(path: string): void {
+        if (this.propertiesByPath) {
+            this.setNoteProperties(path, []);
+        }
     }
 
     /**
@@ -63,308 +298,537 @@ export class SearchService {
     }
 
     /**
-     * Performs an AI-enhanced semantic search across the Obsidian vault
+     * Performs an AI-enhanced semantic search across the Obsidian vault.
+     * Operators in the query, such as tag: or modified:<7d, narrow the notes before they are ranked; see parseSearchQuery.
      * @param query The search query
+     * @param signal Cancels the search when triggered
+     * @param useAI Whether to embed the query and have the AI re-rank the candidates; without it only the keyword index
+     * is used and no request is made, so it is fast and free enough to search as the user types
      * @returns Array of search results with AI-enhanced relevance
      */
-    async search(query: string): Promise<SearchResult[]> {
+    async search(query: string, signal?: AbortSignal, useAI: boolean = true): Promise<SearchResult[]> {
         try {
             console.log(`Performing semantic search for: "${query}"`);
             
-            // Get all markdown files in the vault
-            const markdownFiles = this.app.vault.getMarkdownFiles();
-            
-            // Collect both keyword matches and a sample of other documents for semantic analysis
-            const keywordMatches: {file: TFile, content: string, excerpt: string}[] = [];
-            const otherDocuments: {file: TFile, content: string, excerpt: string}[] = [];
-            
-            // Process each file to collect content
-            for (const file of markdownFiles) {
-                const content = await this.app.vault.cachedRead(file);
-                
-                // Check for keyword matches
-                const hasKeywordMatch = this.hasKeywordMatch(content, file.basename, query);
-                const excerpt = this.getExcerpt(content, query, hasKeywordMatch);
-                
-                if (hasKeywordMatch) {
-                    keywordMatches.push({ file, content, excerpt });
-                } else {
-                    otherDocuments.push({ file, content, excerpt });
-                }
-            }
-            
-            // Always include exact keyword matches first
-            const samplesToAnalyze = [...keywordMatches];
-            
-            // For semantic search, we need to be more selective about which documents to analyze
-            // Instead of random sampling, let's use a heuristic approach to find potentially relevant documents
-            if (keywordMatches.length < 50) { // Only add more if we don't already have many matches
-                // Extract important terms from the query
-                const queryTerms = this.extractImportantTerms(query);
-                
-                // Score other documents based on potential relevance to query terms
-                const scoredDocuments = otherDocuments.map(doc => {
-                    const relevanceScore = this.calculateInitialRelevance(doc.content, doc.file.basename, queryTerms);
-                    return { ...doc, relevanceScore };
-                });
-                
-                // Sort by initial relevance score and take the top candidates
-                const sortedCandidates = scoredDocuments
-                    .sort((a, b) => b.relevanceScore - a.relevanceScore)
-                    .slice(0, 50); // Take top 50 candidates for further analysis
-                
-                samplesToAnalyze.push(...sortedCandidates);
-            }
-            
-            // Convert to search results format
-            const candidateResults = samplesToAnalyze.map(item => ({
-                title: item.file.basename,
-                path: item.file.path,
-                excerpt: item.excerpt,
-                score: 0, // Will be updated with AI scoring
-                file: item.file,
-                preview: item.excerpt // Using excerpt as preview for now
-            }));
+            const parsedQuery = this.parseQuery(query);
+            const candidateResults = await this.findCandidates(parsedQuery, useAI, signal);
             
             // If we have no documents to analyze, return empty results
             if (candidateResults.length === 0) {
                 return [];
             }
             
+            // Without an API key the keyword ranking is the best there is, and filters alone leave nothing to rank by
+            if (!useAI || !this.canUseAI() || !parsedQuery.text) {
+                return candidateResults;
+            }
+            
             console.log(`Analyzing ${candidateResults.length} documents for semantic relevance`);
             
             // Use AI to analyze and rank results by semantic relevance
-            return await this.enhanceSearchResults(candidateResults, query);
+            return await this.enhanceSearchResults(candidateResults, parsedQuery.text, signal);
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error performing semantic search:', error);
             throw new Error(`Failed to perform semantic search: ${error.message}`);
         }
     }
     
     /**
-     * Checks if content has a keyword match with the query
+     * Finds the notes worth ranking for a query by fusing three rankings: the notes BM25 scores highest,
+     * the notes of the chunks nearest to it in the vector index, and the notes with the best-scoring
+     * passage, so a long note with one relevant paragraph doesn't rank like a note about the query.
+     * Without embeddings the keyword rankings are used alone, so search works offline. Only notes that
+     * pass the query's filters are searched, and a query of filters alone lists the matching notes,
+     * most recently modified first.
+     * @param parsedQuery The search query, split into text and filters
+     * @param useVectors Whether to embed the query to search the vector index
+     * @param signal Cancels the search when triggered
+     * @returns Candidate results with their best passages, best first, scored by their fused rank
      */
-    private hasKeywordMatch(content: string, title: string, query: string): boolean {
-        const lowerContent = content.toLowerCase();
-        const lowerTitle = title.toLowerCase();
-        const queryWords = query.toLowerCase().split(/\s+/);
+    private async findCandidates(parsedQuery: ParsedSearchQuery, useVectors: boolean, signal?: AbortSignal): Promise<SearchResult[]> {
+        const query = parsedQuery.text;
+        const matchedFilters = parsedQuery.filters.length > 0 ? await this.filterNotes(parsedQuery, signal) : null;
+        const accept = matchedFilters ? (path: string) => matchedFilters.has(path) : undefined;
         
-        // Check for exact phrase match
-        if (lowerContent.includes(query.toLowerCase()) || lowerTitle.includes(query.toLowerCase())) {
-            return true;
+        let rankings: string[][];
+        const chunkHits: Map<string, VectorHit[]> = new Map();
+        if (!query) {
+            const files = Array.from(matchedFilters?.keys() ?? [])
+                .map(path => this.app.vault.getAbstractFileByPath(path))
+                .filter((file): file is TFile => file instanceof TFile);
+            rankings = [files.sort((a, b) => b.stat.mtime - a.stat.mtime).slice(0, MAX_RERANKED_NOTES).map(file => file.path)];
+        } else {
+            rankings = await this.rankNotes(query, useVectors, chunkHits, accept, signal);
         }
         
-        // Check for individual word matches (if query has multiple words)
-        if (queryWords.length > 1) {
-            // Consider it a match if most of the query words are found
-            const matchThreshold = Math.ceil(queryWords.length * 0.7);
-            let matchCount = 0;
+        const queryTerms = LexicalIndex.getInstance().getQueryTerms(query);
+        
+        // Find the passages of every note either ranking retrieved
+        const notes: Map<string, { file: TFile; passages: SearchPassage[]; lexicalScore: number }> = new Map();
+        for (const path of new Set(rankings.flat())) {
+            signal?.throwIfAborted();
             
-            for (const word of queryWords) {
-                // Skip very short words and common stop words
-                if (word.length <= 2 || ['the', 'and', 'for', 'is', 'in', 'to', 'of', 'a'].includes(word)) {
-                    continue;
-                }
-                
-                if (lowerContent.includes(word) || lowerTitle.includes(word)) {
-                    matchCount++;
-                }
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                const content = await this.app.vault.cachedRead(file);
+                notes.set(path, { file, ...this.findPassages(file, content, query, queryTerms, chunkHits.get(path) ?? []) });
+            }
+        }
+        
+        const passageRanking = Array.from(notes.entries())
+            .filter(([, note]) => note.lexicalScore > 0)
+            .sort(([, a], [, b]) => b.lexicalScore - a.lexicalScore)
+            .map(([path]) => path);
+        if (passageRanking.length > 0) {
+            rankings.push(passageRanking);
+        }
+        
+        const candidates: SearchResult[] = [];
+        for (const { item: path, score } of fuseRankings(rankings).slice(0, MAX_RERANKED_NOTES)) {
+            const note = notes.get(path);
+            if (!note) {
+                continue;
             }
             
-            return matchCount >= matchThreshold;
+            // The model ranks the note by its best passage
+            const excerpt = note.passages[0]?.excerpt ?? '';
+            
+            // Kept for the highlighter if the ranking model doesn't replace it
+            this.storeHighlightInfo(path, queryTerms);
+            candidates.push({
+                title: note.file.basename,
+                path,
+                excerpt,
+                score, // Kept if the ranking model fails or isn't available
+                file: note.file,
+                preview: excerpt,
+                passages: note.passages,
+                matchedFilters: matchedFilters?.get(path)
+            });
         }
         
-        return false;
+        return candidates;
     }
     
     /**
-     * Extracts important terms from a query for semantic matching
-     * Removes stop words and keeps meaningful terms
-     */
-    private extractImportantTerms(query: string): string[] {
-        // Common stop words to filter out
-        const stopWords = new Set([
-            'a', 'an', 'the', 'and', 'or', 'but', 'is', 'are', 'was', 'were', 
-            'be', 'been', 'being', 'in', 'on', 'at', 'to', 'for', 'with', 'by',
-            'about', 'against', 'between', 'into', 'through', 'during', 'before',
-            'after', 'above', 'below', 'from', 'up', 'down', 'of', 'off', 'over',
-            'under', 'again', 'further', 'then', 'once', 'here', 'there', 'when',
-            'where', 'why', 'how', 'all', 'any', 'both', 'each', 'few', 'more',
-            'most', 'other', 'some', 'such', 'no', 'nor', 'not', 'only', 'own',
-            'same', 'so', 'than', 'too', 'very', 'can', 'will', 'just', 'should',
-            'now', 'what', 'which', 'who', 'whom', 'this', 'that', 'these', 'those'
-        ]);
-        
-        // Split query into words, convert to lowercase, and filter out stop words and short words
-        return query.toLowerCase()
-            .split(/\s+/)
-            .filter(word => {
-                // Remove punctuation
-                const cleanWord = word.replace(/[.,?!;:'"`(){}\[\]\-_]/g, '');
-                // Keep words that are not stop words and are at least 3 characters long
-                return cleanWord.length > 2 && !stopWords.has(cleanWord);
-            });
+     * Ranks notes by BM25 and, when asked and notes can be embedded, by their nearest chunks
+     * @param query The query's text
+     * @param useVectors Whether to embed the query to search the vector index
+     * @param chunkHits Filled with each note's chunks among the nearest, best first
+     * @param accept Limits the ranking to the notes that passed the query's filters
+     * @param signal Cancels the search when triggered
+     * @returns The non-empty rankings of note paths, best first
+     */
+    private async rankNotes(
+        query: string,
+        useVectors: boolean,
+        chunkHits: Map<string, VectorHit[]>,
+        accept: ((path: string) => boolean) | undefined,
+        signal?: AbortSignal
+    ): Promise<string[][]> {
+        await this.updateLexicalIndex(signal);
+        const lexicalHits = LexicalIndex.getInstance().search(query, MAX_LEXICAL_HITS, accept);
+        
+        if (useVectors && this.canUseVectorIndex()) {
+            try {
+                // Hits are sorted, so notes are added in the order of their best chunk
+                for (const hit of await this.findVectorHits(query, accept, signal)) {
+                    const hits = chunkHits.get(hit.chunk.path) ?? [];
+                    hits.push(hit);
+                    chunkHits.set(hit.chunk.path, hits);
+                }
+            } catch (error) {
+                if (signal?.aborted) {
+                    throw error;
+                }
+                console.warn('Vector search failed, ranking on keywords alone:', error);
+            }
+        }
+        
+        return [lexicalHits.map(hit => hit.path), Array.from(chunkHits.keys())].filter(ranking => ranking.length > 0);
     }
     
     /**
-     * Calculates an initial relevance score for a document based on important query terms
-     * This is used as a pre-filter before sending to the AI for deeper semantic analysis
+     * Ranks a note's passages by fusing their BM25 scores with their similarity to the query
+     * @param file The note
+     * @param content The note's content
+     * @param query The query's text
+     * @param queryTerms The query's terms to mark in the excerpts
+     * @param hits The note's chunks among the nearest to the query, best first
+     * @returns The note's best passages, or its first if none matched, and the BM25 score of the best-scoring passage
      */
-    private calculateInitialRelevance(content: string, title: string, queryTerms: string[]): number {
-        if (queryTerms.length === 0) return 0;
+    private findPassages(
+        file: TFile,
+        content: string,
+        query: string,
+        queryTerms: string[],
+        hits: VectorHit[]
+    ): { passages: SearchPassage[]; lexicalScore: number } {
+        const chunks = chunkNote(content);
+        const lexicalScores = LexicalIndex.getInstance().scorePassages(query, chunks.map(chunk => chunk.text));
         
-        const lowerContent = content.toLowerCase();
-        const lowerTitle = title.toLowerCase();
-        let score = 0;
+        const lexicalRanking = chunks.map((chunk, index) => index)
+            .filter(index => lexicalScores[index] > 0)
+            .sort((a, b) => lexicalScores[b] - lexicalScores[a]);
+        // The index may hold an older version of the note, so hits on chunks that have since moved are dropped
+        const vectorRanking = hits.map(hit => chunks.findIndex(chunk => chunk.start === hit.chunk.start))
+            .filter(index => index !== -1);
         
-        // Check for term presence in title (higher weight)
-        for (const term of queryTerms) {
-            if (lowerTitle.includes(term)) {
-                score += 3; // Higher weight for title matches
+        let ranked = fuseRankings([lexicalRanking, vectorRanking].filter(ranking => ranking.length > 0).map(ranking => ranking.map(String)))
+            .map(({ item, score }) => ({ index: parseInt(item), score }));
+        if (ranked.length === 0 && chunks.length > 0) {
+            ranked = [{ index: 0, score: 0 }];
+        }
+        
+        const cache = this.app.metadataCache.getFileCache(file);
+        return {
+            passages: ranked.slice(0, MAX_PASSAGES_PER_NOTE).map(({ index, score }) => this.toPassage(content, chunks[index], cache, queryTerms, score)),
+            lexicalScore: Math.max(0, ...lexicalScores)
+        };
+    }
+    
+    /**
+     * Locates a chunk in its note: the headings it sits under, the lines it spans and any block id
+     */
+    private toPassage(content: string, chunk: NoteChunk, cache: CachedMetadata | null, queryTerms: string[], score: number): SearchPassage {
+        // The chunk's text is trimmed, so its lines are counted from where the text starts
+        const start = content.indexOf(chunk.text, chunk.start);
+        const end = start + chunk.text.length;
+        const lineAt = (offset: number) => content.slice(0, offset).split('\n').length - 1;
+        
+        const headingPath: string[] = [];
+        const levels: number[] = [];
+        for (const heading of cache?.headings ?? []) {
+            if (heading.position.start.offset > start) {
+                break;
             }
+            while (levels.length > 0 && levels[levels.length - 1] >= heading.level) {
+                levels.pop();
+                headingPath.pop();
+            }
+            levels.push(heading.level);
+            headingPath.push(heading.heading);
         }
         
-        // Check for term presence in content
-        for (const term of queryTerms) {
-            // Count occurrences
-            const regex = new RegExp(term, 'gi');
-            const matches = lowerContent.match(regex);
-            if (matches) {
-                // Add score based on frequency, with diminishing returns
-                score += Math.min(matches.length, 5) * 0.5;
+        const blockId = Object.values(cache?.blocks ?? {})
+            .filter(block => block.position.start.offset >= start && block.position.end.offset <= end)
+            .sort((a, b) => a.position.start.offset - b.position.start.offset)[0]?.id;
+        
+        const text = chunk.text.length > MAX_CHUNK_EXCERPT_CHARS ? chunk.text.substring(0, MAX_CHUNK_EXCERPT_CHARS) + '...' : chunk.text;
+        return {
+            headingPath,
+            startLine: lineAt(start),
+            endLine: lineAt(end),
+            blockId,
+            excerpt: this.markQueryTerms(text, queryTerms),
+            score
+        };
+    }
+    
+    /**
+     * Embeds the query and retrieves the nearest chunks among the notes already indexed. Embedding the vault
+     * is left to updateIndex and the incremental indexes, so a search never starts embedding notes.
+     */
+    private async findVectorHits(query: string, accept: ((path: string) => boolean) | undefined, signal?: AbortSignal): Promise<VectorHit[]> {
+        const index = VectorIndex.getInstance();
+        index.useModel(getEmbeddingModelKey(this.embeddingSettings));
+        // Nothing to compare the query with, so don't pay to embed it
+        if (index.isEmpty()) {
+            return [];
+        }
+        
+        const { vectors } = await this.requireEmbedder().embed([query], { signal, priority: RequestPriority.INTERACTIVE });
+        return index.search(vectors[0], MAX_VECTOR_HITS, accept);
+    }
+    
+    /**
+     * Parses a query, taking "name:value" for a property filter only where some note has the property
+     */
+    private parseQuery(query: string): ParsedSearchQuery {
+        if (!this.propertiesByPath) {
+            this.propertiesByPath = new Map();
+            for (const file of this.app.vault.getMarkdownFiles()) {
+                this.setNoteProperties(file.path, this.readNoteProperties(file));
             }
         }
         
-        // Check for proximity of terms in content (if multiple terms)
-        if (queryTerms.length > 1) {
-            // Simple proximity check: are terms found within a reasonable distance of each other?
-            let foundProximity = false;
-            const windowSize = 100; // Character window to check for term co-occurrence
-            
-            // Slide a window through the content
-            for (let i = 0; i < lowerContent.length - windowSize; i += 50) { // Step by 50 chars for efficiency
-                const window = lowerContent.substring(i, i + windowSize);
-                let termsInWindow = 0;
-                
-                for (const term of queryTerms) {
-                    if (window.includes(term)) {
-                        termsInWindow++;
-                    }
-                }
-                
-                // If most terms are found in the same window, that's a good sign of relevance
-                if (termsInWindow >= Math.ceil(queryTerms.length * 0.7)) {
-                    foundProximity = true;
-                    break;
-                }
+        return parseSearchQuery(query, Date.now(), new Set(this.propertyCounts.keys()));
+    }
+    
+    /**
+     * The lowercased names of a note's frontmatter properties
+     */
+    private readNoteProperties(file: TFile): string[] {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        return Array.from(new Set(Object.keys(frontmatter ?? {}).map(key => key.toLowerCase())));
+    }
+    
+    /**
+     * Replace a note's property names, counting how many notes have each so a name is dropped once none do
+     */
+    private setNoteProperties(path: string, properties: string[]): void {
+        for (const property of this.propertiesByPath?.get(path) ?? []) {
+            const count = (this.propertyCounts.get(property) ?? 0) - 1;
+            if (count > 0) {
+                this.propertyCounts.set(property, count);
+            } else {
+                this.propertyCounts.delete(property);
             }
+        }
+        
+        if (properties.length > 0) {
+            this.propertiesByPath?.set(path, properties);
+            properties.forEach(property => this.propertyCounts.set(property, (this.propertyCounts.get(property) ?? 0) + 1));
+        } else {
+            this.propertiesByPath?.delete(path);
+        }
+    }
+    
+    /**
+     * Finds the notes that pass a query's filters. Only phrases and exclusions need a note's content,
+     * so other filters are checked from the metadata cache without reading the vault.
+     * @returns How each passing note met the filters, by path
+     */
+    private async filterNotes(parsedQuery: ParsedSearchQuery, signal?: AbortSignal): Promise<Map<string, string[]>> {
+        const needsContent = parsedQuery.filters.some(filter => filter.type === SearchFilterType.TEXT);
+        const matched: Map<string, string[]> = new Map();
+        
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            signal?.throwIfAborted();
             
-            if (foundProximity) {
-                score += 5; // Significant boost for term proximity
+            const cache = this.app.metadataCache.getFileCache(file);
+            const filters = matchSearchFilters(parsedQuery.filters, {
+                path: file.path,
+                tags: (cache ? getAllTags(cache) ?? [] : []).map(tag => tag.replace(/^#/, '')),
+                frontmatter: cache?.frontmatter,
+                ctime: file.stat.ctime,
+                mtime: file.stat.mtime,
+                content: needsContent ? await this.app.vault.cachedRead(file) : undefined
+            });
+            if (filters) {
+                matched.set(file.path, filters);
             }
         }
         
-        return score;
+        return matched;
     }
     
     /**
-     * Gets a relevant excerpt from content based on query
-     * @param content The document content
+     * Streams a detailed explanation of how a search result relates to the query
+     * @param result The search result to explain
      * @param query The search query
-     * @param hasKeywordMatch Whether the document has a keyword match with the query
-     * @returns A relevant excerpt from the content with highlight markers
+     * @param onUpdate Called with the full text received so far each time a chunk arrives
+     * @param signal Aborts the in-flight request when triggered
+     * @returns The completed explanation
      */
-    private getExcerpt(content: string, query: string, hasKeywordMatch: boolean = false): string {
-        const lowerContent = content.toLowerCase();
-        const lowerQuery = query.toLowerCase();
-        const queryTerms = this.extractImportantTerms(query);
-        let excerptText = '';
-        let foundRelevantSection = false;
-        
-        // If we have a keyword match, try to find the most relevant part
-        if (hasKeywordMatch) {
-            const index = lowerContent.indexOf(lowerQuery);
+    async explainResultStream(
+        result: SearchResult,
+        query: string,
+        onUpdate?: (partial: string) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        try {
+            const content = await this.app.vault.cachedRead(result.file);
             
-            if (index !== -1) {
-                // Get surrounding context (150 chars before and after)
-                const start = Math.max(0, index - 150);
-                const end = Math.min(content.length, index + query.length + 150);
-                excerptText = content.substring(start, end);
-                foundRelevantSection = true;
-            } else {
-                // If exact phrase not found but we have a keyword match,
-                // try to find one of the keywords
-                for (const word of queryTerms) {
-                    if (word.length > 3) { // Only look for substantial words
-                        const wordIndex = lowerContent.indexOf(word);
-                        if (wordIndex !== -1) {
-                            const start = Math.max(0, wordIndex - 150);
-                            const end = Math.min(content.length, wordIndex + word.length + 150);
-                            excerptText = content.substring(start, end);
-                            foundRelevantSection = true;
-                            break;
-                        }
-                    }
-                }
+            // The model only needs what the query asks about, not its filters
+            const prompt = PromptTemplateRegistry.getInstance().render(PromptTemplateId.SEARCH_EXPLAIN, {
+                query: this.parseQuery(query).text || query,
+                title: result.title,
+                relevantSection: result.relevantSection || 'None identified',
+                content: content.substring(0, 5000)
+            });
+            
+            let explanation = '';
+            for await (const text of this.requireAIProvider().generateContentStream(prompt, { signal })) {
+                explanation += text;
+                onUpdate?.(explanation);
+            }
+            
+            result.explanation = explanation;
+            return explanation;
+        } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
             }
+            
+            console.error('Error explaining search result:', error);
+            throw new Error(`Failed to explain search result: ${error.message}`);
         }
+    }
+    
+    /**
+     * Finds the passages of the notes most relevant to a question, for answerStream to cite
+     * @param question The question to answer
+     * @param signal Cancels the search when triggered
+     * @returns The passages, most relevant first
+     */
+    async findAnswerSources(question: string, signal?: AbortSignal): Promise<AnswerSource[]> {
+        const results = await this.search(question, signal);
+        const questionText = this.parseQuery(question).text;
         
-        // If we haven't found a relevant section yet, look for term proximity
-        if (!foundRelevantSection && queryTerms.length > 0) {
-            // Find sections where multiple query terms appear close together
-            const windowSize = 300; // Character window to check for term co-occurrence
-            let bestWindowScore = 0;
-            let bestWindowText = '';
+        return Promise.all(results.slice(0, MAX_ANSWER_SOURCES).map(async result => {
+            const content = await this.app.vault.cachedRead(result.file);
+            const offset = this.findPassageOffset(content, result.relevantSection, questionText);
+            const heading = this.getHeadingAt(result.file, offset);
+            const linkPath = this.app.metadataCache.fileToLinktext(result.file, '');
+            const passage = this.getPassage(content, offset);
             
-            // Slide a window through the content
-            for (let i = 0; i < lowerContent.length - windowSize; i += 100) { // Step by 100 chars for efficiency
-                const window = content.substring(i, i + windowSize);
-                const lowerWindow = window.toLowerCase();
-                let windowScore = 0;
-                
-                for (const term of queryTerms) {
-                    if (lowerWindow.includes(term)) {
-                        windowScore += 1;
-                    }
-                }
-                
-                if (windowScore > bestWindowScore) {
-                    bestWindowScore = windowScore;
-                    bestWindowText = window;
-                }
+            return {
+                file: result.file,
+                heading,
+                link: heading ? `${linkPath}#${heading}` : linkPath,
+                passage,
+                section: passage.split(/\n\s*\n/)[0],
+                score: result.score
+            };
+        }));
+    }
+    
+    /**
+     * Streams an answer to a question from the given passages, citing them as [[links]]
+     * @param question The question to answer
+     * @param sources The passages to answer from, as returned by findAnswerSources
+     * @param onUpdate Called with the full text received so far each time a chunk arrives
+     * @param signal Aborts the in-flight request when triggered
+     * @returns The completed answer
+     */
+    async answerStream(
+        question: string,
+        sources: AnswerSource[],
+        onUpdate?: (partial: string) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        try {
+            const sourcesText = sources.map(source => `[[${source.link}]]\n${source.passage}`).join('\n\n');
+            
+            const prompt = PromptTemplateRegistry.getInstance().render(PromptTemplateId.SEARCH_ANSWER, {
+                question,
+                sources: sourcesText
+            });
+            
+            let answer = '';
+            for await (const text of this.requireAIProvider().generateContentStream(prompt, { signal, priority: RequestPriority.INTERACTIVE })) {
+                answer += text;
+                onUpdate?.(answer);
             }
             
-            if (bestWindowScore > 0) {
-                excerptText = bestWindowText;
-                foundRelevantSection = true;
+            return answer;
+        } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
             }
+            
+            console.error('Error answering question:', error);
+            throw new Error(`Failed to answer question: ${error.message}`);
         }
+    }
+    
+    /**
+     * Finds where the passage an answer should cite starts: the section the ranking quoted,
+     * or else the first mention of a question term
+     */
+    private findPassageOffset(content: string, relevantSection: string | undefined, question: string): number {
+        const lowerContent = content.toLowerCase();
         
-        // If still no relevant section found, use the beginning of the document
-        if (!foundRelevantSection) {
-            // First, try to get the first paragraph which is often a summary
-            const firstParagraphMatch = content.match(/^([\s\S]+?)\n\s*\n/);
-            if (firstParagraphMatch && firstParagraphMatch[1].length > 50) {
-                // Limit to 300 chars if the paragraph is long
-                excerptText = firstParagraphMatch[1].substring(0, 300);
-            } else {
-                // Otherwise return the beginning of the document
-                excerptText = content.substring(0, 300);
+        const section = relevantSection?.trim().toLowerCase();
+        if (section && section.length > 10) {
+            const index = lowerContent.indexOf(section);
+            if (index !== -1) {
+                return index;
             }
         }
         
-        // Add highlight markers around matching terms
-        // We use special markers that we'll replace with HTML in the UI
-        if (queryTerms.length > 0) {
-            for (const term of queryTerms) {
-                if (term.length > 2) {
-                    const regex = new RegExp(`(${this.escapeRegExp(term)})`, 'gi');
-                    excerptText = excerptText.replace(regex, '[[highlight]]$1[[/highlight]]');
-                }
+        for (const term of LexicalIndex.getInstance().getQueryTerms(question)) {
+            const index = lowerContent.indexOf(term);
+            if (index !== -1) {
+                return index;
             }
         }
         
-        return excerptText + '...';
+        return 0;
+    }
+    
+    /**
+     * Gets the paragraph containing an offset and the text after it, up to MAX_PASSAGE_CHARS
+     */
+    private getPassage(content: string, offset: number): string {
+        const paragraphStart = content.lastIndexOf('\n\n', offset);
+        const start = paragraphStart === -1 ? 0 : paragraphStart + 2;
+        return content.substring(start, start + MAX_PASSAGE_CHARS).trim();
+    }
+    
+    /**
+     * Gets the heading an offset sits under, cleaned of characters a link can't contain
+     */
+    private getHeadingAt(file: TFile, offset: number): string | undefined {
+        const headings = this.app.metadataCache.getFileCache(file)?.headings ?? [];
+        const heading = headings.filter(candidate => candidate.position.start.offset <= offset).pop();
+        
+        return heading?.heading.replace(/[#|\[\]^]/g, ' ').replace(/\s+/g, ' ').trim() || undefined;
+    }
+    
+    /**
+     * Splits a note into the fields the keyword index scores separately
+     */
+    private getLexicalDocument(file: TFile, content: string): LexicalDocument {
+        const cache = this.app.metadataCache.getFileCache(file);
+        
+        return {
+            title: file.basename,
+            aliases: (parseFrontMatterAliases(cache?.frontmatter) ?? []).join('\n'),
+            headings: (cache?.headings ?? []).map(heading => heading.heading).join('\n'),
+            tags: (cache ? getAllTags(cache) ?? [] : []).join('\n'),
+            body: content.slice(cache?.frontmatterPosition?.end.offset ?? 0)
+        };
+    }
+    
+    /**
+     * Gets the model that ranks, explains and answers, which needs the search vendor's API key
+     */
+    private requireAIProvider(): AIProvider {
+        if (!this.aiProvider) {
+            throw new Error(`Please set your ${resolveProviderSettings(this.settings, AIFeature.SEARCH).vendor} API key in the plugin settings`);
+        }
+        return this.aiProvider;
+    }
+    
+    /**
+     * Gets the embedding model, which needs an embedding model and its vendor's API key
+     */
+    private requireEmbedder(): AIProvider {
+        if (!this.embedder) {
+            throw new Error('Please set an embedding model and its API key in the plugin settings');
+        }
+        return this.embedder;
+    }
+    
+    /**
+     * Checks whether a vendor can be called, i.e. it has an API key or doesn't need one
+     */
+    private hasApiKey(settings: AIProviderSettings): boolean {
+        return !!settings.apiKey || !vendorRequiresApiKey(settings.vendor);
+    }
+    
+    /**
+     * Adds highlight markers around the query's terms
+     * We use special markers that we'll replace with HTML in the UI
+     */
+    private markQueryTerms(text: string, queryTerms: string[]): string {
+        for (const term of queryTerms) {
+            if (term.length > 2) {
+                const regex = new RegExp(`(${this.escapeRegExp(term)})`, 'gi');
+                text = text.replace(regex, '[[highlight]]$1[[/highlight]]');
+            }
+        }
+        
+        return text;
     }
     
     /**
@@ -378,9 +842,10 @@ export class SearchService {
      * Uses AI to perform semantic search and rank results by relevance
      * @param results Array of candidate search results to analyze
      * @param query The search query
+     * @param signal Cancels the ranking request when triggered
      * @returns Array of search results ranked by semantic relevance
      */
-    private async enhanceSearchResults(results: SearchResult[], query: string): Promise<SearchResult[]> {
+    private async enhanceSearchResults(results: SearchResult[], query: string, signal?: AbortSignal): Promise<SearchResult[]> {
         try {
             // Prepare the prompt for AI model
             const resultsText = results.map((result, index) => {
@@ -389,59 +854,20 @@ Title: ${result.title}
 Excerpt: ${result.excerpt}`;
             }).join('\n\n');
             
-            const prompt = `
-                You are a semantic search engine for Obsidian notes. Your task is to find documents that are semantically related to the user's query, even if they don't contain the exact keywords.
-                
-                USER QUERY: "${query}"
-                
-                CANDIDATE DOCUMENTS:
-                ${resultsText}
-                
-                INSTRUCTIONS:
-                1. Analyze each document for DIRECT semantic relevance to the query. The document must contain information that would help answer or address the query.
-                2. Be STRICT about relevance - only consider a document relevant if it contains information that is genuinely useful for the query topic.
-                3. For example, if the query asks about "left shift" and a document discusses "shifting left" or "bit shifting operations", it should be considered highly relevant.
-                4. However, if a document only mentions the query terms in passing or in an unrelated context, it should receive a low score or be excluded.
-                5. For each relevant document, identify the SPECIFIC SECTION or SENTENCE that is most relevant to the query. Quote this exact text in your response.
-                6. For each document, provide a DETAILED explanation (2-3 sentences) of why this document is relevant to the query and what specific information it contains that addresses the query.
-                7. Use the following scoring guidelines:
-                   - 0.9-1.0: Directly addresses the query topic in detail
-                   - 0.7-0.8: Contains significant relevant information about the query topic
-                   - 0.6-0.7: Has some relevant information but isn't comprehensive
-                   - Below 0.6: Only tangentially related or mentions terms without context
-                
-                Return your analysis as a JSON array with this structure:
-                [
-                    {
-                        "index": 1, // The original document number (1-based)
-                        "score": 0.95, // Semantic relevance score between 0 and 1
-                        "reason": "Brief explanation of why this document is semantically relevant to the query",
-                        "explanation": "Detailed explanation (2-3 sentences) of the document's relevance and what specific information it contains that addresses the query",
-                        "relevantSection": "The exact text from the document that is most relevant to the query" // Quote the most relevant section
-                    },
-                    // Additional documents...
-                ]
-                
-                Only include documents with scores of 0.6 or higher. Sort them by relevance score (highest first).
-            `;
-            
-            const responseText = await this.aiProvider.generateContent(prompt);
-            
-            // Extract JSON from response
-            const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-            if (!jsonMatch) {
-                console.error('Could not extract JSON from AI response');
-                return results;
-            }
+            const prompt = PromptTemplateRegistry.getInstance().render(PromptTemplateId.SEARCH_RANK, {
+                query,
+                content: resultsText
+            });
             
-            const rankings = JSON.parse(jsonMatch[0]);
+            const rankings = await this.requireAIProvider().generateStructured<SearchRanking[]>(prompt, RANKINGS_SCHEMA, { signal });
             
-            // Update scores and sort results
-            const enhancedResults = rankings.map((ranking: { index: number; score: number; reason: string; explanation?: string; relevantSection?: string }) => {
+            // Update scores and sort results, ignoring rankings for documents that weren't sent
+            const enhancedResults = rankings.filter(ranking => ranking.index <= results.length).map(ranking => {
                 const originalResult = results[ranking.index - 1];
                 
                 // If AI provided a relevant section, highlight it and use it in the excerpt
                 let enhancedExcerpt = originalResult.excerpt;
+                let passages = originalResult.passages;
                 if (ranking.relevantSection) {
                     // Try to find the relevant section in the original excerpt
                     const cleanSection = ranking.relevantSection.trim();
@@ -457,6 +883,11 @@ Excerpt: ${result.excerpt}`;
                                 sectionRegex, 
                                 '[[highlight]]$1[[/highlight]]'
                             );
+                            
+                            // The excerpt is the best passage, so highlight it there too
+                            if (passages.length > 0) {
+                                passages = [{ ...passages[0], excerpt: enhancedExcerpt }, ...passages.slice(1)];
+                            }
                         } else {
                             // If not in the excerpt, add it as a highlighted section
                             enhancedExcerpt = enhancedExcerpt + 
@@ -466,7 +897,7 @@ Excerpt: ${result.excerpt}`;
                 }
                 
                 // Store highlighting information for this file
-                const queryTerms = this.extractImportantTerms(query);
+                const queryTerms = LexicalIndex.getInstance().getQueryTerms(query);
                 this.storeHighlightInfo(originalResult.path, queryTerms, ranking.relevantSection);
                 
                 // Format the explanation with the detailed information
@@ -479,6 +910,7 @@ Excerpt: ${result.excerpt}`;
                     explanation: detailedExplanation,
                     excerpt: enhancedExcerpt + `\n\nRelevance (${Math.round(ranking.score * 100)}%): ${detailedExplanation}`,
                     preview: enhancedExcerpt, // Update preview with enhanced excerpt
+                    passages,
                     file: originalResult.file // Ensure file reference is preserved
                 };
             });
@@ -495,6 +927,11 @@ Excerpt: ${result.excerpt}`;
             // Sort by score (highest first)
             return filteredResults.sort((a: SearchResult, b: SearchResult) => b.score - a.score);
         } catch (error) {
+            // A cancelled search must not fall back to unranked results
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error enhancing search results:', error);
             return results; // Return original results if enhancement fails
         }
@@ -1,5 +1,7 @@
-import { AIProvider } from '../utils/ai-providers';
+import { AIProvider, ServedModel } from '../utils/ai-providers';
 import { SummaryLevel } from '../views/summary-view';
+import { PromptTemplateRegistry, PromptTemplateId } from './prompt-templates';
+import { RequestPriority } from './rate-limiter';
 
 interface AIResponse {
     text?: string;
@@ -85,9 +87,9 @@ export class SummarizerService {
     }
 
     /**
-     * Summarizes a single chunk of content
+     * Builds the prompt used to summarize a single chunk of content
      */
-    private async summarizeChunk(chunk: string, level: SummaryLevel, isPartOfLargerDoc: boolean = false): Promise<string> {
+    private buildChunkPrompt(chunk: string, level: SummaryLevel, isPartOfLargerDoc: boolean = false): string {
         let levelInstructions = '';
         let formatInstructions = '';
         
@@ -116,25 +118,22 @@ export class SummarizerService {
             'This is part of a larger document, so focus on the key points from this section.' : 
             'This is a complete document, provide a cohesive summary.';
 
-        const prompt = `
-            Please provide an informative summary of the following text.
-            ${levelInstructions}
-            ${formatInstructions}
-            ${contextInstruction}
-            
-            EXTREMELY IMPORTANT INSTRUCTIONS:
-            - DO NOT include any title or heading
-            - DO NOT repeat the document title
-            - Start directly with the content
-            - Use proper markdown formatting
-            - Use bullet points as specified
-            - Keep bullet points concise but informative
-            
-            Text to summarize:
-            ${chunk}
-        `;
+        return PromptTemplateRegistry.getInstance().render(PromptTemplateId.SUMMARIZE_CHUNK, {
+            content: chunk,
+            level: level.toLowerCase(),
+            levelInstructions,
+            formatInstructions,
+            context: contextInstruction
+        });
+    }
 
-        const response = await this.aiProvider.generateContent(prompt);
+    /**
+     * Summarizes a single chunk of content
+     */
+    private async summarizeChunk(chunk: string, level: SummaryLevel, isPartOfLargerDoc: boolean = false, signal?: AbortSignal): Promise<string> {
+        const prompt = this.buildChunkPrompt(chunk, level, isPartOfLargerDoc);
+
+        const response = await this.aiProvider.generateContent(prompt, { signal, priority: RequestPriority.INTERACTIVE });
         let summary = '';
 
         if (typeof response === 'string') {
@@ -149,36 +148,40 @@ export class SummarizerService {
         return this.removeTitles(summary);
     }
 
+    /**
+     * Builds the prompt that merges section summaries into a single summary
+     */
+    private buildCombinePrompt(chunkSummaries: string[], level: SummaryLevel): string {
+        return PromptTemplateRegistry.getInstance().render(PromptTemplateId.SUMMARIZE_COMBINE, {
+            content: chunkSummaries.join('\n\n'),
+            level: level.toLowerCase()
+        });
+    }
+
     /**
      * Main summarization method that handles content chunking and combines summaries
+     * @param content The content to summarize
+     * @param level The level of detail for the summary
+     * @param signal Cancels the remaining requests when triggered
      */
-    public async summarize(content: string, level: SummaryLevel = SummaryLevel.STANDARD): Promise<string> {
+    public async summarize(content: string, level: SummaryLevel = SummaryLevel.STANDARD, signal?: AbortSignal): Promise<string> {
         try {
             const chunks = this.chunkContent(content);
             const needsChunking = chunks.length > 1;
 
             if (!needsChunking) {
-                return this.removeTitles(await this.summarizeChunk(content, level));
+                return this.removeTitles(await this.summarizeChunk(content, level, false, signal));
             }
 
             // Summarize each chunk
             const chunkSummaries = await Promise.all(
-                chunks.map(chunk => this.summarizeChunk(chunk, level, true))
+                chunks.map(chunk => this.summarizeChunk(chunk, level, true, signal))
             );
 
             // If we have multiple chunks, create a final summary combining them
-            const combinedSummary = chunkSummaries.join('\n\n');
-            const finalSummaryPrompt = `
-                Below are summaries of different sections of a document. 
-                Create a cohesive ${level.toLowerCase()} summary that combines these sections.
-                Maintain the same level of detail and formatting as specified for the ${level.toLowerCase()} summary level.
-                Eliminate any redundancy while preserving all unique and important information.
-
-                Section summaries:
-                ${combinedSummary}
-            `;
-
-            const finalSummary = await this.aiProvider.generateContent(finalSummaryPrompt);
+            const finalSummaryPrompt = this.buildCombinePrompt(chunkSummaries, level);
+
+            const finalSummary = await this.aiProvider.generateContent(finalSummaryPrompt, { signal, priority: RequestPriority.INTERACTIVE });
             let processedSummary = '';
             if (typeof finalSummary === 'string') {
                 processedSummary = finalSummary;
@@ -195,6 +198,59 @@ export class SummarizerService {
 
             return this.removeTitles(processedSummary);
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+
+            console.error('Error summarizing content:', error);
+            throw new Error(`Failed to summarize content: ${error.message}`);
+        }
+    }
+
+    /**
+     * Streaming variant of summarize. Long documents are still summarized section
+     * by section, but the final pass is streamed so text appears as it is generated.
+     * @param content The content to summarize
+     * @param level The level of detail for the summary
+     * @param onUpdate Called with the full text received so far, and the model generating it, each time a chunk arrives
+     * @param signal Aborts the in-flight request when triggered
+     * @returns The completed summary
+     */
+    public async summarizeStream(
+        content: string,
+        level: SummaryLevel = SummaryLevel.STANDARD,
+        onUpdate?: (partial: string, served?: ServedModel) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        try {
+            const chunks = this.chunkContent(content);
+            let prompt: string;
+
+            if (chunks.length > 1) {
+                const chunkSummaries = await Promise.all(
+                    chunks.map(chunk => this.summarizeChunk(chunk, level, true, signal))
+                );
+                prompt = this.buildCombinePrompt(chunkSummaries, level);
+            } else {
+                prompt = this.buildChunkPrompt(content, level);
+            }
+
+            let summary = '';
+            let served: ServedModel | undefined;
+            const onServed = (model: ServedModel) => served = model;
+            for await (const text of this.aiProvider.generateContentStream(prompt, { signal, onServed, priority: RequestPriority.INTERACTIVE })) {
+                summary += text;
+                onUpdate?.(summary, served);
+            }
+
+            return this.removeTitles(summary);
+        } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+
             console.error('Error summarizing content:', error);
             throw new Error(`Failed to summarize content: ${error.message}`);
         }
@@ -0,0 +1,437 @@
+import { AIFeature, AIProviderSettings, AIVendor, ContentPart, showErrorNotice } from '../utils/ai-providers/base-provider';
+
+/**
+ * Rough input size of one image. Vendors bill images by resolution,
+ * so this errs on the high side for typical screenshots and photos.
+ */
+export const IMAGE_TOKEN_ESTIMATE = 1000;
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+    input: number;
+    output: number;
+}
+
+/**
+ * Published list prices in USD per million tokens.
+ * Dated or preview variants are matched by their longest known prefix.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+    // Google Gemini
+    'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+    'gemini-2.5-flash': { input: 0.15, output: 0.60 },
+    'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+    'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+    'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+    'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+    'gemini-pro': { input: 0.50, output: 1.50 },
+
+    // OpenAI
+    'gpt-4o': { input: 2.50, output: 10.00 },
+    'gpt-4o-mini': { input: 0.15, output: 0.60 },
+    'gpt-4-turbo': { input: 10.00, output: 30.00 },
+    'gpt-4': { input: 30.00, output: 60.00 },
+    'gpt-3.5-turbo': { input: 0.50, output: 1.50 },
+    'gpt-3.5-turbo-instruct': { input: 1.50, output: 2.00 },
+    'text-embedding-3-small': { input: 0.02, output: 0 },
+    'text-embedding-3-large': { input: 0.13, output: 0 },
+    'text-embedding-ada-002': { input: 0.10, output: 0 },
+
+    // Anthropic
+    'claude-3-5-sonnet': { input: 3.00, output: 15.00 },
+    'claude-3-opus': { input: 15.00, output: 75.00 },
+    'claude-3-sonnet': { input: 3.00, output: 15.00 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 }
+};
+
+/**
+ * Token counts and cost, either for a single ledger entry or a sum of entries
+ */
+export interface UsageTotals {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    estimatedRequests: number; // Requests whose token counts were estimated from text length
+}
+
+/**
+ * Usage aggregated per day, vendor, model and feature
+ */
+export interface UsageEntry extends UsageTotals {
+    date: string; // Local date as YYYY-MM-DD
+    vendor: AIVendor;
+    model: string;
+    feature: AIFeature;
+}
+
+/**
+ * The persisted form of the ledger, stored in the plugin data
+ */
+export interface UsageLedgerData {
+    entries: UsageEntry[];
+}
+
+/**
+ * Token counts reported by a vendor. Missing counts are estimated.
+ */
+export interface ReportedUsage {
+    promptTokens?: number;
+    completionTokens?: number;
+}
+
+/**
+ * The worst-case cost of a request held against the monthly budget while it is queued or in flight
+ */
+export interface BudgetReservation {
+    /**
+     * Stop holding the cost, once the request is recorded or has failed. Releasing twice does nothing.
+     */
+    release(): void;
+}
+
+/**
+ * Thrown when a request is refused because it would exceed a budget cap
+ */
+export class BudgetExceededError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+/**
+ * Records the tokens and cost of every AI request, attributed to the
+ * vendor, model and plugin feature that issued it, and refuses requests
+ * that would exceed the configured budget.
+ */
+export class UsageLedger {
+    private static instance: UsageLedger;
+    private data: UsageLedgerData = { entries: [] };
+    private listeners: Set<() => void> = new Set();
+    private monthlyBudgetUsd = 0;
+    private maxRequestInputTokens = 0;
+    private reservedUsd = 0; // Worst-case cost of the requests checked but not yet recorded
+    private lastRefusal = { message: '', time: 0 };
+
+    private constructor() {}
+
+    public static getInstance(): UsageLedger {
+        if (!UsageLedger.instance) {
+            UsageLedger.instance = new UsageLedger();
+        }
+        return UsageLedger.instance;
+    }
+
+    /**
+     * Rough token estimate for vendors that don't report usage (about four characters per token)
+     * @param text The text to estimate
+     * @returns The estimated number of tokens
+     */
+    static estimateTokens(text: string): number {
+        return Math.ceil((text || '').length / 4);
+    }
+
+    /**
+     * Estimate the input tokens of a request before it is sent
+     * @param prompt The text prompt
+     * @param parts Additional content parts (e.g., images as base64)
+     * @returns The estimated number of input tokens
+     */
+    static estimatePromptTokens(prompt: string, parts: ContentPart[] = []): number {
+        return parts.reduce(
+            (tokens, part) => tokens + (part.type === 'image' ? IMAGE_TOKEN_ESTIMATE : UsageLedger.estimateTokens(part.data)),
+            UsageLedger.estimateTokens(prompt)
+        );
+    }
+
+    /**
+     * Look up the price of a model, matching dated and preview variants by prefix
+     * @param vendor The AI vendor
+     * @param model The model ID
+     * @returns The model's pricing, or null if it is unknown or free
+     */
+    static getPricing(vendor: AIVendor, model: string): ModelPricing | null {
+        // Local models run on the user's own hardware
+        if (vendor === AIVendor.LOCAL) {
+            return null;
+        }
+
+        if (MODEL_PRICING[model]) {
+            return MODEL_PRICING[model];
+        }
+
+        const prefix = Object.keys(MODEL_PRICING)
+            .filter(key => model.startsWith(key))
+            .sort((a, b) => b.length - a.length)[0];
+
+        return prefix ? MODEL_PRICING[prefix] : null;
+    }
+
+    /**
+     * Calculate the cost of a request
+     * @param vendor The AI vendor
+     * @param model The model ID
+     * @param promptTokens Number of input tokens
+     * @param completionTokens Number of output tokens
+     * @returns The cost in USD, or 0 for unknown and local models
+     */
+    static calculateCost(vendor: AIVendor, model: string, promptTokens: number, completionTokens: number): number {
+        const pricing = UsageLedger.getPricing(vendor, model);
+        if (!pricing) {
+            return 0;
+        }
+
+        return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+    }
+
+    /**
+     * Adopt previously persisted ledger data. The returned object is updated in place
+     * as requests are recorded, so it can be stored as part of the plugin data.
+     * @param data The persisted ledger, if any
+     * @returns The ledger data to persist
+     */
+    load(data?: UsageLedgerData): UsageLedgerData {
+        this.data = data && Array.isArray(data.entries) ? data : { entries: [] };
+        this.notify();
+        return this.data;
+    }
+
+    /**
+     * Configure the budget caps checked before each request
+     * @param monthlyBudgetUsd Maximum spend per calendar month in USD, 0 for no limit
+     * @param maxRequestInputTokens Maximum estimated input tokens per request, 0 for no limit
+     */
+    setBudget(monthlyBudgetUsd: number, maxRequestInputTokens: number): void {
+        this.monthlyBudgetUsd = monthlyBudgetUsd || 0;
+        this.maxRequestInputTokens = maxRequestInputTokens || 0;
+    }
+
+    /**
+     * Refuse a request that would exceed a budget cap. The completion is assumed to use
+     * the full token limit, so a request is only sent if it fits even in the worst case.
+     * That cost is reserved until the request is released, so requests queued behind rate
+     * limits can't each pass against the same total and overshoot the budget together.
+     * @param vendor The AI vendor
+     * @param model The model ID
+     * @param promptTokens Estimated input tokens
+     * @param maxCompletionTokens The request's output token limit
+     * @returns The reservation, to release once the request is recorded or has failed
+     * @throws BudgetExceededError if the request would exceed a cap
+     */
+    checkBudget(vendor: AIVendor, model: string, promptTokens: number, maxCompletionTokens: number): BudgetReservation {
+        if (this.maxRequestInputTokens > 0 && promptTokens > this.maxRequestInputTokens) {
+            this.refuse(
+                `AI request refused: about ${promptTokens.toLocaleString()} input tokens exceeds the per-request limit of ` +
+                `${this.maxRequestInputTokens.toLocaleString()}. Shorten the input or raise the limit in settings.`
+            );
+        }
+
+        const maxCost = UsageLedger.calculateCost(vendor, model, promptTokens, maxCompletionTokens);
+        if (this.monthlyBudgetUsd > 0) {
+            const monthStart = `${this.getDateKey(new Date()).slice(0, 7)}-01`;
+            const spent = this.getTotals(monthStart).costUsd;
+
+            if (maxCost > 0 && spent + this.reservedUsd + maxCost > this.monthlyBudgetUsd) {
+                const reserved = this.reservedUsd > 0 ? `, up to $${this.reservedUsd.toFixed(2)} for requests in progress` : '';
+                this.refuse(
+                    `AI request refused: the monthly budget of $${this.monthlyBudgetUsd.toFixed(2)} would be exceeded ` +
+                    `($${spent.toFixed(2)} spent this month${reserved}, this request could cost up to $${maxCost.toFixed(4)}). ` +
+                    `Raise the budget in settings to continue.`
+                );
+            }
+        }
+
+        return this.reserve(maxCost);
+    }
+
+    /**
+     * Refuse a provider's request that would exceed a budget cap
+     * @param settings The settings the provider was created with
+     * @param prompt The text prompt
+     * @param parts Additional content parts (e.g., images as base64)
+     * @returns The reservation, to release once the request is recorded or has failed
+     * @throws BudgetExceededError if the request would exceed a cap
+     */
+    checkRequest(settings: AIProviderSettings, prompt: string, parts: ContentPart[] = []): BudgetReservation {
+        return this.checkBudget(settings.vendor, settings.model, UsageLedger.estimatePromptTokens(prompt, parts), settings.maxTokens);
+    }
+
+    /**
+     * Subscribe to ledger changes
+     * @param listener Called whenever usage is recorded or the ledger is reset
+     * @returns A function that removes the listener
+     */
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Record a completed request for a provider
+     * @param settings The settings the provider was created with
+     * @param prompt The text sent to the model, used when the vendor reports no prompt tokens
+     * @param completion The generated text, used when the vendor reports no completion tokens
+     * @param reported Token counts reported by the vendor
+     */
+    recordRequest(settings: AIProviderSettings, prompt: string, completion: string, reported: ReportedUsage = {}): void {
+        const estimated = reported.promptTokens === undefined || reported.completionTokens === undefined;
+        const promptTokens = reported.promptTokens ?? UsageLedger.estimateTokens(prompt);
+        const completionTokens = reported.completionTokens ?? UsageLedger.estimateTokens(completion);
+
+        this.record(settings.vendor, settings.model, settings.feature ?? AIFeature.OTHER, promptTokens, completionTokens, estimated);
+    }
+
+    /**
+     * Add a request to today's entry for its vendor, model and feature
+     * @param vendor The AI vendor
+     * @param model The model ID
+     * @param feature The feature that issued the request
+     * @param promptTokens Number of input tokens
+     * @param completionTokens Number of output tokens
+     * @param estimated Whether the counts were estimated rather than reported
+     */
+    record(vendor: AIVendor, model: string, feature: AIFeature, promptTokens: number, completionTokens: number, estimated: boolean = false): void {
+        const date = this.getDateKey(new Date());
+        let entry = this.data.entries.find(e =>
+            e.date === date && e.vendor === vendor && e.model === model && e.feature === feature
+        );
+
+        if (!entry) {
+            entry = { date, vendor, model, feature, ...this.emptyTotals() };
+            this.data.entries.push(entry);
+        }
+
+        entry.requests++;
+        entry.promptTokens += promptTokens;
+        entry.completionTokens += completionTokens;
+        entry.costUsd += UsageLedger.calculateCost(vendor, model, promptTokens, completionTokens);
+        if (estimated) {
+            entry.estimatedRequests++;
+        }
+
+        this.notify();
+    }
+
+    /**
+     * Sum all entries, optionally only those on or after a date
+     * @param sinceDate Earliest date to include, as YYYY-MM-DD
+     * @returns The combined totals
+     */
+    getTotals(sinceDate?: string): UsageTotals {
+        const entries = sinceDate
+            ? this.data.entries.filter(e => e.date >= sinceDate)
+            : this.data.entries;
+
+        return entries.reduce((totals, entry) => this.addTotals(totals, entry), this.emptyTotals());
+    }
+
+    /**
+     * Totals per day, most recent first
+     * @returns Pairs of date and totals
+     */
+    getDailyBreakdown(): Array<{ date: string; totals: UsageTotals }> {
+        return this.groupBy(e => e.date)
+            .map(([date, totals]) => ({ date, totals }))
+            .sort((a, b) => b.date.localeCompare(a.date));
+    }
+
+    /**
+     * Totals per feature, most expensive first
+     * @returns Pairs of feature and totals
+     */
+    getFeatureBreakdown(): Array<{ feature: AIFeature; totals: UsageTotals }> {
+        return this.groupBy(e => e.feature)
+            .map(([feature, totals]) => ({ feature: feature as AIFeature, totals }))
+            .sort((a, b) => b.totals.costUsd - a.totals.costUsd || b.totals.requests - a.totals.requests);
+    }
+
+    /**
+     * Totals per vendor and model, most expensive first
+     * @returns Pairs of "vendor/model" and totals
+     */
+    getModelBreakdown(): Array<{ model: string; totals: UsageTotals }> {
+        return this.groupBy(e => `${e.vendor}/${e.model}`)
+            .map(([model, totals]) => ({ model, totals }))
+            .sort((a, b) => b.totals.costUsd - a.totals.costUsd || b.totals.requests - a.totals.requests);
+    }
+
+    /**
+     * Remove all recorded usage
+     */
+    reset(): void {
+        this.data.entries.splice(0);
+        this.notify();
+    }
+
+    /**
+     * Format a date as the local YYYY-MM-DD key used by ledger entries
+     */
+    getDateKey(date: Date): string {
+        const month = String(date.getMonth() + 1).padStart(2, '0');
+        const day = String(date.getDate()).padStart(2, '0');
+        return `${date.getFullYear()}-${month}-${day}`;
+    }
+
+    /**
+     * Hold a request's worst-case cost against the budget until it is released
+     */
+    private reserve(costUsd: number): BudgetReservation {
+        let released = false;
+        this.reservedUsd += costUsd;
+        return {
+            release: () => {
+                if (!released) {
+                    released = true;
+                    this.reservedUsd = Math.max(0, this.reservedUsd - costUsd);
+                }
+            }
+        };
+    }
+
+    /**
+     * Show why a request was refused and throw. Batch jobs refuse many requests
+     * at once, so a repeated message is only shown once every few seconds.
+     */
+    private refuse(message: string): never {
+        const now = Date.now();
+        if (message !== this.lastRefusal.message || now - this.lastRefusal.time > 5000) {
+            showErrorNotice(message, 10000);
+        }
+        this.lastRefusal = { message, time: now };
+
+        throw new BudgetExceededError(message);
+    }
+
+    private groupBy(keyOf: (entry: UsageEntry) => string): Array<[string, UsageTotals]> {
+        const groups = new Map<string, UsageTotals>();
+
+        for (const entry of this.data.entries) {
+            const key = keyOf(entry);
+            groups.set(key, this.addTotals(groups.get(key) ?? this.emptyTotals(), entry));
+        }
+
+        return Array.from(groups.entries());
+    }
+
+    private addTotals(totals: UsageTotals, entry: UsageTotals): UsageTotals {
+        return {
+            requests: totals.requests + entry.requests,
+            promptTokens: totals.promptTokens + entry.promptTokens,
+            completionTokens: totals.completionTokens + entry.completionTokens,
+            costUsd: totals.costUsd + entry.costUsd,
+            estimatedRequests: totals.estimatedRequests + (entry.estimatedRequests || 0)
+        };
+    }
+
+    private emptyTotals(): UsageTotals {
+        return { requests: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, estimatedRequests: 0 };
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
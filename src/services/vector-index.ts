@@ -0,0 +1,482 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+
+/**
+ * A passage of a note, embedded as one vector
+ */
+export interface NoteChunk {
+    heading?: string; // The heading the passage sits under, if any
+    start: number; // Character offsets of the passage in the note
+    end: number;
+    text: string;
+}
+
+/**
+ * A chunk as kept in the index. Only its offsets are stored; the text is read back from the note.
+ */
+export interface IndexedChunk {
+    path: string;
+    heading?: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * A chunk retrieved for a query, with its cosine similarity to the query
+ */
+export interface VectorHit {
+    chunk: IndexedChunk;
+    score: number;
+}
+
+interface IndexedNote {
+    mtime: number; // Modification time of the note when it was embedded
+    chunks: Array<Omit<IndexedChunk, 'path'>>;
+    vectors: Float32Array; // One unit-length vector per chunk, one after another
+}
+
+interface IndexFile {
+    version: number;
+    model: string; // Key of the embedding model the vectors were made with
+    dimensions: number;
+    notes: Array<{ path: string; mtime: number; chunks: Array<Omit<IndexedChunk, 'path'>> }>; // Vectors are stored in this order
+}
+
+const INDEX_FILE_VERSION = 1;
+
+// Chunks retrieved per similar note asked for
+const SIMILAR_NOTE_CHUNKS = 4;
+
+// Paragraphs are merged up to this size, so each chunk has enough context to embed well
+const MAX_CHUNK_CHARS = 1500;
+
+/**
+ * Split a note into chunks at its headings, merging paragraphs within each section up to MAX_CHUNK_CHARS.
+ * Frontmatter is left out, and headings inside code blocks don't start a section.
+ * @param content The note's content
+ * @returns The note's chunks, in order
+ */
+export function chunkNote(content: string): NoteChunk[] {
+    const frontmatter = content.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n/);
+    const bodyStart = frontmatter ? frontmatter[0].length : 0;
+
+    // Find the sections, each running from one heading to the next
+    const sections: Array<{ heading?: string; start: number; end: number }> = [];
+    let heading: string | undefined;
+    let sectionStart = bodyStart;
+    let inCodeBlock = false;
+    let offset = bodyStart;
+
+    for (const line of content.slice(bodyStart).split('\n')) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inCodeBlock = !inCodeBlock;
+        }
+
+        const match = inCodeBlock ? null : line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+        if (match) {
+            sections.push({ heading, start: sectionStart, end: offset });
+            heading = match[1];
+            sectionStart = offset;
+        }
+        offset += line.length + 1;
+    }
+    sections.push({ heading, start: sectionStart, end: content.length });
+
+    const chunks: NoteChunk[] = [];
+    const addChunk = (sectionHeading: string | undefined, start: number, end: number) => {
+        const text = content.slice(start, end).trim();
+        if (text) {
+            chunks.push({ heading: sectionHeading, start, end, text });
+        }
+    };
+
+    for (const section of sections) {
+        let chunkStart = -1;
+        let chunkEnd = -1;
+
+        for (const [paragraphStart, paragraphEnd] of getParagraphs(content, section.start, section.end)) {
+            if (chunkStart !== -1 && paragraphEnd - chunkStart > MAX_CHUNK_CHARS) {
+                addChunk(section.heading, chunkStart, chunkEnd);
+                chunkStart = -1;
+            }
+
+            // A paragraph too long for one chunk is cut into pieces
+            if (paragraphEnd - paragraphStart > MAX_CHUNK_CHARS) {
+                for (let start = paragraphStart; start < paragraphEnd; start += MAX_CHUNK_CHARS) {
+                    addChunk(section.heading, start, Math.min(start + MAX_CHUNK_CHARS, paragraphEnd));
+                }
+                continue;
+            }
+
+            if (chunkStart === -1) {
+                chunkStart = paragraphStart;
+            }
+            chunkEnd = paragraphEnd;
+        }
+
+        if (chunkStart !== -1) {
+            addChunk(section.heading, chunkStart, chunkEnd);
+        }
+    }
+
+    return chunks;
+}
+
+/**
+ * Get the offsets of the paragraphs between two offsets of a note
+ */
+function getParagraphs(content: string, start: number, end: number): Array<[number, number]> {
+    const paragraphs: Array<[number, number]> = [];
+    const separator = /\n\s*\n/g;
+    const text = content.slice(start, end);
+    let paragraphStart = 0;
+
+    for (let match = separator.exec(text); match; match = separator.exec(text)) {
+        paragraphs.push([start + paragraphStart, start + match.index]);
+        paragraphStart = match.index + match[0].length;
+    }
+    paragraphs.push([start + paragraphStart, end]);
+
+    return paragraphs.filter(([paragraphStart, paragraphEnd]) => content.slice(paragraphStart, paragraphEnd).trim().length > 0);
+}
+
+/**
+ * Persistent index of note chunks and their embeddings, stored in the plugin's data folder.
+ * Vectors are kept at unit length so cosine similarity is a dot product, and are stored
+ * as binary since a large vault holds tens of thousands of them.
+ */
+export class VectorIndex {
+    private static instance: VectorIndex;
+    private notes: Map<string, IndexedNote> = new Map();
+    private model = '';
+    private dimensions = 0;
+    private adapter: DataAdapter | null = null;
+    private folder = '';
+    private saveTimer: number | null = null;
+
+    private constructor() {}
+
+    public static getInstance(): VectorIndex {
+        if (!VectorIndex.instance) {
+            VectorIndex.instance = new VectorIndex();
+        }
+        return VectorIndex.instance;
+    }
+
+    /**
+     * Load the index from disk
+     * @param adapter The vault's data adapter
+     * @param folder The plugin's data folder
+     */
+    async load(adapter: DataAdapter, folder: string): Promise<void> {
+        try {
+            this.adapter = adapter;
+            this.folder = normalizePath(`${folder}/index`);
+
+            const metadataPath = `${this.folder}/vectors.json`;
+            const vectorsPath = `${this.folder}/vectors.bin`;
+            if (!(await adapter.exists(metadataPath)) || !(await adapter.exists(vectorsPath))) {
+                return;
+            }
+
+            const file: IndexFile = JSON.parse(await adapter.read(metadataPath));
+            if (file.version !== INDEX_FILE_VERSION || !Array.isArray(file.notes)) {
+                return;
+            }
+
+            const vectors = new Float32Array(await adapter.readBinary(vectorsPath));
+            const notes: Map<string, IndexedNote> = new Map();
+            let offset = 0;
+            for (const note of file.notes) {
+                const length = note.chunks.length * file.dimensions;
+                notes.set(note.path, { mtime: note.mtime, chunks: note.chunks, vectors: vectors.slice(offset, offset + length) });
+                offset += length;
+            }
+
+            // A partly written index can't be trusted, so it is rebuilt instead
+            if (offset !== vectors.length) {
+                console.warn('Search index is incomplete and will be rebuilt');
+                return;
+            }
+
+            this.model = file.model;
+            this.dimensions = file.dimensions;
+            this.notes = notes;
+        } catch (error) {
+            // The index can always be rebuilt from the notes, so a damaged one is not worth failing over
+            console.warn('Could not load search index:', error);
+        }
+    }
+
+    /**
+     * Set the embedding model new vectors come from, discarding vectors made with another model
+     * @param model The embedding model key, see getEmbeddingModelKey
+     */
+    useModel(model: string): void {
+        if (model === this.model) {
+            return;
+        }
+
+        if (this.notes.size > 0) {
+            console.log(`Embedding model changed from ${this.model} to ${model}, clearing the search index`);
+        }
+        this.notes.clear();
+        this.model = model;
+        this.dimensions = 0;
+        this.scheduleSave();
+    }
+
+    /**
+     * Check whether a note has to be embedded, because it is new or changed since it was indexed
+     * @param path The note's path
+     * @param mtime The note's modification time
+     * @returns True if the note's vectors are missing or out of date
+     */
+    isStale(path: string, mtime: number): boolean {
+        return this.notes.get(path)?.mtime !== mtime;
+    }
+
+    /**
+     * Store the chunks of a note and their vectors, replacing any it had
+     * @param path The note's path
+     * @param mtime The note's modification time when it was read
+     * @param chunks The note's chunks
+     * @param vectors One vector per chunk, from the model set with useModel
+     */
+    setNote(path: string, mtime: number, chunks: NoteChunk[], vectors: number[][]): void {
+        if (vectors.length !== chunks.length) {
+            throw new Error(`Expected ${chunks.length} vectors for ${path} but received ${vectors.length}`);
+        }
+
+        const dimensions = vectors[0]?.length ?? this.dimensions;
+        if (this.dimensions && dimensions !== this.dimensions) {
+            throw new Error(`Expected ${this.dimensions}-dimensional vectors from ${this.model} but received ${dimensions}`);
+        }
+        this.dimensions = dimensions;
+
+        const flat = new Float32Array(chunks.length * dimensions);
+        vectors.forEach((vector, index) => flat.set(normalize(vector), index * dimensions));
+
+        this.notes.set(path, {
+            mtime,
+            chunks: chunks.map(({ heading, start, end }) => ({ heading, start, end })),
+            vectors: flat
+        });
+        this.scheduleSave();
+    }
+
+    /**
+     * Move a note's chunks to its new path, e.g. when it is renamed. The vectors are kept
+     * as they are, since a new title alone changes them too little to be worth embedding again.
+     * @param oldPath The note's previous path
+     * @param newPath The note's new path
+     */
+    renameNote(oldPath: string, newPath: string): void {
+        const note = this.notes.get(oldPath);
+        if (!note) {
+            return;
+        }
+
+        this.notes.delete(oldPath);
+        this.notes.set(newPath, note);
+        this.scheduleSave();
+    }
+
+    /**
+     * Forget a note, e.g. when it is deleted
+     * @param path The note's path
+     */
+    deleteNote(path: string): void {
+        if (this.notes.delete(path)) {
+            this.scheduleSave();
+        }
+    }
+
+    /**
+     * Forget every note that is not in the vault any more
+     * @param paths The paths of the vault's notes
+     */
+    retainOnly(paths: Set<string>): void {
+        for (const path of Array.from(this.notes.keys())) {
+            if (!paths.has(path)) {
+                this.deleteNote(path);
+            }
+        }
+    }
+
+    /**
+     * Find the chunks most similar to a query vector
+     * @param query The query's vector, from the model set with useModel
+     * @param limit The most chunks to return
+     * @param accept Limits the search to the notes it returns true for
+     * @returns The most similar chunks, most similar first
+     */
+    search(query: number[], limit: number, accept?: (path: string) => boolean): VectorHit[] {
+        if (query.length !== this.dimensions) {
+            return [];
+        }
+
+        const queryVector = normalize(query);
+        const hits: VectorHit[] = [];
+
+        for (const [path, note] of this.notes) {
+            if (accept && !accept(path)) {
+                continue;
+            }
+
+            for (let index = 0; index < note.chunks.length; index++) {
+                let score = 0;
+                const offset = index * this.dimensions;
+                for (let dimension = 0; dimension < this.dimensions; dimension++) {
+                    score += queryVector[dimension] * note.vectors[offset + dimension];
+                }
+
+                // Keep the best hits sorted, only inserting chunks that beat the worst of them
+                if (hits.length < limit || score > hits[hits.length - 1].score) {
+                    const position = hits.findIndex(hit => hit.score < score);
+                    hits.splice(position === -1 ? hits.length : position, 0, { chunk: { path, ...note.chunks[index] }, score });
+                    if (hits.length > limit) {
+                        hits.pop();
+                    }
+                }
+            }
+        }
+
+        return hits;
+    }
+
+    /**
+     * Find the notes whose chunks are most similar to a note as a whole, taken as the mean of its chunks' vectors.
+     * Uses only stored vectors, so nothing is embedded.
+     * @param path The note's path
+     * @param limit The most notes to return
+     * @returns Each similar note with the similarity of its closest chunk, most similar first, without the note itself; empty if the note isn't indexed
+     */
+    findSimilarNotes(path: string, limit: number): Array<{ path: string; score: number }> {
+        const note = this.notes.get(path);
+        if (!note || note.chunks.length === 0) {
+            return [];
+        }
+
+        const mean: number[] = new Array(this.dimensions).fill(0);
+        for (let offset = 0; offset < note.vectors.length; offset += this.dimensions) {
+            for (let dimension = 0; dimension < this.dimensions; dimension++) {
+                mean[dimension] += note.vectors[offset + dimension];
+            }
+        }
+
+        // A note has several chunks close to the mean, so look further than the limit to find enough distinct notes
+        const scores: Map<string, number> = new Map();
+        for (const hit of this.search(mean, limit * SIMILAR_NOTE_CHUNKS, other => other !== path)) {
+            if (!scores.has(hit.chunk.path)) {
+                scores.set(hit.chunk.path, hit.score);
+            }
+        }
+
+        return Array.from(scores, ([path, score]) => ({ path, score })).slice(0, limit);
+    }
+
+    /**
+     * Check whether any note has been embedded
+     * @returns True if the index holds no notes
+     */
+    isEmpty(): boolean {
+        return this.notes.size === 0;
+    }
+
+    /**
+     * Count the notes and chunks in the index
+     * @returns The number of notes and chunks
+     */
+    getStats(): { notes: number; chunks: number } {
+        let chunks = 0;
+        for (const note of this.notes.values()) {
+            chunks += note.chunks.length;
+        }
+        return { notes: this.notes.size, chunks };
+    }
+
+    /**
+     * Remove every note, so the whole vault is embedded again
+     */
+    clear(): void {
+        this.notes.clear();
+        this.dimensions = 0;
+        this.scheduleSave();
+    }
+
+    /**
+     * Write pending changes now, used when the plugin unloads
+     */
+    async flush(): Promise<void> {
+        if (this.saveTimer !== null) {
+            window.clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+            await this.save();
+        }
+    }
+
+    /**
+     * Save shortly after the last change, so indexing many notes results in a single write
+     */
+    private scheduleSave(): void {
+        if (this.saveTimer !== null) {
+            window.clearTimeout(this.saveTimer);
+        }
+
+        this.saveTimer = window.setTimeout(() => {
+            this.saveTimer = null;
+            this.save();
+        }, 5000);
+    }
+
+    private async save(): Promise<void> {
+        if (!this.adapter || !this.folder) {
+            return;
+        }
+
+        try {
+            if (!(await this.adapter.exists(this.folder))) {
+                await this.adapter.mkdir(this.folder);
+            }
+
+            const notes = Array.from(this.notes.entries());
+            const vectors = new Float32Array(notes.reduce((length, [, note]) => length + note.vectors.length, 0));
+            let offset = 0;
+            for (const [, note] of notes) {
+                vectors.set(note.vectors, offset);
+                offset += note.vectors.length;
+            }
+
+            const file: IndexFile = {
+                version: INDEX_FILE_VERSION,
+                model: this.model,
+                dimensions: this.dimensions,
+                notes: notes.map(([path, note]) => ({ path, mtime: note.mtime, chunks: note.chunks }))
+            };
+
+            await this.adapter.writeBinary(`${this.folder}/vectors.bin`, vectors.buffer);
+            await this.adapter.write(`${this.folder}/vectors.json`, JSON.stringify(file));
+        } catch (error) {
+            console.error('Failed to save search index:', error);
+        }
+    }
+}
+
+/**
+ * Scale a vector to unit length, so the dot product of two vectors is their cosine similarity
+ */
+function normalize(vector: number[]): Float32Array {
+    const result = Float32Array.from(vector);
+    let length = 0;
+    for (const value of result) {
+        length += value * value;
+    }
+
+    length = Math.sqrt(length);
+    if (length > 0) {
+        for (let index = 0; index < result.length; index++) {
+            result[index] /= length;
+        }
+    }
+    return result;
+}
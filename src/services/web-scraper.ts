@@ -1,5 +1,6 @@
-import { ObsidianLinkSettings, getApiKeyForVendor } from '../types';
-import { AIProvider, AIProviderFactory } from '../utils/ai-providers';
+import { ObsidianLinkSettings } from '../types';
+import { AIProvider, AIProviderFactory, AIFeature, resolveProviderSettings, resolveFallbackChain } from '../utils/ai-providers';
+import { PromptTemplateRegistry, PromptTemplateId } from './prompt-templates';
 
 export class WebScraperService {
     private aiProvider: AIProvider;
@@ -8,25 +9,18 @@ export class WebScraperService {
     constructor(settings: ObsidianLinkSettings) {
         this.settings = settings;
         
-        // Get the appropriate API key for the selected vendor
-        const apiKey = getApiKeyForVendor(settings, settings.vendor);
-        
-        // Create the AI provider using the factory
-        this.aiProvider = AIProviderFactory.createProvider({
-            apiKey,
-            model: settings.model,
-            maxTokens: settings.maxTokens,
-            temperature: settings.temperature,
-            vendor: settings.vendor
-        });
+        // Create the AI provider using the factory, with any model override and fallbacks for this feature
+        const providerSettings = resolveProviderSettings(settings, AIFeature.SCRAPE);
+        this.aiProvider = AIProviderFactory.createProviderWithFallback(resolveFallbackChain(settings, providerSettings));
     }
 
     /**
      * Scrapes content from a website URL and returns it as formatted Markdown
      * @param url The URL to scrape
+     * @param signal Cancels the download and the AI request when triggered
      * @returns Formatted Markdown content
      */
-    async scrapeWebsite(url: string): Promise<string> {
+    async scrapeWebsite(url: string, signal?: AbortSignal): Promise<string> {
         try {
             // Use a CORS proxy to avoid CORS issues
             // We'll use a popular CORS proxy service
@@ -37,7 +31,8 @@ export class WebScraperService {
             const response = await fetch(proxyUrl, {
                 headers: {
                     'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-                }
+                },
+                signal
             });
             
             if (!response.ok) {
@@ -47,20 +42,18 @@ export class WebScraperService {
             const html = await response.text();
             
             // Use AI to extract meaningful content and format as Markdown
-            const prompt = `
-                I have the HTML content from the website ${url}. 
-                Please extract the most meaningful and important content from this HTML and format it as Markdown.
-                Focus on the main article content, headings, lists, and any important information.
-                Ignore navigation menus, footers, ads, and other non-essential elements.
-                Preserve the structure of the content with proper Markdown formatting.
-                Include images by referencing their URLs.
-                
-                HTML content:
-                ${html.substring(0, 100000)} // Limit to avoid token limits
-            `;
+            const prompt = PromptTemplateRegistry.getInstance().render(PromptTemplateId.SCRAPE, {
+                url,
+                content: html.substring(0, 100000) // Limit to avoid token limits
+            });
             
-            return await this.aiProvider.generateContent(prompt);
+            return await this.aiProvider.generateContent(prompt, { signal });
         } catch (error) {
+            // Let cancellation through untouched so callers can tell it apart from a failure
+            if (signal?.aborted) {
+                throw error;
+            }
+            
             console.error('Error scraping website:', error);
             throw new Error(`Failed to scrape website: ${error.message}`);
         }
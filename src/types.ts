@@ -1,5 +1,6 @@
 import { Notice } from 'obsidian';
-import { AIVendor } from './utils/ai-providers/base-provider';
+import { AIFeature, AIVendor } from './utils/ai-providers/base-provider';
+import { UsageLedgerData } from './services/usage-ledger';
 
 /**
  * Summary detail levels
@@ -195,9 +196,33 @@ export const MODEL_CATEGORIES: ModelCategory[] = [
                 description: 'Fast and efficient model for quick responses'
             }
         ]
+    },
+    
+    // Local Models (populated from the server's model list at runtime)
+    {
+        name: 'Local Models',
+        vendor: AIVendor.LOCAL,
+        models: []
     }
 ];
 
+/**
+ * Replace the local model category with the models reported by a local server
+ * @param modelIds The model IDs returned by the server's model list endpoint
+ */
+export function setLocalModels(modelIds: string[]): void {
+    const category = MODEL_CATEGORIES.find(c => c.vendor === AIVendor.LOCAL);
+    if (!category) {
+        return;
+    }
+    
+    category.models = modelIds.map(id => ({
+        id,
+        name: id,
+        description: 'Served by your local OpenAI-compatible server'
+    }));
+}
+
 /**
  * Get a model by its ID
  */
@@ -212,6 +237,16 @@ export function getModelById(id: string) {
     return null;
 }
 
+/**
+ * Model settings for a single feature; anything left unset inherits the global setting
+ */
+export interface FeatureModelSettings {
+    vendor?: AIVendor;
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+}
+
 /**
  * Plugin settings interface
  */
@@ -226,6 +261,37 @@ export interface ObsidianLinkSettings {
     geminiApiKey: string;
     openaiApiKey: string;
     anthropicApiKey: string;
+    
+    // Local OpenAI-compatible server (Ollama, llama.cpp, LM Studio)
+    localBaseUrl: string;
+    localApiKey: string; // Optional, most local servers do not require one
+    
+    // Budget caps, checked before each request is sent (0 disables a cap)
+    monthlyBudgetUsd: number;
+    maxRequestInputTokens: number;
+    
+    // Response cache, stored under the plugin's data folder
+    cacheEnabled: boolean;
+    cacheTtlHours: number;
+    cacheMaxSizeMb: number;
+    cacheBypassFeatures: AIFeature[]; // Features that always call the AI
+    
+    // Per-feature model overrides, e.g. a cheap model for search and a vision model for images
+    featureModels: Partial<Record<AIFeature, FeatureModelSettings>>;
+    
+    // Models tried in order when a feature's model is unavailable, out of quota or failing
+    fallbackEnabled: boolean;
+    fallbackModels: string[];
+    
+    // Embedding model for semantic search (an empty model uses the vendor's default)
+    embeddingVendor: AIVendor;
+    embeddingModel: string;
+    
+    // Vault folder holding prompt template overrides (empty uses only the built-in prompts)
+    promptTemplateFolder: string;
+    
+    // Token and cost ledger, kept with the settings so every save persists it
+    usageLedger?: UsageLedgerData;
 }
 
 /**
@@ -266,6 +332,8 @@ function getEnvVarNameForVendor(vendor: AIVendor): string {
             return 'OPENAI_API_KEY';
         case AIVendor.ANTHROPIC:
             return 'ANTHROPIC_API_KEY';
+        case AIVendor.LOCAL:
+            return 'LOCAL_AI_API_KEY';
         default:
             return '';
     }
@@ -284,6 +352,8 @@ export function getVendorKeyName(vendor: AIVendor): string {
             return 'openaiApiKey';
         case AIVendor.ANTHROPIC:
             return 'anthropicApiKey';
+        case AIVendor.LOCAL:
+            return 'localApiKey';
         default:
             return '';
     }
@@ -302,6 +372,8 @@ function getLocalStorageKeyForVendor(vendor: AIVendor): string {
             return 'openai_api_key';
         case AIVendor.ANTHROPIC:
             return 'anthropic_api_key';
+        case AIVendor.LOCAL:
+            return 'local_api_key';
         default:
             return '';
     }
@@ -314,6 +386,11 @@ function getLocalStorageKeyForVendor(vendor: AIVendor): string {
  * @returns True if the API key appears valid, false otherwise
  */
 export function isValidApiKey(apiKey: string, vendor: AIVendor): boolean {
+    // Local servers do not require a key, so any value (including none) is acceptable
+    if (!vendorRequiresApiKey(vendor)) {
+        return true;
+    }
+    
     // Basic validation - ensure the key exists and has a reasonable length
     if (!apiKey || apiKey.trim().length < 10) {
         return false;
@@ -360,6 +437,9 @@ export function saveApiKey(apiKey: string, vendor: AIVendor, plugin: any): boole
             case AIVendor.ANTHROPIC:
                 plugin.settings.anthropicApiKey = apiKey;
                 break;
+            case AIVendor.LOCAL:
+                plugin.settings.localApiKey = apiKey;
+                break;
         }
         
         // Save the updated settings
@@ -385,11 +465,22 @@ export function getApiKeyForVendor(settings: ObsidianLinkSettings, vendor: AIVen
             return settings.openaiApiKey;
         case AIVendor.ANTHROPIC:
             return settings.anthropicApiKey;
+        case AIVendor.LOCAL:
+            return settings.localApiKey || '';
         default:
             return '';
     }
 }
 
+/**
+ * Check whether a vendor needs an API key before AI services can be used
+ * @param vendor The AI vendor
+ * @returns False for key-less vendors such as local servers
+ */
+export function vendorRequiresApiKey(vendor: AIVendor): boolean {
+    return vendor !== AIVendor.LOCAL;
+}
+
 /**
  * Get model categories for a specific vendor
  * @param vendor The AI vendor
@@ -6,8 +6,22 @@ import {
     ModelAvailabilityInfo, 
     ModelAvailabilityStatus,
     showErrorNotice,
-    ContentPart
+    ContentPart,
+    RequestOptions,
+    isAbortError,
+    ProviderError,
+    classifyProviderError,
+    JsonSchema,
+    StructuredOptions,
+    ChatRequest,
+    flattenChatRequest,
+    EmbeddingResult,
+    ProviderErrorKind
 } from './base-provider';
+import { generateWithRepair } from './structured-output';
+import { BaseAIProvider } from './base-ai-provider';
+import { UsageLedger, ReportedUsage, BudgetReservation } from '../../services/usage-ledger';
+import { ResponseCache } from '../../services/response-cache';
 
 /**
  * Map of known Anthropic models and their availability status
@@ -89,17 +103,25 @@ function inferAnthropicFallbackModel(modelName: string): string {
     return 'claude-3-haiku-20240307';
 }
 
+/**
+ * The conversation fields of an Anthropic messages request
+ */
+type AnthropicChat = {
+    system?: string;
+    messages: Anthropic.MessageParam[];
+};
+
 /**
  * Implementation of the AIProvider interface for Anthropic's Claude models
  */
-export class AnthropicProvider implements AIProvider {
+export class AnthropicProvider extends BaseAIProvider implements AIProvider {
     private client: Anthropic;
-    private settings: AIProviderSettings;
 
     constructor(apiKey: string, settings: AIProviderSettings) {
-        this.settings = settings;
+        super(settings);
         this.client = new Anthropic({
-            apiKey: apiKey
+            apiKey: apiKey,
+            maxRetries: 0 // Retries are handled by withRateLimitAndRetry
         });
         
         console.log(`Initializing Anthropic model: ${this.settings.model}`);
@@ -108,20 +130,31 @@ export class AnthropicProvider implements AIProvider {
     /**
      * Generate content using the Anthropic API
      * @param prompt The prompt to send to Claude
+     * @param options Request options, including an abort signal
      * @returns The generated content
      */
-    async generateContent(prompt: string): Promise<string> {
+    async generateContent(prompt: string, options: RequestOptions = {}): Promise<string> {
+        return ResponseCache.getInstance().getOrCreate(this.settings, prompt, [], () => this.requestContent(prompt, options));
+    }
+    
+    /**
+     * Send a text request to the Anthropic API unless it is over budget
+     */
+    private async requestContent(prompt: string, options: RequestOptions): Promise<string> {
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt);
+        
         try {
             console.log(`Generating content with model: ${this.settings.model}, temperature: ${this.settings.temperature}`);
             
-            const message = await this.client.messages.create({
+            const message = await this.withRateLimitAndRetry(() => this.client.messages.create({
                 model: this.settings.model,
                 max_tokens: this.settings.maxTokens,
                 temperature: this.settings.temperature,
                 messages: [
                     { role: 'user', content: prompt }
                 ]
-            });
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt));
             
             // Extract the response text
             const responseText = message.content.reduce((acc, item) => {
@@ -131,57 +164,18 @@ export class AnthropicProvider implements AIProvider {
                 return acc;
             }, '');
             
+            UsageLedger.getInstance().recordRequest(this.settings, prompt, responseText, this.getReportedUsage(message.usage));
             return responseText;
         } catch (error: any) {
-            console.error('Error generating content with Anthropic:', error);
-            
-            // Get model information for better error messages
-            const modelInfo = checkAnthropicModelAvailability(this.settings.model);
-            
-            // Handle common Anthropic API errors
-            if (error.status === 404 || (error.message && error.message.includes('model not found'))) {
-                let errorMessage = `Model not available: ${this.settings.model}.`;
-                
-                if (modelInfo.status === ModelAvailabilityStatus.LIMITED_PREVIEW) {
-                    errorMessage += ` ${modelInfo.reason || 'This model has limited availability.'}`;
-                    
-                    if (modelInfo.fallbackModel) {
-                        errorMessage += ` Try using ${modelInfo.fallbackModel} instead.`;
-                    }
-                } else if (modelInfo.status === ModelAvailabilityStatus.DEPRECATED) {
-                    errorMessage += ` ${modelInfo.reason || 'This model is deprecated.'}`;
-                    
-                    if (modelInfo.fallbackModel) {
-                        errorMessage += ` Try using ${modelInfo.fallbackModel} instead.`;
-                    }
-                } else {
-                    errorMessage += ` This model may not exist or may not be available with your API key.`;
-                }
-                
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
-            } else if (error.status === 401 || (error.message && error.message.includes('authentication'))) {
-                const errorMessage = 'Authentication failed. Please check your Anthropic API key in settings.';
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
-            } else if (error.status === 429 || (error.message && error.message.includes('rate limit'))) {
-                const errorMessage = 'Rate limit exceeded. Please try again later or check your Anthropic account usage limits.';
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
-            } else if (error.status === 400 || (error.message && error.message.includes('invalid request'))) {
-                let errorMessage = `Invalid request: ${error.message}.`;
-                
-                if (error.message && error.message.includes('token')) {
-                    errorMessage += ` This may be due to exceeding token limits. Try reducing your input or output token settings.`;
-                }
-                
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
-            } else {
-                const errorMessage = `Failed to generate content: ${error.message || 'Unknown error'}`;
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
             }
+            
+            console.error('Error generating content with Anthropic:', error);
+            throw this.handleAnthropicError(error, options);
+        } finally {
+            reservation.release();
         }
     }
 
@@ -191,7 +185,8 @@ export class AnthropicProvider implements AIProvider {
      */
     async isApiKeyValid(): Promise<boolean> {
         try {
-            await this.generateContent('Hello, please respond with "API key is valid" if you can read this message.');
+            // Bypass the response cache, which would hide a key that has since been revoked
+            await this.requestContent('Hello, please respond with "API key is valid" if you can read this message.', {});
             return true;
         } catch (error) {
             console.error('Anthropic API key validation failed:', error);
@@ -203,54 +198,34 @@ export class AnthropicProvider implements AIProvider {
      * Generate content using multi-modal inputs (text and images)
      * @param prompt The text prompt to send to the AI
      * @param parts Additional content parts (e.g., images as base64)
+     * @param options Request options, including an abort signal
      * @returns The generated content
      */
-    async generateMultiModalContent(prompt: string, parts: ContentPart[]): Promise<string> {
-        // Check if we're using a Claude 3 model that supports vision
-        if (!this.settings.model.includes('claude-3') && !this.settings.model.includes('claude-3.5')) {
-            const errorMessage = 'Multi-modal content generation requires Claude 3 or newer. Please update your model in settings.';
-            showErrorNotice(errorMessage, 10000);
-            throw new Error(errorMessage);
-        }
+    async generateMultiModalContent(prompt: string, parts: ContentPart[], options: RequestOptions = {}): Promise<string> {
+        return ResponseCache.getInstance().getOrCreate(this.settings, prompt, parts, () => this.requestMultiModalContent(prompt, parts, options));
+    }
+    
+    /**
+     * Send a multi-modal request to the Anthropic API unless it is over budget
+     */
+    private async requestMultiModalContent(prompt: string, parts: ContentPart[], options: RequestOptions): Promise<string> {
+        this.requireVisionModel(options);
+        
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
         
         try {
-            // Build the message content array
-            const content: any[] = [];
-            
-            // Add the text prompt
-            content.push({
-                type: 'text',
-                text: prompt
-            });
-            
-            // Add any images
-            for (const part of parts) {
-                if (part.type === 'image') {
-                    content.push({
-                        type: 'image',
-                        source: {
-                            type: 'base64',
-                            media_type: 'image/jpeg',
-                            data: part.data
-                        }
-                    });
-                } else if (part.type === 'text') {
-                    content.push({
-                        type: 'text',
-                        text: part.data
-                    });
-                }
-            }
+            const content = this.buildMultiModalContent(prompt, parts);
             
             // Call the Anthropic API with the multi-modal message
-            const message = await this.client.messages.create({
+            const message = await this.withRateLimitAndRetry(() => this.client.messages.create({
                 model: this.settings.model,
                 max_tokens: this.settings.maxTokens,
                 temperature: this.settings.temperature,
                 messages: [
                     { role: 'user', content: content }
                 ]
-            });
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt, parts));
             
             // Extract the response text
             const responseText = message.content.reduce((acc, item) => {
@@ -260,19 +235,392 @@ export class AnthropicProvider implements AIProvider {
                 return acc;
             }, '');
             
+            UsageLedger.getInstance().recordRequest(this.settings, this.getPromptText(content), responseText, this.getReportedUsage(message.usage));
             return responseText;
         } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
             console.error('Error generating multi-modal content with Anthropic:', error);
             
             // Handle specific multi-modal errors
             if (error.message && (error.message.includes('image') || error.message.includes('vision') || error.message.includes('multi-modal'))) {
                 const errorMessage = `Anthropic multi-modal error: ${error.message}. Make sure you're using a Claude 3 model that supports vision.`;
-                showErrorNotice(errorMessage, 10000);
+                showErrorNotice(errorMessage, 10000, options);
                 throw new Error(errorMessage);
             }
             
             // Reuse the existing error handling logic
             throw error; // Let the generateContent method's error handler deal with it
+        } finally {
+            reservation.release();
+        }
+    }
+    
+    /**
+     * Stream content from the Anthropic API as it is generated
+     * @param prompt The prompt to send to Claude
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    async *generateContentStream(prompt: string, options: RequestOptions = {}): AsyncIterable<string> {
+        yield* ResponseCache.getInstance().getOrCreateStream(this.settings, prompt, [], () => {
+            // Only requests that miss the cache count against the budget
+            const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt);
+            return this.streamMessage({ messages: [{ role: 'user', content: prompt }] }, options, reservation);
+        });
+    }
+    
+    /**
+     * Stream multi-modal content from the Anthropic API as it is generated
+     * @param prompt The text prompt to send to the AI
+     * @param parts Additional content parts (e.g., images as base64)
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    async *generateMultiModalContentStream(prompt: string, parts: ContentPart[], options: RequestOptions = {}): AsyncIterable<string> {
+        this.requireVisionModel(options);
+        
+        yield* ResponseCache.getInstance().getOrCreateStream(this.settings, prompt, parts, () => {
+            // Only requests that miss the cache count against the budget
+            const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+            return this.streamMessage({ messages: [{ role: 'user', content: this.buildMultiModalContent(prompt, parts) }] }, options, reservation);
+        });
+    }
+    
+    /**
+     * Generate JSON matching a schema by forcing Claude to call a tool with that input schema
+     * @param prompt The prompt to send to Claude
+     * @param schema The schema the response must match
+     * @param options Request options, including images and an abort signal
+     * @returns The parsed and validated response
+     */
+    async generateStructured<T>(prompt: string, schema: JsonSchema, options: StructuredOptions = {}): Promise<T> {
+        const parts = options.parts ?? [];
+        return ResponseCache.getInstance().getOrCreateStructured<T>(this.settings, prompt, schema, parts, () =>
+            generateWithRepair<T>(prompt, schema, options, (attemptPrompt, requestSchema) =>
+                this.requestStructured(attemptPrompt, requestSchema, parts, options)
+            )
+        );
+    }
+    
+    /**
+     * Send a forced tool call to the Anthropic API unless it is over budget
+     * @returns The tool input serialized as JSON
+     */
+    private async requestStructured(prompt: string, schema: JsonSchema, parts: ContentPart[], options: RequestOptions): Promise<string> {
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+        
+        try {
+            const content = parts.length > 0 ? this.buildMultiModalContent(prompt, parts) : prompt;
+            
+            const message = await this.withRateLimitAndRetry(() => this.client.messages.create({
+                model: this.settings.model,
+                max_tokens: this.settings.maxTokens,
+                temperature: this.settings.temperature,
+                messages: [
+                    { role: 'user', content: content }
+                ],
+                tools: [{
+                    name: 'respond',
+                    description: 'Return the requested data.',
+                    input_schema: schema as any
+                }],
+                tool_choice: { type: 'tool', name: 'respond' }
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt, parts));
+            
+            const toolUse = message.content.find(item => item.type === 'tool_use');
+            const responseText = toolUse && toolUse.type === 'tool_use' ? JSON.stringify(toolUse.input) : '';
+            
+            UsageLedger.getInstance().recordRequest(this.settings, this.getPromptText(content), responseText, this.getReportedUsage(message.usage));
+            return responseText;
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
+            console.error('Error generating structured content with Anthropic:', error);
+            throw this.handleAnthropicError(error, options);
+        } finally {
+            reservation.release();
+        }
+    }
+    
+    /**
+     * Continue a conversation using Anthropic's system parameter and message history
+     * @param request The system instruction and the messages so far, ending with a user message
+     * @param options Request options, including an abort signal
+     * @returns The assistant's reply
+     */
+    async generateChat(request: ChatRequest, options: RequestOptions = {}): Promise<string> {
+        const { prompt, parts } = flattenChatRequest(request);
+        return ResponseCache.getInstance().getOrCreate(this.settings, prompt, parts, () => this.requestChat(request, options));
+    }
+    
+    /**
+     * Stream the reply to a conversation from the Anthropic API as it is generated
+     * @param request The system instruction and the messages so far, ending with a user message
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    async *generateChatStream(request: ChatRequest, options: RequestOptions = {}): AsyncIterable<string> {
+        const { prompt, parts } = flattenChatRequest(request);
+        if (parts.length > 0) {
+            this.requireVisionModel(options);
+        }
+        
+        yield* ResponseCache.getInstance().getOrCreateStream(this.settings, prompt, parts, () => {
+            // Only requests that miss the cache count against the budget
+            const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+            return this.streamMessage(this.buildChat(request), options, reservation);
+        });
+    }
+    
+    /**
+     * Send a conversation to the Anthropic API unless it is over budget
+     */
+    private async requestChat(request: ChatRequest, options: RequestOptions): Promise<string> {
+        const { prompt, parts } = flattenChatRequest(request);
+        if (parts.length > 0) {
+            this.requireVisionModel(options);
+        }
+        
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+        
+        try {
+            const chat = this.buildChat(request);
+            
+            const message = await this.withRateLimitAndRetry(() => this.client.messages.create({
+                model: this.settings.model,
+                max_tokens: this.settings.maxTokens,
+                temperature: this.settings.temperature,
+                ...chat
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt, parts));
+            
+            // Extract the response text
+            const responseText = message.content.reduce((acc, item) => {
+                if (item.type === 'text') {
+                    return acc + item.text;
+                }
+                return acc;
+            }, '');
+            
+            UsageLedger.getInstance().recordRequest(this.settings, this.getChatText(chat), responseText, this.getReportedUsage(message.usage));
+            return responseText;
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
+            console.error('Error generating chat reply with Anthropic:', error);
+            throw this.handleAnthropicError(error, options);
+        } finally {
+            reservation.release();
+        }
+    }
+    
+    /**
+     * Anthropic has no embedding API, so embeddings must come from another vendor
+     * @throws Always, before anything is sent
+     */
+    async embed(texts: string[], options: RequestOptions = {}): Promise<EmbeddingResult> {
+        const errorMessage = 'Anthropic does not offer embeddings. Choose Google, OpenAI or a local server for embeddings in settings.';
+        showErrorNotice(errorMessage, 10000, options);
+        throw new ProviderError(errorMessage, ProviderErrorKind.INVALID_REQUEST);
+    }
+    
+    /**
+     * Run a streaming messages request and yield each text delta
+     */
+    private async *streamMessage(chat: AnthropicChat, options: RequestOptions, reservation: BudgetReservation): AsyncIterable<string> {
+        let opened = false;
+        let completion = '';
+        const usage: { input_tokens?: number; output_tokens?: number } = {};
+        
+        try {
+            console.log(`Streaming content with model: ${this.settings.model}`);
+            
+            const stream = await this.withRateLimitAndRetry(() => this.client.messages.create({
+                model: this.settings.model,
+                max_tokens: this.settings.maxTokens,
+                temperature: this.settings.temperature,
+                ...chat,
+                stream: true
+            }, { signal: options.signal }), options, UsageLedger.estimateTokens(this.getChatText(chat)));
+            opened = true;
+            
+            for await (const event of stream) {
+                // Input tokens arrive with message_start, the output count with message_delta
+                if (event.type === 'message_start') {
+                    usage.input_tokens = event.message.usage.input_tokens;
+                } else if (event.type === 'message_delta') {
+                    usage.output_tokens = event.usage.output_tokens;
+                } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+                    completion += event.delta.text;
+                    yield event.delta.text;
+                }
+            }
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
+            console.error('Error streaming content with Anthropic:', error);
+            throw this.handleAnthropicError(error, options);
+        } finally {
+            // Record partial streams too, since the vendor bills for them
+            if (opened) {
+                UsageLedger.getInstance().recordRequest(this.settings, this.getChatText(chat), completion, this.getReportedUsage(usage));
+            }
+            reservation.release();
+        }
+    }
+    
+    /**
+     * Collect the text of message content, used to estimate prompt tokens
+     */
+    private getPromptText(content: string | any[]): string {
+        return typeof content === 'string'
+            ? content
+            : content.map(part => part.text || '').join('\n');
+    }
+    
+    /**
+     * Collect the text of a conversation, including its system prompt
+     */
+    private getChatText(chat: AnthropicChat): string {
+        const text = chat.messages.map(message => this.getPromptText(message.content as string | any[])).join('\n');
+        return chat.system ? `${chat.system}\n${text}` : text;
+    }
+    
+    /**
+     * Read token counts from an Anthropic usage field
+     */
+    private getReportedUsage(usage: any): ReportedUsage {
+        return {
+            promptTokens: usage?.input_tokens,
+            completionTokens: usage?.output_tokens
+        };
+    }
+    
+    /**
+     * Build the message content array with the text prompt followed by any images
+     */
+    private buildMultiModalContent(prompt: string, parts: ContentPart[]): any[] {
+        return [{ type: 'text', text: prompt }, ...this.toContentBlocks(parts)];
+    }
+    
+    /**
+     * Build the system prompt and messages for a conversation
+     * Only user messages may carry images, so assistant messages are sent as plain text
+     */
+    private buildChat(request: ChatRequest): AnthropicChat {
+        return {
+            system: request.system,
+            messages: request.messages.map(message => ({
+                role: message.role,
+                content: message.role === 'user'
+                    ? this.toContentBlocks(message.parts)
+                    : message.parts.filter(part => part.type === 'text').map(part => part.data).join('\n')
+            }))
+        };
+    }
+    
+    /**
+     * Convert content parts to Anthropic text and base64 image blocks
+     */
+    private toContentBlocks(parts: ContentPart[]): any[] {
+        const content: any[] = [];
+        
+        for (const part of parts) {
+            if (part.type === 'image') {
+                content.push({
+                    type: 'image',
+                    source: {
+                        type: 'base64',
+                        media_type: 'image/jpeg',
+                        data: part.data
+                    }
+                });
+            } else if (part.type === 'text') {
+                content.push({
+                    type: 'text',
+                    text: part.data
+                });
+            }
+        }
+        
+        return content;
+    }
+    
+    /**
+     * Refuse image inputs for models that can't see them, before anything is sent
+     */
+    private requireVisionModel(options: RequestOptions): void {
+        if (!this.settings.model.includes('claude-3') && !this.settings.model.includes('claude-3.5')) {
+            const errorMessage = 'Multi-modal content generation requires Claude 3 or newer. Please update your model in settings.';
+            showErrorNotice(errorMessage, 10000, options);
+            throw new Error(errorMessage);
+        }
+    }
+    
+    /**
+     * Translate an Anthropic API error into a user-facing error
+     */
+    private handleAnthropicError(error: any, options: RequestOptions): Error {
+        // Get model information for better error messages
+        const modelInfo = checkAnthropicModelAvailability(this.settings.model);
+        
+        // Handle common Anthropic API errors
+        if (error.status === 404 || (error.message && error.message.includes('model not found'))) {
+            let errorMessage = `Model not available: ${this.settings.model}.`;
+            
+            if (modelInfo.status === ModelAvailabilityStatus.LIMITED_PREVIEW) {
+                errorMessage += ` ${modelInfo.reason || 'This model has limited availability.'}`;
+                
+                if (modelInfo.fallbackModel) {
+                    errorMessage += ` Try using ${modelInfo.fallbackModel} instead.`;
+                }
+            } else if (modelInfo.status === ModelAvailabilityStatus.DEPRECATED) {
+                errorMessage += ` ${modelInfo.reason || 'This model is deprecated.'}`;
+                
+                if (modelInfo.fallbackModel) {
+                    errorMessage += ` Try using ${modelInfo.fallbackModel} instead.`;
+                }
+            } else {
+                errorMessage += ` This model may not exist or may not be available with your API key.`;
+            }
+            
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
+        } else if (error.status === 401 || (error.message && error.message.includes('authentication'))) {
+            const errorMessage = 'Authentication failed. Please check your Anthropic API key in settings.';
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
+        } else if (error.status === 429 || (error.message && error.message.includes('rate limit'))) {
+            const errorMessage = 'Rate limit exceeded. Please try again later or check your Anthropic account usage limits.';
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
+        } else if (error.status === 400 || (error.message && error.message.includes('invalid request'))) {
+            let errorMessage = `Invalid request: ${error.message}.`;
+            
+            if (error.message && error.message.includes('token')) {
+                errorMessage += ` This may be due to exceeding token limits. Try reducing your input or output token settings.`;
+            }
+            
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
+        } else {
+            const errorMessage = `Failed to generate content: ${error.message || 'Unknown error'}`;
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
         }
     }
     
@@ -0,0 +1,171 @@
+import { RateLimiter, RateLimitConfig } from '../../services/rate-limiter';
+import { AIProviderSettings, AIVendor, RequestOptions, EmbeddingResult, ProviderErrorKind, classifyProviderError, isAbortError } from './base-provider';
+
+/**
+ * Default limits per model, kept a little under each vendor's entry-level tier.
+ * Local servers are only limited in how many generations they run at once.
+ */
+const DEFAULT_RATE_LIMITS: Record<AIVendor, RateLimitConfig> = {
+    [AIVendor.GOOGLE]: { requestsPerWindow: 15, inputTokensPerWindow: 1000000, maxConcurrent: 4, windowMs: 60 * 1000 },
+    [AIVendor.OPENAI]: { requestsPerWindow: 60, inputTokensPerWindow: 200000, maxConcurrent: 8, windowMs: 60 * 1000 },
+    [AIVendor.ANTHROPIC]: { requestsPerWindow: 50, inputTokensPerWindow: 40000, maxConcurrent: 4, windowMs: 60 * 1000 },
+    [AIVendor.LOCAL]: { requestsPerWindow: 0, inputTokensPerWindow: 0, maxConcurrent: 2, windowMs: 60 * 1000 }
+};
+
+// Longer waits than this are not worth holding a request open for
+const MAX_BACKOFF_MS = 60 * 1000;
+
+/**
+ * Base class for AI providers that includes rate limiting and retry logic.
+ * Providers wrap each vendor API call in withRateLimitAndRetry, so every vendor
+ * shares the same request queue, Retry-After handling and exponential backoff.
+ */
+export abstract class BaseAIProvider {
+    protected readonly settings: AIProviderSettings;
+    protected readonly rateLimiter = RateLimiter.getInstance();
+    protected readonly maxRetries = 3;
+    protected readonly initialBackoffMs = 1000; // 1 second initial backoff
+
+    constructor(settings: AIProviderSettings) {
+        this.settings = settings;
+        this.rateLimiter.configure(settings.vendor, DEFAULT_RATE_LIMITS[settings.vendor]);
+    }
+
+    /**
+     * Wraps an API call with rate limiting and retry logic.
+     * Rate limits and server errors are retried; anything else, including cancellation, is thrown at once.
+     * Streams hold their slot until they open, not until they finish.
+     * @param fn The API call to make
+     * @param options Request options; the signal stops further attempts and the priority orders the queue
+     * @param inputTokens Estimated input tokens, counted against the vendor's tokens-per-minute limit
+     * @returns The result of the API call
+     */
+    protected async withRateLimitAndRetry<T>(fn: () => Promise<T>, options: RequestOptions, inputTokens: number): Promise<T> {
+        const signal = options.signal;
+
+        for (let attempt = 0; ; attempt++) {
+            // Don't start (or retry) a request the caller no longer wants
+            signal?.throwIfAborted();
+
+            try {
+                return await this.rateLimiter.withRateLimit({
+                    vendor: this.settings.vendor,
+                    model: this.settings.model,
+                    inputTokens,
+                    priority: options.priority,
+                    signal
+                }, fn);
+            } catch (error: any) {
+                if (signal?.aborted || isAbortError(error) || attempt >= this.maxRetries || !this.isRetryable(error)) {
+                    throw error;
+                }
+
+                const backoffMs = this.calculateBackoff(attempt, this.getRetryAfter(error));
+                console.warn(`[${this.settings.vendor}] Request failed (${error.status ?? error.message}). Retrying in ${Math.round(backoffMs)}ms...`);
+                await this.wait(backoffMs, signal);
+            }
+        }
+    }
+
+    /**
+     * Embeds texts one batch at a time, so no request holds more texts than the vendor accepts
+     * @param texts The texts to embed
+     * @param batchSize The most texts the vendor accepts in one request
+     * @param embedBatch Embeds one batch, returning a vector per text in order
+     * @returns The vectors, tagged with the model that produced them
+     */
+    protected async embedInBatches(
+        texts: string[],
+        batchSize: number,
+        embedBatch: (batch: string[]) => Promise<number[][]>
+    ): Promise<EmbeddingResult> {
+        const vectors: number[][] = [];
+
+        for (let start = 0; start < texts.length; start += batchSize) {
+            const batch = texts.slice(start, start + batchSize);
+            const batchVectors = await embedBatch(batch);
+            if (batchVectors.length !== batch.length) {
+                throw new Error(`Expected ${batch.length} embeddings from ${this.settings.model} but received ${batchVectors.length}`);
+            }
+            vectors.push(...batchVectors);
+        }
+
+        return {
+            vendor: this.settings.vendor,
+            model: this.settings.model,
+            dimensions: vectors[0]?.length ?? 0,
+            vectors
+        };
+    }
+
+    /**
+     * Only failures that may clear up by themselves are worth retrying; an exhausted quota won't
+     */
+    private isRetryable(error: any): boolean {
+        const kind = classifyProviderError(error);
+        return kind === ProviderErrorKind.RATE_LIMITED || kind === ProviderErrorKind.SERVER_ERROR;
+    }
+
+    /**
+     * Extracts how long the vendor asked us to wait, from a Retry-After header or Gemini's RetryInfo
+     * @returns The delay in milliseconds, or null if the vendor didn't say
+     */
+    private getRetryAfter(error: any): number | null {
+        const headers = error.headers ?? error.response?.headers;
+        const header = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+        if (header) {
+            const seconds = parseFloat(header);
+            if (!isNaN(seconds)) {
+                return seconds * 1000;
+            }
+
+            // Retry-After may also be an HTTP date
+            const date = Date.parse(header);
+            if (!isNaN(date)) {
+                return Math.max(0, date - Date.now());
+            }
+        }
+
+        // Gemini reports the delay in the error details, e.g. { retryDelay: '37s' }
+        const retryInfo = error.errorDetails?.find((detail: any) => detail['@type']?.endsWith('RetryInfo'));
+        if (retryInfo?.retryDelay) {
+            const seconds = parseFloat(retryInfo.retryDelay);
+            if (!isNaN(seconds)) {
+                return seconds * 1000;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Calculates backoff time with exponential delay and jitter
+     */
+    private calculateBackoff(attempt: number, retryAfter: number | null): number {
+        // Use the vendor's requested delay if available
+        if (retryAfter !== null) {
+            return Math.min(retryAfter, MAX_BACKOFF_MS);
+        }
+
+        // Otherwise use exponential backoff with jitter
+        const jitter = Math.random() * 0.2 + 0.9; // Random between 0.9 and 1.1
+        return Math.min(this.initialBackoffMs * Math.pow(2, attempt) * jitter, 30000);
+    }
+
+    /**
+     * Wait before retrying, giving up early if the caller cancels
+     */
+    private wait(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(signal?.reason);
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+}
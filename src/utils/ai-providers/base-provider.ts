@@ -1,4 +1,5 @@
 import { Notice } from 'obsidian';
+import { RequestPriority } from '../../services/rate-limiter';
 
 /**
  * Model availability status types
@@ -36,7 +37,22 @@ export interface ModelInfo {
 export enum AIVendor {
     GOOGLE = 'google',
     ANTHROPIC = 'anthropic',
-    OPENAI = 'openai'
+    OPENAI = 'openai',
+    LOCAL = 'local'
+}
+
+/**
+ * Plugin features that issue AI requests, used to attribute token usage
+ */
+export enum AIFeature {
+    SUMMARIZE = 'summarize',
+    SEARCH = 'search',
+    CONCEPTS = 'concepts',
+    CITATION = 'citation',
+    SCRAPE = 'scrape',
+    IMAGE = 'image',
+    CHAT = 'chat',
+    OTHER = 'other'
 }
 
 /**
@@ -48,6 +64,8 @@ export interface AIProviderSettings {
     maxTokens: number;
     temperature: number;
     vendor: AIVendor;
+    baseUrl?: string; // Only used by OpenAI-compatible local servers
+    feature?: AIFeature; // The feature usage is recorded against, defaults to OTHER
 }
 
 /**
@@ -61,21 +79,157 @@ export interface ContentPart {
     data: string; // text content or base64-encoded image data
 }
 
+/**
+ * Who wrote a message in a conversation
+ */
+export type ChatRole = 'user' | 'assistant';
+
+/**
+ * One turn of a conversation
+ */
+export interface ChatMessage {
+    role: ChatRole;
+    parts: ContentPart[]; // Text and images, in the order they were written
+}
+
+/**
+ * A conversation to continue, ending with the user's latest message
+ */
+export interface ChatRequest {
+    system?: string; // Instructions that apply to the whole conversation
+    messages: ChatMessage[];
+}
+
+/**
+ * The vendor and model that produced a response
+ */
+export interface ServedModel {
+    vendor: AIVendor;
+    model: string;
+}
+
+/**
+ * Per-request options for content generation
+ */
+export interface RequestOptions {
+    signal?: AbortSignal; // Aborting stops the underlying HTTP request
+    onServed?: (served: ServedModel) => void; // Told which model answered, which differs from the configured one after a fallback
+    priority?: RequestPriority; // Where the request waits in the rate limiter queue, defaults to NORMAL
+    onErrorNotice?: (message: string, duration: number) => void; // Receives error notices instead of the user, so a fallback chain only shows those of its final failure
+}
+
+/**
+ * Vectors for a batch of texts, with the model that produced them.
+ * Vectors from different models can't be compared, so stored vectors keep the model with them.
+ */
+export interface EmbeddingResult {
+    vendor: AIVendor;
+    model: string;
+    dimensions: number;
+    vectors: number[][]; // One vector per text, in the order the texts were given
+}
+
+/**
+ * Identify the model behind a set of vectors; stored vectors whose key differs must be re-embedded
+ * @param embedding The vendor and model, e.g. an EmbeddingResult or the settings of an embedding provider
+ * @returns A key such as "openai:text-embedding-3-small"
+ */
+export function getEmbeddingModelKey(embedding: { vendor: AIVendor; model: string }): string {
+    return `${embedding.vendor}:${embedding.model}`;
+}
+
+/**
+ * The subset of JSON Schema used to describe structured outputs.
+ * It is understood by every vendor's native JSON mode.
+ */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: string[];
+    minimum?: number;
+    maximum?: number;
+}
+
+/**
+ * Options for structured output requests
+ */
+export interface StructuredOptions extends RequestOptions {
+    parts?: ContentPart[]; // Additional content parts (e.g., images as base64)
+    maxRepairAttempts?: number; // Retries with a repair prompt after invalid output, defaults to 2
+}
+
 export interface AIProvider {
     /**
      * Generate content using the AI provider
      * @param prompt The prompt to send to the AI
+     * @param options Request options, including an abort signal
      * @returns The generated content
      */
-    generateContent(prompt: string): Promise<string>;
+    generateContent(prompt: string, options?: RequestOptions): Promise<string>;
     
     /**
      * Generate content using multi-modal inputs (text and images)
      * @param prompt The text prompt to send to the AI
      * @param parts Additional content parts (e.g., images as base64)
+     * @param options Request options, including an abort signal
      * @returns The generated content
      */
-    generateMultiModalContent(prompt: string, parts: ContentPart[]): Promise<string>;
+    generateMultiModalContent(prompt: string, parts: ContentPart[], options?: RequestOptions): Promise<string>;
+    
+    /**
+     * Stream generated content as it is produced
+     * @param prompt The prompt to send to the AI
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    generateContentStream(prompt: string, options?: RequestOptions): AsyncIterable<string>;
+    
+    /**
+     * Stream generated content for multi-modal inputs (text and images)
+     * @param prompt The text prompt to send to the AI
+     * @param parts Additional content parts (e.g., images as base64)
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    generateMultiModalContentStream(prompt: string, parts: ContentPart[], options?: RequestOptions): AsyncIterable<string>;
+    
+    /**
+     * Generate JSON that matches a schema, using the vendor's native JSON mode where available.
+     * Invalid output is retried with a repair prompt before giving up.
+     * @param prompt The prompt to send to the AI
+     * @param schema The schema the response must match
+     * @param options Request options, including images and an abort signal
+     * @returns The parsed and validated response
+     */
+    generateStructured<T>(prompt: string, schema: JsonSchema, options?: StructuredOptions): Promise<T>;
+    
+    /**
+     * Continue a conversation, sending the system instruction and message history natively
+     * @param request The system instruction and the messages so far, ending with a user message
+     * @param options Request options, including an abort signal
+     * @returns The assistant's reply
+     */
+    generateChat(request: ChatRequest, options?: RequestOptions): Promise<string>;
+    
+    /**
+     * Stream the reply to a conversation as it is produced
+     * @param request The system instruction and the messages so far, ending with a user message
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    generateChatStream(request: ChatRequest, options?: RequestOptions): AsyncIterable<string>;
+    
+    /**
+     * Embed texts as vectors with the provider's model, which must be an embedding model
+     * (see resolveEmbeddingSettings). Large inputs are split into batches the vendor accepts.
+     * @param texts The texts to embed
+     * @param options Request options, including an abort signal
+     * @returns A vector per text, with the model and its dimensions
+     */
+    embed(texts: string[], options?: RequestOptions): Promise<EmbeddingResult>;
     
     /**
      * Check if the API key is valid
@@ -96,12 +250,139 @@ export interface AIProvider {
     getProviderName(): string;
 }
 
+/**
+ * Why a provider request failed, used to decide whether another model could serve it
+ */
+export enum ProviderErrorKind {
+    MODEL_NOT_FOUND = 'model_not_found',
+    QUOTA_EXHAUSTED = 'quota_exhausted',
+    RATE_LIMITED = 'rate_limited',
+    SERVER_ERROR = 'server_error',
+    AUTHENTICATION = 'authentication',
+    INVALID_REQUEST = 'invalid_request',
+    UNKNOWN = 'unknown'
+}
+
+/**
+ * A user-facing provider error that keeps the kind of the underlying failure
+ */
+export class ProviderError extends Error {
+    kind: ProviderErrorKind;
+    status?: number;
+
+    constructor(message: string, kind: ProviderErrorKind, status?: number) {
+        super(message);
+        this.name = 'ProviderError';
+        this.kind = kind;
+        this.status = status;
+    }
+}
+
+/**
+ * Work out why a request failed from the HTTP status or the error message
+ * Each SDK reports errors differently, and Gemini only includes the status in the message
+ * @param error The error to inspect
+ * @returns The kind of failure
+ */
+export function classifyProviderError(error: any): ProviderErrorKind {
+    if (error instanceof ProviderError) {
+        return error.kind;
+    }
+    
+    const message: string = (error?.message || '').toLowerCase();
+    const status: number | undefined = error?.status ?? Number(message.match(/\[(\d{3})[ \]]/)?.[1] ?? NaN);
+    
+    if (status === 404 || /model not found|not_found|model_not_found|does not exist|is not found/.test(message)) {
+        return ProviderErrorKind.MODEL_NOT_FOUND;
+    }
+    // OpenAI sends an exhausted quota as a 429 too, marking it only by its code
+    if (error?.code === 'insufficient_quota' || error?.error?.code === 'insufficient_quota' || message.includes('insufficient_quota')) {
+        return ProviderErrorKind.QUOTA_EXHAUSTED;
+    }
+    // Gemini's per-minute limits mention the quota, but a 429 or a delay to wait out clears by itself
+    if (status === 429 || message.includes('rate limit') || hasRetryDelay(error)) {
+        return ProviderErrorKind.RATE_LIMITED;
+    }
+    if (/quota|resource_exhausted|billing/.test(message)) {
+        return ProviderErrorKind.QUOTA_EXHAUSTED;
+    }
+    if (status === 401 || status === 403 || /authentication|permission_denied|api key not valid/.test(message)) {
+        return ProviderErrorKind.AUTHENTICATION;
+    }
+    if ((status !== undefined && status >= 500) || error?.name === 'APIConnectionError' ||
+        /overloaded|internal server error|service unavailable|econnrefused|fetch failed|connection error/.test(message)) {
+        return ProviderErrorKind.SERVER_ERROR;
+    }
+    if (status === 400 || /invalid request|invalid_request/.test(message)) {
+        return ProviderErrorKind.INVALID_REQUEST;
+    }
+    return ProviderErrorKind.UNKNOWN;
+}
+
+/**
+ * Whether the vendor said how long to wait before retrying, in a Retry-After header or Gemini's RetryInfo
+ */
+function hasRetryDelay(error: any): boolean {
+    const headers = error?.headers ?? error?.response?.headers;
+    const header = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+    return Boolean(header) || Boolean(error?.errorDetails?.some((detail: any) => detail['@type']?.endsWith('RetryInfo')));
+}
+
+/**
+ * Flatten a conversation into a single prompt and its images, used for cache keys and budget checks.
+ * Images are marked where they appear so the same text with images in other turns isn't confused.
+ * @param request The conversation
+ * @returns The role-tagged text of every message and the images in order
+ * @throws If the conversation doesn't end with a user message
+ */
+export function flattenChatRequest(request: ChatRequest): { prompt: string; parts: ContentPart[] } {
+    const lastMessage = request.messages[request.messages.length - 1];
+    if (!lastMessage || lastMessage.role !== 'user') {
+        throw new Error('A conversation must end with a user message');
+    }
+    
+    const lines: string[] = request.system ? [`system: ${request.system}`] : [];
+    const parts: ContentPart[] = [];
+    
+    for (const message of request.messages) {
+        const text = message.parts
+            .map(part => part.type === 'text' ? part.data : '[image]')
+            .join('\n');
+        lines.push(`${message.role}: ${text}`);
+        parts.push(...message.parts.filter(part => part.type === 'image'));
+    }
+    
+    return { prompt: lines.join('\n\n'), parts };
+}
+
 /**
  * Helper function to display error notices
  * @param message Error message to display
  * @param duration Duration to show the notice in milliseconds
+ * @param options Options of the request that failed; their onErrorNotice, if any, receives the notice instead
  */
-export function showErrorNotice(message: string, duration: number = 10000): void {
+export function showErrorNotice(message: string, duration: number = 10000, options: RequestOptions = {}): void {
     console.error(message);
+    if (options.onErrorNotice) {
+        options.onErrorNotice(message, duration);
+        return;
+    }
     new Notice(message, duration);
 }
+
+/**
+ * Check whether an error was caused by aborting a request
+ * Each SDK reports cancellation differently (DOMException, APIUserAbortError, ...)
+ * @param error The error to inspect
+ * @returns True if the request was cancelled by the caller
+ */
+export function isAbortError(error: any): boolean {
+    if (!error) {
+        return false;
+    }
+    
+    return error.name === 'AbortError' ||
+        error.name === 'APIUserAbortError' ||
+        error.name === 'GoogleGenerativeAIAbortError' ||
+        /\baborted\b/i.test(error.message || '');
+}
@@ -0,0 +1,257 @@
+import { Notice } from 'obsidian';
+import {
+    AIProvider,
+    AIProviderSettings,
+    AIVendor,
+    ContentPart,
+    RequestOptions,
+    JsonSchema,
+    StructuredOptions,
+    ChatRequest,
+    EmbeddingResult,
+    ProviderErrorKind,
+    classifyProviderError,
+    isAbortError
+} from './base-provider';
+
+/**
+ * Creates the provider for one model in a fallback chain
+ */
+export type ProviderCreator = (settings: AIProviderSettings) => AIProvider;
+
+/**
+ * How long a model that failed is skipped before it is tried again, by kind of failure.
+ * Failures not listed here are not the model's fault, so they are surfaced instead of falling back.
+ */
+const SKIP_DURATION_MS: Partial<Record<ProviderErrorKind, number>> = {
+    [ProviderErrorKind.MODEL_NOT_FOUND]: 60 * 60 * 1000,
+    [ProviderErrorKind.QUOTA_EXHAUSTED]: 15 * 60 * 1000,
+    [ProviderErrorKind.SERVER_ERROR]: 60 * 1000
+};
+
+// Shared by every chain, so one service finding a model unavailable spares the others the failed request
+const skippedUntil: Map<string, number> = new Map();
+
+/**
+ * Serves requests from the first model in an ordered chain that is available, moving on to the
+ * next model when one is not found, is out of quota or keeps returning server errors
+ */
+export class FallbackProvider implements AIProvider {
+    private chain: AIProviderSettings[];
+    private createProvider: ProviderCreator;
+    private providers: Map<string, AIProvider> = new Map();
+
+    /**
+     * @param chain The models to try, in order; the first is the configured model
+     * @param createProvider Creates the provider for a model in the chain
+     */
+    constructor(chain: AIProviderSettings[], createProvider: ProviderCreator) {
+        if (chain.length === 0) {
+            throw new Error('A fallback chain needs at least one model');
+        }
+        this.chain = chain;
+        this.createProvider = createProvider;
+    }
+
+    // Every request goes down the chain; the rest describe the configured model
+    async generateContent(prompt: string, options: RequestOptions = {}): Promise<string> {
+        return this.run(options, (provider, options) => provider.generateContent(prompt, options));
+    }
+
+    async generateMultiModalContent(prompt: string, parts: ContentPart[], options: RequestOptions = {}): Promise<string> {
+        return this.run(options, (provider, options) => provider.generateMultiModalContent(prompt, parts, options));
+    }
+
+    async *generateContentStream(prompt: string, options: RequestOptions = {}): AsyncIterable<string> {
+        yield* this.runStream(options, (provider, options) => provider.generateContentStream(prompt, options));
+    }
+
+    async *generateMultiModalContentStream(prompt: string, parts: ContentPart[], options: RequestOptions = {}): AsyncIterable<string> {
+        yield* this.runStream(options, (provider, options) => provider.generateMultiModalContentStream(prompt, parts, options));
+    }
+
+    async generateStructured<T>(prompt: string, schema: JsonSchema, options: StructuredOptions = {}): Promise<T> {
+        return this.run(options, (provider, options) => provider.generateStructured<T>(prompt, schema, options));
+    }
+
+    async generateChat(request: ChatRequest, options: RequestOptions = {}): Promise<string> {
+        return this.run(options, (provider, options) => provider.generateChat(request, options));
+    }
+
+    async *generateChatStream(request: ChatRequest, options: RequestOptions = {}): AsyncIterable<string> {
+        yield* this.runStream(options, (provider, options) => provider.generateChatStream(request, options));
+    }
+
+    // Vectors from different models can't be compared, so embeddings never fall back
+    async embed(texts: string[], options: RequestOptions = {}): Promise<EmbeddingResult> {
+        return this.getProvider(this.chain[0]).embed(texts, options);
+    }
+
+    async isApiKeyValid(): Promise<boolean> {
+        return this.getProvider(this.chain[0]).isApiKeyValid();
+    }
+
+    getVendor(): AIVendor {
+        return this.chain[0].vendor;
+    }
+
+    getProviderName(): string {
+        return this.getProvider(this.chain[0]).getProviderName();
+    }
+
+    /**
+     * Send a request down the chain until a model answers
+     * @param options Request options, told which model answered
+     * @param request Sends the request to one model's provider, with the options for that attempt
+     * @returns The first successful response
+     */
+    private async run<T, O extends RequestOptions>(options: O, request: (provider: AIProvider, options: O) => Promise<T>): Promise<T> {
+        let failedModel: AIProviderSettings | null = null;
+
+        for (let index = 0; index < this.chain.length; index++) {
+            const settings = this.chain[index];
+            if (this.shouldSkip(settings, index)) {
+                continue;
+            }
+
+            const attempt = this.deferNotices(options);
+            try {
+                const result = await request(this.getProvider(settings), attempt.options);
+                this.reportServed(settings, failedModel, options);
+                return result;
+            } catch (error) {
+                this.handleFailure(error, settings, index, options, attempt.show);
+                failedModel = failedModel ?? settings;
+            }
+        }
+
+        // The last model is never skipped and rethrows its own failure, so this is not reached
+        throw new Error('No model in the fallback chain was available');
+    }
+
+    /**
+     * Stream a request from the first model in the chain that starts answering.
+     * Once text has been yielded a failure is rethrown, since the output can't be taken back.
+     * @param options Request options, told which model answered
+     * @param open Opens the stream on one model's provider, with the options for that attempt
+     * @returns An async iterable of text deltas
+     */
+    private async *runStream<O extends RequestOptions>(options: O, open: (provider: AIProvider, options: O) => AsyncIterable<string>): AsyncIterable<string> {
+        let failedModel: AIProviderSettings | null = null;
+
+        for (let index = 0; index < this.chain.length; index++) {
+            const settings = this.chain[index];
+            if (this.shouldSkip(settings, index)) {
+                continue;
+            }
+
+            let started = false;
+            const attempt = this.deferNotices(options);
+            try {
+                for await (const chunk of open(this.getProvider(settings), attempt.options)) {
+                    if (!started) {
+                        started = true;
+                        this.reportServed(settings, failedModel, options);
+                    }
+                    yield chunk;
+                }
+
+                if (!started) {
+                    this.reportServed(settings, failedModel, options);
+                }
+                return;
+            } catch (error) {
+                if (started) {
+                    attempt.show();
+                    throw error;
+                }
+                this.handleFailure(error, settings, index, options, attempt.show);
+                failedModel = failedModel ?? settings;
+            }
+        }
+
+        throw new Error('No model in the fallback chain was available');
+    }
+
+    /**
+     * Decide whether to move on to the next model after one fails.
+     * Providers have already retried rate limits and server errors by the time a failure gets here.
+     * @param showNotices Shows the error notices of the failed attempt, which are dropped when falling back
+     * @throws The original error when no other model should be tried
+     */
+    private handleFailure(error: any, settings: AIProviderSettings, index: number, options: RequestOptions, showNotices: () => void): void {
+        // Cancellation is not a failure, so never fall back from it
+        if (options.signal?.aborted || isAbortError(error)) {
+            throw error;
+        }
+
+        const kind = classifyProviderError(error);
+        const skipDuration = SKIP_DURATION_MS[kind];
+        if (skipDuration === undefined || index === this.chain.length - 1) {
+            showNotices();
+            throw error;
+        }
+
+        console.warn(`${settings.vendor} model ${settings.model} failed (${kind}), falling back to ${this.chain[index + 1].model}`);
+        skippedUntil.set(this.getKey(settings), Date.now() + skipDuration);
+    }
+
+    /**
+     * Hold back the error notices of an attempt until it is known whether the chain falls back from it
+     * @param options The request's options
+     * @returns The options for the attempt, and a function showing the notices held back
+     */
+    private deferNotices<O extends RequestOptions>(options: O): { options: O; show: () => void } {
+        const notices: Array<{ message: string; duration: number }> = [];
+        return {
+            options: { ...options, onErrorNotice: (message: string, duration: number) => notices.push({ message, duration }) },
+            show: () => notices.splice(0).forEach(({ message, duration }) =>
+                options.onErrorNotice ? options.onErrorNotice(message, duration) : new Notice(message, duration)
+            )
+        };
+    }
+
+    /**
+     * Skip models that recently failed, but always try the last one so there is an answer or an error
+     */
+    private shouldSkip(settings: AIProviderSettings, index: number): boolean {
+        if (index === this.chain.length - 1) {
+            return false;
+        }
+
+        const key = this.getKey(settings);
+        const until = skippedUntil.get(key);
+        if (until === undefined) {
+            return false;
+        }
+        if (Date.now() >= until) {
+            skippedUntil.delete(key);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Tell the caller which model answered, and the user when it wasn't the one they picked
+     */
+    private reportServed(settings: AIProviderSettings, failedModel: AIProviderSettings | null, options: RequestOptions): void {
+        if (failedModel) {
+            new Notice(`${failedModel.model} is unavailable, so ${settings.model} answered instead`);
+        }
+        options.onServed?.({ vendor: settings.vendor, model: settings.model });
+    }
+
+    private getProvider(settings: AIProviderSettings): AIProvider {
+        const key = this.getKey(settings);
+        let provider = this.providers.get(key);
+        if (!provider) {
+            provider = this.createProvider(settings);
+            this.providers.set(key, provider);
+        }
+        return provider;
+    }
+
+    private getKey(settings: AIProviderSettings): string {
+        return `${settings.vendor}:${settings.model}`;
+    }
+}
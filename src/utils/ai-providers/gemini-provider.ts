@@ -1,4 +1,4 @@
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { GoogleGenerativeAI, GenerativeModel, ResponseSchema, Content } from '@google/generative-ai';
 import { 
     AIProvider, 
     AIProviderSettings, 
@@ -6,8 +6,21 @@ import {
     ModelAvailabilityInfo, 
     ModelAvailabilityStatus,
     showErrorNotice,
-    ContentPart
+    ContentPart,
+    RequestOptions,
+    isAbortError,
+    ProviderError,
+    classifyProviderError,
+    JsonSchema,
+    StructuredOptions,
+    ChatRequest,
+    flattenChatRequest,
+    EmbeddingResult
 } from './base-provider';
+import { generateWithRepair } from './structured-output';
+import { BaseAIProvider } from './base-ai-provider';
+import { UsageLedger, ReportedUsage, BudgetReservation } from '../../services/usage-ledger';
+import { ResponseCache } from '../../services/response-cache';
 
 /**
  * Map of known Gemini models and their availability status
@@ -68,6 +81,9 @@ export const GEMINI_MODEL_AVAILABILITY: Record<string, ModelAvailabilityInfo> =
     }
 };
 
+// The most texts batchEmbedContents accepts in one request
+const GEMINI_EMBEDDING_BATCH_SIZE = 100;
+
 /**
  * Check if a Gemini model is likely to be available based on our knowledge
  * @param modelName The model name to check
@@ -118,16 +134,23 @@ function inferGeminiFallbackModel(modelName: string): string {
     return 'gemini-1.5-flash';
 }
 
+/**
+ * The conversation fields of a Gemini request
+ */
+type GeminiChat = {
+    contents: Content[];
+    systemInstruction?: string;
+};
+
 /**
  * Implementation of the AIProvider interface for Google's Gemini models
  */
-export class GeminiProvider implements AIProvider {
+export class GeminiProvider extends BaseAIProvider implements AIProvider {
     private genAI: GoogleGenerativeAI;
     private model: GenerativeModel;
-    private settings: AIProviderSettings;
 
     constructor(apiKey: string, settings: AIProviderSettings) {
-        this.settings = settings;
+        super(settings);
         this.genAI = new GoogleGenerativeAI(apiKey);
         
         // Format the model name correctly for the API
@@ -142,22 +165,40 @@ export class GeminiProvider implements AIProvider {
     /**
      * Generate content using the Gemini API
      * @param prompt The prompt to send to Gemini
+     * @param options Request options, including an abort signal
      * @returns The generated content
      */
-    async generateContent(prompt: string): Promise<string> {
+    async generateContent(prompt: string, options: RequestOptions = {}): Promise<string> {
+        return ResponseCache.getInstance().getOrCreate(this.settings, prompt, [], () => this.requestContent(prompt, options));
+    }
+    
+    /**
+     * Send a text request to the Gemini API unless it is over budget
+     */
+    private async requestContent(prompt: string, options: RequestOptions): Promise<string> {
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt);
+        
         try {
             console.log(`Generating content with model: ${this.settings.model}, temperature: ${this.settings.temperature}`);
             
-            const result = await this.model.generateContent({
+            const result = await this.withRateLimitAndRetry(() => this.model.generateContent({
                 contents: [{ role: 'user', parts: [{ text: prompt }] }],
                 generationConfig: {
                     temperature: this.settings.temperature,
                     maxOutputTokens: this.settings.maxTokens,
                 }
-            });
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt));
             
-            return result.response.text();
+            const text = result.response.text();
+            UsageLedger.getInstance().recordRequest(this.settings, prompt, text, this.getReportedUsage(result.response.usageMetadata));
+            return text;
         } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
             console.error('Error generating content with Gemini:', error);
             
             // Get model information for better error messages
@@ -188,17 +229,17 @@ export class GeminiProvider implements AIProvider {
                 }
                 
                 // Show error in UI
-                showErrorNotice(errorMessage, 10000);
+                showErrorNotice(errorMessage, 10000, options);
                 
-                throw new Error(errorMessage);
+                throw new ProviderError(errorMessage, classifyProviderError(error), error.status);
             } else if (error.message && (error.message.includes('401') || error.message.includes('403'))) {
                 const errorMessage = 'Authentication failed. Please check your API key in settings.';
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
+                showErrorNotice(errorMessage, 10000, options);
+                throw new ProviderError(errorMessage, classifyProviderError(error), error.status);
             } else if (error.message && error.message.includes('429')) {
                 const errorMessage = 'Rate limit exceeded. Please try again later.';
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
+                showErrorNotice(errorMessage, 10000, options);
+                throw new ProviderError(errorMessage, classifyProviderError(error), error.status);
             } else if (error.message && error.message.includes('invalid_request')) {
                 // More specific handling for invalid requests
                 let errorMessage = `Invalid request: ${error.message}.`;
@@ -212,25 +253,27 @@ export class GeminiProvider implements AIProvider {
                     errorMessage += ` This may be due to an incompatible model configuration.`;
                 }
                 
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
+                showErrorNotice(errorMessage, 10000, options);
+                throw new ProviderError(errorMessage, classifyProviderError(error), error.status);
             } else if (error.message && error.message.includes('not_found')) {
                 const errorMessage = `API endpoint not found. This could indicate an issue with the Gemini API service or an invalid model name: ${this.settings.model}.`;
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
+                showErrorNotice(errorMessage, 10000, options);
+                throw new ProviderError(errorMessage, classifyProviderError(error), error.status);
             } else if (error.message && error.message.includes('permission_denied')) {
                 const errorMessage = `Permission denied. Your API key may not have access to the ${this.settings.model} model. Try a different model or check your API key permissions.`;
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
+                showErrorNotice(errorMessage, 10000, options);
+                throw new ProviderError(errorMessage, classifyProviderError(error), error.status);
             } else if (error.message && error.message.includes('resource_exhausted')) {
                 const errorMessage = `Resource exhausted. You may have exceeded your quota for the ${this.settings.model} model. Check your Google AI Studio dashboard for quota information.`;
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
+                showErrorNotice(errorMessage, 10000, options);
+                throw new ProviderError(errorMessage, classifyProviderError(error), error.status);
             } else {
                 const errorMessage = `Failed to generate content: ${error.message}`;
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
+                showErrorNotice(errorMessage, 10000, options);
+                throw new ProviderError(errorMessage, classifyProviderError(error), error.status);
             }
+        } finally {
+            reservation.release();
         }
     }
 
@@ -242,63 +285,391 @@ export class GeminiProvider implements AIProvider {
      * Generate content using multi-modal inputs (text and images)
      * @param prompt The text prompt to send to the AI
      * @param parts Additional content parts (e.g., images as base64)
+     * @param options Request options, including an abort signal
      * @returns The generated content
      */
-    async generateMultiModalContent(prompt: string, parts: ContentPart[]): Promise<string> {
+    async generateMultiModalContent(prompt: string, parts: ContentPart[], options: RequestOptions = {}): Promise<string> {
+        return ResponseCache.getInstance().getOrCreate(this.settings, prompt, parts, () => this.requestMultiModalContent(prompt, parts, options));
+    }
+    
+    /**
+     * Send a multi-modal request to the Gemini API unless it is over budget
+     */
+    private async requestMultiModalContent(prompt: string, parts: ContentPart[], options: RequestOptions): Promise<string> {
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+        
         try {
             console.log(`Generating multi-modal content with model: ${this.settings.model}`);
             
-            // Build the parts array for the Gemini API
-            // The first part should be the text prompt
-            const geminiParts: any[] = [
-                { text: prompt }
-            ];
-            
-            // Add any additional parts (like images)
-            for (const part of parts) {
-                if (part.type === 'image') {
-                    // Add the image as a mimePart
-                    geminiParts.push({
-                        inlineData: {
-                            data: part.data,  // Base64 encoded image data
-                            mimeType: 'image/jpeg'  // Assuming JPEG for now, could be made dynamic
-                        }
-                    });
-                } else if (part.type === 'text') {
-                    // Add additional text parts
-                    geminiParts.push({ text: part.data });
-                }
-            }
+            const geminiParts = this.buildGeminiParts(prompt, parts);
             
             // Generate content with the text and image parts
-            const result = await this.model.generateContent({
+            const result = await this.withRateLimitAndRetry(() => this.model.generateContent({
                 contents: [{ role: 'user', parts: geminiParts }],
                 generationConfig: {
                     temperature: this.settings.temperature,
                     maxOutputTokens: this.settings.maxTokens,
                 }
-            });
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt, parts));
             
-            return result.response.text();
+            const text = result.response.text();
+            UsageLedger.getInstance().recordRequest(this.settings, this.getPromptText(geminiParts), text, this.getReportedUsage(result.response.usageMetadata));
+            return text;
         } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
             console.error('Error generating multi-modal content with Gemini:', error);
             
             // Handle specific errors for multi-modal content
             if (error.message && error.message.includes('multimodal')) {
                 const errorMessage = `This model doesn't support multi-modal input. Try using gemini-1.5-pro or another model with multi-modal capabilities.`;
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
+                showErrorNotice(errorMessage, 10000, options);
+                throw new ProviderError(errorMessage, classifyProviderError(error), error.status);
             }
             
             // Reuse the same error handling as generateContent
-            throw this.handleGeminiError(error);
+            throw this.handleGeminiError(error, options);
+        } finally {
+            reservation.release();
+        }
+    }
+    
+    /**
+     * Stream content from the Gemini API as it is generated
+     * @param prompt The prompt to send to Gemini
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    async *generateContentStream(prompt: string, options: RequestOptions = {}): AsyncIterable<string> {
+        yield* ResponseCache.getInstance().getOrCreateStream(this.settings, prompt, [], () => {
+            // Only requests that miss the cache count against the budget
+            const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt);
+            return this.streamGeminiChat({ contents: [{ role: 'user', parts: [{ text: prompt }] }] }, options, reservation);
+        });
+    }
+    
+    /**
+     * Stream multi-modal content from the Gemini API as it is generated
+     * @param prompt The text prompt to send to the AI
+     * @param parts Additional content parts (e.g., images as base64)
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    async *generateMultiModalContentStream(prompt: string, parts: ContentPart[], options: RequestOptions = {}): AsyncIterable<string> {
+        yield* ResponseCache.getInstance().getOrCreateStream(this.settings, prompt, parts, () => {
+            // Only requests that miss the cache count against the budget
+            const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+            return this.streamGeminiChat({ contents: [{ role: 'user', parts: this.buildGeminiParts(prompt, parts) }] }, options, reservation);
+        });
+    }
+    
+    /**
+     * Generate JSON matching a schema using Gemini's JSON response mode
+     * @param prompt The prompt to send to Gemini
+     * @param schema The schema the response must match
+     * @param options Request options, including images and an abort signal
+     * @returns The parsed and validated response
+     */
+    async generateStructured<T>(prompt: string, schema: JsonSchema, options: StructuredOptions = {}): Promise<T> {
+        const parts = options.parts ?? [];
+        return ResponseCache.getInstance().getOrCreateStructured<T>(this.settings, prompt, schema, parts, () =>
+            generateWithRepair<T>(prompt, schema, options, (attemptPrompt, requestSchema) =>
+                this.requestStructured(attemptPrompt, requestSchema, parts, options)
+            )
+        );
+    }
+    
+    /**
+     * Send a JSON mode request to the Gemini API unless it is over budget
+     */
+    private async requestStructured(prompt: string, schema: JsonSchema, parts: ContentPart[], options: RequestOptions): Promise<string> {
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+        
+        try {
+            const geminiParts = this.buildGeminiParts(prompt, parts);
+            
+            const result = await this.withRateLimitAndRetry(() => this.model.generateContent({
+                contents: [{ role: 'user', parts: geminiParts }],
+                generationConfig: {
+                    temperature: this.settings.temperature,
+                    maxOutputTokens: this.settings.maxTokens,
+                    responseMimeType: 'application/json',
+                    responseSchema: this.toGeminiSchema(schema)
+                }
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt, parts));
+            
+            const text = result.response.text();
+            UsageLedger.getInstance().recordRequest(this.settings, this.getPromptText(geminiParts), text, this.getReportedUsage(result.response.usageMetadata));
+            return text;
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
+            console.error('Error generating structured content with Gemini:', error);
+            throw this.handleGeminiError(error, options);
+        } finally {
+            reservation.release();
+        }
+    }
+    
+    /**
+     * Continue a conversation using Gemini's system instruction and multi-turn contents
+     * @param request The system instruction and the messages so far, ending with a user message
+     * @param options Request options, including an abort signal
+     * @returns The assistant's reply
+     */
+    async generateChat(request: ChatRequest, options: RequestOptions = {}): Promise<string> {
+        const { prompt, parts } = flattenChatRequest(request);
+        return ResponseCache.getInstance().getOrCreate(this.settings, prompt, parts, () => this.requestChat(request, options));
+    }
+    
+    /**
+     * Stream the reply to a conversation from the Gemini API as it is generated
+     * @param request The system instruction and the messages so far, ending with a user message
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    async *generateChatStream(request: ChatRequest, options: RequestOptions = {}): AsyncIterable<string> {
+        const { prompt, parts } = flattenChatRequest(request);
+        yield* ResponseCache.getInstance().getOrCreateStream(this.settings, prompt, parts, () => {
+            // Only requests that miss the cache count against the budget
+            const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+            return this.streamGeminiChat(this.buildGeminiChat(request), options, reservation);
+        });
+    }
+    
+    /**
+     * Send a conversation to the Gemini API unless it is over budget
+     */
+    private async requestChat(request: ChatRequest, options: RequestOptions): Promise<string> {
+        const { prompt, parts } = flattenChatRequest(request);
+        
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+        
+        try {
+            const chat = this.buildGeminiChat(request);
+            
+            const result = await this.withRateLimitAndRetry(() => this.model.generateContent({
+                ...chat,
+                generationConfig: {
+                    temperature: this.settings.temperature,
+                    maxOutputTokens: this.settings.maxTokens,
+                }
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt, parts));
+            
+            const text = result.response.text();
+            UsageLedger.getInstance().recordRequest(this.settings, this.getChatText(chat), text, this.getReportedUsage(result.response.usageMetadata));
+            return text;
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
+            console.error('Error generating chat reply with Gemini:', error);
+            throw this.handleGeminiError(error, options);
+        } finally {
+            reservation.release();
         }
     }
     
+    /**
+     * Convert a schema to the OpenAPI subset Gemini accepts
+     * Range constraints are dropped here and enforced by validation instead
+     */
+    private toGeminiSchema(schema: JsonSchema): ResponseSchema {
+        const geminiSchema: any = { type: schema.type };
+        
+        if (schema.description) {
+            geminiSchema.description = schema.description;
+        }
+        if (schema.enum) {
+            geminiSchema.format = 'enum';
+            geminiSchema.enum = schema.enum;
+        }
+        if (schema.properties) {
+            geminiSchema.properties = Object.fromEntries(
+                Object.entries(schema.properties).map(([key, value]) => [key, this.toGeminiSchema(value)])
+            );
+        }
+        if (schema.required) {
+            geminiSchema.required = schema.required;
+        }
+        if (schema.items) {
+            geminiSchema.items = this.toGeminiSchema(schema.items);
+        }
+        
+        return geminiSchema;
+    }
+    
+    /**
+     * Embed texts with a Gemini embedding model (e.g., text-embedding-004)
+     * @param texts The texts to embed
+     * @param options Request options, including an abort signal
+     * @returns A vector per text, with the model and its dimensions
+     */
+    async embed(texts: string[], options: RequestOptions = {}): Promise<EmbeddingResult> {
+        return this.embedInBatches(texts, GEMINI_EMBEDDING_BATCH_SIZE, batch => this.requestEmbeddings(batch, options));
+    }
+    
+    /**
+     * Send one batch of texts to batchEmbedContents unless it is over budget
+     */
+    private async requestEmbeddings(texts: string[], options: RequestOptions): Promise<number[][]> {
+        const input = texts.join('\n');
+        
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, input);
+        
+        try {
+            const result = await this.withRateLimitAndRetry(() => this.model.batchEmbedContents({
+                requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+            }, { signal: options.signal }), options, UsageLedger.estimateTokens(input));
+            
+            // Gemini doesn't report token counts for embeddings, so the input is estimated
+            UsageLedger.getInstance().recordRequest(this.settings, input, '', { completionTokens: 0 });
+            return result.embeddings.map(embedding => embedding.values);
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
+            console.error('Error embedding texts with Gemini:', error);
+            throw this.handleGeminiError(error, options);
+        } finally {
+            reservation.release();
+        }
+    }
+    
+    /**
+     * Stream a request and yield text as each chunk arrives
+     */
+    private async *streamGeminiChat(chat: GeminiChat, options: RequestOptions, reservation: BudgetReservation): AsyncIterable<string> {
+        let opened = false;
+        let completion = '';
+        let usageMetadata: any;
+        
+        try {
+            console.log(`Streaming content with model: ${this.settings.model}`);
+            
+            const result = await this.withRateLimitAndRetry(() => this.model.generateContentStream({
+                ...chat,
+                generationConfig: {
+                    temperature: this.settings.temperature,
+                    maxOutputTokens: this.settings.maxTokens,
+                }
+            }, { signal: options.signal }), options, UsageLedger.estimateTokens(this.getChatText(chat)));
+            opened = true;
+            
+            for await (const chunk of result.stream) {
+                // Each chunk carries the running usage, so the last one holds the totals
+                usageMetadata = chunk.usageMetadata ?? usageMetadata;
+                const text = chunk.text();
+                if (text) {
+                    completion += text;
+                    yield text;
+                }
+            }
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
+            console.error('Error streaming content with Gemini:', error);
+            throw this.handleGeminiError(error, options);
+        } finally {
+            // Record partial streams too, since the vendor bills for them
+            if (opened) {
+                UsageLedger.getInstance().recordRequest(this.settings, this.getChatText(chat), completion, this.getReportedUsage(usageMetadata));
+            }
+            reservation.release();
+        }
+    }
+    
+    /**
+     * Collect the text of a parts array, used to estimate prompt tokens
+     */
+    private getPromptText(geminiParts: any[]): string {
+        return geminiParts.map(part => part.text || '').join('\n');
+    }
+    
+    /**
+     * Collect the text of a conversation, including its system instruction
+     */
+    private getChatText(chat: GeminiChat): string {
+        const text = this.getPromptText(chat.contents.flatMap(content => content.parts));
+        return chat.systemInstruction ? `${chat.systemInstruction}\n${text}` : text;
+    }
+    
+    /**
+     * Read token counts from Gemini usage metadata
+     */
+    private getReportedUsage(usageMetadata: any): ReportedUsage {
+        return {
+            promptTokens: usageMetadata?.promptTokenCount,
+            completionTokens: usageMetadata?.candidatesTokenCount
+        };
+    }
+    
+    /**
+     * Build the parts array for the Gemini API
+     * The first part is always the text prompt, followed by any additional parts (like images)
+     */
+    private buildGeminiParts(prompt: string, parts: ContentPart[]): any[] {
+        return [{ text: prompt }, ...this.toGeminiParts(parts)];
+    }
+    
+    /**
+     * Build the Gemini contents for a conversation, where the assistant's role is called 'model'
+     */
+    private buildGeminiChat(request: ChatRequest): GeminiChat {
+        return {
+            contents: request.messages.map(message => ({
+                role: message.role === 'assistant' ? 'model' : 'user',
+                parts: this.toGeminiParts(message.parts)
+            })),
+            systemInstruction: request.system
+        };
+    }
+    
+    /**
+     * Convert content parts to Gemini text and inline image parts
+     */
+    private toGeminiParts(parts: ContentPart[]): any[] {
+        const geminiParts: any[] = [];
+        
+        for (const part of parts) {
+            if (part.type === 'image') {
+                // Add the image as a mimePart
+                geminiParts.push({
+                    inlineData: {
+                        data: part.data,  // Base64 encoded image data
+                        mimeType: 'image/jpeg'  // Assuming JPEG for now, could be made dynamic
+                    }
+                });
+            } else if (part.type === 'text') {
+                // Add additional text parts
+                geminiParts.push({ text: part.data });
+            }
+        }
+        
+        return geminiParts;
+    }
+    
     /**
      * Handle Gemini API errors with detailed error messages
      */
-    private handleGeminiError(error: any): Error {
+    private handleGeminiError(error: any, options: RequestOptions): Error {
         // Get model information for better error messages
         const modelInfo = checkGeminiModelAvailability(this.settings.model);
         
@@ -327,17 +698,17 @@ export class GeminiProvider implements AIProvider {
             }
             
             // Show error in UI
-            showErrorNotice(errorMessage, 10000);
+            showErrorNotice(errorMessage, 10000, options);
             
-            return new Error(errorMessage);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
         } else if (error.message && (error.message.includes('401') || error.message.includes('403'))) {
             const errorMessage = 'Authentication failed. Please check your API key in settings.';
-            showErrorNotice(errorMessage, 10000);
-            return new Error(errorMessage);
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
         } else if (error.message && error.message.includes('429')) {
             const errorMessage = 'Rate limit exceeded. Please try again later.';
-            showErrorNotice(errorMessage, 10000);
-            return new Error(errorMessage);
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
         } else if (error.message && error.message.includes('invalid_request')) {
             // More specific handling for invalid requests
             let errorMessage = `Invalid request: ${error.message}.`;
@@ -351,19 +722,20 @@ export class GeminiProvider implements AIProvider {
                 errorMessage += ` This may be due to an issue with your prompt or settings.`;
             }
             
-            showErrorNotice(errorMessage, 10000);
-            return new Error(errorMessage);
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
         }
         
         // Generic error fallback
         const errorMessage = `Error with Gemini API: ${error.message || 'Unknown error'}`;
-        showErrorNotice(errorMessage, 5000);
-        return new Error(errorMessage);
+        showErrorNotice(errorMessage, 5000, options);
+        return new ProviderError(errorMessage, classifyProviderError(error), error.status);
     }
 
     async isApiKeyValid(): Promise<boolean> {
         try {
-            await this.generateContent('Hello, please respond with "API key is valid" if you can read this message.');
+            // Bypass the response cache, which would hide a key that has since been revoked
+            await this.requestContent('Hello, please respond with "API key is valid" if you can read this message.', {});
             return true;
         } catch (error) {
             console.error('API key validation failed:', error);
@@ -1,6 +1,10 @@
 // Export all AI provider components
 export * from './base-provider';
+export * from './structured-output';
 export * from './gemini-provider';
 export * from './openai-provider';
 export * from './anthropic-provider';
+export * from './local-provider';
+export * from './fallback-provider';
 export * from './provider-factory';
+export * from './provider-settings';
@@ -0,0 +1,525 @@
+import OpenAI from 'openai';
+import {
+    AIProvider,
+    AIProviderSettings,
+    AIVendor,
+    showErrorNotice,
+    ContentPart,
+    RequestOptions,
+    isAbortError,
+    ProviderError,
+    classifyProviderError,
+    JsonSchema,
+    StructuredOptions,
+    ChatRequest,
+    flattenChatRequest,
+    EmbeddingResult
+} from './base-provider';
+import { generateWithRepair } from './structured-output';
+import { BaseAIProvider } from './base-ai-provider';
+import { UsageLedger, ReportedUsage, BudgetReservation } from '../../services/usage-ledger';
+import { ResponseCache } from '../../services/response-cache';
+
+/**
+ * Default base URL for a local OpenAI-compatible server (Ollama)
+ */
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+// Local servers embed a batch in one pass on the user's hardware, so keep batches small
+const LOCAL_EMBEDDING_BATCH_SIZE = 32;
+
+/**
+ * Create an OpenAI client pointed at a local OpenAI-compatible server
+ * @param baseUrl The server's base URL (e.g., http://localhost:11434/v1)
+ * @param apiKey Optional API key; most local servers ignore it
+ * @returns A configured OpenAI client
+ */
+function createLocalClient(baseUrl: string, apiKey: string): OpenAI {
+    return new OpenAI({
+        baseURL: baseUrl || DEFAULT_LOCAL_BASE_URL,
+        // The SDK refuses to start without a key, but Ollama, llama.cpp and LM Studio accept any value
+        apiKey: apiKey || 'local',
+        // Requests never leave the user's machine, so there is no secret to protect in the renderer
+        dangerouslyAllowBrowser: true,
+        maxRetries: 0 // Retries are handled by withRateLimitAndRetry
+    });
+}
+
+/**
+ * Implementation of the AIProvider interface for local servers speaking the
+ * OpenAI chat-completions protocol (Ollama, llama.cpp server, LM Studio)
+ */
+export class LocalProvider extends BaseAIProvider implements AIProvider {
+    private client: OpenAI;
+
+    constructor(apiKey: string, settings: AIProviderSettings) {
+        super(settings);
+        this.client = createLocalClient(settings.baseUrl || DEFAULT_LOCAL_BASE_URL, apiKey);
+
+        console.log(`Initializing local model: ${this.settings.model} (${this.getBaseUrl()})`);
+    }
+
+    /**
+     * Query a local server for the models it currently serves
+     * @param baseUrl The server's base URL
+     * @param apiKey Optional API key
+     * @returns The IDs of the available models
+     */
+    static async listModels(baseUrl: string, apiKey: string = ''): Promise<string[]> {
+        const client = createLocalClient(baseUrl, apiKey);
+        const models: string[] = [];
+
+        for await (const model of client.models.list()) {
+            models.push(model.id);
+        }
+
+        return models.sort();
+    }
+
+    /**
+     * Generate content using the local server
+     * @param prompt The prompt to send to the model
+     * @param options Request options, including an abort signal
+     * @returns The generated content
+     */
+    async generateContent(prompt: string, options: RequestOptions = {}): Promise<string> {
+        return ResponseCache.getInstance().getOrCreate(this.settings, prompt, [], () => this.requestContent(prompt, options));
+    }
+
+    /**
+     * Send a text request to the local server unless it is over budget
+     */
+    private async requestContent(prompt: string, options: RequestOptions): Promise<string> {
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt);
+
+        try {
+            console.log(`Generating content with local model: ${this.settings.model}, temperature: ${this.settings.temperature}`);
+
+            const completion = await this.withRateLimitAndRetry(() => this.client.chat.completions.create({
+                model: this.settings.model,
+                messages: [{ role: 'user', content: prompt }],
+                temperature: this.settings.temperature,
+                max_tokens: this.settings.maxTokens
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt));
+
+            const responseText = completion.choices[0]?.message?.content || '';
+            UsageLedger.getInstance().recordRequest(this.settings, prompt, responseText, this.getReportedUsage(completion.usage));
+            return responseText;
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+
+            console.error('Error generating content with local model:', error);
+            throw this.handleLocalError(error, options);
+        } finally {
+            reservation.release();
+        }
+    }
+
+    /**
+     * Generate content using multi-modal inputs (text and images)
+     * The model must be vision-capable (e.g., llava, llama3.2-vision, qwen2.5-vl)
+     * @param prompt The text prompt to send to the AI
+     * @param parts Additional content parts (e.g., images as base64)
+     * @param options Request options, including an abort signal
+     * @returns The generated content
+     */
+    async generateMultiModalContent(prompt: string, parts: ContentPart[], options: RequestOptions = {}): Promise<string> {
+        return ResponseCache.getInstance().getOrCreate(this.settings, prompt, parts, () => this.requestMultiModalContent(prompt, parts, options));
+    }
+
+    /**
+     * Send a multi-modal request to the local server unless it is over budget
+     */
+    private async requestMultiModalContent(prompt: string, parts: ContentPart[], options: RequestOptions): Promise<string> {
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+
+        try {
+            const content = this.buildMultiModalContent(prompt, parts);
+
+            const completion = await this.withRateLimitAndRetry(() => this.client.chat.completions.create({
+                model: this.settings.model,
+                messages: [{ role: 'user', content }],
+                temperature: this.settings.temperature,
+                max_tokens: this.settings.maxTokens
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt, parts));
+
+            const responseText = completion.choices[0]?.message?.content || '';
+            UsageLedger.getInstance().recordRequest(this.settings, this.getPromptText([{ role: 'user', content }]), responseText, this.getReportedUsage(completion.usage));
+            return responseText;
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+
+            console.error('Error generating multi-modal content with local model:', error);
+
+            if (error.message && error.message.includes('image')) {
+                const errorMessage = `Local model error: ${error.message}. Make sure ${this.settings.model} is a vision-capable model (e.g., llava).`;
+                showErrorNotice(errorMessage, 10000, options);
+                throw new Error(errorMessage);
+            }
+
+            throw this.handleLocalError(error, options);
+        } finally {
+            reservation.release();
+        }
+    }
+
+    /**
+     * Stream content from the local server as it is generated
+     * @param prompt The prompt to send to the model
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    async *generateContentStream(prompt: string, options: RequestOptions = {}): AsyncIterable<string> {
+        yield* ResponseCache.getInstance().getOrCreateStream(this.settings, prompt, [], () => {
+            // Only requests that miss the cache count against the budget
+            const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt);
+            return this.streamCompletion([{ role: 'user', content: prompt }], options, reservation);
+        });
+    }
+
+    /**
+     * Stream multi-modal content from the local server as it is generated
+     * @param prompt The text prompt to send to the AI
+     * @param parts Additional content parts (e.g., images as base64)
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    async *generateMultiModalContentStream(prompt: string, parts: ContentPart[], options: RequestOptions = {}): AsyncIterable<string> {
+        yield* ResponseCache.getInstance().getOrCreateStream(this.settings, prompt, parts, () => {
+            // Only requests that miss the cache count against the budget
+            const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+            return this.streamCompletion([{ role: 'user', content: this.buildMultiModalContent(prompt, parts) }], options, reservation);
+        });
+    }
+
+    /**
+     * Generate JSON matching a schema using the server's response_format support
+     * @param prompt The prompt to send to the model
+     * @param schema The schema the response must match
+     * @param options Request options, including images and an abort signal
+     * @returns The parsed and validated response
+     */
+    async generateStructured<T>(prompt: string, schema: JsonSchema, options: StructuredOptions = {}): Promise<T> {
+        const parts = options.parts ?? [];
+        return ResponseCache.getInstance().getOrCreateStructured<T>(this.settings, prompt, schema, parts, () =>
+            generateWithRepair<T>(prompt, schema, options, (attemptPrompt, requestSchema) =>
+                this.requestStructured(attemptPrompt, requestSchema, parts, options)
+            )
+        );
+    }
+
+    /**
+     * Send a JSON mode request to the local server unless it is over budget
+     */
+    private async requestStructured(prompt: string, schema: JsonSchema, parts: ContentPart[], options: RequestOptions): Promise<string> {
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+
+        try {
+            const message = { role: 'user' as const, content: parts.length > 0 ? this.buildMultiModalContent(prompt, parts) : prompt };
+
+            // Ollama, llama.cpp and LM Studio constrain generation to the schema
+            const responseFormat: any = { type: 'json_schema', json_schema: { name: 'response', schema } };
+
+            const completion = await this.withRateLimitAndRetry(() => this.client.chat.completions.create({
+                model: this.settings.model,
+                messages: [message],
+                temperature: this.settings.temperature,
+                max_tokens: this.settings.maxTokens,
+                response_format: responseFormat
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt, parts));
+
+            const responseText = completion.choices[0]?.message?.content || '';
+            UsageLedger.getInstance().recordRequest(this.settings, this.getPromptText([message]), responseText, this.getReportedUsage(completion.usage));
+            return responseText;
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+
+            console.error('Error generating structured content with local model:', error);
+            throw this.handleLocalError(error, options);
+        } finally {
+            reservation.release();
+        }
+    }
+
+    /**
+     * Continue a conversation using system and assistant messages
+     * @param request The system instruction and the messages so far, ending with a user message
+     * @param options Request options, including an abort signal
+     * @returns The assistant's reply
+     */
+    async generateChat(request: ChatRequest, options: RequestOptions = {}): Promise<string> {
+        const { prompt, parts } = flattenChatRequest(request);
+        return ResponseCache.getInstance().getOrCreate(this.settings, prompt, parts, () => this.requestChat(request, options));
+    }
+
+    /**
+     * Stream the reply to a conversation from the local server as it is generated
+     * @param request The system instruction and the messages so far, ending with a user message
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    async *generateChatStream(request: ChatRequest, options: RequestOptions = {}): AsyncIterable<string> {
+        const { prompt, parts } = flattenChatRequest(request);
+        yield* ResponseCache.getInstance().getOrCreateStream(this.settings, prompt, parts, () => {
+            // Only requests that miss the cache count against the budget
+            const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+            return this.streamCompletion(this.buildChatMessages(request), options, reservation);
+        });
+    }
+
+    /**
+     * Send a conversation to the local server unless it is over budget
+     */
+    private async requestChat(request: ChatRequest, options: RequestOptions): Promise<string> {
+        const { prompt, parts } = flattenChatRequest(request);
+
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+
+        try {
+            const messages = this.buildChatMessages(request);
+
+            const completion = await this.withRateLimitAndRetry(() => this.client.chat.completions.create({
+                model: this.settings.model,
+                messages,
+                temperature: this.settings.temperature,
+                max_tokens: this.settings.maxTokens
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt, parts));
+
+            const responseText = completion.choices[0]?.message?.content || '';
+            UsageLedger.getInstance().recordRequest(this.settings, this.getPromptText(messages), responseText, this.getReportedUsage(completion.usage));
+            return responseText;
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+
+            console.error('Error generating chat reply with local model:', error);
+            throw this.handleLocalError(error, options);
+        } finally {
+            reservation.release();
+        }
+    }
+
+    /**
+     * Embed texts with a local embedding model (e.g., nomic-embed-text) through the /embeddings endpoint
+     * @param texts The texts to embed
+     * @param options Request options, including an abort signal
+     * @returns A vector per text, with the model and its dimensions
+     */
+    async embed(texts: string[], options: RequestOptions = {}): Promise<EmbeddingResult> {
+        return this.embedInBatches(texts, LOCAL_EMBEDDING_BATCH_SIZE, batch => this.requestEmbeddings(batch, options));
+    }
+
+    /**
+     * Send one batch of texts to the local server's embeddings endpoint
+     */
+    private async requestEmbeddings(texts: string[], options: RequestOptions): Promise<number[][]> {
+        const input = texts.join('\n');
+
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, input);
+
+        try {
+            const response = await this.withRateLimitAndRetry(() => this.client.embeddings.create({
+                model: this.settings.model,
+                input: texts
+            }, { signal: options.signal }), options, UsageLedger.estimateTokens(input));
+
+            UsageLedger.getInstance().recordRequest(this.settings, input, '', { promptTokens: response.usage?.prompt_tokens, completionTokens: 0 });
+
+            // Results carry their input's index, so put them back in input order
+            return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+
+            console.error('Error embedding texts with local model:', error);
+            throw this.handleLocalError(error, options);
+        } finally {
+            reservation.release();
+        }
+    }
+
+    /**
+     * Run a streaming chat completion and yield each text delta
+     */
+    private async *streamCompletion(messages: any[], options: RequestOptions, reservation: BudgetReservation): AsyncIterable<string> {
+        let opened = false;
+        let completion = '';
+        let usage: any;
+
+        try {
+            const stream = await this.withRateLimitAndRetry(() => this.client.chat.completions.create({
+                model: this.settings.model,
+                messages,
+                temperature: this.settings.temperature,
+                max_tokens: this.settings.maxTokens,
+                stream: true,
+                // Ask for a final chunk with token usage
+                stream_options: { include_usage: true }
+            }, { signal: options.signal }), options, UsageLedger.estimateTokens(this.getPromptText(messages)));
+            opened = true;
+
+            for await (const chunk of stream) {
+                usage = chunk.usage ?? usage;
+                const text = chunk.choices[0]?.delta?.content;
+                if (text) {
+                    completion += text;
+                    yield text;
+                }
+            }
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+
+            console.error('Error streaming content with local model:', error);
+            throw this.handleLocalError(error, options);
+        } finally {
+            // Record partial streams too, since the vendor bills for them
+            if (opened) {
+                UsageLedger.getInstance().recordRequest(this.settings, this.getPromptText(messages), completion, this.getReportedUsage(usage));
+            }
+            reservation.release();
+        }
+    }
+
+    /**
+     * Collect the text of chat messages, used to estimate prompt tokens
+     */
+    private getPromptText(messages: any[]): string {
+        return messages
+            .flatMap(message => typeof message.content === 'string' ? [message.content] : message.content.map((part: any) => part.text || ''))
+            .join('\n');
+    }
+
+    /**
+     * Read token counts from a chat completion's usage field
+     */
+    private getReportedUsage(usage: any): ReportedUsage {
+        return {
+            promptTokens: usage?.prompt_tokens,
+            completionTokens: usage?.completion_tokens
+        };
+    }
+
+    /**
+     * Build a single user message with text and image_url parts
+     */
+    private buildMultiModalContent(prompt: string, parts: ContentPart[]): any[] {
+        return [{ type: 'text', text: prompt }, ...this.toContentParts(parts)];
+    }
+
+    /**
+     * Build the messages for a conversation, starting with the system instruction
+     * Only user messages may carry images, so assistant messages are sent as plain text
+     */
+    private buildChatMessages(request: ChatRequest): any[] {
+        const messages: any[] = request.system ? [{ role: 'system', content: request.system }] : [];
+
+        for (const message of request.messages) {
+            const hasImages = message.parts.some(part => part.type === 'image');
+            messages.push({
+                role: message.role,
+                content: message.role === 'user' && hasImages
+                    ? this.toContentParts(message.parts)
+                    : message.parts.filter(part => part.type === 'text').map(part => part.data).join('\n')
+            });
+        }
+
+        return messages;
+    }
+
+    /**
+     * Convert content parts to chat completion text and image_url parts
+     */
+    private toContentParts(parts: ContentPart[]): any[] {
+        const content: any[] = [];
+
+        for (const part of parts) {
+            if (part.type === 'image') {
+                content.push({
+                    type: 'image_url',
+                    image_url: {
+                        url: `data:image/jpeg;base64,${part.data}`
+                    }
+                });
+            } else if (part.type === 'text') {
+                content.push({ type: 'text', text: part.data });
+            }
+        }
+
+        return content;
+    }
+
+    /**
+     * Check that the local server is reachable and serves the configured model
+     * @returns True if the model is available, false otherwise
+     */
+    async isApiKeyValid(): Promise<boolean> {
+        try {
+            const models = await LocalProvider.listModels(this.getBaseUrl(), this.settings.apiKey);
+            return models.includes(this.settings.model);
+        } catch (error) {
+            console.error('Local server validation failed:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Translate a local server error into a user-facing error
+     */
+    private handleLocalError(error: any, options: RequestOptions): Error {
+        let errorMessage: string;
+
+        if (error.status === 404 || (error.message && error.message.includes('not found'))) {
+            errorMessage = `Model not available: ${this.settings.model}. Pull or load it on your local server (e.g., "ollama pull ${this.settings.model}") and refresh the model list in settings.`;
+        } else if (error.name === 'APIConnectionError' || (error.message && /ECONNREFUSED|fetch failed|Connection error/i.test(error.message))) {
+            errorMessage = `Could not reach the local AI server at ${this.getBaseUrl()}. Make sure it is running.`;
+        } else if (error.status === 401 || error.status === 403) {
+            errorMessage = 'The local AI server rejected the request. Check the local API key in settings.';
+        } else {
+            errorMessage = `Failed to generate content: ${error.message || 'Unknown error'}`;
+        }
+
+        showErrorNotice(errorMessage, 10000, options);
+        return new ProviderError(errorMessage, classifyProviderError(error), error.status);
+    }
+
+    private getBaseUrl(): string {
+        return this.settings.baseUrl || DEFAULT_LOCAL_BASE_URL;
+    }
+
+    /**
+     * Get the vendor of this provider
+     * @returns The AI vendor (Local)
+     */
+    getVendor(): AIVendor {
+        return AIVendor.LOCAL;
+    }
+
+    /**
+     * Get the display name of the provider
+     * @returns The provider's display name
+     */
+    getProviderName(): string {
+        return 'Local (OpenAI-compatible)';
+    }
+}
@@ -6,8 +6,21 @@ import {
     ModelAvailabilityInfo, 
     ModelAvailabilityStatus,
     showErrorNotice,
-    ContentPart
+    ContentPart,
+    RequestOptions,
+    isAbortError,
+    ProviderError,
+    classifyProviderError,
+    JsonSchema,
+    StructuredOptions,
+    ChatRequest,
+    flattenChatRequest,
+    EmbeddingResult
 } from './base-provider';
+import { generateWithRepair } from './structured-output';
+import { BaseAIProvider } from './base-ai-provider';
+import { UsageLedger, ReportedUsage, BudgetReservation } from '../../services/usage-ledger';
+import { ResponseCache } from '../../services/response-cache';
 
 /**
  * Map of known OpenAI models and their availability status
@@ -58,6 +71,9 @@ export const OPENAI_MODEL_AVAILABILITY: Record<string, ModelAvailabilityInfo> =
     }
 };
 
+// The API accepts up to 2048 inputs, but large batches of long notes run into its token limit first
+const OPENAI_EMBEDDING_BATCH_SIZE = 256;
+
 /**
  * Check if an OpenAI model is likely to be available based on our knowledge
  * @param modelName The model name to check
@@ -103,14 +119,14 @@ function inferOpenAIFallbackModel(modelName: string): string {
 /**
  * Implementation of the AIProvider interface for OpenAI models
  */
-export class OpenAIProvider implements AIProvider {
+export class OpenAIProvider extends BaseAIProvider implements AIProvider {
     private client: OpenAI;
-    private settings: AIProviderSettings;
 
     constructor(apiKey: string, settings: AIProviderSettings) {
-        this.settings = settings;
+        super(settings);
         this.client = new OpenAI({
-            apiKey: apiKey
+            apiKey: apiKey,
+            maxRetries: 0 // Retries are handled by withRateLimitAndRetry
         });
         
         console.log(`Initializing OpenAI model: ${this.settings.model}`);
@@ -119,72 +135,44 @@ export class OpenAIProvider implements AIProvider {
     /**
      * Generate content using the OpenAI API
      * @param prompt The prompt to send to OpenAI
+     * @param options Request options, including an abort signal
      * @returns The generated content
      */
-    async generateContent(prompt: string): Promise<string> {
+    async generateContent(prompt: string, options: RequestOptions = {}): Promise<string> {
+        return ResponseCache.getInstance().getOrCreate(this.settings, prompt, [], () => this.requestContent(prompt, options));
+    }
+    
+    /**
+     * Send a text request to the OpenAI API unless it is over budget
+     */
+    private async requestContent(prompt: string, options: RequestOptions): Promise<string> {
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt);
+        
         try {
             console.log(`Generating content with model: ${this.settings.model}, temperature: ${this.settings.temperature}`);
             
-            const completion = await this.client.chat.completions.create({
+            const completion = await this.withRateLimitAndRetry(() => this.client.chat.completions.create({
                 model: this.settings.model,
                 messages: [{ role: 'user', content: prompt }],
                 temperature: this.settings.temperature,
                 max_tokens: this.settings.maxTokens
-            });
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt));
             
             // Extract the response text
             const responseText = completion.choices[0]?.message?.content || '';
+            UsageLedger.getInstance().recordRequest(this.settings, prompt, responseText, this.getReportedUsage(completion.usage));
             return responseText;
         } catch (error: any) {
-            console.error('Error generating content with OpenAI:', error);
-            
-            // Get model information for better error messages
-            const modelInfo = checkOpenAIModelAvailability(this.settings.model);
-            
-            // Handle common OpenAI API errors
-            if (error.status === 404 || (error.message && error.message.includes('model not found'))) {
-                let errorMessage = `Model not available: ${this.settings.model}.`;
-                
-                if (modelInfo.status === ModelAvailabilityStatus.LIMITED_PREVIEW) {
-                    errorMessage += ` ${modelInfo.reason || 'This model has limited availability.'}`;
-                    
-                    if (modelInfo.fallbackModel) {
-                        errorMessage += ` Try using ${modelInfo.fallbackModel} instead.`;
-                    }
-                } else if (modelInfo.status === ModelAvailabilityStatus.DEPRECATED) {
-                    errorMessage += ` ${modelInfo.reason || 'This model is deprecated.'}`;
-                    
-                    if (modelInfo.fallbackModel) {
-                        errorMessage += ` Try using ${modelInfo.fallbackModel} instead.`;
-                    }
-                } else {
-                    errorMessage += ` This model may not exist or may not be available with your API key.`;
-                }
-                
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
-            } else if (error.status === 401 || (error.message && error.message.includes('authentication'))) {
-                const errorMessage = 'Authentication failed. Please check your OpenAI API key in settings.';
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
-            } else if (error.status === 429 || (error.message && error.message.includes('rate limit'))) {
-                const errorMessage = 'Rate limit exceeded. Please try again later or check your OpenAI account usage limits.';
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
-            } else if (error.status === 400 || (error.message && error.message.includes('invalid request'))) {
-                let errorMessage = `Invalid request: ${error.message}.`;
-                
-                if (error.message && error.message.includes('token')) {
-                    errorMessage += ` This may be due to exceeding token limits. Try reducing your input or output token settings.`;
-                }
-                
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
-            } else {
-                const errorMessage = `Failed to generate content: ${error.message || 'Unknown error'}`;
-                showErrorNotice(errorMessage, 10000);
-                throw new Error(errorMessage);
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
             }
+            
+            console.error('Error generating content with OpenAI:', error);
+            throw this.handleOpenAIError(error, options);
+        } finally {
+            reservation.release();
         }
     }
 
@@ -194,7 +182,8 @@ export class OpenAIProvider implements AIProvider {
      */
     async isApiKeyValid(): Promise<boolean> {
         try {
-            await this.generateContent('Hello, please respond with "API key is valid" if you can read this message.');
+            // Bypass the response cache, which would hide a key that has since been revoked
+            await this.requestContent('Hello, please respond with "API key is valid" if you can read this message.', {});
             return true;
         } catch (error) {
             console.error('OpenAI API key validation failed:', error);
@@ -206,72 +195,440 @@ export class OpenAIProvider implements AIProvider {
      * Generate content using multi-modal inputs (text and images)
      * @param prompt The text prompt to send to the AI
      * @param parts Additional content parts (e.g., images as base64)
+     * @param options Request options, including an abort signal
      * @returns The generated content
      */
-    async generateMultiModalContent(prompt: string, parts: ContentPart[]): Promise<string> {
-        // Check if we're using a vision-capable model
-        if (!this.settings.model.includes('vision') && !this.settings.model.includes('gpt-4o')) {
-            const errorMessage = 'Multi-modal content generation requires a vision-capable model like gpt-4-vision-preview or gpt-4o. Please update your model in settings.';
-            showErrorNotice(errorMessage, 10000);
-            throw new Error(errorMessage);
-        }
+    async generateMultiModalContent(prompt: string, parts: ContentPart[], options: RequestOptions = {}): Promise<string> {
+        return ResponseCache.getInstance().getOrCreate(this.settings, prompt, parts, () => this.requestMultiModalContent(prompt, parts, options));
+    }
+    
+    /**
+     * Send a multi-modal request to the OpenAI API unless it is over budget
+     */
+    private async requestMultiModalContent(prompt: string, parts: ContentPart[], options: RequestOptions): Promise<string> {
+        this.requireVisionModel(options);
+        
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
         
         try {
-            // Build the messages array for OpenAI API
-            const message: any = {
-                role: 'user',
-                content: []
-            };
-            
-            // Add the text prompt
-            message.content.push({
-                type: 'text',
-                text: prompt
-            });
-            
-            // Add any images
-            for (const part of parts) {
-                if (part.type === 'image') {
-                    message.content.push({
-                        type: 'image_url',
-                        image_url: {
-                            url: `data:image/jpeg;base64,${part.data}`
-                        }
-                    });
-                } else if (part.type === 'text') {
-                    message.content.push({
-                        type: 'text',
-                        text: part.data
-                    });
-                }
-            }
+            const message = this.buildMultiModalMessage(prompt, parts);
             
             // Call the OpenAI API with the multi-modal message
-            const completion = await this.client.chat.completions.create({
+            const completion = await this.withRateLimitAndRetry(() => this.client.chat.completions.create({
                 model: this.settings.model,
                 messages: [message],
                 temperature: this.settings.temperature,
                 max_tokens: this.settings.maxTokens
-            });
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt, parts));
             
             // Extract the response text
             const responseText = completion.choices[0]?.message?.content || '';
+            UsageLedger.getInstance().recordRequest(this.settings, this.getPromptText([message]), responseText, this.getReportedUsage(completion.usage));
             return responseText;
         } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
             console.error('Error generating multi-modal content with OpenAI:', error);
             
             // Handle specific multi-modal errors
             if (error.message && error.message.includes('image')) {
                 const errorMessage = `OpenAI multi-modal error: ${error.message}. Make sure you're using a vision-capable model like gpt-4-vision-preview.`;
-                showErrorNotice(errorMessage, 10000);
+                showErrorNotice(errorMessage, 10000, options);
                 throw new Error(errorMessage);
             }
             
             // Reuse the existing error handling logic
             throw error; // Let the generateContent method's error handler deal with it
+        } finally {
+            reservation.release();
+        }
+    }
+    
+    /**
+     * Stream content from the OpenAI API as it is generated
+     * @param prompt The prompt to send to OpenAI
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    async *generateContentStream(prompt: string, options: RequestOptions = {}): AsyncIterable<string> {
+        yield* ResponseCache.getInstance().getOrCreateStream(this.settings, prompt, [], () => {
+            // Only requests that miss the cache count against the budget
+            const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt);
+            return this.streamCompletion([{ role: 'user', content: prompt }], options, reservation);
+        });
+    }
+    
+    /**
+     * Stream multi-modal content from the OpenAI API as it is generated
+     * @param prompt The text prompt to send to the AI
+     * @param parts Additional content parts (e.g., images as base64)
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    async *generateMultiModalContentStream(prompt: string, parts: ContentPart[], options: RequestOptions = {}): AsyncIterable<string> {
+        this.requireVisionModel(options);
+        
+        yield* ResponseCache.getInstance().getOrCreateStream(this.settings, prompt, parts, () => {
+            // Only requests that miss the cache count against the budget
+            const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+            return this.streamCompletion([this.buildMultiModalMessage(prompt, parts)], options, reservation);
+        });
+    }
+    
+    /**
+     * Generate JSON matching a schema using OpenAI's response_format
+     * @param prompt The prompt to send to OpenAI
+     * @param schema The schema the response must match
+     * @param options Request options, including images and an abort signal
+     * @returns The parsed and validated response
+     */
+    async generateStructured<T>(prompt: string, schema: JsonSchema, options: StructuredOptions = {}): Promise<T> {
+        const parts = options.parts ?? [];
+        return ResponseCache.getInstance().getOrCreateStructured<T>(this.settings, prompt, schema, parts, () =>
+            generateWithRepair<T>(prompt, schema, options, (attemptPrompt, requestSchema) =>
+                this.requestStructured(attemptPrompt, requestSchema, parts, options)
+            )
+        );
+    }
+    
+    /**
+     * Send a JSON mode request to the OpenAI API unless it is over budget
+     */
+    private async requestStructured(prompt: string, schema: JsonSchema, parts: ContentPart[], options: RequestOptions): Promise<string> {
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+        
+        try {
+            const message = parts.length > 0 ? this.buildMultiModalMessage(prompt, parts) : { role: 'user', content: prompt };
+            
+            // Only the gpt-4o family supports json_schema; older models get plain JSON mode
+            const responseFormat: any = this.settings.model.startsWith('gpt-4o')
+                ? { type: 'json_schema', json_schema: { name: 'response', schema } }
+                : { type: 'json_object' };
+            
+            const completion = await this.withRateLimitAndRetry(() => this.client.chat.completions.create({
+                model: this.settings.model,
+                messages: [message],
+                temperature: this.settings.temperature,
+                max_tokens: this.settings.maxTokens,
+                response_format: responseFormat
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt, parts));
+            
+            const responseText = completion.choices[0]?.message?.content || '';
+            UsageLedger.getInstance().recordRequest(this.settings, this.getPromptText([message]), responseText, this.getReportedUsage(completion.usage));
+            return responseText;
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
+            console.error('Error generating structured content with OpenAI:', error);
+            throw this.handleOpenAIError(error, options);
+        } finally {
+            reservation.release();
         }
     }
     
+    /**
+     * Continue a conversation using OpenAI's system and assistant messages
+     * @param request The system instruction and the messages so far, ending with a user message
+     * @param options Request options, including an abort signal
+     * @returns The assistant's reply
+     */
+    async generateChat(request: ChatRequest, options: RequestOptions = {}): Promise<string> {
+        const { prompt, parts } = flattenChatRequest(request);
+        return ResponseCache.getInstance().getOrCreate(this.settings, prompt, parts, () => this.requestChat(request, options));
+    }
+    
+    /**
+     * Stream the reply to a conversation from the OpenAI API as it is generated
+     * @param request The system instruction and the messages so far, ending with a user message
+     * @param options Request options, including an abort signal
+     * @returns An async iterable of text deltas
+     */
+    async *generateChatStream(request: ChatRequest, options: RequestOptions = {}): AsyncIterable<string> {
+        const { prompt, parts } = flattenChatRequest(request);
+        if (parts.length > 0) {
+            this.requireVisionModel(options);
+        }
+        
+        yield* ResponseCache.getInstance().getOrCreateStream(this.settings, prompt, parts, () => {
+            // Only requests that miss the cache count against the budget
+            const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+            return this.streamCompletion(this.buildChatMessages(request), options, reservation);
+        });
+    }
+    
+    /**
+     * Send a conversation to the OpenAI API unless it is over budget
+     */
+    private async requestChat(request: ChatRequest, options: RequestOptions): Promise<string> {
+        const { prompt, parts } = flattenChatRequest(request);
+        if (parts.length > 0) {
+            this.requireVisionModel(options);
+        }
+        
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, prompt, parts);
+        
+        try {
+            const messages = this.buildChatMessages(request);
+            
+            const completion = await this.withRateLimitAndRetry(() => this.client.chat.completions.create({
+                model: this.settings.model,
+                messages,
+                temperature: this.settings.temperature,
+                max_tokens: this.settings.maxTokens
+            }, { signal: options.signal }), options, UsageLedger.estimatePromptTokens(prompt, parts));
+            
+            const responseText = completion.choices[0]?.message?.content || '';
+            UsageLedger.getInstance().recordRequest(this.settings, this.getPromptText(messages), responseText, this.getReportedUsage(completion.usage));
+            return responseText;
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
+            console.error('Error generating chat reply with OpenAI:', error);
+            throw this.handleOpenAIError(error, options);
+        } finally {
+            reservation.release();
+        }
+    }
+    
+    /**
+     * Embed texts with an OpenAI embedding model (e.g., text-embedding-3-small)
+     * @param texts The texts to embed
+     * @param options Request options, including an abort signal
+     * @returns A vector per text, with the model and its dimensions
+     */
+    async embed(texts: string[], options: RequestOptions = {}): Promise<EmbeddingResult> {
+        return this.embedInBatches(texts, OPENAI_EMBEDDING_BATCH_SIZE, batch => this.requestEmbeddings(batch, options));
+    }
+    
+    /**
+     * Send one batch of texts to the embeddings endpoint unless it is over budget
+     */
+    private async requestEmbeddings(texts: string[], options: RequestOptions): Promise<number[][]> {
+        const input = texts.join('\n');
+        
+        // Refuse requests over budget before anything is sent
+        const reservation = UsageLedger.getInstance().checkRequest(this.settings, input);
+        
+        try {
+            const response = await this.withRateLimitAndRetry(() => this.client.embeddings.create({
+                model: this.settings.model,
+                input: texts
+            }, { signal: options.signal }), options, UsageLedger.estimateTokens(input));
+            
+            UsageLedger.getInstance().recordRequest(this.settings, input, '', { promptTokens: response.usage?.prompt_tokens, completionTokens: 0 });
+            
+            // Results carry their input's index, so put them back in input order
+            return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
+            console.error('Error embedding texts with OpenAI:', error);
+            throw this.handleOpenAIError(error, options);
+        } finally {
+            reservation.release();
+        }
+    }
+    
+    /**
+     * Run a streaming chat completion and yield each text delta
+     */
+    private async *streamCompletion(messages: any[], options: RequestOptions, reservation: BudgetReservation): AsyncIterable<string> {
+        let opened = false;
+        let completion = '';
+        let usage: any;
+        
+        try {
+            console.log(`Streaming content with model: ${this.settings.model}`);
+            
+            const stream = await this.withRateLimitAndRetry(() => this.client.chat.completions.create({
+                model: this.settings.model,
+                messages,
+                temperature: this.settings.temperature,
+                max_tokens: this.settings.maxTokens,
+                stream: true,
+                // Ask for a final chunk with token usage
+                stream_options: { include_usage: true }
+            }, { signal: options.signal }), options, UsageLedger.estimateTokens(this.getPromptText(messages)));
+            opened = true;
+            
+            for await (const chunk of stream) {
+                usage = chunk.usage ?? usage;
+                const text = chunk.choices[0]?.delta?.content;
+                if (text) {
+                    completion += text;
+                    yield text;
+                }
+            }
+        } catch (error: any) {
+            // Cancellation is not a failure, so don't surface it as an error notice
+            if (options.signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            
+            console.error('Error streaming content with OpenAI:', error);
+            throw this.handleOpenAIError(error, options);
+        } finally {
+            // Record partial streams too, since the vendor bills for them
+            if (opened) {
+                UsageLedger.getInstance().recordRequest(this.settings, this.getPromptText(messages), completion, this.getReportedUsage(usage));
+            }
+            reservation.release();
+        }
+    }
+    
+    /**
+     * Collect the text of chat messages, used to estimate prompt tokens
+     */
+    private getPromptText(messages: any[]): string {
+        return messages
+            .flatMap(message => typeof message.content === 'string' ? [message.content] : message.content.map((part: any) => part.text || ''))
+            .join('\n');
+    }
+    
+    /**
+     * Read token counts from a chat completion's usage field
+     */
+    private getReportedUsage(usage: any): ReportedUsage {
+        return {
+            promptTokens: usage?.prompt_tokens,
+            completionTokens: usage?.completion_tokens
+        };
+    }
+    
+    /**
+     * Build a user message with the text prompt followed by any images
+     */
+    private buildMultiModalMessage(prompt: string, parts: ContentPart[]): any {
+        return {
+            role: 'user',
+            content: [{ type: 'text', text: prompt }, ...this.toContentParts(parts)]
+        };
+    }
+    
+    /**
+     * Build the messages for a conversation, starting with the system instruction
+     * Only user messages may carry images, so assistant messages are sent as plain text
+     */
+    private buildChatMessages(request: ChatRequest): any[] {
+        const messages: any[] = request.system ? [{ role: 'system', content: request.system }] : [];
+        
+        for (const message of request.messages) {
+            const hasImages = message.parts.some(part => part.type === 'image');
+            messages.push({
+                role: message.role,
+                content: message.role === 'user' && hasImages
+                    ? this.toContentParts(message.parts)
+                    : message.parts.filter(part => part.type === 'text').map(part => part.data).join('\n')
+            });
+        }
+        
+        return messages;
+    }
+    
+    /**
+     * Convert content parts to chat completion text and image_url parts
+     */
+    private toContentParts(parts: ContentPart[]): any[] {
+        const content: any[] = [];
+        
+        for (const part of parts) {
+            if (part.type === 'image') {
+                content.push({
+                    type: 'image_url',
+                    image_url: {
+                        url: `data:image/jpeg;base64,${part.data}`
+                    }
+                });
+            } else if (part.type === 'text') {
+                content.push({
+                    type: 'text',
+                    text: part.data
+                });
+            }
+        }
+        
+        return content;
+    }
+    
+    /**
+     * Refuse image inputs for models that can't see them, before anything is sent
+     */
+    private requireVisionModel(options: RequestOptions): void {
+        if (!this.settings.model.includes('vision') && !this.settings.model.includes('gpt-4o')) {
+            const errorMessage = 'Multi-modal content generation requires a vision-capable model like gpt-4-vision-preview or gpt-4o. Please update your model in settings.';
+            showErrorNotice(errorMessage, 10000, options);
+            throw new Error(errorMessage);
+        }
+    }
+    
+    /**
+     * Translate an OpenAI API error into a user-facing error
+     */
+    private handleOpenAIError(error: any, options: RequestOptions): Error {
+        // Get model information for better error messages
+        const modelInfo = checkOpenAIModelAvailability(this.settings.model);
+        
+        // Handle common OpenAI API errors
+        if (error.status === 404 || (error.message && error.message.includes('model not found'))) {
+            let errorMessage = `Model not available: ${this.settings.model}.`;
+            
+            if (modelInfo.status === ModelAvailabilityStatus.LIMITED_PREVIEW) {
+                errorMessage += ` ${modelInfo.reason || 'This model has limited availability.'}`;
+                
+                if (modelInfo.fallbackModel) {
+                    errorMessage += ` Try using ${modelInfo.fallbackModel} instead.`;
+                }
+            } else if (modelInfo.status === ModelAvailabilityStatus.DEPRECATED) {
+                errorMessage += ` ${modelInfo.reason || 'This model is deprecated.'}`;
+                
+                if (modelInfo.fallbackModel) {
+                    errorMessage += ` Try using ${modelInfo.fallbackModel} instead.`;
+                }
+            } else {
+                errorMessage += ` This model may not exist or may not be available with your API key.`;
+            }
+            
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
+        } else if (error.status === 401 || (error.message && error.message.includes('authentication'))) {
+            const errorMessage = 'Authentication failed. Please check your OpenAI API key in settings.';
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
+        } else if (error.status === 429 || (error.message && error.message.includes('rate limit'))) {
+            const errorMessage = 'Rate limit exceeded. Please try again later or check your OpenAI account usage limits.';
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
+        } else if (error.status === 400 || (error.message && error.message.includes('invalid request'))) {
+            let errorMessage = `Invalid request: ${error.message}.`;
+            
+            if (error.message && error.message.includes('token')) {
+                errorMessage += ` This may be due to exceeding token limits. Try reducing your input or output token settings.`;
+            }
+            
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
+        } else {
+            const errorMessage = `Failed to generate content: ${error.message || 'Unknown error'}`;
+            showErrorNotice(errorMessage, 10000, options);
+            return new ProviderError(errorMessage, classifyProviderError(error), error.status);
+        }
+    }
+
     /**
      * Get the vendor of this provider
      * @returns The AI vendor (OpenAI)
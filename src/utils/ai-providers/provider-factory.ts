@@ -1,7 +1,10 @@
-import { AIProvider, AIProviderSettings, AIVendor } from './base-provider';
-import { GeminiProvider } from './gemini-provider';
-import { OpenAIProvider } from './openai-provider';
-import { AnthropicProvider } from './anthropic-provider';
+import { AIProvider, AIProviderSettings, AIVendor, ModelAvailabilityInfo, ModelAvailabilityStatus } from './base-provider';
+import { GeminiProvider, GEMINI_MODEL_AVAILABILITY, checkGeminiModelAvailability } from './gemini-provider';
+import { OpenAIProvider, OPENAI_MODEL_AVAILABILITY, checkOpenAIModelAvailability } from './openai-provider';
+import { AnthropicProvider, ANTHROPIC_MODEL_AVAILABILITY, checkAnthropicModelAvailability } from './anthropic-provider';
+import { LocalProvider } from './local-provider';
+import { FallbackProvider, ProviderCreator } from './fallback-provider';
+import { getModelCategoriesForVendor } from '../../types';
 
 /**
  * Factory class for creating AI providers
@@ -22,11 +25,57 @@ export class AIProviderFactory {
                 return new OpenAIProvider(apiKey, settings);
             case AIVendor.ANTHROPIC:
                 return new AnthropicProvider(apiKey, settings);
+            case AIVendor.LOCAL:
+                return new LocalProvider(apiKey, settings);
             default:
                 throw new Error(`Unsupported AI vendor: ${settings.vendor}`);
         }
     }
     
+    /**
+     * Create a provider that moves down an ordered chain of models when one is unavailable
+     * @param chain The models to try, in order; the first is the configured model
+     * @param createProvider Creates the provider for each model, defaults to createProvider
+     * @returns A provider that serves each request from the first available model
+     */
+    static createProviderWithFallback(chain: AIProviderSettings[], createProvider: ProviderCreator = AIProviderFactory.createProvider): AIProvider {
+        return new FallbackProvider(chain, createProvider);
+    }
+    
+    /**
+     * Find the vendor that serves a model
+     * @param model The model ID
+     * @returns The vendor, or null if the model isn't known
+     */
+    static getVendorForModel(model: string): AIVendor | null {
+        if (model in GEMINI_MODEL_AVAILABILITY) return AIVendor.GOOGLE;
+        if (model in OPENAI_MODEL_AVAILABILITY) return AIVendor.OPENAI;
+        if (model in ANTHROPIC_MODEL_AVAILABILITY) return AIVendor.ANTHROPIC;
+        
+        const vendors = [AIVendor.GOOGLE, AIVendor.OPENAI, AIVendor.ANTHROPIC, AIVendor.LOCAL];
+        return vendors.find(vendor => AIProviderFactory.getModelsForVendor(vendor).includes(model)) ?? null;
+    }
+    
+    /**
+     * Look up what is known about a model's availability
+     * @param vendor The AI vendor
+     * @param model The model ID
+     * @returns The model's availability, including a suggested fallback model
+     */
+    static checkModelAvailability(vendor: AIVendor, model: string): ModelAvailabilityInfo {
+        switch (vendor) {
+            case AIVendor.GOOGLE:
+                return checkGeminiModelAvailability(model);
+            case AIVendor.OPENAI:
+                return checkOpenAIModelAvailability(model);
+            case AIVendor.ANTHROPIC:
+                return checkAnthropicModelAvailability(model);
+            default:
+                // Local servers only list models that are installed
+                return { status: ModelAvailabilityStatus.GENERALLY_AVAILABLE };
+        }
+    }
+    
     /**
      * Get the list of available models for a specific vendor
      * @param vendor The AI vendor
@@ -62,6 +111,10 @@ export class AIProviderFactory {
                     'claude-3-sonnet-20240229',
                     'claude-3-haiku-20240307'
                 ];
+            case AIVendor.LOCAL:
+                // Local models are discovered from the server at runtime
+                return getModelCategoriesForVendor(AIVendor.LOCAL)
+                    .flatMap(category => category.models.map(model => model.id));
             default:
                 return [];
         }
@@ -80,8 +133,38 @@ export class AIProviderFactory {
                 return 'gpt-3.5-turbo';
             case AIVendor.ANTHROPIC:
                 return 'claude-3-haiku-20240307';
+            case AIVendor.LOCAL:
+                return 'llama3.1';
             default:
                 throw new Error(`Unsupported AI vendor: ${vendor}`);
         }
     }
+    
+    /**
+     * Get the embedding models offered by a vendor
+     * @param vendor The AI vendor
+     * @returns An array of model IDs, empty for vendors without embeddings
+     */
+    static getEmbeddingModelsForVendor(vendor: AIVendor): string[] {
+        switch (vendor) {
+            case AIVendor.GOOGLE:
+                return ['text-embedding-004'];
+            case AIVendor.OPENAI:
+                return ['text-embedding-3-small', 'text-embedding-3-large', 'text-embedding-ada-002'];
+            case AIVendor.LOCAL:
+                // Any embedding model pulled on the server works; these are common choices
+                return ['nomic-embed-text', 'mxbai-embed-large', 'all-minilm'];
+            default:
+                return [];
+        }
+    }
+    
+    /**
+     * Get the default embedding model for a specific vendor
+     * @param vendor The AI vendor
+     * @returns The default embedding model ID, or an empty string if the vendor has no embeddings
+     */
+    static getDefaultEmbeddingModelForVendor(vendor: AIVendor): string {
+        return AIProviderFactory.getEmbeddingModelsForVendor(vendor)[0] ?? '';
+    }
 }
@@ -0,0 +1,101 @@
+import { ObsidianLinkSettings, getApiKeyForVendor, vendorRequiresApiKey } from '../../types';
+import { AIFeature, AIProviderSettings, AIVendor } from './base-provider';
+import { AIProviderFactory } from './provider-factory';
+
+/**
+ * Build the provider settings for a feature by layering its overrides over the global settings
+ * @param settings The plugin settings
+ * @param feature The feature the provider is for
+ * @param defaults Values the feature prefers to the global settings when it has no override (e.g., a lower temperature)
+ * @returns The settings to create the feature's provider with
+ */
+export function resolveProviderSettings(
+    settings: ObsidianLinkSettings,
+    feature: AIFeature,
+    defaults: Partial<Pick<AIProviderSettings, 'temperature' | 'maxTokens'>> = {}
+): AIProviderSettings {
+    const override = settings.featureModels[feature] ?? {};
+    const vendor = override.vendor ?? settings.vendor;
+    
+    // The global model belongs to the global vendor, so a vendor override without a model gets that vendor's default
+    const model = override.model || (vendor === settings.vendor ? settings.model : AIProviderFactory.getDefaultModelForVendor(vendor));
+    
+    return {
+        apiKey: getApiKeyForVendor(settings, vendor),
+        model,
+        maxTokens: override.maxTokens ?? defaults.maxTokens ?? settings.maxTokens,
+        temperature: override.temperature ?? defaults.temperature ?? settings.temperature,
+        vendor,
+        baseUrl: settings.localBaseUrl,
+        feature
+    };
+}
+
+/**
+ * Build the provider settings for embeddings, which use their own vendor and model
+ * @param settings The plugin settings
+ * @param feature The feature usage is recorded against
+ * @returns The settings to create an embedding provider with; their model is the embedding model
+ */
+export function resolveEmbeddingSettings(settings: ObsidianLinkSettings, feature: AIFeature = AIFeature.SEARCH): AIProviderSettings {
+    const vendor = settings.embeddingVendor;
+    
+    return {
+        apiKey: getApiKeyForVendor(settings, vendor),
+        model: settings.embeddingModel || AIProviderFactory.getDefaultEmbeddingModelForVendor(vendor),
+        maxTokens: 0, // Embeddings produce no output tokens
+        temperature: 0,
+        vendor,
+        baseUrl: settings.localBaseUrl,
+        feature
+    };
+}
+
+/**
+ * Build the ordered chain of models a feature's requests fall back through.
+ * Each model is followed by the fallback its availability table suggests, then come the
+ * user's fallback models. Models whose vendor has no API key are left out.
+ * @param settings The plugin settings
+ * @param primary The settings of the feature's own model, as returned by resolveProviderSettings
+ * @returns The chain, starting with the primary model
+ */
+export function resolveFallbackChain(settings: ObsidianLinkSettings, primary: AIProviderSettings): AIProviderSettings[] {
+    const chain: AIProviderSettings[] = [primary];
+    if (!settings.fallbackEnabled) {
+        return chain;
+    }
+    
+    const addModel = (vendor: AIVendor, model: string) => {
+        if (chain.some(entry => entry.vendor === vendor && entry.model === model)) {
+            return;
+        }
+        
+        const apiKey = getApiKeyForVendor(settings, vendor);
+        if (!apiKey && vendorRequiresApiKey(vendor)) {
+            return;
+        }
+        
+        chain.push({ ...primary, apiKey, vendor, model });
+    };
+    
+    const addWithKnownFallback = (vendor: AIVendor, model: string) => {
+        addModel(vendor, model);
+        const { fallbackModel } = AIProviderFactory.checkModelAvailability(vendor, model);
+        if (fallbackModel) {
+            addModel(vendor, fallbackModel);
+        }
+    };
+    
+    addWithKnownFallback(primary.vendor, primary.model);
+    
+    for (const model of settings.fallbackModels) {
+        const vendor = AIProviderFactory.getVendorForModel(model);
+        if (vendor) {
+            addWithKnownFallback(vendor, model);
+        } else {
+            console.warn(`Skipping unknown fallback model: ${model}`);
+        }
+    }
+    
+    return chain;
+}
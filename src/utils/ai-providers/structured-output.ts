@@ -0,0 +1,214 @@
+import { JsonSchema, StructuredOptions } from './base-provider';
+
+/**
+ * Thrown when a model's response still doesn't match the schema after all repair attempts
+ */
+export class StructuredOutputError extends Error {
+    errors: string[];
+
+    constructor(message: string, errors: string[]) {
+        super(message);
+        this.name = 'StructuredOutputError';
+        this.errors = errors;
+    }
+}
+
+/**
+ * Sends a prompt that asks for JSON matching an object schema, returning the raw response text
+ */
+export type StructuredRequest = (prompt: string, schema: JsonSchema) => Promise<string>;
+
+/**
+ * Validate a value against a schema
+ * @param value The value to check
+ * @param schema The schema it must match
+ * @param path Where the value sits in the response, used in error messages
+ * @returns A list of problems, empty if the value is valid
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+    switch (schema.type) {
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`${path} should be an object`];
+            }
+
+            const record = value as Record<string, unknown>;
+            const errors: string[] = [];
+            for (const key of schema.required || []) {
+                if (record[key] === undefined || record[key] === null) {
+                    errors.push(`${path}.${key} is required`);
+                }
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+                if (record[key] !== undefined && record[key] !== null) {
+                    errors.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+                }
+            }
+            return errors;
+        }
+
+        case 'array': {
+            if (!Array.isArray(value)) {
+                return [`${path} should be an array`];
+            }
+
+            const itemSchema = schema.items;
+            return itemSchema
+                ? value.flatMap((item, index) => validateAgainstSchema(item, itemSchema, `${path}[${index}]`))
+                : [];
+        }
+
+        case 'string':
+            if (typeof value !== 'string') {
+                return [`${path} should be a string`];
+            }
+            if (schema.enum && !schema.enum.includes(value)) {
+                return [`${path} should be one of ${schema.enum.join(', ')}`];
+            }
+            return [];
+
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || isNaN(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+                return [`${path} should be ${schema.type === 'integer' ? 'an integer' : 'a number'}`];
+            }
+            if (schema.minimum !== undefined && value < schema.minimum) {
+                return [`${path} should be at least ${schema.minimum}`];
+            }
+            if (schema.maximum !== undefined && value > schema.maximum) {
+                return [`${path} should be at most ${schema.maximum}`];
+            }
+            return [];
+
+        case 'boolean':
+            return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+    }
+}
+
+/**
+ * Parse JSON from a model response, tolerating code fences and surrounding prose
+ * @param text The response text
+ * @returns The parsed value
+ * @throws SyntaxError if no JSON can be found
+ */
+export function parseJsonResponse(text: string): unknown {
+    const trimmed = text.trim();
+
+    const fenced = trimmed.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+    if (fenced) {
+        return JSON.parse(fenced[1]);
+    }
+
+    try {
+        return JSON.parse(trimmed);
+    } catch (error) {
+        // Fall back to the outermost object or array in the text
+        const start = trimmed.search(/[[{]/);
+        const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+        if (start === -1 || end <= start) {
+            throw error;
+        }
+        return JSON.parse(trimmed.slice(start, end + 1));
+    }
+}
+
+/**
+ * Parse and validate a model response without retrying, e.g. for streamed output
+ * @param text The response text
+ * @param schema The schema the response must match
+ * @returns The parsed and validated response
+ * @throws StructuredOutputError if the response is not valid
+ */
+export function parseStructuredOutput<T>(text: string, schema: JsonSchema): T {
+    const errors = checkResponse(text, schema);
+    if (errors.length > 0) {
+        throw new StructuredOutputError(`Response did not match the expected format: ${errors.join('; ')}`, errors);
+    }
+    return parseJsonResponse(text) as T;
+}
+
+/**
+ * Run a structured request, retrying with a repair prompt while the response is invalid.
+ * Native JSON modes (OpenAI response_format, Anthropic tools) require an object at the top
+ * level, so other schemas are wrapped in a { result } object and unwrapped afterwards.
+ * @param prompt The prompt to send to the AI
+ * @param schema The schema the response must match
+ * @param options Structured output options
+ * @param request Sends a prompt using the vendor's native JSON mode
+ * @returns The parsed and validated response
+ * @throws StructuredOutputError if every attempt returns invalid output
+ */
+export async function generateWithRepair<T>(
+    prompt: string,
+    schema: JsonSchema,
+    options: StructuredOptions,
+    request: StructuredRequest
+): Promise<T> {
+    const wrapped = schema.type !== 'object';
+    const requestSchema: JsonSchema = wrapped
+        ? { type: 'object', properties: { result: schema }, required: ['result'] }
+        : schema;
+    const basePrompt = buildStructuredPrompt(prompt, requestSchema);
+    const maxAttempts = 1 + (options.maxRepairAttempts ?? 2);
+
+    let attemptPrompt = basePrompt;
+    let errors: string[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        options.signal?.throwIfAborted();
+
+        const text = await request(attemptPrompt, requestSchema);
+        errors = checkResponse(text, requestSchema);
+
+        if (errors.length === 0) {
+            const value = parseJsonResponse(text) as Record<string, unknown>;
+            return (wrapped ? value.result : value) as T;
+        }
+
+        console.warn(`Structured output attempt ${attempt} of ${maxAttempts} was invalid:`, errors);
+        attemptPrompt = buildRepairPrompt(basePrompt, text, errors);
+    }
+
+    throw new StructuredOutputError(
+        `Response did not match the expected format after ${maxAttempts} attempts: ${errors.join('; ')}`,
+        errors
+    );
+}
+
+/**
+ * Append the schema to a prompt so models without a native JSON mode know what to return
+ */
+function buildStructuredPrompt(prompt: string, schema: JsonSchema): string {
+    return `${prompt.trim()}
+
+Respond only with JSON that matches this JSON Schema, without any other text:
+${JSON.stringify(schema)}`;
+}
+
+/**
+ * Ask the model to fix its previous response
+ */
+function buildRepairPrompt(prompt: string, invalidText: string, errors: string[]): string {
+    return `${prompt}
+
+Your previous response was not valid:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${invalidText.slice(0, 4000)}
+
+Respond again with only the corrected JSON.`;
+}
+
+/**
+ * Parse and validate a response, returning the problems found
+ */
+function checkResponse(text: string, schema: JsonSchema): string[] {
+    let value: unknown;
+    try {
+        value = parseJsonResponse(text);
+    } catch (error) {
+        return [`Response is not valid JSON (${error.message})`];
+    }
+    return validateAgainstSchema(value, schema);
+}
@@ -5,6 +5,7 @@ export class ImageAnalysisModal extends Modal {
     private file: TFile | null = null;
     private analysisResult: string = '';
     private analysisType: ImageAnalysisType = ImageAnalysisType.DESCRIBE;
+    private abortController: AbortController | null = null;
 
     constructor(
         app: App,
@@ -61,33 +62,65 @@ export class ImageAnalysisModal extends Modal {
     }
 
     onClose() {
+        // Closing the modal cancels any analysis that is still streaming
+        this.abortController?.abort();
+        this.abortController = null;
         const { contentEl } = this;
         contentEl.empty();
     }
 
     private async analyzeImage(file: File | TFile) {
+        this.abortController?.abort();
+        const controller = new AbortController();
+        this.abortController = controller;
+        
         try {
-            let result: string;
+            let arrayBuffer: ArrayBuffer;
             
             if (file instanceof TFile) {
                 // Handle TFile from Obsidian
-                const fileContent = await this.app.vault.readBinary(file);
-                const base64Content = this.arrayBufferToBase64(fileContent);
-                const analysis = await this.multiModal.analyzeImage(file, this.analysisType);
-                result = analysis.text;
+                this.file = file;
+                arrayBuffer = await this.app.vault.readBinary(file);
             } else {
                 // Handle File from file input
-                const arrayBuffer = await file.arrayBuffer();
-                const base64Content = this.arrayBufferToBase64(arrayBuffer);
-                const analysis = await this.multiModal.analyzeImage(file as unknown as TFile, this.analysisType);
-                result = analysis.text;
+                arrayBuffer = await file.arrayBuffer();
             }
             
-            this.analysisResult = result;
-            this.renderResults();
+            const base64Content = this.arrayBufferToBase64(arrayBuffer);
+            
+            // Show the results pane straight away and fill it in as the response streams
+            this.analysisResult = '';
+            const resultEl = this.renderResults(true);
+            
+            const analysis = await this.multiModal.analyzeImageDataStream(
+                file.name,
+                base64Content,
+                this.analysisType,
+                (partial: string) => {
+                    this.analysisResult = partial;
+                    resultEl.setText(partial);
+                },
+                controller.signal
+            );
+            
+            this.analysisResult = analysis.text;
+            this.renderResults(false);
         } catch (error) {
+            if (controller.signal.aborted) {
+                // Keep whatever arrived before the user cancelled the analysis
+                if (this.abortController === controller) {
+                    this.renderResults(false);
+                    new Notice('Image analysis cancelled');
+                }
+                return;
+            }
+            
             console.error('Error analyzing image:', error);
             new Notice('Failed to analyze image. Please try again.');
+        } finally {
+            if (this.abortController === controller) {
+                this.abortController = null;
+            }
         }
     }
 
@@ -101,7 +134,12 @@ export class ImageAnalysisModal extends Modal {
         return btoa(binary);
     }
 
-    private renderResults() {
+    /**
+     * Renders the analysis results
+     * @param streaming Whether the analysis is still streaming in
+     * @returns The element holding the analysis text, for incremental updates
+     */
+    private renderResults(streaming: boolean): HTMLElement {
         const { contentEl } = this;
         contentEl.empty();
         contentEl.createEl('h2', { text: 'Analysis Results' });
@@ -125,7 +163,17 @@ export class ImageAnalysisModal extends Modal {
         // Display the analysis results
         const resultsDiv = container.createDiv({ cls: 'image-analysis-results' });
         resultsDiv.createEl('h3', { text: 'Analysis:' });
-        resultsDiv.createEl('p', { text: this.analysisResult });
+        const resultEl = resultsDiv.createEl('p', { text: this.analysisResult });
+        
+        if (streaming) {
+            // Let the user cancel a long analysis without closing the modal
+            new Setting(container)
+                .addButton(btn => {
+                    btn.setButtonText('Cancel')
+                        .onClick(() => this.abortController?.abort());
+                });
+            return resultEl;
+        }
         
         // Add a button to copy the results
         new Setting(container)
@@ -136,5 +184,7 @@ export class ImageAnalysisModal extends Modal {
                         new Notice('Analysis results copied to clipboard!');
                     });
             });
+        
+        return resultEl;
     }
 }
@@ -0,0 +1,384 @@
+import { ItemView, WorkspaceLeaf, Notice, ButtonComponent, ToggleComponent, TFile, MarkdownRenderer, MarkdownView, Component, normalizePath } from 'obsidian';
+import { NoteChatService } from '../services/note-chat';
+import { ConversationStore, ConversationTurn, NoteConversation } from '../services/conversation-store';
+import { ServedModel } from '../utils/ai-providers/base-provider';
+
+export const NOTE_CHAT_VIEW_TYPE = 'obsidian-link-note-chat-view';
+
+export class NoteChatView extends ItemView {
+    protected chatService: NoteChatService;
+    protected headerEl: HTMLElement;
+    protected messagesEl: HTMLElement;
+    protected loadingEl: HTMLElement;
+    protected inputEl: HTMLTextAreaElement;
+    protected linkedToggle: ToggleComponent;
+    protected linkedLabelEl: HTMLElement;
+    protected currentFile: TFile | null = null;
+    protected conversation: NoteConversation | null = null;
+    protected abortController: AbortController | null = null;
+    private streamingEl: HTMLElement | null = null;
+    private renderTimer: number | null = null;
+    private pendingRender: string = '';
+    // Own the children of the rendered messages and of the latest streamed pass, so re-rendering unloads them
+    private messagesComponent: Component | null = null;
+    private streamingComponent: Component | null = null;
+
+    constructor(leaf: WorkspaceLeaf, chatService: NoteChatService) {
+        super(leaf);
+        this.chatService = chatService;
+    }
+
+    getViewType(): string {
+        return NOTE_CHAT_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Chat With Note';
+    }
+
+    getIcon(): string {
+        return 'message-square';
+    }
+
+    async onOpen(): Promise<void> {
+        const { containerEl } = this;
+        containerEl.empty();
+        containerEl.addClass('obsidian-link-note-chat-view');
+
+        // Create header with the note being discussed
+        const controlsEl = containerEl.createDiv('note-chat-controls');
+        this.headerEl = controlsEl.createDiv('note-chat-header');
+
+        // Create linked notes toggle
+        const linkedContainer = controlsEl.createDiv('note-chat-linked-container');
+        this.linkedToggle = new ToggleComponent(linkedContainer)
+            .onChange(value => {
+                if (this.conversation && this.conversation.includeLinkedNotes !== value) {
+                    this.conversation.includeLinkedNotes = value;
+                    ConversationStore.getInstance().set(this.conversation);
+                }
+            });
+        this.linkedLabelEl = linkedContainer.createEl('span', { text: 'Include linked notes' });
+
+        // Create button container
+        const buttonContainer = controlsEl.createDiv('note-chat-button-container');
+
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Export to Note')
+            .setIcon('save')
+            .onClick(() => this.exportToNote());
+
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Clear')
+            .setIcon('trash')
+            .onClick(() => this.clearConversation());
+
+        // Create message list
+        this.messagesEl = containerEl.createDiv('note-chat-messages');
+
+        // Create loading indicator
+        this.loadingEl = containerEl.createDiv('summary-loading');
+        this.loadingEl.createEl('div', { cls: 'dot-pulse' });
+        const cancelButton = this.loadingEl.createEl('button', {
+            text: 'Cancel',
+            cls: 'summary-cancel-button'
+        });
+        cancelButton.addEventListener('click', () => this.cancelGeneration());
+        this.loadingEl.style.display = 'none';
+
+        // Create input; Enter sends, Shift+Enter starts a new line
+        const inputContainer = containerEl.createDiv('note-chat-input-container');
+        this.inputEl = inputContainer.createEl('textarea', {
+            cls: 'note-chat-input',
+            attr: { placeholder: 'Ask about this note...', rows: '3' }
+        });
+        this.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+            if (event.key === 'Enter' && !event.shiftKey) {
+                event.preventDefault();
+                this.sendMessage();
+            }
+        });
+
+        new ButtonComponent(inputContainer)
+            .setButtonText('Send')
+            .setCta()
+            .onClick(() => this.sendMessage());
+
+        // Follow the note being edited
+        this.registerEvent(this.app.workspace.on('file-open', file => {
+            if (file && file.extension === 'md') {
+                this.setFile(file);
+            }
+        }));
+
+        this.setFile(this.app.workspace.getActiveFile());
+    }
+
+    /**
+     * Switch to the conversation about a note, loading its history
+     * @param file The note to chat about
+     */
+    public setFile(file: TFile | null): void {
+        if (file && file === this.currentFile) {
+            return;
+        }
+
+        // A reply belongs to the note it was asked about, so don't keep streaming into another one
+        this.cancelGeneration();
+
+        this.currentFile = file;
+        this.conversation = file ? ConversationStore.getInstance().get(file.path) : null;
+        this.render();
+    }
+
+    /**
+     * Send the text in the input box and stream the reply
+     */
+    public async sendMessage(): Promise<void> {
+        const text = this.inputEl.value.trim();
+        if (!text) {
+            return;
+        }
+
+        if (!this.currentFile || !this.conversation) {
+            new Notice('Please open a markdown file to chat about');
+            return;
+        }
+
+        if (this.abortController) {
+            new Notice('Please wait for the current answer to finish');
+            return;
+        }
+
+        const file = this.currentFile;
+        const conversation = this.conversation;
+        const userTurn: ConversationTurn = { role: 'user', content: text, createdAt: Date.now() };
+        conversation.turns.push(userTurn);
+        this.inputEl.value = '';
+
+        const controller = new AbortController();
+        this.abortController = controller;
+        let servedModel: ServedModel | undefined;
+
+        this.render();
+        this.streamingEl = this.createMessageEl('assistant');
+        this.loadingEl.style.display = 'flex';
+
+        try {
+            const reply = await this.chatService.replyStream(
+                file,
+                conversation,
+                (partial: string, served?: ServedModel) => {
+                    servedModel = served;
+                    this.scheduleRender(partial);
+                },
+                controller.signal
+            );
+
+            conversation.turns.push({ role: 'assistant', content: reply, model: servedModel?.model, createdAt: Date.now() });
+            ConversationStore.getInstance().set(conversation);
+        } catch (error) {
+            // Drop the unanswered question so the conversation still alternates, and offer it again
+            conversation.turns = conversation.turns.filter(turn => turn !== userTurn);
+            if (this.conversation === conversation && !this.inputEl.value) {
+                this.inputEl.value = text;
+            }
+
+            if (!controller.signal.aborted) {
+                new Notice(error.message);
+            }
+        } finally {
+            this.cancelScheduledRender();
+            if (this.abortController === controller) {
+                this.abortController = null;
+                this.streamingEl = null;
+                this.loadingEl.style.display = 'none';
+            }
+            if (this.conversation === conversation) {
+                this.render();
+            }
+        }
+    }
+
+    /**
+     * Cancels the reply currently being generated, if any
+     */
+    public cancelGeneration(): void {
+        this.abortController?.abort();
+        this.abortController = null;
+        this.streamingEl = null;
+        this.cancelScheduledRender();
+        if (this.loadingEl) {
+            this.loadingEl.style.display = 'none';
+        }
+    }
+
+    /**
+     * Render the header and every message of the current conversation
+     */
+    private render(): void {
+        this.headerEl.empty();
+        this.messagesEl.empty();
+        this.messagesComponent = this.replaceRenderComponent(this.messagesComponent);
+        this.streamingComponent?.unload();
+        this.streamingComponent = null;
+
+        if (!this.currentFile || !this.conversation) {
+            this.headerEl.createEl('small', { text: 'No note open' });
+            this.messagesEl.createEl('p', {
+                text: 'Open a markdown note to ask questions about it.',
+                cls: 'note-chat-empty'
+            });
+            return;
+        }
+
+        this.headerEl.createEl('small', { text: `Chatting about: ${this.currentFile.basename}` });
+
+        const linkedCount = this.chatService.getLinkedNotes(this.currentFile).length;
+        this.linkedToggle.setValue(this.conversation.includeLinkedNotes);
+        this.linkedLabelEl.setText(`Include linked notes (${linkedCount})`);
+
+        if (this.conversation.turns.length === 0) {
+            this.messagesEl.createEl('p', {
+                text: 'Ask a question about this note. The conversation is saved with the note.',
+                cls: 'note-chat-empty'
+            });
+            return;
+        }
+
+        for (const turn of this.conversation.turns) {
+            const messageEl = this.createMessageEl(turn.role, turn.model);
+            MarkdownRenderer.renderMarkdown(turn.content, messageEl, this.currentFile.path, this.messagesComponent);
+
+            if (turn.role === 'assistant') {
+                const actionsEl = messageEl.createDiv('note-chat-message-actions');
+                new ButtonComponent(actionsEl)
+                    .setButtonText('Insert at Cursor')
+                    .setIcon('text-cursor-input')
+                    .onClick(() => this.insertAtCursor(turn.content));
+            }
+        }
+
+        this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+    }
+
+    /**
+     * Create the element for one message, labelled with who wrote it
+     */
+    private createMessageEl(role: ConversationTurn['role'], model?: string): HTMLElement {
+        const messageEl = this.messagesEl.createDiv(`note-chat-message note-chat-message-${role}`);
+        const label = role === 'user' ? 'You' : `Assistant${model ? ` · ${model}` : ''}`;
+        messageEl.createEl('small', { text: label, cls: 'note-chat-message-role' });
+        return messageEl.createDiv('note-chat-message-content');
+    }
+
+    /**
+     * Re-renders the streaming reply at most every 100ms, since rendering markdown
+     * on every streamed token would stall the view on long replies
+     */
+    private scheduleRender(reply: string): void {
+        this.pendingRender = reply;
+
+        if (this.renderTimer !== null) return;
+
+        this.renderTimer = window.setTimeout(() => {
+            this.renderTimer = null;
+            if (this.streamingEl) {
+                this.streamingEl.empty();
+                this.streamingComponent = this.replaceRenderComponent(this.streamingComponent);
+                MarkdownRenderer.renderMarkdown(this.pendingRender, this.streamingEl, this.currentFile?.path ?? '', this.streamingComponent);
+                this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+            }
+        }, 100);
+    }
+
+    /**
+     * Unload the children rendered into a component and start a fresh one for the next render
+     */
+    private replaceRenderComponent(component: Component | null): Component {
+        component?.unload();
+        const next = new Component();
+        next.load();
+        return next;
+    }
+
+    private cancelScheduledRender(): void {
+        if (this.renderTimer !== null) {
+            window.clearTimeout(this.renderTimer);
+            this.renderTimer = null;
+        }
+    }
+
+    /**
+     * Insert an answer into the note being discussed, at its cursor
+     * @param text The answer to insert
+     */
+    private insertAtCursor(text: string): void {
+        // The chat view has focus, so look for the note's editor among the open markdown leaves
+        const views = this.app.workspace.getLeavesOfType('markdown')
+            .map(leaf => leaf.view)
+            .filter((view): view is MarkdownView => view instanceof MarkdownView);
+        const view = views.find(candidate => candidate.file === this.currentFile) ?? views[0];
+
+        if (!view) {
+            new Notice('Please open the note to insert the answer into');
+            return;
+        }
+
+        view.editor.replaceSelection(text);
+        new Notice(`Answer inserted into "${view.file?.basename}"`);
+    }
+
+    private clearConversation(): void {
+        if (!this.conversation || this.conversation.turns.length === 0) {
+            return;
+        }
+
+        this.cancelGeneration();
+        this.conversation.turns = [];
+        ConversationStore.getInstance().delete(this.conversation.notePath);
+        this.render();
+    }
+
+    async exportToNote(): Promise<void> {
+        if (!this.currentFile || !this.conversation || this.conversation.turns.length === 0) {
+            new Notice('No conversation to export');
+            return;
+        }
+
+        try {
+            // Save next to the source note, numbering the name if an export already exists
+            const folder = this.currentFile.parent?.path || '';
+            const baseTitle = `${this.currentFile.basename} Chat`;
+            let newNoteTitle = baseTitle;
+            for (let index = 2; this.app.vault.getAbstractFileByPath(normalizePath(`${folder}/${newNoteTitle}.md`)); index++) {
+                newNoteTitle = `${baseTitle} ${index}`;
+            }
+            const newNotePath = normalizePath(`${folder}/${newNoteTitle}.md`);
+
+            let content = `*Conversation about [[${this.currentFile.basename}]] using Obsidian-Link.*\n\n`;
+            for (const turn of this.conversation.turns) {
+                const label = turn.role === 'user' ? 'You' : `Assistant${turn.model ? ` (${turn.model})` : ''}`;
+                content += `### ${label}\n\n${turn.content}\n\n`;
+            }
+
+            await this.app.vault.create(newNotePath, content.trim() + '\n');
+            new Notice(`Conversation exported to "${newNoteTitle}"`);
+
+            const newFile = this.app.vault.getAbstractFileByPath(newNotePath);
+            if (newFile instanceof TFile) {
+                await this.app.workspace.getLeaf().openFile(newFile);
+            }
+        } catch (error) {
+            new Notice(`Failed to export conversation: ${error.message}`);
+        }
+    }
+
+    async onClose(): Promise<void> {
+        this.cancelGeneration();
+        this.messagesComponent?.unload();
+        this.messagesComponent = null;
+        this.streamingComponent?.unload();
+        this.streamingComponent = null;
+    }
+}
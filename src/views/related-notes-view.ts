@@ -0,0 +1,232 @@
+import { ItemView, WorkspaceLeaf, Notice, MarkdownView, TFile, setIcon } from 'obsidian';
+import { RelatedNotesService, RelatedNotesReport, UnlinkedMention } from '../services/related-notes';
+
+export const RELATED_NOTES_VIEW_TYPE = 'obsidian-link-related-notes-view';
+
+// Wait for the active note to settle, so flicking through tabs doesn't work out every note on the way
+const REFRESH_DELAY_MS = 300;
+
+/**
+ * Sidebar view of the notes related to the active note, the notes it mentions without linking,
+ * and the concepts it shares with others. It follows the active note, working only from what is
+ * already indexed, so switching notes never waits on the AI.
+ */
+export class RelatedNotesView extends ItemView {
+    protected relatedNotes: RelatedNotesService;
+    protected onSearch: (query: string) => void;
+    protected titleEl: HTMLElement;
+    protected reportEl: HTMLElement;
+    protected file: TFile | null = null;
+    private reportKey: string = ''; // Path and modification time of the note the report is for
+    private refreshTimer: number | null = null;
+
+    /**
+     * @param leaf The leaf the view is in
+     * @param relatedNotes The service that finds related notes
+     * @param onSearch Searches the vault for a query, used to list the notes sharing a concept
+     */
+    constructor(leaf: WorkspaceLeaf, relatedNotes: RelatedNotesService, onSearch: (query: string) => void) {
+        super(leaf);
+        this.relatedNotes = relatedNotes;
+        this.onSearch = onSearch;
+    }
+
+    getViewType(): string {
+        return RELATED_NOTES_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Related Notes';
+    }
+
+    getIcon(): string {
+        return 'network';
+    }
+
+    async onOpen(): Promise<void> {
+        const { containerEl } = this;
+        containerEl.empty();
+        containerEl.addClass('obsidian-link-related-notes-view');
+
+        const headerEl = containerEl.createDiv('related-notes-header');
+        this.titleEl = headerEl.createDiv('related-notes-title');
+        const refreshEl = headerEl.createSpan({ cls: 'clickable-icon', attr: { 'aria-label': 'Refresh' } });
+        setIcon(refreshEl, 'refresh-cw');
+        refreshEl.addEventListener('click', () => this.refresh(true));
+
+        this.reportEl = containerEl.createDiv('related-notes-content');
+
+        // Clicking in this view makes it the active leaf, so only notes in the editor are followed
+        this.registerEvent(this.app.workspace.on('active-leaf-change', leaf => {
+            if (leaf?.view instanceof MarkdownView) {
+                this.scheduleRefresh();
+            }
+        }));
+        this.registerEvent(this.app.workspace.on('file-open', () => this.scheduleRefresh()));
+
+        // Links and tags of the note are read from the metadata cache, so refresh once it has caught up with an edit
+        this.registerEvent(this.app.metadataCache.on('changed', file => {
+            if (file.path === this.file?.path) {
+                this.scheduleRefresh();
+            }
+        }));
+
+        this.refresh();
+    }
+
+    /**
+     * Show what relates the active note to others, unless it is already shown
+     * @param force Work it out again even if the note hasn't changed, e.g. after the indexes caught up
+     */
+    public async refresh(force: boolean = false): Promise<void> {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') {
+            if (!this.file) {
+                this.renderEmpty('Open a note to see the notes related to it.');
+            }
+            return;
+        }
+
+        const reportKey = `${file.path}:${file.stat.mtime}`;
+        if (!force && reportKey === this.reportKey) {
+            return;
+        }
+        this.file = file;
+        this.reportKey = reportKey;
+
+        try {
+            const report = await this.relatedNotes.getReport(file);
+            // Another note may have been opened meanwhile
+            if (this.reportKey !== reportKey) return;
+
+            this.renderReport(file, report);
+        } catch (error) {
+            console.error('Error finding related notes:', error);
+            this.renderEmpty(`Error finding related notes: ${error.message}`);
+        }
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer !== null) {
+            window.clearTimeout(this.refreshTimer);
+        }
+
+        this.refreshTimer = window.setTimeout(() => {
+            this.refreshTimer = null;
+            this.refresh();
+        }, REFRESH_DELAY_MS);
+    }
+
+    private renderEmpty(message: string): void {
+        this.titleEl.setText('');
+        this.reportEl.empty();
+        this.reportEl.createEl('p', { text: message, cls: 'related-notes-empty' });
+    }
+
+    private renderReport(file: TFile, report: RelatedNotesReport): void {
+        this.titleEl.setText(file.basename);
+        this.reportEl.empty();
+
+        // Related notes
+        const relatedEl = this.reportEl.createDiv('related-notes-section');
+        relatedEl.createEl('h4', { text: 'Related Notes' });
+        if (report.related.length === 0) {
+            relatedEl.createEl('p', {
+                text: 'No related notes yet. Notes are compared once they are in the search index; run "Update Search Index" to index them now.',
+                cls: 'related-notes-empty'
+            });
+        }
+        for (const match of report.related) {
+            const itemEl = this.addItem(relatedEl, match.file, `${Math.round(match.score * 100)}%`);
+            if (match.sharedConcepts.length > 0) {
+                const conceptsEl = itemEl.createDiv('search-result-filters');
+                match.sharedConcepts.forEach(concept => conceptsEl.createEl('span', { text: concept, cls: 'search-result-filter' }));
+            }
+
+            if (match.linked) {
+                itemEl.addClass('is-linked');
+                itemEl.setAttr('title', 'Already linked from this note');
+            } else {
+                this.addItemAction(itemEl, 'link', 'Insert link at cursor', async () => {
+                    try {
+                        await this.relatedNotes.insertLink(file, match.file);
+                        new Notice(`Linked to ${match.file.basename}`);
+                    } catch (error) {
+                        new Notice(`Failed to insert link: ${error.message}`);
+                    }
+                });
+            }
+        }
+
+        // Unlinked mentions
+        if (report.mentions.length > 0) {
+            const mentionsEl = this.reportEl.createDiv('related-notes-section');
+            mentionsEl.createEl('h4', { text: 'Unlinked Mentions' });
+            for (const mention of report.mentions) {
+                const detail = mention.text === mention.file.basename ? `line ${mention.line + 1}` : `"${mention.text}" · line ${mention.line + 1}`;
+                const itemEl = this.addItem(mentionsEl, mention.file, detail);
+                this.addItemAction(itemEl, 'link', 'Link this mention', () => this.linkMention(file, mention));
+            }
+        }
+
+        // Shared concepts
+        if (report.concepts.length > 0) {
+            const conceptsEl = this.reportEl.createDiv('related-notes-section');
+            conceptsEl.createEl('h4', { text: 'Shared Concepts' });
+            const listEl = conceptsEl.createDiv('related-notes-concepts');
+            for (const concept of report.concepts) {
+                const conceptEl = listEl.createEl('span', {
+                    text: `${concept.label} (${concept.notes})`,
+                    cls: 'search-result-filter related-notes-concept',
+                    attr: { 'aria-label': `Search the ${concept.notes} other notes with ${concept.label}` }
+                });
+                conceptEl.addEventListener('click', () => this.onSearch(concept.query));
+            }
+        }
+    }
+
+    /**
+     * Adds a note to a section, opening it when clicked
+     * @returns The item's element
+     */
+    private addItem(containerEl: HTMLElement, file: TFile, detail: string): HTMLElement {
+        const itemEl = containerEl.createDiv('related-notes-item');
+        const rowEl = itemEl.createDiv('related-notes-item-row');
+        rowEl.createSpan({ text: file.basename, cls: 'related-notes-item-title' });
+        rowEl.createSpan({ text: detail, cls: 'related-notes-item-detail' });
+        rowEl.addEventListener('click', (event: MouseEvent) => {
+            this.app.workspace.getLeaf(event.ctrlKey || event.metaKey).openFile(file);
+        });
+        return itemEl;
+    }
+
+    private addItemAction(itemEl: HTMLElement, icon: string, tooltip: string, action: () => void): void {
+        const rowEl = itemEl.querySelector<HTMLElement>('.related-notes-item-row') ?? itemEl;
+        const actionEl = rowEl.createSpan({ cls: 'clickable-icon related-notes-action', attr: { 'aria-label': tooltip } });
+        setIcon(actionEl, icon);
+        actionEl.addEventListener('click', (event) => {
+            // Don't open the note as well
+            event.stopPropagation();
+            action();
+        });
+    }
+
+    private async linkMention(file: TFile, mention: UnlinkedMention): Promise<void> {
+        try {
+            if (await this.relatedNotes.linkMention(file, mention)) {
+                new Notice(`Linked "${mention.text}" to ${mention.file.basename}`);
+            } else {
+                new Notice(`"${mention.text}" is no longer in the note`);
+            }
+        } catch (error) {
+            new Notice(`Failed to link mention: ${error.message}`);
+        }
+    }
+
+    async onClose(): Promise<void> {
+        if (this.refreshTimer !== null) {
+            window.clearTimeout(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+    }
+}
@@ -0,0 +1,143 @@
+import { App, MarkdownRenderChild, MarkdownRenderer, setIcon } from 'obsidian';
+import { SearchService } from '../services/search';
+import { SearchStore } from '../services/search-store';
+import { formatSearchResultLinks } from './search-view';
+
+// Results listed when a code block doesn't set a limit
+const DEFAULT_CODE_BLOCK_LIMIT = 10;
+
+/**
+ * Live results of a search embedded in a note with a code block such as
+ *
+ *     ```link-search
+ *     tag:#project modified:<30d budget
+ *     limit: 5
+ *     ```
+ *
+ * A line "saved: <name>" runs a saved search instead, and follows it when the saved query changes.
+ * Results come from the keyword index alone, so rendering a note never waits on or pays for an AI request.
+ */
+export class SearchCodeBlock extends MarkdownRenderChild {
+    private savedName: string | null = null;
+    private query: string = '';
+    private limit: number = DEFAULT_CODE_BLOCK_LIMIT;
+    private abortController: AbortController | null = null;
+
+    /**
+     * @param containerEl The element the code block renders into
+     * @param app The Obsidian app
+     * @param getSearchService Returns the search service, which is replaced when settings change
+     * @param source The code block's text
+     * @param sourcePath The path of the note the code block is in
+     */
+    constructor(
+        containerEl: HTMLElement,
+        private app: App,
+        private getSearchService: () => SearchService | null,
+        source: string,
+        private sourcePath: string
+    ) {
+        super(containerEl);
+
+        const queryLines: string[] = [];
+        for (const line of source.split('\n')) {
+            const option = line.match(/^\s*(saved|limit):\s*(.+?)\s*$/i);
+            if (option?.[1].toLowerCase() === 'saved') {
+                this.savedName = option[2];
+            } else if (option?.[1].toLowerCase() === 'limit' && parseInt(option[2]) > 0) {
+                this.limit = parseInt(option[2]);
+            } else if (line.trim()) {
+                queryLines.push(line.trim());
+            }
+        }
+        this.query = queryLines.join(' ');
+    }
+
+    onload(): void {
+        this.containerEl.addClass('search-code-block');
+        this.render();
+
+        if (this.savedName) {
+            this.register(SearchStore.getInstance().onChange(() => {
+                if (this.getQuery() !== this.query) {
+                    this.render();
+                }
+            }));
+        }
+    }
+
+    onunload(): void {
+        this.abortController?.abort();
+    }
+
+    /**
+     * Get the query to run, looking up the saved search if the code block names one
+     * @returns The query, or null if the named search isn't saved
+     */
+    private getQuery(): string | null {
+        if (!this.savedName) {
+            return this.query;
+        }
+        return SearchStore.getInstance().getSavedSearch(this.savedName)?.query ?? null;
+    }
+
+    private async render(): Promise<void> {
+        this.abortController?.abort();
+        const controller = new AbortController();
+        this.abortController = controller;
+
+        const { containerEl } = this;
+        containerEl.empty();
+
+        const query = this.getQuery();
+        if (query !== null) {
+            this.query = query;
+        }
+
+        const headerEl = containerEl.createDiv('search-code-block-header');
+        headerEl.createSpan({ text: this.savedName ?? query ?? '', cls: 'search-code-block-title' });
+        const refreshEl = headerEl.createSpan({ cls: 'clickable-icon', attr: { 'aria-label': 'Refresh results' } });
+        setIcon(refreshEl, 'refresh-cw');
+        refreshEl.addEventListener('click', () => this.render());
+
+        const resultsEl = containerEl.createDiv('search-code-block-results');
+        const searchService = this.getSearchService();
+        if (query === null) {
+            resultsEl.createEl('p', { text: `No saved search named "${this.savedName}"`, cls: 'summary-error' });
+            return;
+        }
+        if (!query) {
+            resultsEl.createEl('p', { text: 'Write a query, or "saved: <name>", in the code block', cls: 'search-view-empty' });
+            return;
+        }
+        if (!searchService) {
+            resultsEl.createEl('p', { text: 'Search service not available', cls: 'summary-error' });
+            return;
+        }
+
+        resultsEl.createEl('p', { text: 'Searching...', cls: 'search-view-empty' });
+        try {
+            const results = await searchService.search(query, controller.signal, false);
+            if (this.abortController !== controller) return;
+
+            // The note embedding the search usually matches its own query
+            const links = results.filter(result => result.path !== this.sourcePath).slice(0, this.limit);
+            resultsEl.empty();
+            if (links.length === 0) {
+                resultsEl.createEl('p', { text: 'No results found', cls: 'search-view-empty' });
+                return;
+            }
+            await MarkdownRenderer.renderMarkdown(formatSearchResultLinks(this.app, links, this.sourcePath), resultsEl, this.sourcePath, this);
+        } catch (error) {
+            if (this.abortController !== controller || controller.signal.aborted) return;
+
+            console.error('Error rendering search code block:', error);
+            resultsEl.empty();
+            resultsEl.createEl('p', { text: `Error searching: ${error.message}`, cls: 'summary-error' });
+        } finally {
+            if (this.abortController === controller) {
+                this.abortController = null;
+            }
+        }
+    }
+}
@@ -1,16 +1,22 @@
-import { App, Modal, TFile, Notice, Setting } from 'obsidian';
-import { SearchService, SearchResult } from '../services/search';
+import { App, Modal, TFile, Notice, Setting, MarkdownRenderer, Component, MarkdownView } from 'obsidian';
+import { SearchService, SearchResult, SearchPassage } from '../services/search';
 
 export class SearchResultsModal extends Modal {
+    private abortControllers: Set<AbortController> = new Set();
+    private renderComponent: Component = new Component();
+
     constructor(
         app: App,
         private results: SearchResult[],
-        private searchService: SearchService
+        private searchService: SearchService,
+        private query: string = ''
     ) {
         super(app);
     }
 
     onOpen() {
+        this.renderComponent.load();
+
         const { contentEl } = this;
         contentEl.empty();
         contentEl.createEl('h2', { text: 'Search Results' });
@@ -26,11 +32,23 @@ export class SearchResultsModal extends Modal {
                 text: result.file.basename,
                 cls: 'search-result-title'
             });
+
+            // Show how the note met the query's filters, e.g. which of its tags matched
+            if (result.matchedFilters?.length) {
+                const filtersEl = resultEl.createEl('div', { cls: 'search-result-filters' });
+                result.matchedFilters.forEach(filter => filtersEl.createEl('span', { text: filter, cls: 'search-result-filter' }));
+            }
             
-            resultEl.createEl('div', {
-                text: result.preview,
-                cls: 'search-result-preview'
-            });
+            // Each passage opens the note scrolled to it; a note without passages shows its preview
+            if (result.passages.length > 0) {
+                const passagesEl = resultEl.createEl('div', { cls: 'search-result-passages' });
+                result.passages.forEach(passage => this.addPassage(passagesEl, result.file, passage));
+            } else {
+                resultEl.createEl('div', {
+                    text: result.preview,
+                    cls: 'search-result-preview'
+                });
+            }
             
             if (result.score !== undefined) {
                 resultEl.createEl('div', {
@@ -39,20 +57,132 @@ export class SearchResultsModal extends Modal {
                 });
             }
 
+            if (this.query) {
+                this.addExplanation(resultEl, result);
+            }
+
             resultEl.addEventListener('click', async () => {
-                await this.openFile(result.file);
+                await openSearchPassage(this.app, result.file, result.passages[0]);
                 this.close();
             });
         });
     }
 
     onClose() {
+        // Stop any explanations that are still streaming
+        this.abortControllers.forEach(controller => controller.abort());
+        this.abortControllers.clear();
+        this.renderComponent.unload();
+
         const { contentEl } = this;
         contentEl.empty();
     }
 
-    private async openFile(file: TFile) {
-        const leaf = this.app.workspace.getLeaf();
-        await leaf.openFile(file);
+    /**
+     * Adds a passage of a note, which opens the note at the passage when clicked
+     * @param containerEl The element to add the passage to
+     * @param file The note the passage is from
+     * @param passage The passage
+     */
+    private addPassage(containerEl: HTMLElement, file: TFile, passage: SearchPassage) {
+        const passageEl = renderSearchPassage(containerEl, passage);
+
+        passageEl.addEventListener('click', async (event) => {
+            // Open this passage rather than the note's best one
+            event.stopPropagation();
+            await openSearchPassage(this.app, file, passage);
+            this.close();
+        });
+    }
+
+    /**
+     * Adds an "Explain" button that streams a detailed explanation of the result
+     * @param resultEl The element for the search result
+     * @param result The search result to explain
+     */
+    private addExplanation(resultEl: HTMLElement, result: SearchResult) {
+        const explainButton = resultEl.createEl('button', {
+            text: 'Explain',
+            cls: 'search-result-explain'
+        });
+        const explanationEl = resultEl.createEl('div', { cls: 'search-result-explanation' });
+
+        explainButton.addEventListener('click', async (event) => {
+            // Don't open the note when asking for an explanation
+            event.stopPropagation();
+
+            const controller = new AbortController();
+            this.abortControllers.add(controller);
+            explainButton.disabled = true;
+
+            try {
+                const explanation = await this.searchService.explainResultStream(
+                    result,
+                    this.query,
+                    (partial: string) => explanationEl.setText(partial),
+                    controller.signal
+                );
+
+                // Render the finished explanation as markdown once the text stops changing
+                explanationEl.empty();
+                await MarkdownRenderer.renderMarkdown(explanation, explanationEl, result.path, this.renderComponent);
+                explainButton.remove();
+            } catch (error) {
+                if (controller.signal.aborted) return;
+
+                console.error('Error explaining search result:', error);
+                new Notice('Failed to explain search result. Please try again.');
+                explainButton.disabled = false;
+            } finally {
+                this.abortControllers.delete(controller);
+            }
+        });
+    }
+}
+
+/**
+ * Adds a passage of a search result, with the headings it sits under and the lines it spans
+ * @param containerEl The element to add the passage to
+ * @param passage The passage
+ * @returns The passage's element
+ */
+export function renderSearchPassage(containerEl: HTMLElement, passage: SearchPassage): HTMLElement {
+    const passageEl = containerEl.createEl('div', { cls: 'search-result-passage' });
+
+    const lines = passage.startLine === passage.endLine
+        ? `line ${passage.startLine + 1}`
+        : `lines ${passage.startLine + 1}–${passage.endLine + 1}`;
+    const location = [passage.headingPath.join(' › '), lines, passage.blockId && `^${passage.blockId}`].filter(Boolean).join(' · ');
+    passageEl.createEl('div', { text: location, cls: 'search-result-passage-location' });
+
+    const textEl = passageEl.createEl('div', { cls: 'search-result-passage-text' });
+    // Excerpts mark query terms as [[highlight]]term[[/highlight]]
+    passage.excerpt.split(/\[\[\/?highlight\]\]/).forEach((part, index) => {
+        if (index % 2 === 1) {
+            textEl.createEl('span', { text: part, cls: 'search-result-highlight' });
+        } else {
+            textEl.appendText(part);
+        }
+    });
+
+    return passageEl;
+}
+
+/**
+ * Open a note, scrolled to a passage and with the passage selected
+ * @param app The Obsidian app
+ * @param file The note to open
+ * @param passage The passage to show, if any
+ */
+export async function openSearchPassage(app: App, file: TFile, passage?: SearchPassage): Promise<void> {
+    const leaf = app.workspace.getLeaf();
+    await leaf.openFile(file, passage ? { eState: { line: passage.startLine } } : undefined);
+
+    if (passage && leaf.view instanceof MarkdownView) {
+        const editor = leaf.view.editor;
+        const from = { line: passage.startLine, ch: 0 };
+        const to = { line: passage.endLine, ch: editor.getLine(passage.endLine).length };
+        editor.setSelection(from, to);
+        editor.scrollIntoView({ from, to }, true);
     }
 }
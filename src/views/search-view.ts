@@ -0,0 +1,351 @@
+import { App, ItemView, WorkspaceLeaf, Notice, ButtonComponent, TFile, normalizePath, setIcon } from 'obsidian';
+import { SearchService, SearchResult } from '../services/search';
+import { SearchStore, SavedSearch } from '../services/search-store';
+import { SaveSearchModal } from '../modals/save-search-modal';
+import { renderSearchPassage, openSearchPassage } from './search-results-modal';
+import { isAbortError } from '../utils/ai-providers';
+
+export const SEARCH_VIEW_TYPE = 'obsidian-link-search-view';
+
+// The language of code blocks that embed a search's live results in a note
+export const SEARCH_CODE_BLOCK_LANGUAGE = 'link-search';
+
+// Wait for a pause in typing before searching, so a query is searched once rather than per keystroke
+const LIVE_SEARCH_DELAY_MS = 400;
+
+/**
+ * Format search results as a list of links to the notes, each pointing at the note's best passage
+ * @param app The Obsidian app
+ * @param results The results, best first
+ * @param sourcePath The path of the note the list is written to, for the shortest unambiguous links
+ * @returns The markdown list
+ */
+export function formatSearchResultLinks(app: App, results: SearchResult[], sourcePath: string): string {
+    return results.map(result => {
+        const linktext = app.metadataCache.fileToLinktext(result.file, sourcePath);
+        const passage = result.passages[0];
+
+        // Link to the passage's block if it has one, otherwise to the heading it sits under
+        let subpath = '';
+        if (passage?.blockId) {
+            subpath = `#^${passage.blockId}`;
+        } else if (passage?.headingPath.length) {
+            subpath = `#${passage.headingPath[passage.headingPath.length - 1].replace(/[#|^[\]]/g, ' ').trim()}`;
+        }
+        return `- [[${linktext}${subpath}]]`;
+    }).join('\n');
+}
+
+/**
+ * Dockable search, with results that update as the query is typed, the recent searches and the saved ones
+ */
+export class SearchView extends ItemView {
+    protected searchService: SearchService;
+    protected inputEl: HTMLInputElement;
+    protected loadingEl: HTMLElement;
+    protected resultsEl: HTMLElement;
+    protected savedEl: HTMLElement;
+    protected historyEl: HTMLElement;
+    protected query: string = ''; // The query the results are for
+    protected results: SearchResult[] = [];
+    protected abortController: AbortController | null = null;
+    private liveSearchTimer: number | null = null;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(leaf: WorkspaceLeaf, searchService: SearchService) {
+        super(leaf);
+        this.searchService = searchService;
+    }
+
+    getViewType(): string {
+        return SEARCH_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Search';
+    }
+
+    getIcon(): string {
+        return 'search';
+    }
+
+    async onOpen(): Promise<void> {
+        const { containerEl } = this;
+        containerEl.empty();
+        containerEl.addClass('obsidian-link-search-view');
+
+        // Typing shows results from the indexes; Enter also has the AI re-rank them and records the search
+        const inputContainer = containerEl.createDiv('search-view-input-container');
+        this.inputEl = inputContainer.createEl('input', {
+            type: 'text',
+            cls: 'search-view-input',
+            attr: { placeholder: 'Search your notes... (tag:, folder:, modified:<7d)' }
+        });
+        this.inputEl.addEventListener('input', () => this.scheduleLiveSearch());
+        this.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+            if (event.key === 'Enter') {
+                event.preventDefault();
+                this.search(this.inputEl.value);
+            }
+        });
+
+        const buttonContainer = containerEl.createDiv('search-view-buttons');
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Search')
+            .setCta()
+            .onClick(() => this.search(this.inputEl.value));
+
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Save')
+            .setIcon('pin')
+            .setTooltip('Save this search')
+            .onClick(() => {
+                const query = this.inputEl.value.trim();
+                if (!query) {
+                    new Notice('Enter a query to save');
+                    return;
+                }
+                new SaveSearchModal(this.app, query).open();
+            });
+
+        new ButtonComponent(buttonContainer)
+            .setIcon('file-plus')
+            .setTooltip('Write the results to a note')
+            .onClick(() => this.writeToNote(this.query, this.query, this.results));
+
+        // Create loading indicator
+        this.loadingEl = containerEl.createDiv('summary-loading');
+        this.loadingEl.createEl('div', { cls: 'dot-pulse' });
+        const cancelButton = this.loadingEl.createEl('button', {
+            text: 'Cancel',
+            cls: 'summary-cancel-button'
+        });
+        cancelButton.addEventListener('click', () => this.cancelSearch());
+        this.loadingEl.style.display = 'none';
+
+        this.resultsEl = containerEl.createDiv('search-view-results');
+        this.savedEl = containerEl.createDiv('search-view-saved');
+        this.historyEl = containerEl.createDiv('search-view-history');
+
+        this.renderResults();
+        this.renderSearches();
+        this.unsubscribe = SearchStore.getInstance().onChange(() => this.renderSearches());
+    }
+
+    /**
+     * Searches the vault and shows the results, re-ranked by the AI when it is available
+     * @param query The query to search for
+     * @param rerank Whether to use the AI and record the search; false while the query is being typed, which ranks on keywords alone
+     */
+    public async search(query: string, rerank: boolean = true): Promise<void> {
+        query = query.trim();
+        this.cancelLiveSearch();
+        if (this.inputEl.value.trim() !== query) {
+            this.inputEl.value = query;
+        }
+        if (!query) {
+            this.cancelSearch();
+            this.query = '';
+            this.results = [];
+            this.renderResults();
+            return;
+        }
+
+        // Only one search runs at a time; searching again stops the previous one
+        this.abortController?.abort();
+        const controller = new AbortController();
+        this.abortController = controller;
+        this.loadingEl.style.display = 'flex';
+
+        try {
+            const results = await this.searchService.search(query, controller.signal, rerank);
+            if (this.abortController !== controller) return;
+
+            this.query = query;
+            this.results = results;
+            this.renderResults();
+            if (rerank) {
+                SearchStore.getInstance().addToHistory(query);
+            }
+        } catch (error) {
+            if (this.abortController !== controller || controller.signal.aborted || isAbortError(error)) return;
+
+            console.error('Error performing search:', error);
+            this.resultsEl.empty();
+            this.resultsEl.createEl('p', {
+                text: `Error searching: ${error.message}`,
+                cls: 'summary-error'
+            });
+        } finally {
+            if (this.abortController === controller) {
+                this.abortController = null;
+                this.loadingEl.style.display = 'none';
+            }
+        }
+    }
+
+    /**
+     * Cancels the search in progress, if any
+     */
+    public cancelSearch(): void {
+        this.abortController?.abort();
+    }
+
+    /**
+     * Write search results to a new note as a list of links
+     * @param name What the search is called, used for the note's title
+     * @param query The query the results are for
+     * @param results The results to write
+     */
+    public async writeToNote(name: string, query: string, results: SearchResult[]): Promise<void> {
+        if (!query || results.length === 0) {
+            new Notice('No search results to write');
+            return;
+        }
+
+        try {
+            // Numbering the name if a note of the same search already exists
+            const baseTitle = `Search - ${name.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim()}`;
+            let newNoteTitle = baseTitle;
+            for (let index = 2; this.app.vault.getAbstractFileByPath(normalizePath(`${newNoteTitle}.md`)); index++) {
+                newNoteTitle = `${baseTitle} ${index}`;
+            }
+            const newNotePath = normalizePath(`${newNoteTitle}.md`);
+
+            const content = `*Results of the search "${query}" using Obsidian-Link.*\n\n${formatSearchResultLinks(this.app, results, newNotePath)}\n`;
+            await this.app.vault.create(newNotePath, content);
+            new Notice(`Search results written to "${newNoteTitle}"`);
+
+            const newFile = this.app.vault.getAbstractFileByPath(newNotePath);
+            if (newFile instanceof TFile) {
+                await this.app.workspace.getLeaf().openFile(newFile);
+            }
+        } catch (error) {
+            new Notice(`Failed to write search results: ${error.message}`);
+        }
+    }
+
+    /**
+     * Search for the query once typing pauses, on keywords alone so typing never pays for a request
+     */
+    private scheduleLiveSearch(): void {
+        this.cancelLiveSearch();
+        this.liveSearchTimer = window.setTimeout(() => {
+            this.liveSearchTimer = null;
+            this.search(this.inputEl.value, false);
+        }, LIVE_SEARCH_DELAY_MS);
+    }
+
+    private cancelLiveSearch(): void {
+        if (this.liveSearchTimer !== null) {
+            window.clearTimeout(this.liveSearchTimer);
+            this.liveSearchTimer = null;
+        }
+    }
+
+    /**
+     * List the results by note, each passage opening the note at the passage
+     */
+    private renderResults(): void {
+        this.resultsEl.empty();
+
+        if (!this.query) {
+            this.resultsEl.createEl('p', {
+                text: 'Type to search your notes. Press Enter to have the results re-ranked by relevance.',
+                cls: 'search-view-empty'
+            });
+            return;
+        }
+        if (this.results.length === 0) {
+            this.resultsEl.createEl('p', { text: 'No results found', cls: 'search-view-empty' });
+            return;
+        }
+
+        for (const result of this.results) {
+            const resultEl = this.resultsEl.createDiv('search-result');
+            const titleEl = resultEl.createEl('div', { text: result.file.basename, cls: 'search-result-title' });
+            titleEl.addEventListener('click', () => openSearchPassage(this.app, result.file, result.passages[0]));
+
+            if (result.matchedFilters?.length) {
+                const filtersEl = resultEl.createEl('div', { cls: 'search-result-filters' });
+                result.matchedFilters.forEach(filter => filtersEl.createEl('span', { text: filter, cls: 'search-result-filter' }));
+            }
+
+            const passagesEl = resultEl.createEl('div', { cls: 'search-result-passages' });
+            for (const passage of result.passages) {
+                const passageEl = renderSearchPassage(passagesEl, passage);
+                passageEl.addEventListener('click', () => openSearchPassage(this.app, result.file, passage));
+            }
+        }
+    }
+
+    /**
+     * List the saved searches and the recent ones
+     */
+    private renderSearches(): void {
+        const store = SearchStore.getInstance();
+
+        this.savedEl.empty();
+        const saved = store.getSavedSearches();
+        if (saved.length > 0) {
+            this.savedEl.createEl('h4', { text: 'Saved Searches' });
+            saved.forEach(search => this.addSavedSearch(search));
+        }
+
+        this.historyEl.empty();
+        const history = store.getHistory();
+        if (history.length > 0) {
+            const headerEl = this.historyEl.createDiv('search-view-section-header');
+            headerEl.createEl('h4', { text: 'Recent Searches' });
+            const clearButton = headerEl.createEl('button', { text: 'Clear', cls: 'search-view-clear-history' });
+            clearButton.addEventListener('click', () => store.clearHistory());
+
+            for (const entry of history) {
+                const entryEl = this.historyEl.createDiv({ cls: 'search-view-search', text: entry.query });
+                entryEl.setAttr('title', new Date(entry.searchedAt).toLocaleString());
+                entryEl.addEventListener('click', () => this.search(entry.query));
+            }
+        }
+    }
+
+    /**
+     * Adds a saved search, which runs when clicked, with buttons to write its results to a note,
+     * copy a code block that embeds it, and delete it
+     */
+    private addSavedSearch(search: SavedSearch): void {
+        const searchEl = this.savedEl.createDiv('search-view-search');
+        const nameEl = searchEl.createSpan({ text: search.name, cls: 'search-view-search-name' });
+        nameEl.setAttr('title', search.query);
+        searchEl.addEventListener('click', () => this.search(search.query));
+
+        const actionsEl = searchEl.createSpan('search-view-search-actions');
+        const addAction = (icon: string, tooltip: string, action: () => void) => {
+            const actionEl = actionsEl.createSpan({ cls: 'clickable-icon', attr: { 'aria-label': tooltip } });
+            setIcon(actionEl, icon);
+            actionEl.addEventListener('click', (event) => {
+                // Don't run the search as well
+                event.stopPropagation();
+                action();
+            });
+        };
+
+        addAction('file-plus', 'Write results to a note', async () => {
+            await this.search(search.query);
+            if (this.query === search.query) {
+                await this.writeToNote(search.name, search.query, this.results);
+            }
+        });
+        addAction('code', 'Copy code block to embed in a note', async () => {
+            await navigator.clipboard.writeText(`\`\`\`${SEARCH_CODE_BLOCK_LANGUAGE}\nsaved: ${search.name}\n\`\`\``);
+            new Notice('Code block copied to clipboard');
+        });
+        addAction('trash', 'Delete saved search', () => SearchStore.getInstance().deleteSavedSearch(search.name));
+    }
+
+    async onClose(): Promise<void> {
+        this.cancelLiveSearch();
+        this.cancelSearch();
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+}
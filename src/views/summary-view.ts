@@ -1,6 +1,7 @@
-import { ItemView, WorkspaceLeaf, Notice, ButtonComponent, DropdownComponent, TFile, MarkdownRenderer, MarkdownView } from 'obsidian';
+import { ItemView, WorkspaceLeaf, Notice, ButtonComponent, DropdownComponent, TFile, MarkdownRenderer, MarkdownView, Component } from 'obsidian';
 import { SummarizerService } from '../services/summarizer';
 import { ObsidianLinkSettings } from '../types';
+import { ServedModel } from '../utils/ai-providers/base-provider';
 
 export const SUMMARY_VIEW_TYPE = 'obsidian-link-summary-view';
 
@@ -21,8 +22,14 @@ export class SummaryView extends ItemView {
     protected currentContent: string = '';
     protected currentSummary: string = '';
     protected currentFile: TFile | null = null;
+    protected currentModel: ServedModel | null = null; // The model that generated the current summary
     protected currentLevel: SummaryLevel = SummaryLevel.STANDARD;
     protected levelDropdown: DropdownComponent;
+    protected abortController: AbortController | null = null;
+    private renderTimer: number | null = null;
+    private pendingRender: string = '';
+    // Owns the children of the rendered summary, so each re-render unloads those of the last
+    private renderComponent: Component | null = null;
 
     constructor(
         leaf: WorkspaceLeaf, 
@@ -116,6 +123,11 @@ export class SummaryView extends ItemView {
         // Create loading indicator
         this.loadingEl = containerEl.createDiv('summary-loading');
         this.loadingEl.createEl('div', { cls: 'dot-pulse' });
+        const cancelButton = this.loadingEl.createEl('button', { 
+            text: 'Cancel',
+            cls: 'summary-cancel-button'
+        });
+        cancelButton.addEventListener('click', () => this.cancelGeneration());
         this.loadingEl.style.display = 'none';
 
         // Create content container
@@ -162,40 +174,120 @@ export class SummaryView extends ItemView {
 
         this.currentContent = content;
         this.currentFile = file;
+        this.currentSummary = '';
+        this.currentModel = null;
+        
+        // Only one summary streams at a time; starting a new one stops the previous request
+        this.abortController?.abort();
+        const controller = new AbortController();
+        this.abortController = controller;
+        let partialSummary = '';
         
         // Show loading indicator
         this.summaryContentEl.empty();
         this.loadingEl.style.display = 'flex';
         
         try {
-            // Generate summary with the selected level
-            this.currentSummary = await this.summaryService.summarize(
+            // Stream the summary with the selected level, re-rendering as text arrives
+            const summary = await this.summaryService.summarizeStream(
                 content, 
-                this.currentLevel
+                this.currentLevel,
+                (partial: string, served?: ServedModel) => {
+                    partialSummary = partial;
+                    this.currentModel = served ?? null;
+                    this.scheduleRender(partial, file);
+                },
+                controller.signal
             );
             
-            // Display the summary
-            this.summaryContentEl.empty();
+            if (this.abortController !== controller) return;
             
-            if (file) {
-                const sourceEl = this.summaryContentEl.createEl('div', { cls: 'summary-source' });
-                sourceEl.createEl('small', { 
-                    text: `Summarized from: ${file.basename}` 
+            this.cancelScheduledRender();
+            this.currentSummary = summary;
+            this.renderSummary(summary, file);
+        } catch (error) {
+            if (this.abortController !== controller) return;
+            
+            this.cancelScheduledRender();
+            
+            if (controller.signal.aborted) {
+                // Keep what was generated on screen, but don't treat it as a saveable summary
+                this.renderSummary(partialSummary, file);
+                this.summaryContentEl.createEl('p', { 
+                    text: 'Summary generation cancelled.',
+                    cls: 'summary-cancelled'
                 });
-                this.summaryContentEl.createEl('hr');
+                return;
             }
             
-            const formattedSummary = this.formatSummaryContent(this.currentSummary);
-            this.summaryContentEl.appendChild(formattedSummary);
-        } catch (error) {
             this.summaryContentEl.empty();
             this.summaryContentEl.createEl('p', { 
                 text: `Error generating summary: ${error.message}`,
                 cls: 'summary-error'
             });
         } finally {
-            // Hide loading indicator
-            this.loadingEl.style.display = 'none';
+            if (this.abortController === controller) {
+                this.abortController = null;
+                // Hide loading indicator
+                this.loadingEl.style.display = 'none';
+            }
+        }
+    }
+
+    /**
+     * Cancels the summary currently being generated, if any
+     */
+    public cancelGeneration(): void {
+        this.abortController?.abort();
+    }
+
+    /**
+     * Renders the summary, with a reference to its source file
+     * @param summary The summary markdown to render
+     * @param file The file the summary was generated from
+     */
+    private renderSummary(summary: string, file: TFile | null): void {
+        this.summaryContentEl.empty();
+        
+        if (file) {
+            const sourceEl = this.summaryContentEl.createEl('div', { cls: 'summary-source' });
+            sourceEl.createEl('small', { 
+                text: `Summarized from: ${file.basename}` 
+            });
+            
+            // Label the model, which may be a fallback rather than the one in settings
+            if (this.currentModel) {
+                sourceEl.createEl('small', { 
+                    text: ` · ${this.currentModel.model}`,
+                    cls: 'summary-model'
+                });
+            }
+            this.summaryContentEl.createEl('hr');
+        }
+        
+        const formattedSummary = this.formatSummaryContent(summary);
+        this.summaryContentEl.appendChild(formattedSummary);
+    }
+
+    /**
+     * Re-renders a partial summary at most every 100ms, since rendering markdown
+     * on every streamed token would stall the view on long summaries
+     */
+    private scheduleRender(summary: string, file: TFile | null): void {
+        this.pendingRender = summary;
+        
+        if (this.renderTimer !== null) return;
+        
+        this.renderTimer = window.setTimeout(() => {
+            this.renderTimer = null;
+            this.renderSummary(this.pendingRender, file);
+        }, 100);
+    }
+
+    private cancelScheduledRender(): void {
+        if (this.renderTimer !== null) {
+            window.clearTimeout(this.renderTimer);
+            this.renderTimer = null;
         }
     }
 
@@ -203,8 +295,12 @@ export class SummaryView extends ItemView {
         const fragment = document.createDocumentFragment();
         const tempDiv = document.createElement('div');
         
+        this.renderComponent?.unload();
+        this.renderComponent = new Component();
+        this.renderComponent.load();
+        
         // Render markdown content properly using the imported MarkdownRenderer
-        MarkdownRenderer.renderMarkdown(summary, tempDiv, '', this);
+        MarkdownRenderer.renderMarkdown(summary, tempDiv, '', this.renderComponent);
         
         while (tempDiv.firstChild) {
             fragment.appendChild(tempDiv.firstChild);
@@ -261,6 +357,9 @@ export class SummaryView extends ItemView {
     }
 
     async onClose(): Promise<void> {
-        // Clean up resources if needed
+        this.cancelGeneration();
+        this.cancelScheduledRender();
+        this.renderComponent?.unload();
+        this.renderComponent = null;
     }
 }
@@ -0,0 +1,142 @@
+import { ItemView, WorkspaceLeaf, ButtonComponent } from 'obsidian';
+import { UsageLedger, UsageTotals } from '../services/usage-ledger';
+
+export const USAGE_REPORT_VIEW_TYPE = 'obsidian-link-usage-report-view';
+
+/**
+ * Format a cost in USD, keeping sub-cent amounts visible
+ * @param costUsd The cost in USD
+ * @returns The formatted cost
+ */
+export function formatCost(costUsd: number): string {
+    return costUsd > 0 && costUsd < 0.01 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+}
+
+/**
+ * Format a token count compactly (e.g., 12.3k, 1.2M)
+ * @param tokens The number of tokens
+ * @returns The formatted count
+ */
+export function formatTokens(tokens: number): string {
+    if (tokens >= 1_000_000) {
+        return `${(tokens / 1_000_000).toFixed(1)}M`;
+    }
+    if (tokens >= 1000) {
+        return `${(tokens / 1000).toFixed(1)}k`;
+    }
+    return String(tokens);
+}
+
+/**
+ * Sidebar view showing recorded AI usage per day, feature and model
+ */
+export class UsageReportView extends ItemView {
+    private ledger = UsageLedger.getInstance();
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(leaf: WorkspaceLeaf) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return USAGE_REPORT_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'AI Usage Report';
+    }
+
+    getIcon(): string {
+        return 'bar-chart';
+    }
+
+    async onOpen(): Promise<void> {
+        // Keep the report current while requests are being made
+        this.unsubscribe = this.ledger.onChange(() => this.render());
+        this.render();
+    }
+
+    async onClose(): Promise<void> {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    /**
+     * Render the totals and the per-day, per-feature and per-model tables
+     */
+    private render(): void {
+        const { containerEl } = this;
+        containerEl.empty();
+        containerEl.addClass('obsidian-link-usage-report');
+
+        containerEl.createEl('h3', { text: 'AI Usage' });
+
+        const today = this.ledger.getDateKey(new Date());
+        const monthStart = `${today.slice(0, 7)}-01`;
+        const summaryEl = containerEl.createDiv('usage-summary');
+        this.renderSummaryItem(summaryEl, 'Today', this.ledger.getTotals(today));
+        this.renderSummaryItem(summaryEl, 'This month', this.ledger.getTotals(monthStart));
+        this.renderSummaryItem(summaryEl, 'All time', this.ledger.getTotals());
+
+        const daily = this.ledger.getDailyBreakdown();
+        if (daily.length === 0) {
+            containerEl.createEl('p', {
+                text: 'No AI requests recorded yet.',
+                cls: 'usage-empty'
+            });
+            return;
+        }
+
+        containerEl.createEl('h4', { text: 'By feature' });
+        this.renderTable(containerEl, 'Feature', this.ledger.getFeatureBreakdown().map(row => [row.feature, row.totals]));
+
+        containerEl.createEl('h4', { text: 'By model' });
+        this.renderTable(containerEl, 'Model', this.ledger.getModelBreakdown().map(row => [row.model, row.totals]));
+
+        containerEl.createEl('h4', { text: 'By day' });
+        this.renderTable(containerEl, 'Date', daily.map(row => [row.date, row.totals]));
+
+        const totals = this.ledger.getTotals();
+        if (totals.estimatedRequests > 0) {
+            containerEl.createEl('p', {
+                text: `* ${totals.estimatedRequests} of ${totals.requests} requests have token counts estimated from text length because the vendor did not report usage.`,
+                cls: 'usage-note'
+            });
+        }
+
+        const buttonContainer = containerEl.createDiv('usage-buttons');
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Reset usage')
+            .onClick(() => {
+                if (confirm('Clear all recorded AI usage?')) {
+                    this.ledger.reset();
+                }
+            });
+    }
+
+    private renderSummaryItem(containerEl: HTMLElement, label: string, totals: UsageTotals): void {
+        const itemEl = containerEl.createDiv('usage-summary-item');
+        itemEl.createDiv({ text: label, cls: 'usage-summary-label' });
+        itemEl.createDiv({ text: formatCost(totals.costUsd), cls: 'usage-summary-cost' });
+        itemEl.createDiv({
+            text: `${formatTokens(totals.promptTokens + totals.completionTokens)} tokens, ${totals.requests} requests`,
+            cls: 'usage-summary-detail'
+        });
+    }
+
+    private renderTable(containerEl: HTMLElement, label: string, rows: Array<[string, UsageTotals]>): void {
+        const table = containerEl.createEl('table', { cls: 'usage-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        [label, 'Requests', 'Input', 'Output', 'Cost'].forEach(heading => headerRow.createEl('th', { text: heading }));
+
+        const body = table.createEl('tbody');
+        for (const [name, totals] of rows) {
+            const row = body.createEl('tr');
+            row.createEl('td', { text: totals.estimatedRequests > 0 ? `${name} *` : name });
+            row.createEl('td', { text: String(totals.requests) });
+            row.createEl('td', { text: formatTokens(totals.promptTokens) });
+            row.createEl('td', { text: formatTokens(totals.completionTokens) });
+            row.createEl('td', { text: formatCost(totals.costUsd) });
+        }
+    }
+}
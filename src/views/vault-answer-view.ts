@@ -0,0 +1,253 @@
+import { ItemView, WorkspaceLeaf, Notice, ButtonComponent, MarkdownRenderer, getLinkpath } from 'obsidian';
+import { SearchService, AnswerSource } from '../services/search';
+import { HighlighterService } from '../services/highlighter';
+
+export const VAULT_ANSWER_VIEW_TYPE = 'obsidian-link-vault-answer-view';
+
+export class VaultAnswerView extends ItemView {
+    protected searchService: SearchService;
+    protected highlighter: HighlighterService;
+    protected inputEl: HTMLTextAreaElement;
+    protected loadingEl: HTMLElement;
+    protected loadingTextEl: HTMLElement;
+    protected answerEl: HTMLElement;
+    protected sourcesEl: HTMLElement;
+    protected sources: AnswerSource[] = [];
+    protected abortController: AbortController | null = null;
+    private renderTimer: number | null = null;
+    private pendingRender: string = '';
+
+    constructor(leaf: WorkspaceLeaf, searchService: SearchService, highlighter: HighlighterService) {
+        super(leaf);
+        this.searchService = searchService;
+        this.highlighter = highlighter;
+    }
+
+    getViewType(): string {
+        return VAULT_ANSWER_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Ask Your Vault';
+    }
+
+    getIcon(): string {
+        return 'message-circle-question';
+    }
+
+    async onOpen(): Promise<void> {
+        const { containerEl } = this;
+        containerEl.empty();
+        containerEl.addClass('obsidian-link-vault-answer-view');
+
+        // Create question input; Enter asks, Shift+Enter starts a new line
+        const inputContainer = containerEl.createDiv('vault-answer-input-container');
+        this.inputEl = inputContainer.createEl('textarea', {
+            cls: 'vault-answer-input',
+            attr: { placeholder: 'Ask a question about your notes...', rows: '2' }
+        });
+        this.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+            if (event.key === 'Enter' && !event.shiftKey) {
+                event.preventDefault();
+                this.ask(this.inputEl.value);
+            }
+        });
+
+        new ButtonComponent(inputContainer)
+            .setButtonText('Ask')
+            .setCta()
+            .onClick(() => this.ask(this.inputEl.value));
+
+        // Create loading indicator
+        this.loadingEl = containerEl.createDiv('summary-loading');
+        this.loadingEl.createEl('div', { cls: 'dot-pulse' });
+        this.loadingTextEl = this.loadingEl.createEl('span');
+        const cancelButton = this.loadingEl.createEl('button', {
+            text: 'Cancel',
+            cls: 'summary-cancel-button'
+        });
+        cancelButton.addEventListener('click', () => this.cancelGeneration());
+        this.loadingEl.style.display = 'none';
+
+        // Create answer and sources containers
+        const resultsEl = containerEl.createDiv('vault-answer-container');
+        this.answerEl = resultsEl.createDiv('vault-answer-content');
+        this.answerEl.createEl('p', {
+            text: 'Ask a question to get an answer drawn from your notes, with links to the passages it is based on.',
+            cls: 'vault-answer-empty'
+        });
+        this.sourcesEl = resultsEl.createDiv('vault-answer-sources');
+
+        // Citations are rendered as internal links; open them on the cited passage
+        this.answerEl.addEventListener('click', (event: MouseEvent) => {
+            const link = (event.target as HTMLElement).closest('a.internal-link');
+            const linktext = link?.getAttribute('data-href') ?? link?.getAttribute('href');
+            if (linktext) {
+                event.preventDefault();
+                this.openCitation(linktext);
+            }
+        });
+    }
+
+    /**
+     * Answers a question from the vault, showing the sources as soon as they are found
+     * @param question The question to answer
+     */
+    public async ask(question: string): Promise<void> {
+        question = question.trim();
+        if (!question) {
+            return;
+        }
+
+        this.inputEl.value = question;
+
+        // Only one answer streams at a time; asking again stops the previous one
+        this.abortController?.abort();
+        const controller = new AbortController();
+        this.abortController = controller;
+        let partialAnswer = '';
+
+        this.sources = [];
+        this.answerEl.empty();
+        this.sourcesEl.empty();
+        this.loadingTextEl.setText('Finding relevant notes...');
+        this.loadingEl.style.display = 'flex';
+
+        try {
+            const sources = await this.searchService.findAnswerSources(question, controller.signal);
+            if (this.abortController !== controller) return;
+
+            this.sources = sources;
+            if (sources.length === 0) {
+                this.answerEl.createEl('p', { text: 'No relevant notes found for this question.', cls: 'vault-answer-empty' });
+                return;
+            }
+            this.renderSources();
+
+            this.loadingTextEl.setText('Writing answer...');
+            const answer = await this.searchService.answerStream(
+                question,
+                sources,
+                (partial: string) => {
+                    partialAnswer = partial;
+                    this.scheduleRender(partial);
+                },
+                controller.signal
+            );
+            if (this.abortController !== controller) return;
+
+            this.cancelScheduledRender();
+            this.renderAnswer(answer);
+        } catch (error) {
+            if (this.abortController !== controller) return;
+
+            this.cancelScheduledRender();
+
+            if (controller.signal.aborted) {
+                this.renderAnswer(partialAnswer);
+                this.answerEl.createEl('p', { text: 'Answer cancelled.', cls: 'summary-cancelled' });
+                return;
+            }
+
+            this.answerEl.empty();
+            this.answerEl.createEl('p', {
+                text: `Error answering question: ${error.message}`,
+                cls: 'summary-error'
+            });
+        } finally {
+            if (this.abortController === controller) {
+                this.abortController = null;
+                this.loadingEl.style.display = 'none';
+            }
+        }
+    }
+
+    /**
+     * Cancels the answer currently being generated, if any
+     */
+    public cancelGeneration(): void {
+        this.abortController?.abort();
+    }
+
+    private renderAnswer(answer: string): void {
+        this.answerEl.empty();
+        MarkdownRenderer.renderMarkdown(answer, this.answerEl, '', this);
+    }
+
+    /**
+     * List the passages the answer may cite, each opening its note on the passage
+     */
+    private renderSources(): void {
+        this.sourcesEl.empty();
+        this.sourcesEl.createEl('h4', { text: 'Sources' });
+
+        for (const source of this.sources) {
+            const sourceEl = this.sourcesEl.createDiv('vault-answer-source');
+            sourceEl.createEl('div', {
+                text: source.heading ? `${source.file.basename} › ${source.heading}` : source.file.basename,
+                cls: 'vault-answer-source-title'
+            });
+            sourceEl.createEl('div', {
+                text: source.section.length > 200 ? `${source.section.substring(0, 200)}...` : source.section,
+                cls: 'vault-answer-source-passage'
+            });
+            sourceEl.addEventListener('click', () => this.openSource(source));
+        }
+    }
+
+    /**
+     * Re-renders a partial answer at most every 100ms, since rendering markdown
+     * on every streamed token would stall the view on long answers
+     */
+    private scheduleRender(answer: string): void {
+        this.pendingRender = answer;
+
+        if (this.renderTimer !== null) return;
+
+        this.renderTimer = window.setTimeout(() => {
+            this.renderTimer = null;
+            this.renderAnswer(this.pendingRender);
+        }, 100);
+    }
+
+    private cancelScheduledRender(): void {
+        if (this.renderTimer !== null) {
+            window.clearTimeout(this.renderTimer);
+            this.renderTimer = null;
+        }
+    }
+
+    /**
+     * Open a citation from the answer, on its passage when it names one of the sources
+     * @param linktext The link target, e.g. "Note#Heading"
+     */
+    private async openCitation(linktext: string): Promise<void> {
+        const target = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(linktext), '');
+        const source = this.sources.find(candidate => candidate.link === linktext)
+            ?? this.sources.find(candidate => candidate.file === target);
+
+        if (source) {
+            await this.openSource(source);
+        } else {
+            await this.app.workspace.openLinkText(linktext, '', false);
+        }
+    }
+
+    /**
+     * Open a source note and highlight the passage the answer drew on
+     */
+    private async openSource(source: AnswerSource): Promise<void> {
+        try {
+            this.searchService.storeHighlightInfo(source.file.path, [], source.section);
+            await this.app.workspace.getLeaf().openFile(source.file);
+            await this.highlighter.highlightFile(source.file);
+        } catch (error) {
+            new Notice(`Failed to open ${source.file.basename}: ${error.message}`);
+        }
+    }
+
+    async onClose(): Promise<void> {
+        this.cancelGeneration();
+        this.cancelScheduledRender();
+    }
+}
@@ -1,5 +1,7 @@
 import { App, Modal, Notice, Setting } from 'obsidian';
 import { WebScraperService } from '../services/web-scraper';
+import { LoadingModal } from '../modals/loading-modal';
+import { isAbortError } from '../utils/ai-providers';
 
 export class WebScraperModal extends Modal {
     private url: string = '';
@@ -47,8 +49,10 @@ export class WebScraperModal extends Modal {
 
     private async scrapeUrl() {
         try {
-            const content = await this.webScraper.scrapeWebsite(this.url);
-            // Create a new note with the scraped content
+            const content = await LoadingModal.run(this.app, 'Scraping website...', signal =>
+                this.webScraper.scrapeWebsite(this.url, signal)
+            );
+            // Create a new note with the scraped content, only once scraping has fully completed
             const fileName = this.url.replace(/^https?:\/\//, '').replace(/[^a-zA-Z0-9]/g, '-');
             const filePath = `${fileName}.md`;
             
@@ -56,6 +60,10 @@ export class WebScraperModal extends Modal {
             new Notice(`Scraped content saved to ${filePath}`);
             this.close();
         } catch (error) {
+            if (isAbortError(error)) {
+                new Notice('Scraping cancelled');
+                return;
+            }
             console.error('Error scraping URL:', error);
             new Notice(`Failed to scrape URL: ${error.message}`);
         }